@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import { GameProvider, useGame } from './contexts/GameContext';
+import { I18nProvider } from './contexts/I18nContext';
+import { SettingsProvider } from './contexts/SettingsContext';
+import { useI18n } from './hooks/useI18n';
 import { useToast } from './hooks/useToast';
+import { useBoardAnimations } from './hooks/useBoardAnimations';
+import { useSettings } from './hooks/useSettings';
+import { useCandidates } from './hooks/useCandidates';
 import ErrorBoundary from './components/ErrorBoundary';
 import LoadingSpinner from './components/LoadingSpinner';
 import ResponsiveContainer from './components/ResponsiveContainer';
@@ -9,74 +15,252 @@ import MobileInfoBar from './components/MobileInfoBar';
 import DynamicGameBoard from './components/DynamicGameBoard';
 import Keyboard from './components/Keyboard';
 import ResultModal from './components/ResultModal';
+import ArchiveBrowser from './components/ArchiveBrowser';
+import SettingsModal from './components/SettingsModal';
+import CandidatesPanel from './components/CandidatesPanel';
+import CustomPuzzleCreator from './components/CustomPuzzleCreator';
 import { ToastContainer } from './components/Toast';
+import LiveAnnouncer from './components/LiveAnnouncer';
+import { getBoardGuesses, getBoardLayout } from './lib/multiBoard';
+import { getRevealedFeedback } from './lib/animations';
+import { canExploreCandidates } from './lib/candidates';
+import { clearCustomPuzzleUrl, parseCustomPuzzleUrl } from './lib/customPuzzle';
+import { registerServiceWorker } from './lib/serviceWorker';
+import { announce, describeLatestGuess, describeTimeToNextWord } from './lib/announcer';
+import { DEFAULT_LANGUAGE, sanitizeGuessInput } from './lib/languages';
+import type { GameState, Hint, HintTier } from './types/game';
 import './App.css';
 
 const GameContent: React.FC = () => {
-  const { gameState, submitGuess, updateCurrentGuess, resetGame, getHint, isLoading, error } = useGame();
+  const {
+    gameState,
+    submitGuess,
+    updateCurrentGuess,
+    resetGame,
+    nextPracticeGame,
+    getHint,
+    hintAvailable,
+    setHardMode,
+    statistics,
+    hourStats,
+    isOffline,
+    offlineMismatches,
+    config,
+    setWordLength,
+    setLanguage,
+    setBoardCount,
+    setMode,
+    playArchiveHour,
+    isLoading,
+    error
+  } = useGame();
   const { toasts, showToast, removeToast } = useToast();
+  const { t, locale } = useI18n();
+  const { settings } = useSettings();
+  // Notices below fire once per event; switching locale must not repeat them
+  const tRef = React.useRef(t);
+  const hourIdRef = React.useRef<string | null>(null);
   const [showResultModal, setShowResultModal] = useState(false);
-  const [hintUsed, setHintUsed] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showPuzzleCreator, setShowPuzzleCreator] = useState(false);
+  const [includeAllowedWords, setIncludeAllowedWords] = useState(false);
+  const language = config.language ?? DEFAULT_LANGUAGE;
+  const {
+    revealingGuess,
+    revealedTiles,
+    bouncingGuess,
+    shaking,
+    revealGuess,
+    shakeRow
+  } = useBoardAnimations(config.wordLength);
 
-  // Reset hintUsed when the word changes (new hour)
-  React.useEffect(() => {
-    setHintUsed(false);
-  }, [gameState.currentWord]);
-
-  const handleHint = async () => {
-    if (hintUsed) return;
-    const hint = await getHint();
-    if (hint) {
-      updateCurrentGuess(hint);
-      setHintUsed(true);
+  // The explorer follows the first board still being played
+  const exploredBoardIndex = gameState.boards.findIndex(board => board.solvedAt === null);
+  const exploredBoard = gameState.boards[exploredBoardIndex];
+  const showCandidates = settings.showCandidates
+    && canExploreCandidates(config.mode, gameState.hardMode)
+    && gameState.gameStatus === 'playing'
+    && exploredBoard !== undefined;
+  // Words are ruled out once the tiles of the last guess have turned over
+  const exploredFeedback = exploredBoard && revealingGuess === exploredBoard.feedback.length
+    ? exploredBoard.feedback.slice(0, -1)
+    : exploredBoard?.feedback ?? [];
+  const { candidates, frequencies } = useCandidates(exploredFeedback, {
+    wordLength: config.wordLength,
+    dictionaryVersion: gameState.dictionaryVersion,
+    language,
+    includeAllowed: includeAllowedWords,
+    enabled: showCandidates
+  });
+
+  const handleHint = async (tier: HintTier) => {
+    if (!hintAvailable) return;
+    const hint = await getHint(tier);
+    if (!hint) {
+      showToast(t('hint.unavailable'), 'info');
+      return;
     }
-    // If no hint, do nothing
+    // The best probe is typed in for the player to submit or change
+    if (hint.tier === 'probe') {
+      updateCurrentGuess(hint.word);
+    }
+    showToast(describeHint(hint), 'info', 6000);
+  };
+
+  const describeHint = (hint: Hint): string => {
+    switch (hint.tier) {
+      case 'count':
+        return t('hint.count', { count: hint.candidates });
+      case 'letter':
+        return t('hint.letter', { letter: hint.letter });
+      case 'position':
+        return t('hint.position', { letter: hint.letter, position: hint.position + 1 });
+      case 'probe':
+        return t('hint.probe', { word: hint.word, count: hint.candidates });
+    }
+  };
+
+  const handleSelectCandidate = (word: string) => {
+    if (revealingGuess !== null) return;
+    updateCurrentGuess(word);
   };
 
   const handleKeyPress = async (key: string) => {
+    // Typing waits until the tiles of the last guess have turned over
+    if (revealingGuess !== null) return;
+
     if (key === 'ENTER') {
-      if (gameState.currentGuess.length === 5) {
+      if (gameState.currentGuess.length === config.wordLength) {
         const result = await submitGuess(gameState.currentGuess);
         if (!result.success && result.error) {
           showToast(result.error, 'error');
-        } else if (result.success && gameState.gameStatus !== 'playing') {
-          // Game ended, show result modal after a brief delay
-          setTimeout(() => setShowResultModal(true), 1000);
+          announce(result.error, 'assertive');
+          shakeRow();
+        } else if (result.state) {
+          announceGuess(result.state);
+          const guess = result.state.guesses.length;
+          await revealGuess(guess, result.state.boards.some(board => board.solvedAt === guess));
+          if (result.state.gameStatus !== 'playing') {
+            setShowResultModal(true);
+          }
         }
       }
     } else if (key === 'BACKSPACE') {
       if (gameState.currentGuess.length > 0) {
         updateCurrentGuess(gameState.currentGuess.slice(0, -1));
       }
-    } else if (key.match(/^[A-Z]$/)) {
-      if (gameState.currentGuess.length < 5) {
+    } else if (key.length === 1 && sanitizeGuessInput(key, language) === key) {
+      if (gameState.currentGuess.length < config.wordLength) {
         updateCurrentGuess(gameState.currentGuess + key);
       }
     }
   };
 
+  // Read out the letters of the guess, and how the game ended once it is over
+  const announceGuess = (state: GameState) => {
+    let message = describeLatestGuess(state, config.maxGuesses, locale);
+    if (state.gameStatus !== 'playing' && config.mode === 'hourly') {
+      message += ` ${describeTimeToNextWord(state.timeToNextHour, locale)}`;
+    }
+    announce(message);
+  };
+
+  const handleHardModeChange = (enabled: boolean) => {
+    if (!setHardMode(enabled)) {
+      showToast(t('app.hardModeLocked'), 'warning');
+    }
+  };
+
   const handleNewGame = async () => {
     await resetGame();
     setShowResultModal(false);
-    setHintUsed(false);
-    showToast('New game started!', 'success');
+    showToast(t('app.newGameStarted'), 'success');
+  };
+
+  const handleNextPracticeGame = async () => {
+    setShowResultModal(false);
+    await nextPracticeGame();
+  };
+
+  const handleOpenArchive = () => {
+    setShowResultModal(false);
+    setShowArchive(true);
+  };
+
+  const handleSelectArchiveHour = (hourId: string) => {
+    setShowArchive(false);
+    playArchiveHour(hourId);
+  };
+
+  const handleOpenPuzzleCreator = () => {
+    setShowResultModal(false);
+    setShowPuzzleCreator(true);
   };
 
   const handleShare = () => {
-    showToast('Result copied to clipboard!', 'success');
+    showToast(t('app.resultCopied'), 'success');
   };
 
+  React.useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  // Offer a reload when a new build has been deployed
+  React.useEffect(() => {
+    registerServiceWorker(activate => {
+      showToast(tRef.current('app.updateAvailable'), 'info', 0, {
+        label: tRef.current('app.updateReload'),
+        onClick: activate
+      });
+    });
+  }, [showToast]);
+
+  // Let the player know when the word was computed without the word store
+  React.useEffect(() => {
+    if (isOffline) {
+      showToast(tRef.current('app.playingOffline'), 'info', 5000);
+    }
+  }, [isOffline, showToast]);
+
+  // A puzzle link stays in the address bar only while its puzzle is played
+  React.useEffect(() => {
+    if (config.mode !== 'custom') {
+      clearCustomPuzzleUrl();
+    }
+  }, [config.mode]);
+
+  // Hourly games restart on their own when the hour changes
+  React.useEffect(() => {
+    if (config.mode !== 'hourly') {
+      hourIdRef.current = null;
+      return;
+    }
+    if (hourIdRef.current && hourIdRef.current !== gameState.hourId) {
+      announce(tRef.current('a11y.newWordAvailable'));
+    }
+    hourIdRef.current = gameState.hourId;
+  }, [config.mode, gameState.hourId]);
+
+  React.useEffect(() => {
+    if (offlineMismatches.length > 0) {
+      showToast(tRef.current('app.offlineMismatch'), 'warning', 6000);
+    }
+  }, [offlineMismatches, showToast]);
+
   // Handle physical keyboard input
   React.useEffect(() => {
     const handlePhysicalKeyPress = (event: KeyboardEvent) => {
+      // Letters of the language, with variants such as accented vowels mapped to their key
+      const letter = event.key.length === 1 ? sanitizeGuessInput(event.key, language) : '';
+
       // Prevent default behavior for game keys
-      if (event.key.match(/^[a-zA-Z]$/) || event.key === 'Enter' || event.key === 'Backspace') {
+      if (letter || event.key === 'Enter' || event.key === 'Backspace') {
         event.preventDefault();
       }
 
-      // Convert to uppercase and handle
-      if (event.key.match(/^[a-zA-Z]$/)) {
-        handleKeyPress(event.key.toUpperCase());
+      if (letter) {
+        handleKeyPress(letter);
       } else if (event.key === 'Enter') {
         handleKeyPress('ENTER');
       } else if (event.key === 'Backspace') {
@@ -91,86 +275,188 @@ const GameContent: React.FC = () => {
     return () => {
       document.removeEventListener('keydown', handlePhysicalKeyPress);
     };
-  }, [gameState.currentGuess, gameState.gameStatus]);
+  }, [gameState.currentGuess, gameState.gameStatus, config.wordLength, language, revealingGuess]);
 
   if (isLoading) {
-    return <LoadingSpinner fullScreen message="Loading game..." />;
+    return <LoadingSpinner fullScreen message={t('app.loading')} />;
   }
 
   if (error) {
     return (
       <div className="error-container">
-        <h2>Game Error</h2>
+        <h2>{t('app.errorTitle')}</h2>
         <p>{error}</p>
-        <button onClick={() => window.location.reload()}>Reload Game</button>
+        {config.mode === 'custom' ? (
+          <button onClick={() => setMode('hourly')}>{t('custom.playHourly')}</button>
+        ) : (
+          <button onClick={() => window.location.reload()}>{t('app.reload')}</button>
+        )}
       </div>
     );
   }
 
   const isGameOver = gameState.gameStatus !== 'playing';
+  const isPractice = config.mode === 'practice';
+  // A custom puzzle fixes its language, word length and board count
+  const isCustom = config.mode === 'custom';
+  const isMultiBoard = gameState.boards.length > 1;
+  const boardLayout = getBoardLayout(gameState.boards.length);
+  // Keys take their colors as the tiles showing them flip over
+  const boardFeedback = gameState.boards.map(board => getRevealedFeedback(board.feedback, revealingGuess, revealedTiles));
+  const showNewGameButton = isPractice ? isGameOver : !isCustom && gameState.timeToNextHour <= 0;
 
   return (
     <ResponsiveContainer className="app">
       <GameInfoSidebar
         timeToNextHour={gameState.timeToNextHour}
         currentAttempt={gameState.guesses.length}
-        maxAttempts={6}
+        maxAttempts={config.maxGuesses}
         gameStatus={gameState.gameStatus}
-        onNewGame={gameState.timeToNextHour <= 0 ? handleNewGame : undefined}
-        showNewGameButton={gameState.timeToNextHour <= 0}
+        mode={config.mode}
+        onModeChange={setMode}
+        archiveHourId={config.archiveHourId}
+        onOpenArchive={handleOpenArchive}
+        customPuzzleId={config.customPuzzle?.id}
+        onCreatePuzzle={handleOpenPuzzleCreator}
+        wordLength={config.wordLength}
+        onWordLengthChange={isCustom ? undefined : setWordLength}
+        language={language}
+        onLanguageChange={isCustom ? undefined : setLanguage}
+        boardCount={config.boardCount}
+        onBoardCountChange={isCustom ? undefined : setBoardCount}
+        onOpenSettings={() => setShowSettings(true)}
+        onNewGame={isPractice ? handleNextPracticeGame : handleNewGame}
+        showNewGameButton={showNewGameButton}
         onHint={handleHint}
-        showHintButton={!hintUsed}
+        showHintButton={hintAvailable}
       />
 
       <main className="game-container">
-        <DynamicGameBoard
-          guesses={gameState.guesses}
-          currentGuess={gameState.currentGuess}
-          feedback={gameState.feedback}
-          maxGuesses={6}
-          isGameOver={isGameOver}
-        />
+        <div
+          className={`boards-grid ${isMultiBoard ? 'multi' : ''}`}
+          style={{ gridTemplateColumns: `repeat(${boardLayout.columns}, auto)` }}
+          data-testid="boards-grid"
+        >
+          {gameState.boards.map((board, index) => (
+            <DynamicGameBoard
+              key={index}
+              guesses={getBoardGuesses(board, gameState.guesses)}
+              currentGuess={gameState.currentGuess}
+              feedback={board.feedback}
+              maxGuesses={config.maxGuesses}
+              wordLength={config.wordLength}
+              isGameOver={isGameOver || board.solvedAt !== null}
+              boardColumns={boardLayout.columns}
+              isSolved={isMultiBoard && board.solvedAt !== null}
+              revealingRow={revealingGuess !== null && board.feedback.length === revealingGuess ? revealingGuess - 1 : null}
+              bouncingRow={bouncingGuess !== null && board.solvedAt === bouncingGuess ? bouncingGuess - 1 : null}
+              shaking={shaking}
+            />
+          ))}
+        </div>
 
         <Keyboard
           onKeyPress={handleKeyPress}
           disabled={isGameOver}
-          allFeedback={gameState.feedback}
+          allFeedback={boardFeedback.flat()}
+          boardFeedback={isMultiBoard ? boardFeedback : undefined}
           currentGuess={gameState.currentGuess}
-          maxGuessLength={5}
+          maxGuessLength={config.wordLength}
+          language={language}
         />
+
+        {showCandidates && (
+          <CandidatesPanel
+            candidates={candidates}
+            frequencies={frequencies}
+            boardNumber={isMultiBoard ? exploredBoardIndex + 1 : undefined}
+            includeAllowed={includeAllowedWords}
+            onIncludeAllowedChange={setIncludeAllowedWords}
+            onSelectWord={handleSelectCandidate}
+          />
+        )}
       </main>
 
       <MobileInfoBar
         timeToNextHour={gameState.timeToNextHour}
         currentAttempt={gameState.guesses.length}
-        maxAttempts={6}
+        maxAttempts={config.maxGuesses}
         gameStatus={gameState.gameStatus}
+        mode={config.mode}
+        onModeChange={setMode}
+        onOpenArchive={handleOpenArchive}
+        onCreatePuzzle={handleOpenPuzzleCreator}
+        onOpenSettings={() => setShowSettings(true)}
       />
 
       <ResultModal
         isOpen={showResultModal}
         gameStatus={gameState.gameStatus as 'won' | 'lost'}
-        secretWord={gameState.currentWord}
+        secretWord={gameState.boards[0]?.word ?? ''}
         attempts={gameState.guesses.length}
-        maxAttempts={6}
-        feedback={gameState.feedback}
+        maxAttempts={config.maxGuesses}
+        hardMode={gameState.hardMode}
+        hintTier={gameState.hintTier}
+        mode={config.mode}
+        feedback={gameState.boards[0]?.feedback ?? []}
+        guesses={gameState.guesses}
+        boards={gameState.boards}
+        wordLength={config.wordLength}
+        dictionaryVersion={gameState.dictionaryVersion}
+        language={language}
+        customPuzzle={config.customPuzzle}
+        statistics={statistics}
+        hourStats={hourStats}
         timeToNextHour={gameState.timeToNextHour}
         onClose={() => setShowResultModal(false)}
         onShare={handleShare}
+        onNextPracticeGame={handleNextPracticeGame}
+        onOpenArchive={handleOpenArchive}
+        onCreatePuzzle={handleOpenPuzzleCreator}
+      />
+
+      <ArchiveBrowser
+        isOpen={showArchive}
+        config={config}
+        onSelectHour={handleSelectArchiveHour}
+        onClose={() => setShowArchive(false)}
+      />
+
+      <CustomPuzzleCreator
+        key={language}
+        isOpen={showPuzzleCreator}
+        language={language}
+        onClose={() => setShowPuzzleCreator(false)}
+      />
+
+      <SettingsModal
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        hardMode={gameState.hardMode}
+        hardModeLocked={isMultiBoard || gameState.guesses.length > 0 || isGameOver}
+        onHardModeChange={handleHardModeChange}
       />
 
       <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <LiveAnnouncer />
     </ResponsiveContainer>
   );
 };
 
 const App: React.FC = () => {
+  // Read once; the link is cleared from the address bar when the player moves on
+  const [customPuzzle] = useState(() => parseCustomPuzzleUrl(window.location.href));
+
   return (
-    <ErrorBoundary>
-      <GameProvider>
-        <GameContent />
-      </GameProvider>
-    </ErrorBoundary>
+    <SettingsProvider>
+      <I18nProvider>
+        <ErrorBoundary>
+          <GameProvider customPuzzle={customPuzzle}>
+            <GameContent />
+          </GameProvider>
+        </ErrorBoundary>
+      </I18nProvider>
+    </SettingsProvider>
   );
 };
 
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { GameConfig } from '../types/game';
+import { ARCHIVE_DAYS, getArchiveDayHourIds, loadArchiveStatuses } from '../lib/archive';
+import type { ArchiveHourStatus } from '../lib/archive';
+import { formatHourId, hourIdToDate, hourIdUtc, millisecondsToNextHour } from '../lib/timeUtils';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import './ArchiveBrowser.css';
+
+interface ArchiveBrowserProps {
+  isOpen: boolean;
+  config: GameConfig;
+  onSelectHour: (hourId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ArchiveHourStatus, MessageKey> = {
+  'won': 'archive.status.won',
+  'lost': 'archive.status.lost',
+  'in-progress': 'archive.status.inProgress',
+  'not-attempted': 'archive.status.notAttempted',
+  'unavailable': 'archive.status.unavailable'
+};
+
+export const ArchiveBrowser: React.FC<ArchiveBrowserProps> = ({
+  isOpen,
+  config,
+  onSelectHour,
+  onClose
+}) => {
+  const [dayOffset, setDayOffset] = useState(0);
+  const [currentHourId, setCurrentHourId] = useState(() => hourIdUtc());
+  const { t, locale } = useI18n();
+
+  // Follow the clock while open so the day and available hours roll over
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setCurrentHourId(hourIdUtc());
+    const timer = setTimeout(() => setCurrentHourId(hourIdUtc()), millisecondsToNextHour());
+    return () => clearTimeout(timer);
+  }, [isOpen, currentHourId]);
+
+  const hourIds = useMemo(
+    () => getArchiveDayHourIds(dayOffset, hourIdToDate(currentHourId)),
+    [dayOffset, currentHourId]
+  );
+  const statuses = useMemo(
+    () => (isOpen ? loadArchiveStatuses(config, hourIds, hourIdToDate(currentHourId)) : {}),
+    [isOpen, config, hourIds, currentHourId]
+  );
+
+  // Reopen on today next time
+  const handleClose = () => {
+    setDayOffset(0);
+    onClose();
+  };
+
+  const handleSelectHour = (hourId: string) => {
+    setDayOffset(0);
+    onSelectHour(hourId);
+  };
+
+  if (!isOpen) return null;
+
+  const dayLabel = hourIdToDate(hourIds[0]).toLocaleDateString(locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+
+  return (
+    <div className="archive-overlay" data-testid="archive-browser">
+      <div className="archive-content" role="dialog" aria-label={t('archive.dialog')}>
+        <button
+          className="archive-close"
+          onClick={handleClose}
+          aria-label={t('archive.close')}
+          data-testid="close-archive"
+        >
+          ×
+        </button>
+
+        <h2 className="archive-title">{t('archive.title')}</h2>
+
+        <div className="archive-day-nav">
+          <button
+            className="archive-day-button"
+            onClick={() => setDayOffset(offset => offset + 1)}
+            disabled={dayOffset >= ARCHIVE_DAYS - 1}
+            aria-label={t('archive.previousDay')}
+            data-testid="archive-previous-day"
+          >
+            ‹
+          </button>
+          <div className="archive-day-label" data-testid="archive-day-label">{t('archive.day', { day: dayLabel })}</div>
+          <button
+            className="archive-day-button"
+            onClick={() => setDayOffset(offset => offset - 1)}
+            disabled={dayOffset === 0}
+            aria-label={t('archive.nextDay')}
+            data-testid="archive-next-day"
+          >
+            ›
+          </button>
+        </div>
+
+        <div className="archive-grid">
+          {hourIds.map(hourId => {
+            const status = statuses[hourId] ?? 'unavailable';
+            const label = t('archive.hour', { hour: formatHourId(hourId, locale), status: t(STATUS_LABELS[status]) });
+            return (
+              <button
+                key={hourId}
+                className={`archive-hour ${status}`}
+                onClick={() => handleSelectHour(hourId)}
+                disabled={status === 'unavailable'}
+                title={label}
+                aria-label={label}
+                data-testid={`archive-hour-${hourId}`}
+              >
+                {hourId.slice(8, 10)}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="archive-legend">
+          {(['won', 'lost', 'in-progress', 'not-attempted'] as const).map(status => (
+            <span key={status} className="archive-legend-item">
+              <span className={`archive-legend-swatch ${status}`} />
+              {t(STATUS_LABELS[status])}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveBrowser;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+import './CandidatesPanel.css';
+
+// Words listed at most; the count above the list covers the rest
+export const MAX_LISTED_CANDIDATES = 100;
+
+interface CandidatesPanelProps {
+  // Words that still fit, or null while the word list loads
+  candidates: string[] | null;
+  // Letter counts per position over the candidates
+  frequencies: Map<string, number>[];
+  // Board the words belong to in multi-board games, counted from 1
+  boardNumber?: number;
+  includeAllowed: boolean;
+  onIncludeAllowedChange: (includeAllowed: boolean) => void;
+  onSelectWord: (word: string) => void;
+}
+
+export const CandidatesPanel: React.FC<CandidatesPanelProps> = ({
+  candidates,
+  frequencies,
+  boardNumber,
+  includeAllowed,
+  onIncludeAllowedChange,
+  onSelectWord
+}) => {
+  const { t } = useI18n();
+  const letters = Array.from(new Set(frequencies.flatMap(counts => Array.from(counts.keys())))).sort();
+  const total = candidates?.length ?? 0;
+
+  return (
+    <section className="candidates-panel" aria-label={t('candidates.title')} data-testid="candidates-panel">
+      <div className="candidates-header">
+        <h3 className="candidates-title">
+          {t('candidates.title')}
+          {boardNumber !== undefined && ` · ${t('candidates.board', { board: boardNumber })}`}
+        </h3>
+        <label className="candidates-option">
+          <input
+            type="checkbox"
+            checked={includeAllowed}
+            onChange={(event) => onIncludeAllowedChange(event.target.checked)}
+            data-testid="candidates-include-allowed"
+          />
+          {t('candidates.includeAllowed')}
+        </label>
+      </div>
+
+      {candidates === null ? (
+        <p className="candidates-count">{t('candidates.loading')}</p>
+      ) : (
+        <>
+          <p className="candidates-count" aria-live="polite" data-testid="candidates-count">
+            {t('candidates.count', { count: total })}
+          </p>
+
+          <ul className="candidates-list">
+            {candidates.slice(0, MAX_LISTED_CANDIDATES).map(word => (
+              <li key={word}>
+                <button
+                  className="candidate-word"
+                  onClick={() => onSelectWord(word.toUpperCase())}
+                  aria-label={t('candidates.pick', { word: word.toUpperCase() })}
+                  data-testid={`candidate-${word}`}
+                >
+                  {word.toUpperCase()}
+                </button>
+              </li>
+            ))}
+            {total > MAX_LISTED_CANDIDATES && (
+              <li className="candidates-more">{t('candidates.more', { count: total - MAX_LISTED_CANDIDATES })}</li>
+            )}
+          </ul>
+
+          {total > 0 && (
+            <table className="candidates-heatmap" data-testid="candidates-heatmap">
+              <caption>{t('candidates.heatmap')}</caption>
+              <thead>
+                <tr>
+                  <td />
+                  {frequencies.map((_, position) => (
+                    <th key={position} scope="col">{position + 1}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {letters.map(letter => (
+                  <tr key={letter}>
+                    <th scope="row">{letter.toUpperCase()}</th>
+                    {frequencies.map((counts, position) => {
+                      const count = counts.get(letter) ?? 0;
+                      return (
+                        <td
+                          key={position}
+                          className="heatmap-cell"
+                          style={{ '--share': count / total } as React.CSSProperties}
+                          aria-label={t('candidates.frequency', { letter: letter.toUpperCase(), position: position + 1, count })}
+                          data-testid={`heatmap-${letter}-${position}`}
+                        >
+                          {count > 0 ? count : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CandidatesPanel;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { buildCustomPuzzleUrl, checkCustomWord, createCustomPuzzle } from '../lib/customPuzzle';
+import { LANGUAGE_PACKS, sanitizeGuessInput } from '../lib/languages';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import './CustomPuzzleCreator.css';
+
+interface CustomPuzzleCreatorProps {
+  isOpen: boolean;
+  // Language the creator starts on, usually the one being played
+  language: string;
+  onClose: () => void;
+}
+
+export const CustomPuzzleCreator: React.FC<CustomPuzzleCreatorProps> = ({
+  isOpen,
+  language: initialLanguage,
+  onClose
+}) => {
+  const { t } = useI18n();
+  const [language, setLanguage] = useState(initialLanguage);
+  const [word, setWord] = useState('');
+  const [problem, setProblem] = useState<MessageKey | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [puzzleUrl, setPuzzleUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Start over on the played language next time
+  const handleClose = () => {
+    setLanguage(initialLanguage);
+    setWord('');
+    setProblem(null);
+    setPuzzleUrl(null);
+    setCopied(false);
+    onClose();
+  };
+
+  const handleWordChange = (value: string) => {
+    setWord(sanitizeGuessInput(value, language));
+    setProblem(null);
+    setPuzzleUrl(null);
+    setCopied(false);
+  };
+
+  const handleLanguageChange = (value: string) => {
+    setLanguage(value);
+    setWord(current => sanitizeGuessInput(current, value));
+    setProblem(null);
+    setPuzzleUrl(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!word || isCreating) return;
+
+    setIsCreating(true);
+    try {
+      const wordProblem = await checkCustomWord(word, language);
+      if (wordProblem) {
+        setProblem(wordProblem);
+        return;
+      }
+      setPuzzleUrl(buildCustomPuzzleUrl(await createCustomPuzzle(word, language)));
+    } catch (error) {
+      console.error('Failed to create puzzle:', error);
+      setProblem('custom.createFailed');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!puzzleUrl) return;
+    try {
+      await navigator.clipboard.writeText(puzzleUrl);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="custom-overlay" data-testid="custom-puzzle-creator">
+      <div className="custom-content" role="dialog" aria-label={t('custom.dialog')}>
+        <button
+          className="custom-close"
+          onClick={handleClose}
+          aria-label={t('custom.close')}
+          data-testid="close-custom-puzzle"
+        >
+          ×
+        </button>
+
+        <h2 className="custom-title">{t('custom.title')}</h2>
+        <p className="custom-description">{t('custom.description')}</p>
+
+        <form className="custom-form" onSubmit={handleSubmit}>
+          <label className="custom-label" htmlFor="custom-language">{t('sidebar.language')}</label>
+          <select
+            id="custom-language"
+            className="custom-input"
+            value={language}
+            onChange={(event) => handleLanguageChange(event.target.value)}
+            data-testid="custom-language"
+          >
+            {Object.values(LANGUAGE_PACKS).map(pack => (
+              <option key={pack.code} value={pack.code}>{pack.name}</option>
+            ))}
+          </select>
+
+          <label className="custom-label" htmlFor="custom-word">{t('custom.word')}</label>
+          <input
+            id="custom-word"
+            className="custom-input custom-word"
+            value={word}
+            onChange={(event) => handleWordChange(event.target.value)}
+            autoComplete="off"
+            spellCheck={false}
+            aria-invalid={problem !== null}
+            aria-describedby={problem ? 'custom-problem' : undefined}
+            data-testid="custom-word"
+          />
+          {problem && (
+            <p id="custom-problem" className="custom-problem" role="alert" data-testid="custom-problem">
+              {t(problem)}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            className="custom-create"
+            disabled={!word || isCreating}
+            data-testid="custom-create"
+          >
+            {isCreating ? t('custom.creating') : t('custom.create')}
+          </button>
+        </form>
+
+        {puzzleUrl && (
+          <div className="custom-result">
+            <label className="custom-label" htmlFor="custom-link">{t('custom.link')}</label>
+            <input
+              id="custom-link"
+              className="custom-input"
+              value={puzzleUrl}
+              readOnly
+              onFocus={(event) => event.target.select()}
+              data-testid="custom-link"
+            />
+            <button className="custom-copy" onClick={handleCopy} data-testid="custom-copy">
+              {copied ? t('custom.copied') : t('custom.copy')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomPuzzleCreator;
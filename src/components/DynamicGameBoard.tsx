@@ -1,5 +1,14 @@
 import React, { useMemo } from 'react';
 import { useViewport } from './ResponsiveContainer';
+import { useSettings } from '../hooks/useSettings';
+import { useI18n } from '../hooks/useI18n';
+import {
+  BOUNCE_DURATION,
+  BOUNCE_STAGGER,
+  FLIP_DURATION,
+  SHAKE_DURATION,
+  getTileRevealDelay
+} from '../lib/animations';
 import type { LetterFeedback } from '../types/game';
 import './DynamicGameBoard.css';
 
@@ -8,34 +17,55 @@ interface DynamicGameBoardProps {
   currentGuess: string;
   feedback: LetterFeedback[][];
   maxGuesses?: number;
+  wordLength?: number;
   isGameOver: boolean;
+  // Boards shown side by side in multi-board mode; tiles shrink to fit
+  boardColumns?: number;
+  isSolved?: boolean;
+  // Row whose tiles are flipping over to show their feedback
+  revealingRow?: number | null;
+  // Row that bounces once it solved the board
+  bouncingRow?: number | null;
+  // Whether the row being typed shakes after a rejected guess
+  shaking?: boolean;
 }
 
+type TileAnimation = 'reveal' | 'bounce';
+
 interface TileProps {
   letter: string;
   status?: 'correct' | 'present' | 'absent' | 'empty' | 'pending';
-  animate?: boolean;
+  animation?: TileAnimation;
+  // Milliseconds before the animation starts, to stagger the tiles of a row
+  animationDelay?: number;
   size: number;
   fontSize: number;
+  // Spoken description, including the letter's status
+  label: string;
 }
 
 const DynamicTile: React.FC<TileProps> = ({ 
   letter, 
   status = 'empty', 
-  animate = false,
+  animation,
+  animationDelay = 0,
   size,
-  fontSize
+  fontSize,
+  label
 }) => {
   const tileStyle = {
     width: `${size}px`,
     height: `${size}px`,
     fontSize: `${fontSize}px`,
+    animationDelay: animation ? `${animationDelay}ms` : undefined,
   };
 
   return (
     <div 
-      className={`dynamic-tile ${status} ${animate ? 'animate' : ''}`}
+      className={`dynamic-tile ${status} ${animation ?? ''}`}
       style={tileStyle}
+      role="img"
+      aria-label={label}
       data-testid="dynamic-game-tile"
     >
       {letter}
@@ -46,9 +76,14 @@ const DynamicTile: React.FC<TileProps> = ({
 interface DynamicRowProps {
   guess: string;
   feedback?: LetterFeedback[];
+  // Row number from 1, for the tile labels
+  row: number;
   isCurrentRow: boolean;
   currentGuess?: string;
   isRevealing: boolean;
+  isBouncing: boolean;
+  isShaking: boolean;
+  wordLength: number;
   tileSize: number;
   fontSize: number;
   gap: number;
@@ -57,25 +92,30 @@ interface DynamicRowProps {
 const DynamicRow: React.FC<DynamicRowProps> = ({ 
   guess, 
   feedback, 
+  row,
   isCurrentRow, 
   currentGuess = '', 
   isRevealing,
+  isBouncing,
+  isShaking,
+  wordLength,
   tileSize,
   fontSize,
   gap
 }) => {
-  const letters = Array(5).fill('');
+  const { t } = useI18n();
+  const letters = Array(wordLength).fill('');
   
   if (feedback && guess) {
-    for (let i = 0; i < 5; i++) {
+    for (let i = 0; i < wordLength; i++) {
       letters[i] = feedback[i]?.letter || '';
     }
   } else if (isCurrentRow) {
-    for (let i = 0; i < currentGuess.length && i < 5; i++) {
+    for (let i = 0; i < currentGuess.length && i < wordLength; i++) {
       letters[i] = currentGuess[i];
     }
   } else if (guess) {
-    for (let i = 0; i < guess.length && i < 5; i++) {
+    for (let i = 0; i < guess.length && i < wordLength; i++) {
       letters[i] = guess[i];
     }
   }
@@ -85,7 +125,7 @@ const DynamicRow: React.FC<DynamicRowProps> = ({
   };
 
   return (
-    <div className="dynamic-game-row" style={rowStyle} data-testid="dynamic-game-row">
+    <div className={`dynamic-game-row ${isShaking ? 'shake' : ''}`} style={rowStyle} data-testid="dynamic-game-row">
       {letters.map((letter, index) => {
         let status: 'correct' | 'present' | 'absent' | 'empty' | 'pending' = 'empty';
         
@@ -97,14 +137,28 @@ const DynamicRow: React.FC<DynamicRowProps> = ({
           status = 'pending';
         }
 
+        let animation: TileAnimation | undefined;
+        let animationDelay = 0;
+        if (isBouncing) {
+          animation = 'bounce';
+          animationDelay = index * BOUNCE_STAGGER;
+        } else if (isRevealing && feedback?.[index]) {
+          animation = 'reveal';
+          animationDelay = getTileRevealDelay(index);
+        }
+
         return (
           <DynamicTile
             key={index}
             letter={letter}
             status={status}
-            animate={!!(isRevealing && feedback && feedback[index])}
+            animation={animation}
+            animationDelay={animationDelay}
             size={tileSize}
             fontSize={fontSize}
+            label={letter
+              ? t('a11y.tile', { row, position: index + 1, letter, status })
+              : t('a11y.emptyTile', { row, position: index + 1 })}
           />
         );
       })}
@@ -117,16 +171,24 @@ export const DynamicGameBoard: React.FC<DynamicGameBoardProps> = ({
   currentGuess,
   feedback,
   maxGuesses = 6,
-  isGameOver
+  wordLength = 5,
+  isGameOver,
+  boardColumns = 1,
+  isSolved = false,
+  revealingRow = null,
+  bouncingRow = null,
+  shaking = false
 }) => {
   const viewport = useViewport();
+  const { reduceMotion } = useSettings();
 
-  // Calculate optimal tile size and spacing based on viewport
+  // Calculate optimal tile size and spacing based on viewport and column count
   const boardDimensions = useMemo(() => {
     const { width, height, isMobile, isTablet, orientation } = viewport;
+    const columns = wordLength;
     
-    // Available space calculations
-    const availableWidth = width - 32; // Account for padding
+    // Available space calculations, shared between boards placed side by side
+    const availableWidth = (width - 32 - (boardColumns - 1) * 12) / boardColumns; // Account for padding and board gaps
     const availableHeight = height - 200; // Account for header and keyboard
     
     // Base tile size calculations
@@ -137,74 +199,89 @@ export const DynamicGameBoard: React.FC<DynamicGameBoardProps> = ({
     if (isMobile) {
       if (orientation === 'landscape') {
         // Landscape mobile - prioritize fitting in height
-        const maxTileHeight = Math.floor((availableHeight - (5 * 4)) / 6); // 6 rows, 5px gaps
-        const maxTileWidth = Math.floor((availableWidth - (4 * 4)) / 5); // 5 columns, 4px gaps
+        const maxTileHeight = Math.floor((availableHeight - ((maxGuesses - 1) * 4)) / maxGuesses);
+        const maxTileWidth = Math.floor((availableWidth - ((columns - 1) * 4)) / columns);
         tileSize = Math.min(maxTileHeight, maxTileWidth, 45);
         gap = 3;
         fontSize = Math.max(tileSize * 0.4, 14);
       } else {
         // Portrait mobile - optimize for width
-        const maxTileWidth = Math.floor((availableWidth - (4 * 5)) / 5); // 5 columns, 5px gaps
+        const maxTileWidth = Math.floor((availableWidth - ((columns - 1) * 5)) / columns);
         tileSize = Math.min(maxTileWidth, 62, Math.max(40, maxTileWidth));
         gap = Math.max(3, Math.floor(tileSize * 0.08));
         fontSize = Math.max(tileSize * 0.35, 16);
       }
     } else if (isTablet) {
       // Tablet - balanced approach
-      const maxTileWidth = Math.floor((availableWidth - (4 * 6)) / 5);
+      const maxTileWidth = Math.floor((availableWidth - ((columns - 1) * 6)) / columns);
       tileSize = Math.min(maxTileWidth, 70, Math.max(50, maxTileWidth));
       gap = 6;
       fontSize = Math.max(tileSize * 0.4, 18);
     } else {
-      // Desktop - standard size
-      tileSize = 62;
+      // Desktop - standard size, shrunk so wide boards keep the 5-letter footprint
+      tileSize = Math.min(62, Math.floor((62 * 5) / columns), Math.floor(availableWidth / columns));
       gap = 5;
-      fontSize = 32;
+      fontSize = Math.floor((tileSize * 32) / 62);
     }
     
-    // Ensure minimum sizes for accessibility
-    tileSize = Math.max(tileSize, 40);
-    fontSize = Math.max(fontSize, 14);
+    // Ensure minimum sizes for accessibility, relaxed for 7+ columns on narrow screens
+    // and for multi-board grids, which trade tile size for seeing every board at once
+    const minTileSize = boardColumns > 1 ? 16 : columns > 6 ? 32 : 40;
+    tileSize = Math.max(tileSize, minTileSize);
+    fontSize = boardColumns > 1 ? Math.min(fontSize, tileSize * 0.55) : Math.max(fontSize, 14);
     
     return {
       tileSize: Math.floor(tileSize),
       gap: Math.floor(gap),
       fontSize: Math.floor(fontSize),
-      boardWidth: (tileSize * 5) + (gap * 4),
+      boardWidth: (tileSize * columns) + (gap * (columns - 1)),
       boardHeight: (tileSize * maxGuesses) + (gap * (maxGuesses - 1)),
     };
-  }, [viewport, maxGuesses]);
+  }, [viewport, maxGuesses, wordLength, boardColumns]);
 
   const rows = Array(maxGuesses).fill(null);
 
+  const boardClasses = [
+    'dynamic-game-board',
+    isSolved && 'solved',
+    reduceMotion && 'reduce-motion',
+  ].filter(Boolean).join(' ');
+
   const boardStyle = {
     gap: `${boardDimensions.gap}px`,
     width: `${boardDimensions.boardWidth}px`,
     height: `${boardDimensions.boardHeight}px`,
-  };
+    '--flip-duration': `${FLIP_DURATION}ms`,
+    '--shake-duration': `${SHAKE_DURATION}ms`,
+    '--bounce-duration': `${BOUNCE_DURATION}ms`,
+  } as React.CSSProperties;
 
   return (
     <div 
-      className="dynamic-game-board" 
+      className={boardClasses}
       style={boardStyle}
       data-testid="dynamic-game-board"
       data-tile-size={boardDimensions.tileSize}
+      data-word-length={wordLength}
       data-viewport-type={viewport.isMobile ? 'mobile' : viewport.isTablet ? 'tablet' : 'desktop'}
     >
       {rows.map((_, rowIndex) => {
         const isCurrentRow = rowIndex === guesses.length && !isGameOver;
         const guess = guesses[rowIndex] || '';
         const rowFeedback = feedback[rowIndex];
-        const isRevealing = rowFeedback && rowIndex === guesses.length - 1;
 
         return (
           <DynamicRow
             key={rowIndex}
             guess={guess}
             feedback={rowFeedback}
+            row={rowIndex + 1}
             isCurrentRow={isCurrentRow}
             currentGuess={isCurrentRow ? currentGuess : ''}
-            isRevealing={!!isRevealing}
+            isRevealing={rowIndex === revealingRow}
+            isBouncing={rowIndex === bouncingRow}
+            isShaking={shaking && isCurrentRow}
+            wordLength={wordLength}
             tileSize={boardDimensions.tileSize}
             fontSize={boardDimensions.fontSize}
             gap={boardDimensions.gap}
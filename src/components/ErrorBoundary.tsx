@@ -1,5 +1,6 @@
 import { Component } from 'react';
-import type { ErrorInfo, ReactNode } from 'react';
+import type { ContextType, ErrorInfo, ReactNode } from 'react';
+import { I18nContext } from '../hooks/useI18n';
 import './ErrorBoundary.css';
 
 interface Props {
@@ -14,6 +15,9 @@ interface State {
 }
 
 export class ErrorBoundary extends Component<Props, State> {
+  static contextType = I18nContext;
+  declare context: ContextType<typeof I18nContext>;
+
   constructor(props: Props) {
     super(props);
     this.state = {
@@ -63,13 +67,15 @@ export class ErrorBoundary extends Component<Props, State> {
         return this.props.fallback;
       }
 
+      const { t } = this.context;
+
       return (
         <div className="error-boundary" data-testid="error-boundary">
           <div className="error-content">
             <div className="error-icon">⚠️</div>
-            <h2 className="error-title">Something went wrong</h2>
+            <h2 className="error-title">{t('errorBoundary.title')}</h2>
             <p className="error-message">
-              We're sorry, but something unexpected happened. Please try refreshing the page.
+              {t('errorBoundary.message')}
             </p>
             
             <div className="error-actions">
@@ -78,14 +84,14 @@ export class ErrorBoundary extends Component<Props, State> {
                 onClick={this.handleRetry}
                 data-testid="retry-button"
               >
-                Try Again
+                {t('errorBoundary.retry')}
               </button>
               <button 
                 className="error-button secondary"
                 onClick={this.handleReload}
                 data-testid="reload-button"
               >
-                Reload Page
+                {t('errorBoundary.reload')}
               </button>
             </div>
 
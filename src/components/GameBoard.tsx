@@ -7,6 +7,7 @@ interface GameBoardProps {
   currentGuess: string;
   feedback: LetterFeedback[][];
   maxGuesses?: number;
+  wordLength?: number;
   isGameOver: boolean;
 }
 
@@ -33,6 +34,7 @@ interface RowProps {
   isCurrentRow: boolean;
   currentGuess?: string;
   isRevealing: boolean;
+  wordLength: number;
 }
 
 const Row: React.FC<RowProps> = ({ 
@@ -40,23 +42,24 @@ const Row: React.FC<RowProps> = ({
   feedback, 
   isCurrentRow, 
   currentGuess = '', 
-  isRevealing 
+  isRevealing,
+  wordLength
 }) => {
-  const letters = Array(5).fill('');
+  const letters = Array(wordLength).fill('');
   
   if (feedback && guess) {
     // Completed row with feedback
-    for (let i = 0; i < 5; i++) {
+    for (let i = 0; i < wordLength; i++) {
       letters[i] = feedback[i]?.letter || '';
     }
   } else if (isCurrentRow) {
     // Current row being typed
-    for (let i = 0; i < currentGuess.length && i < 5; i++) {
+    for (let i = 0; i < currentGuess.length && i < wordLength; i++) {
       letters[i] = currentGuess[i];
     }
   } else if (guess) {
     // Submitted row without feedback yet
-    for (let i = 0; i < guess.length && i < 5; i++) {
+    for (let i = 0; i < guess.length && i < wordLength; i++) {
       letters[i] = guess[i];
     }
   }
@@ -92,6 +95,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({
   currentGuess,
   feedback,
   maxGuesses = 6,
+  wordLength = 5,
   isGameOver
 }) => {
   const rows = Array(maxGuesses).fill(null);
@@ -112,6 +116,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({
             isCurrentRow={isCurrentRow}
             currentGuess={isCurrentRow ? currentGuess : ''}
             isRevealing={!!isRevealing}
+            wordLength={wordLength}
           />
         );
       })}
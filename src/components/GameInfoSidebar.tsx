@@ -1,6 +1,11 @@
-import React from 'react';
-import { formatTimeRemaining } from '../lib/timeUtils';
+import React, { useState } from 'react';
+import { formatTimeRemaining, formatHourId } from '../lib/timeUtils';
 import { useViewport } from './ResponsiveContainer';
+import { SUPPORTED_BOARD_COUNTS } from '../lib/gameConfig';
+import { DEFAULT_LANGUAGE, LANGUAGE_PACKS, getLanguagePack } from '../lib/languages';
+import { HINT_TIERS, HINT_TIER_LABELS } from '../lib/hints';
+import { useI18n } from '../hooks/useI18n';
+import type { GameMode, HintTier, SelectableGameMode } from '../types/game';
 import './GameInfoSidebar.css';
 
 interface GameInfoSidebarProps {
@@ -8,9 +13,22 @@ interface GameInfoSidebarProps {
   currentAttempt: number;
   maxAttempts: number;
   gameStatus: 'playing' | 'won' | 'lost';
+  mode?: GameMode;
+  onModeChange?: (mode: SelectableGameMode) => void;
+  archiveHourId?: string;
+  onOpenArchive?: () => void;
+  customPuzzleId?: string;
+  onCreatePuzzle?: () => void;
+  wordLength?: number;
+  onWordLengthChange?: (wordLength: number) => void;
+  language?: string;
+  onLanguageChange?: (language: string) => void;
+  boardCount?: number;
+  onBoardCountChange?: (boardCount: number) => void;
+  onOpenSettings?: () => void;
   onNewGame?: () => void;
   showNewGameButton?: boolean;
-  onHint?: () => void;
+  onHint?: (tier: HintTier) => void;
   showHintButton?: boolean;
 }
 
@@ -19,15 +37,33 @@ export const GameInfoSidebar: React.FC<GameInfoSidebarProps> = ({
   currentAttempt,
   maxAttempts,
   gameStatus,
+  mode = 'hourly',
+  onModeChange,
+  archiveHourId,
+  onOpenArchive,
+  customPuzzleId,
+  onCreatePuzzle,
+  wordLength = 5,
+  onWordLengthChange,
+  language = DEFAULT_LANGUAGE,
+  onLanguageChange,
+  boardCount = 1,
+  onBoardCountChange,
+  onOpenSettings,
   onNewGame,
   showNewGameButton = false,
   onHint,
   showHintButton = true
 }) => {
   const viewport = useViewport();
+  const { t, locale } = useI18n();
+  const [showHints, setShowHints] = useState(false);
   const timeRemaining = formatTimeRemaining(timeToNextHour);
   const progressPercentage = (currentAttempt / maxAttempts) * 100;
   const isGameOver = gameStatus !== 'playing';
+  const isPractice = mode === 'practice';
+  const isArchive = mode === 'archive';
+  const isCustom = mode === 'custom';
 
   // Hide sidebar on mobile to save space
   if (viewport.isMobile) {
@@ -46,37 +82,166 @@ export const GameInfoSidebar: React.FC<GameInfoSidebarProps> = ({
             <span className="title-letter l">l</span>
             <span className="title-letter e">e</span>
           </h1>
+          {isPractice && (
+            <div className="mode-badge" data-testid="practice-badge">{t('mode.practice')}</div>
+          )}
+          {isArchive && archiveHourId && (
+            <div className="mode-badge archive" data-testid="archive-badge">
+              {t('sidebar.archiveBadge', { hour: formatHourId(archiveHourId, locale) })}
+            </div>
+          )}
+          {isCustom && customPuzzleId && (
+            <div className="mode-badge custom" data-testid="custom-badge">
+              {t('sidebar.customBadge', { id: customPuzzleId })}
+            </div>
+          )}
           {showNewGameButton && onNewGame && (
             <button 
               className="new-game-button"
               onClick={onNewGame}
               data-testid="new-game-button"
             >
-              New Game
+              {isPractice ? t('sidebar.nextWord') : t('sidebar.newGame')}
             </button>
           )}
         </div>
-        {showHintButton && onHint && gameStatus === 'playing' && (
+        {onOpenArchive && (
+          <button 
+            className="archive-button"
+            onClick={onOpenArchive}
+            data-testid="archive-button"
+          >
+            {t('sidebar.archive')}
+          </button>
+        )}
+        {onCreatePuzzle && (
           <button 
-            className="hint-button"
-            onClick={onHint}
-            data-testid="hint-button"
+            className="create-puzzle-button"
+            onClick={onCreatePuzzle}
+            data-testid="create-puzzle-button"
           >
-            💡 Hint
+            {t('sidebar.createPuzzle')}
           </button>
         )}
+        {onOpenSettings && (
+          <button 
+            className="settings-button"
+            onClick={onOpenSettings}
+            data-testid="settings-button"
+          >
+            {t('sidebar.settings')}
+          </button>
+        )}
+        {showHintButton && onHint && gameStatus === 'playing' && (
+          <div className="hint-menu">
+            <button 
+              className="hint-button"
+              onClick={() => setShowHints(!showHints)}
+              aria-expanded={showHints}
+              data-testid="hint-button"
+            >
+              {t('sidebar.hint')}
+            </button>
+            {showHints && (
+              <div className="hint-options" role="group" aria-label={t('sidebar.hint')}>
+                {HINT_TIERS.map(tier => (
+                  <button
+                    key={tier}
+                    className="hint-option"
+                    onClick={() => onHint(tier)}
+                    data-testid={`hint-${tier}`}
+                  >
+                    {t(HINT_TIER_LABELS[tier])}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         
         <div className="info-section">
-          <div className="info-item">
-            <div className="info-label">Next Word</div>
-            <div className="info-value timer-value">
-              <span className="timer-icon">⏱️</span>
-              {timeRemaining}
+          {onModeChange && (
+            <div className="info-item">
+              <div className="info-label">{t('sidebar.mode')}</div>
+              <div className="mode-switch" role="group" aria-label={t('sidebar.modeGroup')}>
+                {(['hourly', 'practice'] as const).map(option => (
+                  <button
+                    key={option}
+                    className={`mode-option ${mode === option ? 'active' : ''}`}
+                    aria-pressed={mode === option}
+                    onClick={() => onModeChange(option)}
+                    data-testid={`mode-${option}`}
+                  >
+                    {option === 'hourly' ? t('mode.hourly') : t('mode.practice')}
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
+          
+          {mode === 'hourly' && (
+            <div className="info-item">
+              <div className="info-label">{t('sidebar.nextWord')}</div>
+              <div className="info-value timer-value">
+                <span className="timer-icon">⏱️</span>
+                {timeRemaining}
+              </div>
+            </div>
+          )}
+          
+          {onLanguageChange && (
+            <div className="info-item">
+              <label className="info-label" htmlFor="language-select">{t('sidebar.language')}</label>
+              <select
+                id="language-select"
+                className="word-length-select"
+                value={language}
+                onChange={(event) => onLanguageChange(event.target.value)}
+                data-testid="language-select"
+              >
+                {Object.values(LANGUAGE_PACKS).map(pack => (
+                  <option key={pack.code} value={pack.code}>{pack.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          {onWordLengthChange && (
+            <div className="info-item">
+              <label className="info-label" htmlFor="word-length-select">{t('sidebar.letters')}</label>
+              <select
+                id="word-length-select"
+                className="word-length-select"
+                value={wordLength}
+                onChange={(event) => onWordLengthChange(Number(event.target.value))}
+                data-testid="word-length-select"
+              >
+                {getLanguagePack(language).wordLengths.map(length => (
+                  <option key={length} value={length}>{length}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          {onBoardCountChange && (
+            <div className="info-item">
+              <label className="info-label" htmlFor="board-count-select">{t('sidebar.boards')}</label>
+              <select
+                id="board-count-select"
+                className="word-length-select"
+                value={boardCount}
+                onChange={(event) => onBoardCountChange(Number(event.target.value))}
+                data-testid="board-count-select"
+              >
+                {SUPPORTED_BOARD_COUNTS.map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+          )}
           
           <div className="info-item">
-            <div className="info-label">Attempts</div>
+            <div className="info-label">{t('sidebar.attempts')}</div>
             <div className="info-value attempts-value">
               {currentAttempt}/{maxAttempts}
             </div>
@@ -84,16 +249,16 @@ export const GameInfoSidebar: React.FC<GameInfoSidebarProps> = ({
           
           {isGameOver && (
             <div className="info-item game-status">
-              <div className="info-label">Status</div>
+              <div className="info-label">{t('sidebar.status')}</div>
               <div className={`status-badge ${gameStatus}`}>
-                {gameStatus === 'won' ? '🎉 Won!' : '😔 Lost'}
+                {gameStatus === 'won' ? t('status.won') : t('status.lost')}
               </div>
             </div>
           )}
         </div>
         
         <div className="progress-section">
-          <div className="progress-label">Progress</div>
+          <div className="progress-label">{t('sidebar.progress')}</div>
           <div className="progress-container">
             <div 
               className="progress-bar"
@@ -101,7 +266,7 @@ export const GameInfoSidebar: React.FC<GameInfoSidebarProps> = ({
               aria-valuenow={currentAttempt}
               aria-valuemin={0}
               aria-valuemax={maxAttempts}
-              aria-label={`${currentAttempt} of ${maxAttempts} attempts used`}
+              aria-label={t('sidebar.attemptsUsed', { used: currentAttempt, max: maxAttempts })}
             >
               <div 
                 className="progress-fill"
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import type { BoardState } from '../types/game';
+import { loadGameReview } from '../lib/gameAnalysis';
+import type { GuessAnalysis } from '../lib/gameAnalysis';
+import { getBoardGuesses } from '../lib/multiBoard';
+import { useI18n } from '../hooks/useI18n';
+import './GameReview.css';
+
+interface GameReviewProps {
+  guesses: string[];
+  // Boards with their answers revealed
+  boards: BoardState[];
+  wordLength: number;
+  dictionaryVersion?: string;
+  language?: string;
+}
+
+type ReviewState =
+  | { status: 'loading' }
+  | { status: 'ready'; boards: GuessAnalysis[][] }
+  | { status: 'unavailable' };
+
+export const GameReview: React.FC<GameReviewProps> = ({
+  guesses,
+  boards,
+  wordLength,
+  dictionaryVersion,
+  language
+}) => {
+  const [review, setReview] = useState<ReviewState>({ status: 'loading' });
+  const { t, rich, locale } = useI18n();
+
+  useEffect(() => {
+    let cancelled = false;
+    setReview({ status: 'loading' });
+
+    if (!dictionaryVersion || boards.some(board => !board.word)) {
+      setReview({ status: 'unavailable' });
+      return;
+    }
+
+    loadGameReview(
+      boards.map(board => ({ guesses: getBoardGuesses(board, guesses), answer: board.word! })),
+      { wordLength, dictionaryVersion, language }
+    )
+      .then(analyses => {
+        if (!cancelled) setReview({ status: 'ready', boards: analyses });
+      })
+      .catch(error => {
+        console.error('Failed to analyze game:', error);
+        if (!cancelled) setReview({ status: 'unavailable' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [guesses, boards, wordLength, dictionaryVersion, language]);
+
+  const formatBits = (bits: number, signDisplay: 'auto' | 'exceptZero' = 'auto') =>
+    new Intl.NumberFormat(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1, signDisplay }).format(bits);
+
+  if (review.status === 'loading') {
+    return <p className="review-message" data-testid="review-loading">{t('review.analyzing')}</p>;
+  }
+
+  if (review.status === 'unavailable') {
+    return <p className="review-message" data-testid="review-unavailable">{t('review.unavailable')}</p>;
+  }
+
+  return (
+    <div className="game-review" data-testid="game-review">
+      <h3 className="review-title">{t('review.title')}</h3>
+      {review.boards.map((analyses, boardIndex) => {
+        const skill = analyses.reduce((sum, analysis) => sum + analysis.skill, 0) / Math.max(1, analyses.length);
+        const luck = analyses.reduce((sum, analysis) => sum + analysis.luck, 0);
+
+        return (
+          <section key={boardIndex} className="review-board" data-testid={`review-board-${boardIndex}`}>
+            {review.boards.length > 1 && (
+              <h4 className="review-board-title">{t('review.board', { board: boardIndex + 1 })}</h4>
+            )}
+            <table className="review-table">
+              <thead>
+                <tr>
+                  <th scope="col">{t('review.guess')}</th>
+                  <th scope="col">{t('review.wordsLeft')}</th>
+                  <th scope="col">{t('review.bits')}</th>
+                  <th scope="col">{t('review.bestGuess')}</th>
+                  <th scope="col">{t('review.skill')}</th>
+                  <th scope="col">{t('review.luck')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analyses.map((analysis, index) => (
+                  <tr key={index} data-testid={`review-row-${boardIndex}-${index}`}>
+                    <th scope="row" className="review-guess">{analysis.guess}</th>
+                    <td>{analysis.candidatesBefore} → {analysis.candidatesAfter}</td>
+                    <td>{formatBits(analysis.actualBits)} / {formatBits(analysis.expectedBits)}</td>
+                    <td className="review-guess">{analysis.bestGuess}</td>
+                    <td className={analysis.skill === 100 ? 'review-best' : ''}>{analysis.skill}</td>
+                    <td className={analysis.luck < 0 ? 'review-unlucky' : 'review-lucky'}>
+                      {formatBits(analysis.luck, 'exceptZero')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="review-summary" data-testid={`review-summary-${boardIndex}`}>
+              {rich('review.summary', { skill: Math.round(skill), luck: formatBits(luck, 'exceptZero') })}
+            </p>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GameReview;
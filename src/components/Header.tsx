@@ -1,5 +1,6 @@
 import React from 'react';
 import { formatTimeRemaining } from '../lib/timeUtils';
+import { useI18n } from '../hooks/useI18n';
 import './Header.css';
 
 interface HeaderProps {
@@ -17,6 +18,7 @@ export const Header: React.FC<HeaderProps> = ({
   gameStatus,
   onNewGame
 }) => {
+  const { t } = useI18n();
   const timeRemaining = formatTimeRemaining(timeToNextHour);
   const isGameOver = gameStatus !== 'playing';
   
@@ -24,20 +26,20 @@ export const Header: React.FC<HeaderProps> = ({
     <header className="game-header" data-testid="game-header">
       <div className="header-content">
         <div className="game-title">
-          <h1>Hourly Wordle</h1>
-          <p className="game-subtitle">A new word every hour</p>
+          <h1>{t('header.title')}</h1>
+          <p className="game-subtitle">{t('header.subtitle')}</p>
         </div>
         
         <div className="game-info">
           <div className="timer-section">
-            <div className="timer-label">Next word in:</div>
+            <div className="timer-label">{t('header.nextWordIn')}</div>
             <div className="countdown-timer" data-testid="countdown-timer">
               {timeRemaining}
             </div>
           </div>
           
           <div className="attempts-section">
-            <div className="attempts-label">Attempts:</div>
+            <div className="attempts-label">{t('header.attempts')}</div>
             <div className="attempts-counter" data-testid="attempts-counter">
               {currentAttempt}/{maxAttempts}
             </div>
@@ -46,11 +48,11 @@ export const Header: React.FC<HeaderProps> = ({
           {isGameOver && (
             <div className="game-status">
               <div className={`status-badge ${gameStatus}`}>
-                {gameStatus === 'won' ? '🎉 Won!' : '😔 Lost'}
+                {gameStatus === 'won' ? t('status.won') : t('status.lost')}
               </div>
               {timeToNextHour > 0 && (
                 <div className="next-game-info">
-                  Next game in {timeRemaining}
+                  {t('header.nextGameIn', { time: timeRemaining })}
                 </div>
               )}
             </div>
@@ -63,7 +65,7 @@ export const Header: React.FC<HeaderProps> = ({
             onClick={onNewGame}
             data-testid="new-game-button"
           >
-            New Game Available!
+            {t('header.newGameAvailable')}
           </button>
         )}
       </div>
@@ -3,33 +3,48 @@ import type { LetterFeedback } from '../types/game';
 import { getKeyboardLetterStatus } from '../lib/wordEvaluation';
 import { useViewport } from './ResponsiveContainer';
 import { addTouchOptimizedListeners, triggerHapticFeedback } from '../lib/touchOptimization';
+import { DEFAULT_LANGUAGE, getKeyboardLayout } from '../lib/languages';
+import { useI18n } from '../hooks/useI18n';
+import { useSettings } from '../hooks/useSettings';
 import './Keyboard.css';
 
 interface KeyboardProps {
   onKeyPress: (key: string) => void;
   disabled: boolean;
   allFeedback: LetterFeedback[][];
+  // Feedback per board in multi-board mode; letter keys are split into one section per board
+  boardFeedback?: LetterFeedback[][][];
   currentGuess: string;
   maxGuessLength: number;
+  // Language whose keyboard layout is shown (defaults to English)
+  language?: string;
 }
 
+type KeyStatus = 'correct' | 'present' | 'absent' | 'unused';
+
 interface KeyProps {
   letter: string;
-  status?: 'correct' | 'present' | 'absent' | 'unused';
+  status?: KeyStatus;
+  boardStatuses?: KeyStatus[];
   onClick: () => void;
   disabled: boolean;
   className?: string;
+  // Spoken name of the key, including its status
+  label: string;
 }
 
 const Key: React.FC<KeyProps> = ({ 
   letter, 
   status = 'unused', 
+  boardStatuses,
   onClick, 
   disabled, 
-  className = '' 
+  className = '',
+  label
 }) => {
   const keyRef = useRef<HTMLButtonElement>(null);
   const viewport = useViewport();
+  const { settings } = useSettings();
 
   useEffect(() => {
     const keyElement = keyRef.current;
@@ -51,26 +66,27 @@ const Key: React.FC<KeyProps> = ({
           }
         },
         {
-          hapticFeedback: true,
+          hapticFeedback: settings.haptics,
           preventDoubleClick: true,
         }
       );
 
       return cleanup;
     }
-  }, [onClick, disabled, letter, viewport.isMobile]);
+  }, [onClick, disabled, letter, viewport.isMobile, settings.haptics]);
 
   // Use regular onClick for desktop, touch-optimized for mobile
   const handleClick = viewport.isMobile ? undefined : onClick;
+  const hasBoardStatuses = !!boardStatuses && boardStatuses.length > 1;
 
   return (
     <button
       ref={keyRef}
-      className={`keyboard-key ${status} ${className} interactive`}
+      className={`keyboard-key ${hasBoardStatuses ? 'multi-board' : status} ${className} interactive`}
       onClick={handleClick}
       disabled={disabled}
       data-testid={`keyboard-key-${letter}`}
-      aria-label={`Key ${letter}`}
+      aria-label={label}
       style={{
         touchAction: 'manipulation',
         WebkitTapHighlightColor: 'transparent',
@@ -79,37 +95,60 @@ const Key: React.FC<KeyProps> = ({
         userSelect: 'none',
       }}
     >
-      {letter}
+      {hasBoardStatuses && (
+        <span
+          className={`key-board-statuses boards-${boardStatuses.length}`}
+          data-testid={`keyboard-key-${letter}-boards`}
+          aria-hidden="true"
+        >
+          {boardStatuses.map((boardStatus, index) => (
+            <span key={index} className={`key-board-status ${boardStatus}`} />
+          ))}
+        </span>
+      )}
+      <span className="key-label">{letter}</span>
     </button>
   );
 };
 
-const KEYBOARD_LAYOUT = [
-  ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
-  ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L'],
-  ['ENTER', 'Z', 'X', 'C', 'V', 'B', 'N', 'M', 'BACKSPACE']
-];
-
 export const Keyboard: React.FC<KeyboardProps> = ({
   onKeyPress,
   disabled,
   allFeedback,
+  boardFeedback,
   currentGuess,
-  maxGuessLength
+  maxGuessLength,
+  language = DEFAULT_LANGUAGE
 }) => {
   const viewport = useViewport();
+  const { t, locale } = useI18n();
+  const { settings } = useSettings();
+  const keyboardLayout = getKeyboardLayout(language, settings.keyboardLayout, settings.swapEnterBackspace);
   const letterStatuses = getKeyboardLetterStatus(allFeedback);
+  const boardLetterStatuses = boardFeedback?.map(feedback => getKeyboardLetterStatus(feedback)) ?? [];
   
   const handleKeyClick = (key: string) => {
     if (disabled) return;
     onKeyPress(key);
   };
 
-  const getKeyStatus = (letter: string): 'correct' | 'present' | 'absent' | 'unused' => {
+  const getKeyStatus = (letter: string): KeyStatus => {
     const status = letterStatuses.get(letter.toLowerCase());
     return status || 'unused';
   };
 
+  const getBoardKeyStatuses = (letter: string): KeyStatus[] =>
+    boardLetterStatuses.map(statuses => statuses.get(letter.toLowerCase()) || 'unused');
+
+  // Letter keys say how the letter did, per board in multi-board mode
+  const getKeyLabel = (letter: string, status: KeyStatus, boardStatuses: KeyStatus[]): string => {
+    if (boardStatuses.length <= 1) {
+      return t('keyboard.key', { letter, status });
+    }
+    const boards = boardStatuses.map((boardStatus, index) => t('keyboard.boardStatus', { board: index + 1, status: boardStatus }));
+    return t('keyboard.keyBoards', { letter, boards: new Intl.ListFormat(locale, { style: 'short', type: 'unit' }).format(boards) });
+  };
+
   const isKeyDisabled = (key: string): boolean => {
     if (disabled) return true;
     
@@ -122,11 +161,7 @@ export const Keyboard: React.FC<KeyboardProps> = ({
     }
     
     // Letter keys are disabled if guess is at max length
-    if (key.match(/^[A-Z]$/)) {
-      return currentGuess.length >= maxGuessLength;
-    }
-    
-    return false;
+    return currentGuess.length >= maxGuessLength;
   };
 
   const renderKey = (key: string) => {
@@ -138,6 +173,7 @@ export const Keyboard: React.FC<KeyboardProps> = ({
           onClick={() => handleKeyClick('ENTER')}
           disabled={isKeyDisabled(key)}
           className="action-key enter-key"
+          label={t('keyboard.enter')}
         />
       );
     }
@@ -150,18 +186,23 @@ export const Keyboard: React.FC<KeyboardProps> = ({
           onClick={() => handleKeyClick('BACKSPACE')}
           disabled={isKeyDisabled(key)}
           className="action-key backspace-key"
+          label={t('keyboard.backspace')}
         />
       );
     }
     
+    const status = getKeyStatus(key);
+    const boardStatuses = getBoardKeyStatuses(key);
     return (
       <Key
         key={key}
         letter={key}
-        status={getKeyStatus(key)}
+        status={status}
+        boardStatuses={boardStatuses}
         onClick={() => handleKeyClick(key)}
         disabled={isKeyDisabled(key)}
         className="letter-key"
+        label={getKeyLabel(key, status, boardStatuses)}
       />
     );
   };
@@ -174,9 +215,14 @@ export const Keyboard: React.FC<KeyboardProps> = ({
     viewport.orientation,
   ].filter(Boolean).join(' ');
 
+  // Players typing on a physical keyboard can hide the on-screen one
+  if (!settings.showKeyboard) {
+    return null;
+  }
+
   return (
-    <div className={keyboardClasses} data-testid="keyboard">
-      {KEYBOARD_LAYOUT.map((row, rowIndex) => (
+    <div className={keyboardClasses} data-testid="keyboard" lang={language}>
+      {keyboardLayout.map((row, rowIndex) => (
         <div key={rowIndex} className="keyboard-row" data-testid={`keyboard-row-${rowIndex}`}>
           {row.map(renderKey)}
         </div>
@@ -189,7 +235,7 @@ export const Keyboard: React.FC<KeyboardProps> = ({
         </div>
         {currentGuess.length === maxGuessLength && (
           <div className="ready-indicator">
-            Ready to submit!
+            {t('keyboard.ready')}
           </div>
         )}
       </div>
@@ -0,0 +1,36 @@
+import React, { useEffect, useState } from 'react';
+import { subscribeToAnnouncements } from '../lib/announcer';
+import type { AnnouncementPoliteness } from '../lib/announcer';
+
+/**
+ * Visually hidden live regions that read out announcements
+ * Render it once; announce() from anywhere reaches it.
+ */
+export const LiveAnnouncer: React.FC = () => {
+  const [messages, setMessages] = useState<Record<AnnouncementPoliteness, string>>({
+    polite: '',
+    assertive: ''
+  });
+
+  useEffect(() => subscribeToAnnouncements(({ message, politeness }) => {
+    // Screen readers skip a region whose text did not change, so a repeated
+    // message (the same error twice in a row) gets a trailing no-break space
+    setMessages(prev => ({
+      ...prev,
+      [politeness]: prev[politeness] === message ? `${message}\u00a0` : message
+    }));
+  }), []);
+
+  return (
+    <>
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true" data-testid="announcer-polite">
+        {messages.polite}
+      </div>
+      <div className="sr-only" role="alert" aria-live="assertive" aria-atomic="true" data-testid="announcer-assertive">
+        {messages.assertive}
+      </div>
+    </>
+  );
+};
+
+export default LiveAnnouncer;
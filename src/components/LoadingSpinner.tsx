@@ -1,4 +1,5 @@
 import React from 'react';
+import { useI18n } from '../hooks/useI18n';
 import './LoadingSpinner.css';
 
 interface LoadingSpinnerProps {
@@ -9,9 +10,11 @@ interface LoadingSpinnerProps {
 
 export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   size = 'medium',
-  message = 'Loading...',
+  message,
   fullScreen = false
 }) => {
+  const { t } = useI18n();
+  const text = message ?? t('loading.default');
   const containerClass = fullScreen ? 'loading-container fullscreen' : 'loading-container';
 
   return (
@@ -22,9 +25,9 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
         <div className="spinner-ring"></div>
         <div className="spinner-ring"></div>
       </div>
-      {message && (
+      {text && (
         <div className="loading-message" data-testid="loading-message">
-          {message}
+          {text}
         </div>
       )}
     </div>
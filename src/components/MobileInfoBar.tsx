@@ -1,6 +1,8 @@
 import React from 'react';
 import { formatTimeRemaining } from '../lib/timeUtils';
 import { useViewport } from './ResponsiveContainer';
+import { useI18n } from '../hooks/useI18n';
+import type { GameMode, SelectableGameMode } from '../types/game';
 import './MobileInfoBar.css';
 
 interface MobileInfoBarProps {
@@ -8,18 +10,30 @@ interface MobileInfoBarProps {
   currentAttempt: number;
   maxAttempts: number;
   gameStatus: 'playing' | 'won' | 'lost';
+  mode?: GameMode;
+  onModeChange?: (mode: SelectableGameMode) => void;
+  onOpenArchive?: () => void;
+  onCreatePuzzle?: () => void;
+  onOpenSettings?: () => void;
 }
 
 export const MobileInfoBar: React.FC<MobileInfoBarProps> = ({
   timeToNextHour,
   currentAttempt,
   maxAttempts,
-  gameStatus
+  gameStatus,
+  mode = 'hourly',
+  onModeChange,
+  onOpenArchive,
+  onCreatePuzzle,
+  onOpenSettings
 }) => {
   const viewport = useViewport();
+  const { t } = useI18n();
   const timeRemaining = formatTimeRemaining(timeToNextHour);
   const progressPercentage = (currentAttempt / maxAttempts) * 100;
   const isGameOver = gameStatus !== 'playing';
+  const isPractice = mode === 'practice';
 
   // Only show on mobile when sidebar is hidden
   if (!viewport.isMobile) {
@@ -29,10 +43,24 @@ export const MobileInfoBar: React.FC<MobileInfoBarProps> = ({
   return (
     <div className="mobile-info-bar" data-testid="mobile-info-bar">
       <div className="info-items">
-        <div className="info-item">
-          <span className="info-icon">⏱️</span>
-          <span className="info-text">{timeRemaining}</span>
-        </div>
+        {isPractice ? (
+          <div className="info-item">
+            <span className="mode-label" data-testid="practice-label">{t('mode.practice')}</span>
+          </div>
+        ) : mode === 'archive' ? (
+          <div className="info-item">
+            <span className="mode-label archive" data-testid="archive-label">{t('mode.archive')}</span>
+          </div>
+        ) : mode === 'custom' ? (
+          <div className="info-item">
+            <span className="mode-label custom" data-testid="custom-label">{t('mode.custom')}</span>
+          </div>
+        ) : (
+          <div className="info-item">
+            <span className="info-icon">⏱️</span>
+            <span className="info-text">{timeRemaining}</span>
+          </div>
+        )}
         
         <div className="info-item">
           <span className="info-text">{currentAttempt}/{maxAttempts}</span>
@@ -45,6 +73,49 @@ export const MobileInfoBar: React.FC<MobileInfoBarProps> = ({
             </span>
           </div>
         )}
+        
+        {onOpenArchive && (
+          <button
+            className="mode-toggle"
+            onClick={onOpenArchive}
+            aria-label={t('mobile.openArchive')}
+            data-testid="archive-button"
+          >
+            📅
+          </button>
+        )}
+        
+        {onCreatePuzzle && (
+          <button
+            className="mode-toggle"
+            onClick={onCreatePuzzle}
+            aria-label={t('custom.open')}
+            data-testid="create-puzzle-button"
+          >
+            ✏️
+          </button>
+        )}
+        
+        {onOpenSettings && (
+          <button
+            className="mode-toggle"
+            onClick={onOpenSettings}
+            aria-label={t('settings.open')}
+            data-testid="settings-button"
+          >
+            ⚙️
+          </button>
+        )}
+        
+        {onModeChange && (
+          <button
+            className="mode-toggle"
+            onClick={() => onModeChange(mode === 'hourly' ? 'practice' : 'hourly')}
+            data-testid="mode-toggle"
+          >
+            {mode === 'hourly' ? t('mode.practice') : t('mode.hourly')}
+          </button>
+        )}
       </div>
       
       <div className="progress-bar">
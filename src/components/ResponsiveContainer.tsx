@@ -1,5 +1,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { generateTouchTargetCSS, getOptimalSpacing, createTouchOptimizedClasses, preventIOSZoom } from '../lib/touchOptimization';
+import { useI18n } from '../hooks/useI18n';
+import { useSettings } from '../hooks/useSettings';
+import { getPaletteProperties } from '../lib/palettes';
 import './ResponsiveContainer.css';
 
 interface ViewportInfo {
@@ -46,6 +49,8 @@ export const ResponsiveContainer: React.FC<ResponsiveContainerProps> = ({
   onViewportChange,
 }) => {
   const [viewport, setViewport] = useState<ViewportInfo>(getViewportInfo);
+  const { locale, direction } = useI18n();
+  const { settings } = useSettings();
 
   const handleResize = useCallback(() => {
     const newViewport = getViewportInfo();
@@ -86,6 +91,9 @@ export const ResponsiveContainer: React.FC<ResponsiveContainerProps> = ({
     viewport.isTablet && 'tablet',
     viewport.isDesktop && 'desktop',
     viewport.orientation,
+    direction === 'rtl' && 'rtl',
+    `palette-${settings.palette}`,
+    settings.tilePatterns && 'tile-patterns',
     touchOptimizedClasses,
     className,
   ].filter(Boolean).join(' ');
@@ -95,12 +103,16 @@ export const ResponsiveContainer: React.FC<ResponsiveContainerProps> = ({
     '--optimal-gap': `${spacing.gap}px`,
     '--optimal-padding': `${spacing.padding}px`,
     '--optimal-margin': `${spacing.margin}px`,
+    // Tile and key colors of the player's palette
+    ...getPaletteProperties(settings.palette),
   } as React.CSSProperties;
 
   return (
     <div 
       className={containerClasses}
       style={containerStyle}
+      dir={direction}
+      lang={locale}
       data-viewport-width={viewport.width}
       data-viewport-height={viewport.height}
       data-orientation={viewport.orientation}
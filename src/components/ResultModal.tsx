@@ -1,6 +1,15 @@
 import React, { useEffect, useState } from 'react';
-import type { LetterFeedback } from '../types/game';
+import type { LetterFeedback, GameStatistics, GameMode, BoardState, HintTier, CustomPuzzle } from '../types/game';
 import { formatTimeRemaining } from '../lib/timeUtils';
+import { buildMultiBoardShareGrid } from '../lib/multiBoard';
+import { getFeedbackEmoji } from '../lib/palettes';
+import { getPercentBeaten } from '../lib/hourStats';
+import { buildCustomPuzzleUrl } from '../lib/customPuzzle';
+import { HINT_TIERS, HINT_TIER_LABELS } from '../lib/hints';
+import type { HourStatsSummary } from '../lib/hourStats';
+import { useI18n } from '../hooks/useI18n';
+import { useSettings } from '../hooks/useSettings';
+import { GameReview } from './GameReview';
 import './ResultModal.css';
 
 interface ResultModalProps {
@@ -9,10 +18,30 @@ interface ResultModalProps {
   secretWord: string;
   attempts: number;
   maxAttempts: number;
+  hardMode?: boolean;
+  // Strongest hint taken, marked in the share text
+  hintTier?: HintTier;
+  mode?: GameMode;
   feedback: LetterFeedback[][];
+  // Guesses of the game, replayed by the review
+  guesses?: string[];
+  // All boards in multi-board mode; the share grid then combines them
+  boards?: BoardState[];
+  wordLength?: number;
+  // Dictionary pack and language of the puzzle, for the review
+  dictionaryVersion?: string;
+  language?: string;
+  // Puzzle being played in custom mode; its link is shared in place of the site
+  customPuzzle?: CustomPuzzle;
+  statistics: GameStatistics;
+  // Global results of the puzzle, when available
+  hourStats?: HourStatsSummary | null;
   timeToNextHour: number;
   onClose: () => void;
   onShare?: () => void;
+  onNextPracticeGame?: () => void;
+  onOpenArchive?: () => void;
+  onCreatePuzzle?: () => void;
 }
 
 export const ResultModal: React.FC<ResultModalProps> = ({
@@ -21,18 +50,40 @@ export const ResultModal: React.FC<ResultModalProps> = ({
   secretWord,
   attempts,
   maxAttempts,
+  hardMode = false,
+  hintTier,
+  mode = 'hourly',
   feedback,
+  guesses = [],
+  boards = [],
+  wordLength = 5,
+  dictionaryVersion,
+  language,
+  customPuzzle,
+  statistics,
+  hourStats = null,
   timeToNextHour,
   onClose,
-  onShare
+  onShare,
+  onNextPracticeGame,
+  onOpenArchive,
+  onCreatePuzzle
 }) => {
   const [showShareSuccess, setShowShareSuccess] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const { t, rich } = useI18n();
+  const { settings, reduceMotion } = useSettings();
+  const isPractice = mode === 'practice';
+  const isCustom = mode === 'custom' && customPuzzle !== undefined;
+  const isMultiBoard = boards.length > 1;
 
   useEffect(() => {
     if (isOpen) {
       document.body.style.overflow = 'hidden';
     } else {
       document.body.style.overflow = 'unset';
+      // Reopen on the statistics next time
+      setShowReview(false);
     }
 
     return () => {
@@ -41,28 +92,30 @@ export const ResultModal: React.FC<ResultModalProps> = ({
   }, [isOpen]);
 
   const generateShareText = (): string => {
-    const title = 'Hourly Wordle';
-    const result = gameStatus === 'won' ? `${attempts}/${maxAttempts}` : 'X/6';
+    const title = isCustom
+      ? t('share.customTitle', { id: customPuzzle.id })
+      : isMultiBoard ? t('share.multiBoardTitle', { boards: boards.length }) : t('share.title');
+    // Custom results link to the same puzzle so friends can try it too
+    const url = isCustom ? buildCustomPuzzleUrl(customPuzzle) : window.location.origin;
+    const score = gameStatus === 'won' ? `${attempts}/${maxAttempts}` : `X/${maxAttempts}`;
+    // Hard mode results are marked with an asterisk, hinted ones with the strongest hint
+    const hint = hintTier ? ` ${t('share.hint', { tier: hintTier })}` : '';
+    const result = `${hardMode ? `${score}*` : score}${hint}`;
+    
+    if (isMultiBoard) {
+      const grid = buildMultiBoardShareGrid(boards, wordLength, settings.palette);
+      return `${title} ${result}\n\n${grid}\n\n${t('share.playAt', { url })}`;
+    }
     
     let grid = '';
     for (const row of feedback) {
       for (const letter of row) {
-        switch (letter.status) {
-          case 'correct':
-            grid += '🟩';
-            break;
-          case 'present':
-            grid += '🟨';
-            break;
-          case 'absent':
-            grid += '⬜';
-            break;
-        }
+        grid += getFeedbackEmoji(letter.status, settings.palette);
       }
       grid += '\n';
     }
 
-    return `${title} ${result}\n\n${grid.trim()}\n\nPlay at: ${window.location.origin}`;
+    return `${title} ${result}\n\n${grid.trim()}\n\n${t('share.playAt', { url })}`;
   };
 
   const handleShare = async () => {
@@ -71,7 +124,7 @@ export const ResultModal: React.FC<ResultModalProps> = ({
     if (navigator.share) {
       try {
         await navigator.share({
-          title: 'Hourly Wordle',
+          title: t('share.title'),
           text: shareText
         });
       } catch (error) {
@@ -111,55 +164,179 @@ export const ResultModal: React.FC<ResultModalProps> = ({
   };
 
   const renderEmojiGrid = () => {
+    if (isMultiBoard) {
+      return (
+        <pre className="multi-board-grid" data-testid="multi-board-grid">
+          {buildMultiBoardShareGrid(boards, wordLength, settings.palette)}
+        </pre>
+      );
+    }
+
     return feedback.map((row, rowIndex) => (
       <div key={rowIndex} className="emoji-row">
-        {row.map((letter, letterIndex) => {
-          let emoji = '⬜';
-          switch (letter.status) {
-            case 'correct':
-              emoji = '🟩';
-              break;
-            case 'present':
-              emoji = '🟨';
-              break;
-            case 'absent':
-              emoji = '⬜';
-              break;
-          }
+        {row.map((letter, letterIndex) => (
+          <span key={letterIndex} className="emoji-tile">
+            {getFeedbackEmoji(letter.status, settings.palette)}
+          </span>
+        ))}
+      </div>
+    ));
+  };
+
+  const renderGuessDistribution = () => {
+    const maxCount = Math.max(1, ...statistics.guessDistribution);
+
+    return statistics.guessDistribution.map((count, index) => {
+      const guessNumber = index + 1;
+      const isCurrent = gameStatus === 'won' && attempts === guessNumber;
+      const widthPercentage = Math.max(8, (count / maxCount) * 100);
+
+      return (
+        <div key={guessNumber} className="distribution-row" data-testid={`distribution-row-${guessNumber}`}>
+          <div className="distribution-label">{guessNumber}</div>
+          <div className="distribution-track">
+            <div
+              className={`distribution-bar ${isCurrent ? 'current' : ''}`}
+              style={{ width: `${widthPercentage}%` }}
+            >
+              {count}
+            </div>
+          </div>
+        </div>
+      );
+    });
+  };
+
+  const renderHourStats = () => {
+    if (!hourStats || hourStats.players === 0) return null;
+
+    const maxCount = Math.max(1, ...hourStats.distribution);
+    const percentBeaten = getPercentBeaten(hourStats, gameStatus === 'won', attempts);
+
+    return (
+      <div className="hour-stats" data-testid="hour-stats">
+        <h3 className="distribution-title">{t('result.everyone')}</h3>
+        <p className="hour-stats-summary">
+          {rich('result.players', { players: hourStats.players, winPercentage: hourStats.winPercentage })}
+        </p>
+        {gameStatus === 'won' && (
+          <p className="hour-stats-comparison" data-testid="hour-stats-comparison">
+            {rich('result.betterThan', { percent: percentBeaten })}
+          </p>
+        )}
+        {hourStats.distribution.map((count, index) => {
+          const guessNumber = index + 1;
+          const isPlayer = gameStatus === 'won' && attempts === guessNumber;
+
           return (
-            <span key={letterIndex} className="emoji-tile">
-              {emoji}
-            </span>
+            <div key={guessNumber} className="distribution-row" data-testid={`hour-distribution-row-${guessNumber}`}>
+              <div className="distribution-label">{guessNumber}</div>
+              <div className="distribution-track">
+                <div
+                  className={`distribution-bar ${isPlayer ? 'current' : ''}`}
+                  style={{ width: `${Math.max(8, (count / maxCount) * 100)}%` }}
+                >
+                  {count}
+                </div>
+              </div>
+            </div>
           );
         })}
+        {hourStats.mostCommonFirstGuess && (
+          <p className="hour-stats-opener" data-testid="most-common-first-guess">
+            {rich('result.mostCommonOpener', {
+              word: hourStats.mostCommonFirstGuess.word,
+              count: hourStats.mostCommonFirstGuess.count
+            })}
+          </p>
+        )}
       </div>
-    ));
+    );
   };
 
+  const renderStatistics = () => (
+    <>
+      <div className="game-stats" data-testid="game-stats">
+        <div className="stat-item">
+          <div className="stat-value">{statistics.gamesPlayed}</div>
+          <div className="stat-label">{t('result.played')}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{statistics.winPercentage}</div>
+          <div className="stat-label">{t('result.winPercentage')}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{statistics.currentStreak}</div>
+          <div className="stat-label">{t('result.currentStreak')}</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{statistics.maxStreak}</div>
+          <div className="stat-label">{t('result.maxStreak')}</div>
+        </div>
+      </div>
+
+      <div className="guess-distribution" data-testid="guess-distribution">
+        <h3 className="distribution-title">{t('result.guessDistribution')}</h3>
+        {renderGuessDistribution()}
+      </div>
+
+      {HINT_TIERS.some(tier => statistics.hintTiers[tier] > 0) && (
+        <div className="hint-stats" data-testid="hint-stats">
+          <h3 className="distribution-title">{t('result.hints')}</h3>
+          <ul className="hint-stats-list">
+            {HINT_TIERS.filter(tier => statistics.hintTiers[tier] > 0).map(tier => (
+              <li key={tier}>
+                {t(HINT_TIER_LABELS[tier])}: <strong>{statistics.hintTiers[tier]}</strong>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {renderHourStats()}
+    </>
+  );
+
   if (!isOpen) return null;
 
   return (
-    <div className="modal-overlay" data-testid="result-modal">
+    <div className={`modal-overlay ${reduceMotion ? 'reduce-motion' : ''}`} data-testid="result-modal">
       <div className="modal-content">
         <button 
           className="modal-close"
           onClick={onClose}
-          aria-label="Close modal"
+          aria-label={t('result.close')}
           data-testid="close-modal"
         >
           ×
         </button>
 
         <div className="modal-header">
+          {isPractice && (
+            <div className="practice-label" data-testid="practice-label">{t('mode.practice')}</div>
+          )}
+          {isCustom && (
+            <div className="practice-label" data-testid="custom-label">
+              {t('sidebar.customBadge', { id: customPuzzle.id })}
+            </div>
+          )}
           <h2 className={`result-title ${gameStatus}`}>
-            {gameStatus === 'won' ? '🎉 Congratulations!' : '😔 Game Over'}
+            {gameStatus === 'won' ? t('result.won') : t('result.lost')}
           </h2>
           
           <div className="result-stats">
-            {gameStatus === 'won' ? (
-              <p>You guessed the word in <strong>{attempts}</strong> attempts!</p>
+            {isMultiBoard ? (
+              gameStatus === 'won' ? (
+                <p>{rich('result.solvedBoards', { boards: boards.length, attempts })}</p>
+              ) : (
+                <p data-testid="secret-words">
+                  {rich('result.secretWords', { words: boards.map(board => board.word ?? '?').join(', ') })}
+                </p>
+              )
+            ) : gameStatus === 'won' ? (
+              <p>{rich('result.solvedWord', { attempts })}</p>
             ) : (
-              <p>The word was <strong>{secretWord}</strong></p>
+              <p>{rich('result.secretWord', { word: secretWord })}</p>
             )}
           </div>
         </div>
@@ -169,40 +346,85 @@ export const ResultModal: React.FC<ResultModalProps> = ({
             {renderEmojiGrid()}
           </div>
 
-          <div className="game-stats">
-            <div className="stat-item">
-              <div className="stat-value">{attempts}</div>
-              <div className="stat-label">Attempts</div>
-            </div>
-            <div className="stat-item">
-              <div className="stat-value">{gameStatus === 'won' ? '✓' : '✗'}</div>
-              <div className="stat-label">Result</div>
-            </div>
-            <div className="stat-item">
-              <div className="stat-value">{formatTimeRemaining(timeToNextHour)}</div>
-              <div className="stat-label">Next Game</div>
-            </div>
-          </div>
+          {guesses.length > 0 && (
+            <button
+              className="review-toggle"
+              onClick={() => setShowReview(show => !show)}
+              aria-expanded={showReview}
+              data-testid="review-button"
+            >
+              {showReview ? t('result.hideReview') : t('result.review')}
+            </button>
+          )}
+
+          {showReview ? (
+            <GameReview
+              guesses={guesses}
+              boards={boards}
+              wordLength={wordLength}
+              dictionaryVersion={dictionaryVersion}
+              language={language}
+            />
+          ) : (
+            renderStatistics()
+          )}
         </div>
 
         <div className="modal-footer">
-          <button 
-            className="share-button"
-            onClick={handleShare}
-            data-testid="share-button"
-          >
-            📋 Share Result
-          </button>
-          
-          {showShareSuccess && (
-            <div className="share-success" data-testid="share-success">
-              ✓ Copied to clipboard!
-            </div>
-          )}
+          {isPractice ? (
+            // Practice results are not shared in the hourly format
+            onNextPracticeGame && (
+              <button
+                className="share-button"
+                onClick={onNextPracticeGame}
+                data-testid="next-practice-button"
+              >
+                {t('result.nextPracticeWord')}
+              </button>
+            )
+          ) : (
+            <>
+              <button 
+                className="share-button"
+                onClick={handleShare}
+                data-testid="share-button"
+              >
+                {t('result.share')}
+              </button>
+              
+              {showShareSuccess && (
+                <div className="share-success" data-testid="share-success">
+                  {t('result.copied')}
+                </div>
+              )}
 
-          <div className="next-game-info">
-            <p>Next word available in <strong>{formatTimeRemaining(timeToNextHour)}</strong></p>
-          </div>
+              {mode === 'archive' ? (
+                onOpenArchive && (
+                  <button
+                    className="archive-link"
+                    onClick={onOpenArchive}
+                    data-testid="result-archive-button"
+                  >
+                    {t('result.backToArchive')}
+                  </button>
+                )
+              ) : mode === 'custom' ? (
+                onCreatePuzzle && (
+                  <button
+                    className="archive-link"
+                    onClick={onCreatePuzzle}
+                    data-testid="result-create-puzzle-button"
+                  >
+                    {t('result.createPuzzle')}
+                  </button>
+                )
+              ) : (
+                <div className="next-game-info">
+                  <p>{rich('result.nextWordIn', { time: formatTimeRemaining(timeToNextHour) })}</p>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,171 @@
+import React from 'react';
+import type { ColorPalette, KeyboardLayoutPreference, Settings } from '../types/game';
+import { KEYBOARD_LAYOUTS } from '../lib/settings';
+import { COLOR_PALETTES } from '../lib/palettes';
+import { LOCALE_NAMES, SUPPORTED_LOCALES } from '../lib/i18n';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import { useSettings } from '../hooks/useSettings';
+import './SettingsModal.css';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  hardMode?: boolean;
+  hardModeLocked?: boolean;
+  onHardModeChange?: (enabled: boolean) => void;
+}
+
+type ToggleSetting = 'tilePatterns' | 'reducedMotion' | 'showKeyboard' | 'swapEnterBackspace' | 'haptics' | 'showCandidates';
+
+interface ToggleProps {
+  name: string;
+  label: string;
+  description?: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const PALETTE_LABELS: Record<ColorPalette, MessageKey> = {
+  'default': 'settings.palette.default',
+  'high-contrast': 'settings.palette.highContrast',
+  'deuteranopia': 'settings.palette.deuteranopia',
+  'dark': 'settings.palette.dark'
+};
+
+const LAYOUT_LABELS: Record<KeyboardLayoutPreference, MessageKey> = {
+  standard: 'settings.keyboardLayout.standard',
+  alphabetical: 'settings.keyboardLayout.alphabetical'
+};
+
+const Toggle: React.FC<ToggleProps> = ({ name, label, description, checked, disabled = false, onChange }) => (
+  <label className="settings-row" htmlFor={`setting-${name}`}>
+    <span className="settings-text">
+      <span className="settings-label">{label}</span>
+      {description && <span className="settings-description">{description}</span>}
+    </span>
+    <input
+      id={`setting-${name}`}
+      type="checkbox"
+      className="settings-toggle"
+      checked={checked}
+      disabled={disabled}
+      onChange={(event) => onChange(event.target.checked)}
+      data-testid={`setting-${name}`}
+    />
+  </label>
+);
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({
+  isOpen,
+  onClose,
+  hardMode = false,
+  hardModeLocked = false,
+  onHardModeChange
+}) => {
+  const { t, localePreference, setLocale } = useI18n();
+  const { settings, updateSettings } = useSettings();
+
+  if (!isOpen) return null;
+
+  const toggle = (name: ToggleSetting, label: MessageKey, description?: MessageKey) => (
+    <Toggle
+      name={name}
+      label={t(label)}
+      description={description && t(description)}
+      checked={settings[name]}
+      onChange={(checked) => updateSettings({ [name]: checked } as Partial<Settings>)}
+    />
+  );
+
+  return (
+    <div className="settings-overlay" data-testid="settings-modal">
+      <div className="settings-content" role="dialog" aria-label={t('settings.title')}>
+        <button
+          className="settings-close"
+          onClick={onClose}
+          aria-label={t('settings.close')}
+          data-testid="close-settings"
+        >
+          ×
+        </button>
+
+        <h2 className="settings-title">{t('settings.title')}</h2>
+
+        <section className="settings-section">
+          <h3 className="settings-heading">{t('settings.gameplay')}</h3>
+          {onHardModeChange && (
+            <Toggle
+              name="hardMode"
+              label={t('settings.hardMode')}
+              description={t(hardModeLocked ? 'settings.hardModeLocked' : 'settings.hardModeDescription')}
+              checked={hardMode}
+              disabled={hardModeLocked}
+              onChange={onHardModeChange}
+            />
+          )}
+          {toggle('showCandidates', 'settings.showCandidates', 'settings.showCandidatesDescription')}
+        </section>
+
+        <section className="settings-section">
+          <h3 className="settings-heading">{t('settings.display')}</h3>
+          <label className="settings-row" htmlFor="setting-palette">
+            <span className="settings-label">{t('settings.palette')}</span>
+            <select
+              id="setting-palette"
+              className="settings-select"
+              value={settings.palette}
+              onChange={(event) => updateSettings({ palette: event.target.value as ColorPalette })}
+              data-testid="setting-palette"
+            >
+              {COLOR_PALETTES.map(palette => (
+                <option key={palette} value={palette}>{t(PALETTE_LABELS[palette])}</option>
+              ))}
+            </select>
+          </label>
+          {toggle('tilePatterns', 'settings.tilePatterns', 'settings.tilePatternsDescription')}
+          {toggle('reducedMotion', 'settings.reducedMotion', 'settings.reducedMotionDescription')}
+          <label className="settings-row" htmlFor="locale-select">
+            <span className="settings-label">{t('settings.displayLanguage')}</span>
+            <select
+              id="locale-select"
+              className="settings-select"
+              value={localePreference ?? ''}
+              onChange={(event) => setLocale(event.target.value || null)}
+              data-testid="locale-select"
+            >
+              <option value="">{t('settings.automaticLocale')}</option>
+              {SUPPORTED_LOCALES.map(code => (
+                <option key={code} value={code}>{LOCALE_NAMES[code]}</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        <section className="settings-section">
+          <h3 className="settings-heading">{t('settings.keyboard')}</h3>
+          {toggle('showKeyboard', 'settings.showKeyboard', 'settings.showKeyboardDescription')}
+          <label className="settings-row" htmlFor="setting-keyboardLayout">
+            <span className="settings-label">{t('settings.keyboardLayout')}</span>
+            <select
+              id="setting-keyboardLayout"
+              className="settings-select"
+              value={settings.keyboardLayout}
+              onChange={(event) => updateSettings({ keyboardLayout: event.target.value as KeyboardLayoutPreference })}
+              data-testid="setting-keyboardLayout"
+            >
+              {KEYBOARD_LAYOUTS.map(layout => (
+                <option key={layout} value={layout}>{t(LAYOUT_LABELS[layout])}</option>
+              ))}
+            </select>
+          </label>
+          {toggle('swapEnterBackspace', 'settings.swapEnterBackspace')}
+          {toggle('haptics', 'settings.haptics', 'settings.hapticsDescription')}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -1,11 +1,19 @@
 import React, { useEffect, useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
 import './Toast.css';
 
 export interface ToastMessage {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info' | 'warning';
+  // Milliseconds before the toast hides; 0 keeps it until it is closed
   duration?: number;
+  action?: ToastAction;
+}
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
 }
 
 interface ToastProps {
@@ -16,17 +24,18 @@ interface ToastProps {
 const Toast: React.FC<ToastProps> = ({ toast, onRemove }) => {
   const [isVisible, setIsVisible] = useState(false);
   const [isRemoving, setIsRemoving] = useState(false);
+  const { t } = useI18n();
 
   useEffect(() => {
     // Show toast with animation
     const showTimer = setTimeout(() => setIsVisible(true), 10);
     
     // Auto-remove after duration
-    const duration = toast.duration || 3000;
-    const removeTimer = setTimeout(() => {
+    const duration = toast.duration ?? 3000;
+    const removeTimer = duration > 0 ? setTimeout(() => {
       setIsRemoving(true);
       setTimeout(() => onRemove(toast.id), 300);
-    }, duration);
+    }, duration) : undefined;
 
     return () => {
       clearTimeout(showTimer);
@@ -39,6 +48,11 @@ const Toast: React.FC<ToastProps> = ({ toast, onRemove }) => {
     setTimeout(() => onRemove(toast.id), 300);
   };
 
+  const handleAction = () => {
+    toast.action?.onClick();
+    handleClose();
+  };
+
   const getIcon = () => {
     switch (toast.type) {
       case 'success':
@@ -66,10 +80,19 @@ const Toast: React.FC<ToastProps> = ({ toast, onRemove }) => {
       <div className="toast-message">
         {toast.message}
       </div>
+      {toast.action && (
+        <button
+          className="toast-action"
+          onClick={handleAction}
+          data-testid="toast-action"
+        >
+          {toast.action.label}
+        </button>
+      )}
       <button 
         className="toast-close"
         onClick={handleClose}
-        aria-label="Close notification"
+        aria-label={t('toast.close')}
         data-testid="toast-close"
       >
         ×
@@ -0,0 +1,66 @@
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import ArchiveBrowser from '../ArchiveBrowser';
+import { DEFAULT_GAME_CONFIG } from '../../lib/gameConfig';
+import { addHoursToHourId, hourIdUtc } from '../../lib/timeUtils';
+
+describe('ArchiveBrowser', () => {
+  beforeEach(() => {
+    vi.mocked(localStorage.getItem).mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not render when closed', () => {
+    const { container } = render(
+      <ArchiveBrowser isOpen={false} config={DEFAULT_GAME_CONFIG} onSelectHour={() => {}} onClose={() => {}} />
+    );
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('lets past hours of the previous day be picked', () => {
+    const onSelectHour = vi.fn();
+    render(
+      <ArchiveBrowser isOpen={true} config={DEFAULT_GAME_CONFIG} onSelectHour={onSelectHour} onClose={() => {}} />
+    );
+
+    fireEvent.click(screen.getByTestId('archive-previous-day'));
+    const startOfYesterday = addHoursToHourId(`${hourIdUtc().slice(0, 8)}00`, -24);
+    fireEvent.click(screen.getByTestId(`archive-hour-${startOfYesterday}`));
+
+    expect(onSelectHour).toHaveBeenCalledWith(startOfYesterday);
+  });
+
+  it('disables the current and future hours', () => {
+    render(
+      <ArchiveBrowser isOpen={true} config={DEFAULT_GAME_CONFIG} onSelectHour={() => {}} onClose={() => {}} />
+    );
+
+    const currentHourId = hourIdUtc();
+    expect(screen.getByTestId(`archive-hour-${currentHourId}`)).toBeDisabled();
+    expect(screen.getByTestId('archive-next-day')).toBeDisabled();
+  });
+
+  it('moves on to the new day when the hour rolls over while open', () => {
+    vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+    vi.setSystemTime(new Date('2025-09-23T23:30:00Z'));
+    render(
+      <ArchiveBrowser isOpen={true} config={DEFAULT_GAME_CONFIG} onSelectHour={() => {}} onClose={() => {}} />
+    );
+
+    expect(screen.getByTestId('archive-hour-2025092323')).toBeDisabled();
+
+    act(() => {
+      vi.advanceTimersByTime(30 * 60 * 1000);
+    });
+
+    expect(screen.queryByTestId('archive-hour-2025092323')).toBeNull();
+    expect(screen.getByTestId('archive-hour-2025092400')).toBeDisabled();
+
+    fireEvent.click(screen.getByTestId('archive-previous-day'));
+    expect(screen.getByTestId('archive-hour-2025092323')).not.toBeDisabled();
+  });
+});
@@ -0,0 +1,67 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import CandidatesPanel, { MAX_LISTED_CANDIDATES } from '../CandidatesPanel';
+import { getPositionFrequencies } from '../../lib/candidates';
+
+const renderPanel = (candidates: string[] | null, props: Partial<React.ComponentProps<typeof CandidatesPanel>> = {}) =>
+  render(
+    <CandidatesPanel
+      candidates={candidates}
+      frequencies={getPositionFrequencies(candidates ?? [], 5)}
+      includeAllowed={false}
+      onIncludeAllowedChange={() => {}}
+      onSelectWord={() => {}}
+      {...props}
+    />
+  );
+
+describe('CandidatesPanel', () => {
+  it('lists the words left and loads one into the guess', () => {
+    const onSelectWord = vi.fn();
+    renderPanel(['fight', 'light', 'sight'], { onSelectWord });
+
+    expect(screen.getByTestId('candidates-count')).toHaveTextContent('3 words still fit');
+
+    fireEvent.click(screen.getByTestId('candidate-light'));
+
+    expect(onSelectWord).toHaveBeenCalledWith('LIGHT');
+  });
+
+  it('shades each letter by its share of the words at a position', () => {
+    renderPanel(['fight', 'light', 'sight']);
+
+    const shared = screen.getByTestId('heatmap-i-1');
+    expect(shared).toHaveTextContent('3');
+    expect(shared.style.getPropertyValue('--share')).toBe('1');
+    expect(shared).toHaveAttribute('aria-label', 'I in position 2: 3');
+    expect(screen.getByTestId('heatmap-f-0').style.getPropertyValue('--share')).toBe(String(1 / 3));
+    expect(screen.getByTestId('heatmap-f-1')).toHaveTextContent('');
+  });
+
+  it('caps the list and counts the words left out', () => {
+    const candidates = Array.from({ length: MAX_LISTED_CANDIDATES + 5 }, (_, index) => `w${String(index).padStart(4, '0')}`);
+    const { container } = renderPanel(candidates);
+
+    expect(container.querySelectorAll('.candidate-word')).toHaveLength(MAX_LISTED_CANDIDATES);
+    expect(screen.getByText('+5 more')).toBeInTheDocument();
+  });
+
+  it('switches between the solutions and every allowed word', () => {
+    const onIncludeAllowedChange = vi.fn();
+    renderPanel(null, { onIncludeAllowedChange, boardNumber: 2 });
+
+    expect(screen.getByText('Loading words…')).toBeInTheDocument();
+    expect(screen.getByText(/Words Left · Board 2/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('candidates-include-allowed'));
+
+    expect(onIncludeAllowedChange).toHaveBeenCalledWith(true);
+  });
+
+  it('says when no word fits', () => {
+    renderPanel([]);
+
+    expect(screen.getByTestId('candidates-count')).toHaveTextContent('No words fit');
+    expect(screen.queryByTestId('candidates-heatmap')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,65 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import CustomPuzzleCreator from '../CustomPuzzleCreator';
+
+vi.mock('../../lib/customPuzzle', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/customPuzzle')>()),
+  checkCustomWord: vi.fn(),
+  createCustomPuzzle: vi.fn(),
+}));
+
+import { checkCustomWord, createCustomPuzzle } from '../../lib/customPuzzle';
+
+describe('CustomPuzzleCreator', () => {
+  beforeEach(() => {
+    vi.mocked(checkCustomWord).mockReset().mockResolvedValue(null);
+    vi.mocked(createCustomPuzzle).mockReset().mockResolvedValue({
+      id: 'k3x9a2bq',
+      code: 'Ab-_9z',
+      wordLength: 5,
+      language: 'en'
+    });
+  });
+
+  it('does not render when closed', () => {
+    const { container } = render(<CustomPuzzleCreator isOpen={false} language="en" onClose={() => {}} />);
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('only takes letters of the chosen language', () => {
+    render(<CustomPuzzleCreator isOpen={true} language="en" onClose={() => {}} />);
+
+    fireEvent.change(screen.getByTestId('custom-word'), { target: { value: 'cr4ne!' } });
+
+    expect(screen.getByTestId('custom-word')).toHaveValue('CRNE');
+  });
+
+  it('creates a link to the puzzle and copies it', async () => {
+    render(<CustomPuzzleCreator isOpen={true} language="en" onClose={() => {}} />);
+
+    fireEvent.change(screen.getByTestId('custom-word'), { target: { value: 'crane' } });
+    fireEvent.click(screen.getByTestId('custom-create'));
+
+    const url = `${window.location.origin}/mintle/?puzzle=k3x9a2bq&length=5&code=Ab-_9z`;
+    expect(await screen.findByTestId('custom-link')).toHaveValue(url);
+    expect(createCustomPuzzle).toHaveBeenCalledWith('CRANE', 'en');
+
+    fireEvent.click(screen.getByTestId('custom-copy'));
+    expect(navigator.clipboard.writeText).toHaveBeenCalledWith(url);
+    expect(await screen.findByText('Copied!')).toBeInTheDocument();
+  });
+
+  it('explains why a word cannot be used', async () => {
+    vi.mocked(checkCustomWord).mockResolvedValue('custom.notInWordList');
+    render(<CustomPuzzleCreator isOpen={true} language="en" onClose={() => {}} />);
+
+    fireEvent.change(screen.getByTestId('custom-word'), { target: { value: 'xqzvj' } });
+    fireEvent.click(screen.getByTestId('custom-create'));
+
+    expect(await screen.findByTestId('custom-problem')).toHaveTextContent('That word is not in the word list');
+    expect(screen.getByTestId('custom-word')).toHaveAttribute('aria-invalid', 'true');
+    expect(createCustomPuzzle).not.toHaveBeenCalled();
+    expect(screen.queryByTestId('custom-link')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,84 @@
+import { render, screen } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import DynamicGameBoard from '../DynamicGameBoard';
+import { SettingsContext } from '../../hooks/useSettings';
+import { DEFAULT_SETTINGS } from '../../lib/settings';
+import { FLIP_STAGGER } from '../../lib/animations';
+import type { LetterFeedback } from '../../types/game';
+
+vi.mock('../ResponsiveContainer', () => ({
+  useViewport: vi.fn(),
+}));
+
+import { useViewport } from '../ResponsiveContainer';
+
+const feedback: LetterFeedback[] = [
+  { letter: 'C', status: 'absent' },
+  { letter: 'R', status: 'correct' },
+  { letter: 'A', status: 'present' },
+  { letter: 'N', status: 'absent' },
+  { letter: 'E', status: 'absent' }
+];
+
+describe('DynamicGameBoard', () => {
+  beforeEach(() => {
+    (useViewport as ReturnType<typeof vi.fn>).mockReturnValue({
+      width: 1024,
+      height: 768,
+      isMobile: false,
+      isTablet: false,
+      isDesktop: true,
+      orientation: 'landscape',
+      devicePixelRatio: 1,
+    });
+  });
+
+  const getRowTiles = (row: number) =>
+    screen.getAllByTestId('dynamic-game-row')[row].querySelectorAll('[data-testid="dynamic-game-tile"]');
+
+  it('labels tiles with their letter and status', () => {
+    render(<DynamicGameBoard guesses={['CRANE']} currentGuess="SL" feedback={[feedback]} isGameOver={false} />);
+
+    expect(getRowTiles(0)[1]).toHaveAttribute('aria-label', 'Row 1, letter 2: R, correct');
+    expect(getRowTiles(1)[0]).toHaveAttribute('aria-label', 'Row 2, letter 1: S, not submitted');
+    expect(getRowTiles(1)[4]).toHaveAttribute('aria-label', 'Row 2, letter 5: empty');
+  });
+
+  it('flips the tiles of the revealed row one after another', () => {
+    render(<DynamicGameBoard guesses={['CRANE']} currentGuess="" feedback={[feedback]} isGameOver={false} revealingRow={0} />);
+
+    const tiles = getRowTiles(0);
+    expect(tiles[0]).toHaveClass('reveal');
+    expect(tiles[2]).toHaveStyle({ animationDelay: `${2 * FLIP_STAGGER}ms` });
+  });
+
+  it('does not flip rows that were already revealed', () => {
+    render(<DynamicGameBoard guesses={['CRANE']} currentGuess="" feedback={[feedback]} isGameOver={false} />);
+
+    expect(getRowTiles(0)[0]).not.toHaveClass('reveal');
+  });
+
+  it('bounces the solved row', () => {
+    render(<DynamicGameBoard guesses={['CRANE']} currentGuess="" feedback={[feedback]} isGameOver bouncingRow={0} />);
+
+    expect(getRowTiles(0)[4]).toHaveClass('bounce');
+  });
+
+  it('shakes the row being typed', () => {
+    render(<DynamicGameBoard guesses={['CRANE']} currentGuess="XXXXX" feedback={[feedback]} isGameOver={false} shaking />);
+
+    const rows = screen.getAllByTestId('dynamic-game-row');
+    expect(rows[1]).toHaveClass('shake');
+    expect(rows[0]).not.toHaveClass('shake');
+  });
+
+  it('leaves the animations out with reduced motion', () => {
+    render(
+      <SettingsContext.Provider value={{ settings: DEFAULT_SETTINGS, updateSettings: vi.fn(), reduceMotion: true }}>
+        <DynamicGameBoard guesses={['CRANE']} currentGuess="" feedback={[feedback]} isGameOver={false} />
+      </SettingsContext.Provider>
+    );
+
+    expect(screen.getByTestId('dynamic-game-board')).toHaveClass('reduce-motion');
+  });
+});
@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import GameInfoSidebar from '../GameInfoSidebar';
 
@@ -118,6 +118,75 @@ describe('GameInfoSidebar', () => {
     expect(screen.getByText('New Game')).toBeInTheDocument();
   });
 
+  it('labels practice games and hides the hourly timer', () => {
+    render(
+      <GameInfoSidebar
+        timeToNextHour={1800000}
+        currentAttempt={6}
+        maxAttempts={6}
+        gameStatus="lost"
+        mode="practice"
+        onNewGame={() => {}}
+        showNewGameButton={true}
+      />
+    );
+
+    expect(screen.getByTestId('practice-badge')).toHaveTextContent('Practice');
+    expect(screen.queryByText('Next Word', { selector: '.info-label' })).not.toBeInTheDocument();
+    expect(screen.getByTestId('new-game-button')).toHaveTextContent('Next Word');
+  });
+
+  it('switches game mode', () => {
+    const onModeChange = vi.fn();
+    render(
+      <GameInfoSidebar
+        timeToNextHour={1800000}
+        currentAttempt={0}
+        maxAttempts={6}
+        gameStatus="playing"
+        onModeChange={onModeChange}
+      />
+    );
+
+    expect(screen.getByTestId('mode-hourly')).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getByTestId('mode-practice'));
+    expect(onModeChange).toHaveBeenCalledWith('practice');
+  });
+
+  it('changes the number of boards', () => {
+    const onBoardCountChange = vi.fn();
+    render(
+      <GameInfoSidebar
+        timeToNextHour={1800000}
+        currentAttempt={0}
+        maxAttempts={9}
+        gameStatus="playing"
+        boardCount={4}
+        onBoardCountChange={onBoardCountChange}
+      />
+    );
+
+    expect(screen.getByTestId('board-count-select')).toHaveValue('4');
+    fireEvent.change(screen.getByTestId('board-count-select'), { target: { value: '8' } });
+    expect(onBoardCountChange).toHaveBeenCalledWith(8);
+  });
+
+  it('opens the settings', () => {
+    const onOpenSettings = vi.fn();
+    render(
+      <GameInfoSidebar
+        timeToNextHour={3600000}
+        currentAttempt={2}
+        maxAttempts={6}
+        gameStatus="playing"
+        onOpenSettings={onOpenSettings}
+      />
+    );
+
+    fireEvent.click(screen.getByTestId('settings-button'));
+    expect(onOpenSettings).toHaveBeenCalled();
+  });
+
   it('does not render on mobile', () => {
     mockUseViewport.mockReturnValue({
       width: 375,
@@ -140,4 +209,25 @@ describe('GameInfoSidebar', () => {
 
     expect(container.firstChild).toBeNull();
   });
+
+  it('offers the hint tiers from the hint button', () => {
+    const onHint = vi.fn();
+    render(
+      <GameInfoSidebar
+        timeToNextHour={1800000}
+        currentAttempt={1}
+        maxAttempts={6}
+        gameStatus="playing"
+        onHint={onHint}
+      />
+    );
+
+    expect(screen.queryByTestId('hint-count')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByTestId('hint-button'));
+
+    expect(screen.getByTestId('hint-button')).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByTestId('hint-count')).toHaveTextContent('Words left');
+    fireEvent.click(screen.getByTestId('hint-position'));
+    expect(onHint).toHaveBeenCalledWith('position');
+  });
 });
\ No newline at end of file
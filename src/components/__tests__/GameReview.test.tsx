@@ -0,0 +1,93 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import GameReview from '../GameReview';
+import type { BoardState } from '../../types/game';
+
+vi.mock('../../lib/gameAnalysis', () => ({
+  loadGameReview: vi.fn(),
+}));
+
+import { loadGameReview } from '../../lib/gameAnalysis';
+
+const board = (word: string | undefined, solvedAt: number | null): BoardState => ({
+  feedback: [],
+  solvedAt,
+  commitment: 'commitment',
+  word
+});
+
+describe('GameReview', () => {
+  beforeEach(() => {
+    vi.mocked(loadGameReview).mockReset();
+    vi.mocked(loadGameReview).mockImplementation(async boards => boards.map(() => [
+      {
+        guess: 'LIGHT',
+        candidatesBefore: 5,
+        candidatesAfter: 4,
+        expectedBits: 0.72,
+        actualBits: 0.32,
+        bestGuess: 'FLAMS',
+        bestExpectedBits: 2.32,
+        skill: 31,
+        luck: -0.4
+      },
+      {
+        guess: 'SIGHT',
+        candidatesBefore: 4,
+        candidatesAfter: 1,
+        expectedBits: 0.81,
+        actualBits: 2,
+        bestGuess: 'FLAMS',
+        bestExpectedBits: 2,
+        skill: 41,
+        luck: 1.19
+      }
+    ]));
+  });
+
+  it('shows the analysis of every guess', async () => {
+    render(
+      <GameReview guesses={['LIGHT', 'SIGHT']} boards={[board('SIGHT', 2)]} wordLength={5} dictionaryVersion="v1" />
+    );
+
+    expect(screen.getByTestId('review-loading')).toBeInTheDocument();
+
+    const firstRow = await screen.findByTestId('review-row-0-0');
+    expect(firstRow).toHaveTextContent('LIGHT');
+    expect(firstRow).toHaveTextContent('5 → 4');
+    expect(firstRow).toHaveTextContent('0.3 / 0.7');
+    expect(firstRow).toHaveTextContent('FLAMS');
+    expect(firstRow.querySelector('.review-unlucky')).toHaveTextContent('-0.4');
+    expect(screen.getByTestId('review-row-0-1').querySelector('.review-lucky')).toHaveTextContent('+1.2');
+    expect(screen.getByTestId('review-summary-0')).toHaveTextContent('Average skill 36/100 · luck +0.8 bits');
+    expect(loadGameReview).toHaveBeenCalledWith([{ guesses: ['LIGHT', 'SIGHT'], answer: 'SIGHT' }], {
+      wordLength: 5,
+      dictionaryVersion: 'v1',
+      language: undefined
+    });
+  });
+
+  it('replays each board only up to the guess that solved it', async () => {
+    render(
+      <GameReview
+        guesses={['LIGHT', 'SIGHT']}
+        boards={[board('LIGHT', 1), board('SIGHT', 2)]}
+        wordLength={5}
+        dictionaryVersion="v1"
+      />
+    );
+
+    expect(await screen.findByTestId('review-board-1')).toHaveTextContent('Board 2');
+    expect(loadGameReview).toHaveBeenCalledWith([
+      { guesses: ['LIGHT'], answer: 'LIGHT' },
+      { guesses: ['LIGHT', 'SIGHT'], answer: 'SIGHT' }
+    ], expect.anything());
+  });
+
+  it('is unavailable until the answers are revealed', async () => {
+    render(<GameReview guesses={['LIGHT']} boards={[board(undefined, null)]} wordLength={5} dictionaryVersion="v1" />);
+
+    expect(await screen.findByTestId('review-unavailable')).toBeInTheDocument();
+    expect(loadGameReview).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,9 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import Keyboard from '../Keyboard';
+import { SettingsContext } from '../../hooks/useSettings';
+import { DEFAULT_SETTINGS } from '../../lib/settings';
+import type { Settings } from '../../types/game';
 
 // Mock the useViewport hook
 vi.mock('../ResponsiveContainer', () => ({
@@ -152,4 +155,127 @@ describe('Keyboard', () => {
 
     expect(screen.getByText('Ready to submit!')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('colors letter keys per board in multi-board mode', () => {
+    const boardFeedback = [
+      [[{ letter: 'A', status: 'correct' as const }]],
+      [[{ letter: 'A', status: 'absent' as const }]]
+    ];
+
+    render(
+      <Keyboard
+        onKeyPress={mockOnKeyPress}
+        disabled={false}
+        allFeedback={boardFeedback.flat()}
+        boardFeedback={boardFeedback}
+        currentGuess=""
+        maxGuessLength={5}
+      />
+    );
+
+    expect(screen.getByTestId('keyboard-key-A')).toHaveClass('multi-board');
+    const sections = screen.getByTestId('keyboard-key-A-boards').children;
+    expect(sections[0]).toHaveClass('correct');
+    expect(sections[1]).toHaveClass('absent');
+  });
+
+  it('shows the layout of the selected language', () => {
+    render(
+      <Keyboard
+        onKeyPress={mockOnKeyPress}
+        disabled={false}
+        allFeedback={[]}
+        currentGuess=""
+        maxGuessLength={5}
+        language="de"
+      />
+    );
+
+    expect(screen.getByTestId('keyboard-row-0').children[5]).toHaveAttribute('data-testid', 'keyboard-key-Z');
+    fireEvent.click(screen.getByTestId('keyboard-key-Ä'));
+    expect(mockOnKeyPress).toHaveBeenCalledWith('Ä');
+  });
+
+  describe('accessibility', () => {
+    it('labels letter keys with what is known about the letter', () => {
+      render(
+        <Keyboard
+          onKeyPress={mockOnKeyPress}
+          disabled={false}
+          allFeedback={[[{ letter: 'A', status: 'correct' }, { letter: 'B', status: 'absent' }]]}
+          currentGuess=""
+          maxGuessLength={5}
+        />
+      );
+
+      expect(screen.getByTestId('keyboard-key-A')).toHaveAttribute('aria-label', 'A, correct');
+      expect(screen.getByTestId('keyboard-key-B')).toHaveAttribute('aria-label', 'B, absent');
+      expect(screen.getByTestId('keyboard-key-C')).toHaveAttribute('aria-label', 'C, not guessed yet');
+    });
+
+    it('labels letter keys per board in multi-board mode', () => {
+      render(
+        <Keyboard
+          onKeyPress={mockOnKeyPress}
+          disabled={false}
+          allFeedback={[]}
+          boardFeedback={[[[{ letter: 'A', status: 'correct' }]], [[{ letter: 'A', status: 'present' }]]]}
+          currentGuess=""
+          maxGuessLength={5}
+        />
+      );
+
+      expect(screen.getByTestId('keyboard-key-A')).toHaveAttribute('aria-label', 'A: board 1 correct, board 2 present');
+    });
+
+    it('labels the action keys', () => {
+      render(
+        <Keyboard
+          onKeyPress={mockOnKeyPress}
+          disabled={false}
+          allFeedback={[]}
+          currentGuess=""
+          maxGuessLength={5}
+        />
+      );
+
+      expect(screen.getByTestId('keyboard-key-ENTER')).toHaveAttribute('aria-label', 'Enter');
+      expect(screen.getByTestId('keyboard-key-⌫')).toHaveAttribute('aria-label', 'Backspace');
+    });
+  });
+
+  describe('settings', () => {
+    const renderWithSettings = (changes: Partial<Settings>) => render(
+      <SettingsContext.Provider value={{ settings: { ...DEFAULT_SETTINGS, ...changes }, updateSettings: vi.fn(), reduceMotion: false }}>
+        <Keyboard
+          onKeyPress={mockOnKeyPress}
+          disabled={false}
+          allFeedback={[[{ letter: 'A', status: 'correct' }]]}
+          currentGuess=""
+          maxGuessLength={5}
+        />
+      </SettingsContext.Provider>
+    );
+
+    it('hides the on-screen keyboard', () => {
+      renderWithSettings({ showKeyboard: false });
+
+      expect(screen.queryByTestId('keyboard')).not.toBeInTheDocument();
+    });
+
+    it('shows the keys in alphabetical order', () => {
+      renderWithSettings({ keyboardLayout: 'alphabetical' });
+
+      expect(screen.getByTestId('keyboard-row-0').children[0]).toHaveAttribute('data-testid', 'keyboard-key-A');
+      expect(screen.getByTestId('keyboard-row-0').children[1]).toHaveAttribute('data-testid', 'keyboard-key-B');
+    });
+
+    it('swaps ENTER and BACKSPACE', () => {
+      renderWithSettings({ swapEnterBackspace: true });
+
+      const lastRow = screen.getByTestId('keyboard-row-2').children;
+      expect(lastRow[0]).toHaveAttribute('data-testid', 'keyboard-key-⌫');
+      expect(lastRow[lastRow.length - 1]).toHaveAttribute('data-testid', 'keyboard-key-ENTER');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { render, screen, act } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import LiveAnnouncer from '../LiveAnnouncer';
+import { announce } from '../../lib/announcer';
+
+describe('LiveAnnouncer', () => {
+  it('reads out polite and assertive announcements in separate regions', () => {
+    render(<LiveAnnouncer />);
+
+    act(() => announce('Guess 1 of 6: C correct.'));
+    act(() => announce('Not in word list', 'assertive'));
+
+    expect(screen.getByTestId('announcer-polite')).toHaveTextContent('Guess 1 of 6: C correct.');
+    expect(screen.getByTestId('announcer-polite')).toHaveAttribute('aria-live', 'polite');
+    expect(screen.getByTestId('announcer-assertive')).toHaveTextContent('Not in word list');
+    expect(screen.getByTestId('announcer-assertive')).toHaveAttribute('aria-live', 'assertive');
+  });
+
+  it('changes the text of a repeated announcement so it is read again', () => {
+    render(<LiveAnnouncer />);
+
+    act(() => announce('Not in word list', 'assertive'));
+    const first = screen.getByTestId('announcer-assertive').textContent;
+    act(() => announce('Not in word list', 'assertive'));
+
+    expect(screen.getByTestId('announcer-assertive').textContent).not.toBe(first);
+  });
+
+  it('stops listening once unmounted', () => {
+    const { unmount } = render(<LiveAnnouncer />);
+    unmount();
+
+    expect(() => announce('After unmount')).not.toThrow();
+  });
+});
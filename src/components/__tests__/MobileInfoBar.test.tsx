@@ -87,4 +87,19 @@ describe('MobileInfoBar', () => {
 
     expect(container.firstChild).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('shows a practice label instead of the timer in practice mode', () => {
+    render(
+      <MobileInfoBar
+        timeToNextHour={3600000}
+        currentAttempt={1}
+        maxAttempts={6}
+        gameStatus="playing"
+        mode="practice"
+      />
+    );
+
+    expect(screen.getByTestId('practice-label')).toBeInTheDocument();
+    expect(screen.queryByText('60:00')).not.toBeInTheDocument();
+  });
+});
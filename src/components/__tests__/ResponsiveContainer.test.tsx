@@ -2,6 +2,9 @@ import React from 'react';
 import { render, screen, act } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import ResponsiveContainer, { useViewport } from '../ResponsiveContainer';
+import { I18nProvider } from '../../contexts/I18nContext';
+import { SettingsContext } from '../../hooks/useSettings';
+import { DEFAULT_SETTINGS } from '../../lib/settings';
 
 // Mock ResizeObserver
 const mockResizeObserver = vi.fn(() => ({
@@ -88,6 +91,64 @@ describe('ResponsiveContainer', () => {
     expect(screen.getByTestId('child')).toHaveTextContent('Test content');
   });
 
+  it('lays out right-to-left locales from the right', () => {
+    const { container } = render(
+      <I18nProvider locale="ar">
+        <ResponsiveContainer>
+          <div>Content</div>
+        </ResponsiveContainer>
+      </I18nProvider>
+    );
+
+    const responsiveContainer = container.firstChild as HTMLElement;
+    expect(responsiveContainer).toHaveClass('rtl');
+    expect(responsiveContainer).toHaveAttribute('dir', 'rtl');
+    expect(responsiveContainer).toHaveAttribute('lang', 'ar');
+    expect(document.documentElement).toHaveAttribute('dir', 'rtl');
+  });
+
+  it('lays out left-to-right by default', () => {
+    const { container } = render(
+      <ResponsiveContainer>
+        <div>Content</div>
+      </ResponsiveContainer>
+    );
+
+    const responsiveContainer = container.firstChild as HTMLElement;
+    expect(responsiveContainer).not.toHaveClass('rtl');
+    expect(responsiveContainer).toHaveAttribute('dir', 'ltr');
+  });
+
+  it('applies the colors of the palette', () => {
+    const { container } = render(
+      <SettingsContext.Provider
+        value={{ settings: { ...DEFAULT_SETTINGS, palette: 'high-contrast', tilePatterns: true }, updateSettings: vi.fn(), reduceMotion: false }}
+      >
+        <ResponsiveContainer>
+          <div>Content</div>
+        </ResponsiveContainer>
+      </SettingsContext.Provider>
+    );
+
+    const responsiveContainer = container.firstChild as HTMLElement;
+    expect(responsiveContainer).toHaveClass('palette-high-contrast', 'tile-patterns');
+    expect(responsiveContainer.style.getPropertyValue('--tile-correct')).toBe('#f5793a');
+    expect(responsiveContainer.style.getPropertyValue('--tile-present')).toBe('#85c0f9');
+  });
+
+  it('leaves the colors to the stylesheets with the default palette', () => {
+    const { container } = render(
+      <ResponsiveContainer>
+        <div>Content</div>
+      </ResponsiveContainer>
+    );
+
+    const responsiveContainer = container.firstChild as HTMLElement;
+    expect(responsiveContainer).toHaveClass('palette-default');
+    expect(responsiveContainer).not.toHaveClass('tile-patterns');
+    expect(responsiveContainer.style.getPropertyValue('--tile-correct')).toBe('');
+  });
+
   it('applies correct CSS classes based on viewport', () => {
     const { container } = render(
       <ResponsiveContainer className="custom-class">
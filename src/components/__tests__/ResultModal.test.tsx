@@ -0,0 +1,157 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ResultModal from '../ResultModal';
+import { I18nProvider } from '../../contexts/I18nContext';
+import { SettingsContext } from '../../hooks/useSettings';
+import { DEFAULT_SETTINGS } from '../../lib/settings';
+import type { GameStatistics } from '../../types/game';
+
+const statistics: GameStatistics = {
+  gamesPlayed: 3,
+  gamesWon: 2,
+  winPercentage: 67,
+  currentStreak: 1,
+  maxStreak: 2,
+  guessDistribution: [0, 0, 1, 1, 0, 0],
+  hintTiers: { count: 0, letter: 0, position: 0, probe: 0 }
+};
+
+const baseProps = {
+  isOpen: true,
+  gameStatus: 'won' as const,
+  secretWord: 'TRACE',
+  attempts: 3,
+  maxAttempts: 6,
+  feedback: [],
+  statistics,
+  timeToNextHour: 60000,
+  onClose: () => {}
+};
+
+describe('ResultModal', () => {
+  it('compares the result with how everyone did', () => {
+    render(
+      <ResultModal
+        {...baseProps}
+        hourStats={{
+          players: 10,
+          winPercentage: 80,
+          distribution: [0, 1, 4, 2, 0, 1],
+          mostCommonFirstGuess: { word: 'CRANE', count: 3 }
+        }}
+      />
+    );
+
+    expect(screen.getByTestId('hour-stats')).toHaveTextContent('10 players · 80% solved it');
+    expect(screen.getByTestId('hour-stats-comparison')).toHaveTextContent('better than 50% of players');
+    expect(screen.getByTestId('hour-distribution-row-3').querySelector('.distribution-bar')).toHaveClass('current');
+    expect(screen.getByTestId('most-common-first-guess')).toHaveTextContent('CRANE');
+  });
+
+  it('uses the singular for a first-guess win', () => {
+    render(<ResultModal {...baseProps} attempts={1} />);
+
+    expect(screen.getByText(/You guessed the word in/)).toHaveTextContent('You guessed the word in 1 attempt!');
+  });
+
+  it('renders in the interface locale', () => {
+    render(
+      <I18nProvider locale="es">
+        <ResultModal {...baseProps} gameStatus="lost" />
+      </I18nProvider>
+    );
+
+    expect(screen.getByText('😔 Fin de la partida')).toBeInTheDocument();
+    expect(screen.getByText(/La palabra era/)).toHaveTextContent('La palabra era TRACE');
+    expect(screen.getByTestId('share-button')).toHaveTextContent('Compartir resultado');
+  });
+
+  it('hides the panel without global results', () => {
+    render(<ResultModal {...baseProps} />);
+
+    expect(screen.queryByTestId('hour-stats')).not.toBeInTheDocument();
+  });
+
+  it('follows the color and motion settings', () => {
+    render(
+      <SettingsContext.Provider value={{ settings: { ...DEFAULT_SETTINGS, palette: 'high-contrast' }, updateSettings: vi.fn(), reduceMotion: true }}>
+        <ResultModal
+          {...baseProps}
+          attempts={2}
+          feedback={[
+            [{ letter: 'C', status: 'present' }, { letter: 'A', status: 'absent' }],
+            [{ letter: 'T', status: 'correct' }, { letter: 'R', status: 'correct' }]
+          ]}
+        />
+      </SettingsContext.Provider>
+    );
+
+    expect(screen.getByTestId('result-modal')).toHaveClass('reduce-motion');
+    const rows = screen.getByTestId('result-modal').querySelectorAll('.emoji-row');
+    expect(rows[0]).toHaveTextContent('🟦⬜');
+    expect(rows[1]).toHaveTextContent('🟧🟧');
+  });
+
+  it('marks the strongest hint in the share text', async () => {
+    render(<ResultModal {...baseProps} hardMode hintTier="letter" />);
+    fireEvent.click(screen.getByTestId('share-button'));
+
+    await waitFor(() => expect(navigator.share).toHaveBeenCalled());
+    expect(vi.mocked(navigator.share).mock.lastCall?.[0]?.text).toMatch(/^Hourly Wordle 3\/6\* 💡 letter\n/);
+  });
+
+  it('shows the games played with each hint', () => {
+    render(<ResultModal {...baseProps} statistics={{ ...statistics, hintTiers: { count: 2, letter: 0, position: 0, probe: 1 } }} />);
+
+    const hints = screen.getByTestId('hint-stats');
+    expect(hints).toHaveTextContent('Words left: 2');
+    expect(hints).toHaveTextContent('Best next guess: 1');
+    expect(hints).not.toHaveTextContent('Reveal a letter');
+  });
+
+  it('leaves out the hint stats without hinted games', () => {
+    render(<ResultModal {...baseProps} />);
+
+    expect(screen.queryByTestId('hint-stats')).not.toBeInTheDocument();
+  });
+
+  it('switches between the statistics and the review of the guesses', async () => {
+    render(<ResultModal {...baseProps} guesses={['CRANE', 'TRACE']} boards={[]} />);
+
+    fireEvent.click(screen.getByTestId('review-button'));
+
+    // Without the dictionary pack of the puzzle there is nothing to replay
+    expect(await screen.findByTestId('review-unavailable')).toBeInTheDocument();
+    expect(screen.queryByTestId('game-stats')).not.toBeInTheDocument();
+    expect(screen.getByTestId('review-button')).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.click(screen.getByTestId('review-button'));
+
+    expect(screen.getByTestId('game-stats')).toBeInTheDocument();
+  });
+
+  it('offers no review before a guess is made', () => {
+    render(<ResultModal {...baseProps} />);
+
+    expect(screen.queryByTestId('review-button')).not.toBeInTheDocument();
+  });
+
+  it('shares a custom result with the puzzle id and its link', async () => {
+    const customPuzzle = { id: 'k3x9a2bq', code: 'Ab-_9z', wordLength: 5, language: 'en' };
+    const onCreatePuzzle = vi.fn();
+    render(<ResultModal {...baseProps} mode="custom" customPuzzle={customPuzzle} onCreatePuzzle={onCreatePuzzle} />);
+
+    expect(screen.getByTestId('custom-label')).toHaveTextContent('Custom · k3x9a2bq');
+    fireEvent.click(screen.getByTestId('share-button'));
+
+    await waitFor(() => expect(navigator.share).toHaveBeenCalled());
+    const text = vi.mocked(navigator.share).mock.lastCall?.[0]?.text;
+    expect(text).toMatch(/^Custom Wordle k3x9a2bq 3\/6\n/);
+    expect(text).toContain('?puzzle=k3x9a2bq&length=5&code=Ab-_9z');
+
+    // No next word to wait for; the player can make a puzzle instead
+    expect(screen.queryByText(/Next word available/)).not.toBeInTheDocument();
+    fireEvent.click(screen.getByTestId('result-create-puzzle-button'));
+    expect(onCreatePuzzle).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import type { ComponentProps } from 'react';
+import SettingsModal from '../SettingsModal';
+import { SettingsProvider } from '../../contexts/SettingsContext';
+import { I18nProvider } from '../../contexts/I18nContext';
+
+const renderSettings = (props: Partial<ComponentProps<typeof SettingsModal>> = {}) => render(
+  <SettingsProvider>
+    <I18nProvider>
+      <SettingsModal isOpen={true} onClose={() => {}} {...props} />
+    </I18nProvider>
+  </SettingsProvider>
+);
+
+const savedSettings = () => {
+  const calls = vi.mocked(localStorage.setItem).mock.calls.filter(([key]) => key === 'mintle-settings');
+  return JSON.parse(calls[calls.length - 1][1]);
+};
+
+describe('SettingsModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(localStorage.getItem).mockReturnValue(null);
+  });
+
+  it('does not render when closed', () => {
+    const { container } = renderSettings({ isOpen: false });
+
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('saves changed settings', () => {
+    renderSettings();
+
+    expect(screen.getByTestId('setting-haptics')).toBeChecked();
+    fireEvent.click(screen.getByTestId('setting-haptics'));
+    fireEvent.change(screen.getByTestId('setting-palette'), { target: { value: 'deuteranopia' } });
+    fireEvent.change(screen.getByTestId('setting-keyboardLayout'), { target: { value: 'alphabetical' } });
+
+    expect(screen.getByTestId('setting-haptics')).not.toBeChecked();
+    expect(savedSettings()).toMatchObject({
+      version: 2,
+      settings: { haptics: false, palette: 'deuteranopia', keyboardLayout: 'alphabetical' }
+    });
+  });
+
+  it('switches the interface locale and remembers it', () => {
+    renderSettings();
+
+    expect(screen.getByTestId('locale-select')).toHaveValue('');
+    fireEvent.change(screen.getByTestId('locale-select'), { target: { value: 'de' } });
+
+    expect(screen.getByText('Einstellungen')).toBeInTheDocument();
+    expect(savedSettings().settings.locale).toBe('de');
+
+    fireEvent.change(screen.getByTestId('locale-select'), { target: { value: '' } });
+    expect(screen.getByText('Settings')).toBeInTheDocument();
+    expect(savedSettings().settings.locale).toBeNull();
+  });
+
+  it('only offers hard mode while it can be changed', () => {
+    const onHardModeChange = vi.fn();
+    const { rerender } = renderSettings({ onHardModeChange });
+
+    fireEvent.click(screen.getByTestId('setting-hardMode'));
+    expect(onHardModeChange).toHaveBeenCalledWith(true);
+
+    rerender(
+      <SettingsProvider>
+        <I18nProvider>
+          <SettingsModal isOpen={true} onClose={() => {}} hardMode={true} hardModeLocked={true} onHardModeChange={onHardModeChange} />
+        </I18nProvider>
+      </SettingsProvider>
+    );
+
+    expect(screen.getByTestId('setting-hardMode')).toBeChecked();
+    expect(screen.getByTestId('setting-hardMode')).toBeDisabled();
+    expect(screen.getByText('Can only be changed before your first guess')).toBeInTheDocument();
+  });
+
+  it('closes', () => {
+    const onClose = vi.fn();
+    renderSettings({ onClose });
+
+    fireEvent.click(screen.getByTestId('close-settings'));
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,40 @@
-import React, { createContext, useContext } from 'react';
+import React, { createContext, useContext, useState, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import { useGameState } from '../hooks/useGameState';
-import type { GameState } from '../types/game';
+import {
+  loadGameConfig,
+  saveGameConfig,
+  isSupportedBoardCount,
+  getMaxGuessesForBoards,
+  DEFAULT_WORD_LENGTH
+} from '../lib/gameConfig';
+import { DEFAULT_LANGUAGE, isSupportedLanguage, isSupportedWordLengthForLanguage } from '../lib/languages';
+import { getArchiveConfig } from '../lib/archive';
+import { getCustomConfig } from '../lib/customPuzzle';
+import { isPastHourId } from '../lib/timeUtils';
+import type { GuessEvaluator } from '../lib/evaluator';
+import type { HourStatsSummary } from '../lib/hourStats';
+import type { GameState, GameStatistics, GameConfig, SelectableGameMode, GuessResult, Hint, HintTier, CustomPuzzle } from '../types/game';
 
 interface GameContextType {
   gameState: GameState;
-  submitGuess: (guess: string) => Promise<{ success: boolean; error?: string }>;
+  submitGuess: (guess: string) => Promise<GuessResult>;
   updateCurrentGuess: (guess: string) => void;
   resetGame: () => Promise<void>;
-  getHint: () => Promise<string | null>;
+  nextPracticeGame: () => Promise<void>;
+  getHint: (tier: HintTier) => Promise<Hint | null>;
+  hintAvailable: boolean;
+  setHardMode: (enabled: boolean) => boolean;
+  statistics: GameStatistics;
+  hourStats: HourStatsSummary | null;
+  isOffline: boolean;
+  offlineMismatches: string[];
+  config: GameConfig;
+  setWordLength: (wordLength: number) => void;
+  setLanguage: (language: string) => void;
+  setBoardCount: (boardCount: number) => void;
+  setMode: (mode: SelectableGameMode) => void;
+  playArchiveHour: (hourId: string) => void;
   isLoading: boolean;
   error: string | null;
 }
@@ -17,13 +43,85 @@ const GameContext = createContext<GameContextType | undefined>(undefined);
 
 interface GameProviderProps {
   children: ReactNode;
+  evaluator?: GuessEvaluator;
+  // Puzzle from the link the app was opened with; played instead of the saved variant
+  customPuzzle?: CustomPuzzle | null;
 }
 
-export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
-  const gameStateHook = useGameState();
+export const GameProvider: React.FC<GameProviderProps> = ({ children, evaluator, customPuzzle }) => {
+  const [config, setConfig] = useState<GameConfig>(
+    () => (customPuzzle ? getCustomConfig(customPuzzle) : loadGameConfig())
+  );
+  const gameStateHook = useGameState(config, evaluator);
+
+  const setWordLength = useCallback((wordLength: number) => {
+    setConfig(prev => {
+      // A custom puzzle fixes its word length, language and board count
+      if (prev.mode === 'custom') return prev;
+      if (prev.wordLength === wordLength || !isSupportedWordLengthForLanguage(wordLength, prev.language)) return prev;
+      const next = { ...prev, wordLength };
+      saveGameConfig(next);
+      return next;
+    });
+  }, []);
+
+  // Switching language keeps the word length when the language has words of that length
+  const setLanguage = useCallback((language: string) => {
+    if (!isSupportedLanguage(language)) return;
+
+    setConfig(prev => {
+      if (prev.mode === 'custom' || (prev.language ?? DEFAULT_LANGUAGE) === language) return prev;
+      const wordLength = isSupportedWordLengthForLanguage(prev.wordLength, language)
+        ? prev.wordLength
+        : DEFAULT_WORD_LENGTH;
+      const next = { ...prev, language, wordLength };
+      saveGameConfig(next);
+      return next;
+    });
+  }, []);
+
+  const setBoardCount = useCallback((boardCount: number) => {
+    if (!isSupportedBoardCount(boardCount)) return;
+
+    setConfig(prev => {
+      if (prev.mode === 'custom' || prev.boardCount === boardCount) return prev;
+      const next = { ...prev, boardCount, maxGuesses: getMaxGuessesForBoards(boardCount) };
+      saveGameConfig(next);
+      return next;
+    });
+  }, []);
+
+  // Leaving a custom puzzle goes back to the player's saved variant
+  const setMode = useCallback((mode: SelectableGameMode) => {
+    setConfig(current => {
+      if (current.mode === mode) return current;
+      const prev = current.mode === 'custom' ? loadGameConfig() : current;
+      const next: GameConfig = {
+        wordLength: prev.wordLength,
+        maxGuesses: prev.maxGuesses,
+        mode,
+        boardCount: prev.boardCount,
+        language: prev.language
+      };
+      saveGameConfig(next);
+      return next;
+    });
+  }, []);
+
+  const playArchiveHour = useCallback((hourId: string) => {
+    // Refuse the current and future hours so upcoming answers cannot leak
+    if (!isPastHourId(hourId)) return;
+
+    setConfig(prev => {
+      if (prev.mode === 'archive' && prev.archiveHourId === hourId) return prev;
+      const next = getArchiveConfig(prev.mode === 'custom' ? loadGameConfig() : prev, hourId);
+      saveGameConfig(next);
+      return next;
+    });
+  }, []);
 
   return (
-    <GameContext.Provider value={gameStateHook}>
+    <GameContext.Provider value={{ ...gameStateHook, config, setWordLength, setLanguage, setBoardCount, setMode, playArchiveHour }}>
       {children}
     </GameContext.Provider>
   );
@@ -37,4 +135,4 @@ export const useGame = (): GameContextType => {
   return context;
 };
 
-export default GameContext;
\ No newline at end of file
+export default GameContext;
@@ -0,0 +1,50 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { I18nContext, createTranslator } from '../hooks/useI18n';
+import { useSettings } from '../hooks/useSettings';
+import { detectLocale, getLocaleDirection, isSupportedLocale } from '../lib/i18n';
+
+interface I18nProviderProps {
+  children: ReactNode;
+  // Locale to use instead of the stored or detected one
+  locale?: string;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children, locale: fixedLocale }) => {
+  const { settings, updateSettings } = useSettings();
+  const localePreference = settings.locale;
+  const [detectedLocale, setDetectedLocale] = useState<string>(() => detectLocale());
+  const locale = fixedLocale ?? localePreference ?? detectedLocale;
+  const direction = getLocaleDirection(locale);
+
+  // Follow changes to the browser's languages while no locale is picked
+  useEffect(() => {
+    const handleLanguageChange = () => setDetectedLocale(detectLocale());
+    window.addEventListener('languagechange', handleLanguageChange);
+    return () => window.removeEventListener('languagechange', handleLanguageChange);
+  }, []);
+
+  // Screen readers and the browser's own UI read the document's language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = direction;
+  }, [locale, direction]);
+
+  const setLocale = useCallback((next: string | null) => {
+    if (next !== null && !isSupportedLocale(next)) return;
+    updateSettings({ locale: next });
+  }, [updateSettings]);
+
+  const value = useMemo(
+    () => ({ locale, direction, localePreference, setLocale, ...createTranslator(locale) }),
+    [locale, direction, localePreference, setLocale]
+  );
+
+  return (
+    <I18nContext.Provider value={value}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export default I18nProvider;
@@ -0,0 +1,39 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { SettingsContext } from '../hooks/useSettings';
+import { loadSettings, saveSettings, shouldReduceMotion } from '../lib/settings';
+import { setHapticFeedbackEnabled } from '../lib/touchOptimization';
+import type { Settings } from '../types/game';
+
+interface SettingsProviderProps {
+  children: ReactNode;
+}
+
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    setHapticFeedbackEnabled(settings.haptics);
+  }, [settings.haptics]);
+
+  const value = useMemo(
+    () => ({ settings, updateSettings, reduceMotion: shouldReduceMotion(settings) }),
+    [settings, updateSettings]
+  );
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export default SettingsProvider;
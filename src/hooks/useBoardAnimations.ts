@@ -0,0 +1,80 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useSettings } from './useSettings';
+import {
+  SHAKE_DURATION,
+  getBounceDuration,
+  getRevealDuration,
+  getTileRevealEnd,
+  waitFor
+} from '../lib/animations';
+
+interface UseBoardAnimationsReturn {
+  // Guess whose tiles are flipping over, counted from 1, or null
+  revealingGuess: number | null;
+  // Tiles of that guess that have flipped so far
+  revealedTiles: number;
+  // Guess whose solved rows bounce, or null
+  bouncingGuess: number | null;
+  // Whether the row being typed shakes after a rejected guess
+  shaking: boolean;
+  revealGuess: (guess: number, solved: boolean) => Promise<void>;
+  shakeRow: () => Promise<void>;
+}
+
+/**
+ * Sequence the board animations of a game
+ * Reveals resolve once the last tile has flipped (and the solved rows have
+ * bounced), so whatever follows a guess, such as the result modal, waits for
+ * the player to see it. With reduced motion everything resolves right away.
+ * @param wordLength - Tiles in a row
+ */
+export function useBoardAnimations(wordLength: number): UseBoardAnimationsReturn {
+  const { reduceMotion } = useSettings();
+  const [revealingGuess, setRevealingGuess] = useState<number | null>(null);
+  const [revealedTiles, setRevealedTiles] = useState(0);
+  const [bouncingGuess, setBouncingGuess] = useState<number | null>(null);
+  const [shaking, setShaking] = useState(false);
+  const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  // A guess rejected while the row still shakes keeps it shaking until its own shake ends
+  const shakeId = useRef(0);
+
+  useEffect(() => () => timers.current.forEach(clearTimeout), []);
+
+  const revealGuess = useCallback(async (guess: number, solved: boolean) => {
+    if (reduceMotion) return;
+
+    setRevealingGuess(guess);
+    setRevealedTiles(0);
+    timers.current = Array.from({ length: wordLength }, (_, index) =>
+      setTimeout(() => setRevealedTiles(index + 1), getTileRevealEnd(index))
+    );
+    await waitFor(getRevealDuration(wordLength));
+    setRevealingGuess(null);
+
+    if (solved) {
+      setBouncingGuess(guess);
+      await waitFor(getBounceDuration(wordLength));
+      setBouncingGuess(null);
+    }
+  }, [reduceMotion, wordLength]);
+
+  const shakeRow = useCallback(async () => {
+    if (reduceMotion) return;
+
+    const id = ++shakeId.current;
+    setShaking(true);
+    await waitFor(SHAKE_DURATION);
+    if (id === shakeId.current) {
+      setShaking(false);
+    }
+  }, [reduceMotion]);
+
+  return {
+    revealingGuess,
+    revealedTiles,
+    bouncingGuess,
+    shaking,
+    revealGuess,
+    shakeRow
+  };
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { LetterFeedback } from '../types/game';
+import { loadDictionary } from '../lib/dictionary';
+import { narrowCandidates, getPositionFrequencies } from '../lib/candidates';
+import type { CandidateList } from '../lib/candidates';
+import { normalizeWord } from '../lib/languages';
+
+interface UseCandidatesOptions {
+  wordLength: number;
+  // Dictionary pack of the puzzle; nothing is listed until it is known
+  dictionaryVersion?: string;
+  language: string;
+  // Pick from every allowed word instead of the solutions only
+  includeAllowed: boolean;
+  enabled: boolean;
+}
+
+interface UseCandidatesReturn {
+  // Words that still fit, or null while the word list loads
+  candidates: string[] | null;
+  // Letter counts per position over the candidates
+  frequencies: Map<string, number>[];
+}
+
+/**
+ * Follow the words that still fit a board's feedback
+ * The last list is kept, so each new guess only filters what was left.
+ * @param feedback - Feedback for each guess on the board
+ * @param options - Word list and whether the explorer is shown
+ */
+export function useCandidates(feedback: LetterFeedback[][], options: UseCandidatesOptions): UseCandidatesReturn {
+  const { wordLength, dictionaryVersion, language, includeAllowed, enabled } = options;
+  const [source, setSource] = useState<{ key: string; words: string[] } | null>(null);
+  const [narrow] = useState(() => {
+    let last: CandidateList | null = null;
+    return (words: string[], rows: LetterFeedback[][], length: number) => {
+      last = narrowCandidates(last, words, rows, length);
+      return last;
+    };
+  });
+  const key = `${dictionaryVersion}:${wordLength}:${language}:${includeAllowed}`;
+
+  useEffect(() => {
+    if (!enabled || !dictionaryVersion) return;
+    let cancelled = false;
+
+    loadDictionary(wordLength, dictionaryVersion)
+      .then(dictionary => {
+        if (cancelled) return;
+        const words = includeAllowed
+          ? Array.from(dictionary.allowed)
+          : Array.from(dictionary.solutions, word => normalizeWord(word, language));
+        setSource({ key, words: words.sort() });
+      })
+      .catch(error => console.error('Failed to load word list:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, key, wordLength, dictionaryVersion, language, includeAllowed]);
+
+  const candidates = useMemo(
+    () => (enabled && source?.key === key ? narrow(source.words, feedback, wordLength).candidates : null),
+    [enabled, source, key, narrow, feedback, wordLength]
+  );
+  const frequencies = useMemo(
+    () => getPositionFrequencies(candidates ?? [], wordLength),
+    [candidates, wordLength]
+  );
+
+  return { candidates, frequencies };
+}
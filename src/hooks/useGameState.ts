@@ -1,20 +1,41 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { GameState, LetterFeedback, GameProgress } from '../types/game';
-import { evaluateGuess, isCorrectGuess } from '../lib/wordEvaluation';
-import { suggestHintWord } from '../lib/wordManager';
-import { isValidGuess, loadDictionary } from '../lib/dictionary';
-import { getCurrentHourWord } from '../lib/wordManager';
-import { hourIdUtc, millisecondsToNextHour } from '../lib/timeUtils';
-
-const MAX_GUESSES = 6;
-const GUESS_LENGTH = 5;
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { GameState, BoardState, LetterFeedback, GameProgress, GameStatistics, GameConfig, GuessResult, Hint, HintTier } from '../types/game';
+import { verifyOfflineWords, cacheCurrentWord } from '../lib/wordManager';
+import { getSolverHint, getStrongerHintTier, isHintTier } from '../lib/hints';
+import { isOfflineMode } from '../lib/offlineWords';
+import { isValidGuess, loadDictionary, getRandomSolutionWord, getDictionaryVersionForHour } from '../lib/dictionary';
+import { createDefaultEvaluator, createLocalEvaluator, EvaluationError, getSavedSessions } from '../lib/evaluator';
+import type { GuessEvaluator, PuzzleSession } from '../lib/evaluator';
+import { hourIdUtc, millisecondsToNextHour, isPastHourId } from '../lib/timeUtils';
+import { computeStatistics, loadGameHistory, recordGameResult, HISTORY_STORAGE_KEY } from '../lib/statistics';
+import { DEFAULT_GAME_CONFIG, storageKeyFor, progressKeyFor } from '../lib/gameConfig';
+import { loadSettings } from '../lib/settings';
+import { validateHardModeGuess } from '../lib/constraints';
+import { createPracticeGameId } from '../lib/practice';
+import { decodeCustomPuzzle, getCustomGameId } from '../lib/customPuzzle';
+import { DEFAULT_LANGUAGE, sanitizeGuessInput } from '../lib/languages';
+import { syncGameData } from '../lib/progressSync';
+import { loadHourStats, submitHourResult } from '../lib/hourStats';
+import type { HourStatsSummary } from '../lib/hourStats';
+import { applyGuessFeedback, createBoards, getMultiBoardStatus } from '../lib/multiBoard';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from './useI18n';
+import { useSettings } from './useSettings';
 
 interface UseGameStateReturn {
   gameState: GameState;
-  submitGuess: (guess: string) => Promise<{ success: boolean; error?: string }>;
+  submitGuess: (guess: string) => Promise<GuessResult>;
   updateCurrentGuess: (guess: string) => void;
   resetGame: () => Promise<void>;
-  getHint: () => Promise<string | null>;
+  nextPracticeGame: () => Promise<void>;
+  getHint: (tier: HintTier) => Promise<Hint | null>;
+  // Hints can be taken while a board is still unsolved
+  hintAvailable: boolean;
+  setHardMode: (enabled: boolean) => boolean;
+  statistics: GameStatistics;
+  hourStats: HourStatsSummary | null;
+  isOffline: boolean;
+  offlineMismatches: string[];
   isLoading: boolean;
   error: string | null;
 }
@@ -22,32 +43,71 @@ interface UseGameStateReturn {
 
 /**
  * Custom hook for managing game state
+ * The answer stays with the evaluator; the hook only sees feedback and a
+ * commitment until the game ends and the word is revealed. Practice games
+ * use a random local word and never touch Firestore; archive games replay
+ * a past hour, and custom games play the word of a puzzle link. In
+ * multi-board mode every guess is played on all unsolved boards, each
+ * backed by its own puzzle session
+ * @param config - Language, word length, guess limit, mode and board count of the variant being played
+ * @param evaluator - Guess evaluator (defaults to the configured evaluation service)
  */
-export function useGameState(): UseGameStateReturn {
+export function useGameState(
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+  evaluator?: GuessEvaluator
+): UseGameStateReturn {
+  const { wordLength, maxGuesses, mode, boardCount, archiveHourId, customPuzzle, language = DEFAULT_LANGUAGE } = config;
+  const [activeEvaluator] = useState<GuessEvaluator>(() => evaluator ?? createDefaultEvaluator());
+  const sessionsRef = useRef<PuzzleSession[]>([]);
+  const practiceWordsRef = useRef<string[] | null>(null);
+  const progressKey = progressKeyFor(config);
+  const historyKey = storageKeyFor(HISTORY_STORAGE_KEY, config);
+
   const [gameState, setGameState] = useState<GameState>({
-    currentWord: '',
     guesses: [],
     currentGuess: '',
     gameStatus: 'playing',
-    feedback: [],
+    boards: [],
     hourId: '',
-    timeToNextHour: 0
+    timeToNextHour: 0,
+    hintUsed: false,
+    wordLength,
+    hardMode: false,
+    mode
   });
 
-  // Get a hint word
-  const getHint = useCallback(async (): Promise<string | null> => {
-    return suggestHintWord(gameState.guesses, gameState.feedback);
-  }, [gameState.guesses, gameState.feedback]);
-  
+  const [statistics, setStatistics] = useState<GameStatistics>(
+    () => computeStatistics(loadGameHistory(historyKey).records, maxGuesses)
+  );
+
+  const [hourStats, setHourStats] = useState<HourStatsSummary | null>(null);
+
+  // Words are computed locally while the word store is unreachable
+  const [isOffline, setIsOffline] = useState(false);
+  const [offlineMismatches, setOfflineMismatches] = useState<string[]>([]);
+
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Message key, so the error follows the interface locale
+  const [error, setError] = useState<MessageKey | null>(null);
+  const { t, locale } = useI18n();
+  const { updateSettings } = useSettings();
 
   // Load game state from localStorage
   const loadGameProgress = useCallback((): GameProgress | null => {
     try {
-      const saved = localStorage.getItem('mintle-progress');
+      const saved = localStorage.getItem(progressKey);
       if (saved) {
         const progress: GameProgress = JSON.parse(saved);
+        // Practice games can be resumed any time if their words were kept
+        if (mode === 'practice') {
+          return progress.practiceWords?.length === boardCount ? progress : null;
+        }
+        if (mode === 'archive') {
+          return progress.hourId === archiveHourId ? progress : null;
+        }
+        if (mode === 'custom') {
+          return customPuzzle && progress.hourId === getCustomGameId(customPuzzle.id) ? progress : null;
+        }
         // Check if it's for the current hour
         const currentHourId = hourIdUtc();
         if (progress.hourId === currentHourId) {
@@ -58,7 +118,7 @@ export function useGameState(): UseGameStateReturn {
       console.error('Failed to load game progress:', error);
     }
     return null;
-  }, []);
+  }, [progressKey, mode, boardCount, archiveHourId, customPuzzle]);
 
   // Save game state to localStorage
   const saveGameProgress = useCallback((state: GameState) => {
@@ -67,73 +127,277 @@ export function useGameState(): UseGameStateReturn {
         hourId: state.hourId,
         guesses: state.guesses,
         gameStatus: state.gameStatus,
-        lastPlayed: new Date().toISOString()
+        lastPlayed: new Date().toISOString(),
+        hintUsed: state.hintUsed,
+        hintTier: state.hintTier,
+        hardMode: state.hardMode,
+        practiceWords: state.mode === 'practice' ? practiceWordsRef.current ?? undefined : undefined,
+        evaluatorSessions: getSavedSessions(sessionsRef.current)
       };
-      localStorage.setItem('mintle-progress', JSON.stringify(progress));
+      localStorage.setItem(progressKey, JSON.stringify(progress));
     } catch (error) {
       console.error('Failed to save game progress:', error);
     }
+  }, [progressKey]);
+
+  const hintAvailable = gameState.gameStatus === 'playing'
+    && gameState.boards.some(board => board.solvedAt === null);
+
+  // Get a hint for the first board that is still unsolved; the game keeps
+  // the strongest tier taken for its stats and share text
+  const getHint = useCallback(async (tier: HintTier): Promise<Hint | null> => {
+    const boardIndex = gameState.boards.findIndex(candidate => candidate.solvedAt === null);
+    const session = sessionsRef.current[boardIndex];
+    if (!hintAvailable || !session) return null;
+
+    let hint: Hint | null;
+    try {
+      hint = tier === 'letter' || tier === 'position'
+        ? await session.getLetterHint(tier)
+        : await getSolverHint(tier, gameState.guesses, gameState.boards[boardIndex].feedback, {
+            wordLength: gameState.wordLength,
+            dictionaryVersion: session.dictionaryVersion,
+            language,
+            hardMode: gameState.hardMode
+          });
+    } catch (err) {
+      console.warn('Failed to get hint:', err);
+      return null;
+    }
+
+    if (hint) {
+      const newState: GameState = {
+        ...gameState,
+        hintUsed: true,
+        hintTier: getStrongerHintTier(gameState.hintTier, hint.tier)
+      };
+      setGameState(newState);
+      saveGameProgress(newState);
+    }
+    return hint;
+  }, [gameState, saveGameProgress, language, hintAvailable]);
+
+  // Toggle hard mode; locked once the first guess of the game is made and
+  // unavailable with several boards, whose hints would contradict each other
+  const setHardMode = useCallback((enabled: boolean): boolean => {
+    if (boardCount > 1 || gameState.guesses.length > 0 || gameState.gameStatus !== 'playing') {
+      return false;
+    }
+
+    updateSettings({ hardMode: enabled });
+    const newState: GameState = { ...gameState, hardMode: enabled };
+    setGameState(newState);
+    saveGameProgress(newState);
+    return true;
+  }, [gameState, saveGameProgress, boardCount, updateSettings]);
+
+  // Record a finished game in the history store and refresh statistics
+  const recordFinishedGame = useCallback((state: GameState) => {
+    if (state.gameStatus === 'playing') return;
+
+    const history = recordGameResult({
+      hourId: state.hourId,
+      guesses: state.guesses,
+      outcome: state.gameStatus,
+      hintUsed: state.hintUsed,
+      hintTier: state.hintTier,
+      hardMode: state.hardMode,
+      completedAt: new Date().toISOString()
+    }, historyKey);
+    setStatistics(computeStatistics(history.records, maxGuesses));
+  }, [historyKey, maxGuesses]);
+
+  // Add a finished game to the puzzle's global results, then load how everyone did;
+  // players are only counted once, so resumed finished games are safely resubmitted
+  const publishResult = useCallback(async (state: GameState) => {
+    if (state.gameStatus === 'playing') return;
+
+    try {
+      await submitHourResult(state.hourId, config, state.guesses, state.gameStatus === 'won');
+    } catch (err) {
+      console.warn('Failed to submit result to hour stats:', err);
+    }
+
+    try {
+      setHourStats(await loadHourStats(state.hourId, config));
+    } catch (err) {
+      console.warn('Failed to load hour stats:', err);
+    }
+  }, [config]);
+
+  // Ask the evaluator for every board's answer once the game is over
+  const revealAnswers = useCallback(async (
+    sessions: PuzzleSession[],
+    boards: BoardState[]
+  ): Promise<BoardState[]> => {
+    return Promise.all(boards.map(async (board, index) => {
+      try {
+        return { ...board, word: await sessions[index].reveal() };
+      } catch (err) {
+        console.error('Failed to reveal answer:', err);
+        return board;
+      }
+    }));
   }, []);
 
-  // Initialize game
-  const initializeGame = useCallback(async () => {
+  // Initialize game; a new practice game is started instead of resuming when requested
+  const initializeGame = useCallback(async (startNewPracticeGame = false) => {
     setIsLoading(true);
     setError(null);
+    setHourStats(null);
     
     try {
-      // Load dictionary
-      await loadDictionary();
+      // Load the language's current dictionary
+      const currentDictionaryVersion = getDictionaryVersionForHour(hourIdUtc(), language);
+      await loadDictionary(wordLength, currentDictionaryVersion);
       
       // Get current hour info
-      const currentHourId = hourIdUtc();
       const timeToNext = millisecondsToNextHour();
       
       // Try to load existing progress
-      const savedProgress = loadGameProgress();
+      const savedProgress = startNewPracticeGame ? null : loadGameProgress();
+      
+      let currentHourId = hourIdUtc();
+      const boardIndices = Array.from({ length: boardCount }, (_, index) => index);
+      let boardEvaluators = boardIndices.map(() => activeEvaluator);
+      if (mode === 'practice') {
+        // Practice games resume their saved words or pick fresh random ones locally
+        const practiceWords = savedProgress?.practiceWords
+          ?? boardIndices.map(() => getRandomSolutionWord(wordLength, currentDictionaryVersion));
+        currentHourId = savedProgress?.hourId ?? createPracticeGameId();
+        practiceWordsRef.current = practiceWords;
+        boardEvaluators = practiceWords.map(word =>
+          createLocalEvaluator(async () => ({ word, dictionaryVersion: currentDictionaryVersion })));
+      } else if (mode === 'archive') {
+        // Only hours that have already ended can be replayed
+        if (!archiveHourId || !isPastHourId(archiveHourId)) {
+          throw new Error(`Hour ${archiveHourId} is not available in the archive`);
+        }
+        currentHourId = archiveHourId;
+      } else if (mode === 'custom') {
+        // Custom puzzles carry their word in the link and are played locally
+        if (!customPuzzle) {
+          throw new Error('Custom game started without a puzzle');
+        }
+        const { word, dictionaryVersion } = await decodeCustomPuzzle(customPuzzle);
+        currentHourId = getCustomGameId(customPuzzle.id);
+        boardEvaluators = [createLocalEvaluator(async () => ({ word, dictionaryVersion }))];
+      }
+      
+      // Start a puzzle session per board; only the commitments to the answers are returned
+      const sessions = await Promise.all(boardIndices.map(boardIndex =>
+        boardEvaluators[boardIndex].startPuzzle({
+          hourId: currentHourId,
+          wordLength,
+          maxGuesses,
+          boardCount,
+          boardIndex,
+          language,
+          savedSession: savedProgress?.hourId === currentHourId ? savedProgress.evaluatorSessions?.[boardIndex] : undefined
+        })
+      ));
+      sessionsRef.current = sessions;
+      // Guesses are validated against the pack the puzzle was picked from
+      await loadDictionary(wordLength, sessions[0].dictionaryVersion);
+      const newBoards = createBoards(sessions.map(session => session.commitment));
       
       if (savedProgress && savedProgress.hourId === currentHourId) {
-        // Resume existing game
-        const currentWord = await getCurrentHourWord();
+        // Resume existing game by re-evaluating saved guesses on each board until it was solved
+        let boards = newBoards;
+        for (const [index, guess] of savedProgress.guesses.entries()) {
+          const feedback = await Promise.all(boards.map((board, boardIndex) =>
+            board.solvedAt === null ? sessions[boardIndex].evaluateGuess(guess) : null
+          ));
+          boards = applyGuessFeedback(boards, feedback, index + 1);
+        }
         
-        // Reconstruct feedback from saved guesses
-        const feedback: LetterFeedback[][] = [];
-        for (const guess of savedProgress.guesses) {
-          feedback.push(evaluateGuess(guess, currentWord));
+        if (savedProgress.gameStatus !== 'playing') {
+          boards = await revealAnswers(sessions, boards);
         }
         
-        setGameState({
-          currentWord,
+        const resumedState: GameState = {
           guesses: savedProgress.guesses,
           currentGuess: '',
           gameStatus: savedProgress.gameStatus as 'playing' | 'won' | 'lost',
-          feedback,
+          boards,
           hourId: currentHourId,
-          timeToNextHour: timeToNext
-        });
+          timeToNextHour: timeToNext,
+          hintUsed: savedProgress.hintUsed ?? false,
+          hintTier: isHintTier(savedProgress.hintTier) ? savedProgress.hintTier : undefined,
+          wordLength,
+          dictionaryVersion: sessions[0].dictionaryVersion,
+          hardMode: savedProgress.hardMode ?? false,
+          mode
+        };
+        setGameState(resumedState);
+        publishResult(resumedState);
       } else {
         // Start new game
-        const currentWord = await getCurrentHourWord();
-        
         const newState: GameState = {
-          currentWord,
           guesses: [],
           currentGuess: '',
           gameStatus: 'playing',
-          feedback: [],
+          boards: newBoards,
           hourId: currentHourId,
-          timeToNextHour: timeToNext
+          timeToNextHour: timeToNext,
+          hintUsed: false,
+          wordLength,
+          dictionaryVersion: sessions[0].dictionaryVersion,
+          hardMode: boardCount === 1 && loadSettings().hardMode,
+          mode
         };
         
         setGameState(newState);
         saveGameProgress(newState);
       }
+
+      // Refresh statistics so streaks broken while away are reflected
+      setStatistics(computeStatistics(loadGameHistory(historyKey).records, maxGuesses));
     } catch (err) {
       console.error('Failed to initialize game:', err);
-      setError('Failed to load game. Please try again.');
+      setError(mode === 'custom' ? 'custom.invalidPuzzle' : 'game.loadFailed');
     } finally {
+      setIsOffline(isOfflineMode());
       setIsLoading(false);
     }
-  }, [loadGameProgress, saveGameProgress]);
+  }, [
+    activeEvaluator,
+    loadGameProgress,
+    saveGameProgress,
+    revealAnswers,
+    publishResult,
+    wordLength,
+    historyKey,
+    maxGuesses,
+    mode,
+    boardCount,
+    archiveHourId,
+    customPuzzle,
+    language
+  ]);
+
+  // Sync with the player's account in the background and reload the game if
+  // another device moved it on; failures leave the local game playable
+  const syncWithAccount = useCallback(() => {
+    syncGameData(progressKey, historyKey)
+      .then(changed => {
+        if (changed) initializeGame();
+      })
+      .catch(err => console.warn('Progress sync failed:', err));
+  }, [progressKey, historyKey, initializeGame]);
+
+  // Check words played offline against the word store once it is reachable again
+  const checkOfflineWords = useCallback(() => {
+    verifyOfflineWords()
+      .then(results => {
+        setIsOffline(isOfflineMode());
+        const mismatched = results.filter(result => !result.matches).map(result => result.documentId);
+        if (mismatched.length > 0) {
+          setOfflineMismatches(mismatched);
+        }
+      })
+      .catch(err => console.warn('Offline word check failed:', err));
+  }, []);
 
   // Update timer
   useEffect(() => {
@@ -141,58 +405,101 @@ export function useGameState(): UseGameStateReturn {
       const timeToNext = millisecondsToNextHour();
       setGameState(prev => ({ ...prev, timeToNextHour: timeToNext }));
       
-      // Check if hour has changed
+      // Check if hour has changed; practice and archive games are not tied to the clock
       const currentHourId = hourIdUtc();
-      if (currentHourId !== gameState.hourId) {
+      if (mode === 'hourly' && currentHourId !== gameState.hourId) {
         // Hour changed, reinitialize game
         initializeGame();
       }
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [gameState.hourId, initializeGame]);
+  }, [gameState.hourId, initializeGame, mode]);
 
   // Initialize on mount
   useEffect(() => {
     initializeGame();
   }, [initializeGame]);
 
+  // Verify offline words on start and whenever the browser comes back online
+  useEffect(() => {
+    checkOfflineWords();
+    window.addEventListener('online', checkOfflineWords);
+    return () => window.removeEventListener('online', checkOfflineWords);
+  }, [checkOfflineWords]);
+
+  // Keep the current hour's word so the game keeps working offline
+  useEffect(() => {
+    if (mode !== 'hourly' || !gameState.hourId) return;
+    cacheCurrentWord(wordLength, language)
+      .catch(err => console.warn('Caching the current word failed:', err));
+  }, [mode, wordLength, language, gameState.hourId]);
+
+  // Pick up progress made on other devices when a variant is opened
+  useEffect(() => {
+    syncWithAccount();
+  }, [syncWithAccount]);
+
   // Submit a guess
-  const submitGuess = useCallback(async (guess: string): Promise<{ success: boolean; error?: string }> => {
+  const submitGuess = useCallback(async (guess: string): Promise<GuessResult> => {
     if (gameState.gameStatus !== 'playing') {
-      return { success: false, error: 'Game is already finished' };
+      return { success: false, error: t('game.finished') };
     }
     
-    if (guess.length !== GUESS_LENGTH) {
-      return { success: false, error: `Guess must be ${GUESS_LENGTH} letters` };
+    if (guess.length !== wordLength) {
+      return { success: false, error: t('game.wrongLength', { wordLength }) };
     }
     
-    if (gameState.guesses.length >= MAX_GUESSES) {
-      return { success: false, error: 'No more guesses allowed' };
+    if (gameState.guesses.length >= maxGuesses) {
+      return { success: false, error: t('game.noGuessesLeft') };
     }
     
     // Validate guess
     try {
-      if (!isValidGuess(guess)) {
-        return { success: false, error: 'Not in word list' };
+      if (!isValidGuess(guess, wordLength, sessionsRef.current[0]?.dictionaryVersion)) {
+        return { success: false, error: t('game.notInWordList') };
       }
     } catch (err) {
       console.error('Dictionary validation error:', err);
-      return { success: false, error: 'Validation error' };
+      return { success: false, error: t('game.validationError') };
+    }
+    
+    // Enforce revealed hints in hard mode
+    if (gameState.hardMode && gameState.boards.length === 1) {
+      const hardModeError = validateHardModeGuess(guess, gameState.boards[0].feedback, locale);
+      if (hardModeError) {
+        return { success: false, error: hardModeError };
+      }
+    }
+    
+    const sessions = sessionsRef.current;
+    if (sessions.length !== gameState.boards.length || sessions.length === 0) {
+      return { success: false, error: t('game.stillLoading') };
+    }
+    
+    // Evaluate guess on every board that is still unsolved
+    let feedback: (LetterFeedback[] | null)[];
+    try {
+      feedback = await Promise.all(gameState.boards.map((board, index) =>
+        board.solvedAt === null ? sessions[index].evaluateGuess(guess) : null
+      ));
+    } catch (err) {
+      if (err instanceof EvaluationError && err.code === 'invalid-guess') {
+        return { success: false, error: t('game.notInWordList') };
+      }
+      console.error('Guess evaluation error:', err);
+      return { success: false, error: t('game.evaluationFailed') };
     }
     
-    // Evaluate guess
-    const feedback = evaluateGuess(guess, gameState.currentWord);
-    const isCorrect = isCorrectGuess(guess, gameState.currentWord);
     const newGuesses = [...gameState.guesses, guess.toUpperCase()];
-    const newFeedback = [...gameState.feedback, feedback];
+    let newBoards = applyGuessFeedback(gameState.boards, feedback, newGuesses.length);
+    
+    // Won once every board is solved, lost when guesses run out
+    const newStatus = getMultiBoardStatus(newBoards, newGuesses.length, maxGuesses);
     
-    // Determine new game status
-    let newStatus: 'playing' | 'won' | 'lost' = 'playing';
-    if (isCorrect) {
-      newStatus = 'won';
-    } else if (newGuesses.length >= MAX_GUESSES) {
-      newStatus = 'lost';
+    // Reveal and verify the answers once the game is over
+    if (newStatus !== 'playing') {
+      newBoards = await revealAnswers(sessions, newBoards);
     }
     
     // Update state
@@ -201,37 +508,64 @@ export function useGameState(): UseGameStateReturn {
       guesses: newGuesses,
       currentGuess: '',
       gameStatus: newStatus,
-      feedback: newFeedback
+      boards: newBoards
     };
     
     setGameState(newState);
     saveGameProgress(newState);
+    recordFinishedGame(newState);
+    syncWithAccount();
+    publishResult(newState);
     
-    return { success: true };
-  }, [gameState, saveGameProgress]);
+    return { success: true, state: newState };
+  }, [
+    gameState,
+    saveGameProgress,
+    recordFinishedGame,
+    syncWithAccount,
+    publishResult,
+    revealAnswers,
+    wordLength,
+    maxGuesses,
+    t,
+    locale
+  ]);
 
   // Update current guess
   const updateCurrentGuess = useCallback((guess: string) => {
     if (gameState.gameStatus !== 'playing') return;
     
-    const sanitized = guess.toUpperCase().replace(/[^A-Z]/g, '');
-    const truncated = sanitized.slice(0, GUESS_LENGTH);
+    const sanitized = sanitizeGuessInput(guess, language);
+    const truncated = sanitized.slice(0, wordLength);
     
     setGameState(prev => ({ ...prev, currentGuess: truncated }));
-  }, [gameState.gameStatus]);
+  }, [gameState.gameStatus, wordLength, language]);
 
   // Reset game (for new hour)
   const resetGame = useCallback(async () => {
     await initializeGame();
   }, [initializeGame]);
 
+  // Start another practice game straight away
+  const nextPracticeGame = useCallback(async () => {
+    if (mode !== 'practice') return;
+    await initializeGame(true);
+  }, [initializeGame, mode]);
+
   return {
     gameState,
     submitGuess,
     updateCurrentGuess,
     resetGame,
+    nextPracticeGame,
     getHint,
+    hintAvailable,
+    setHardMode,
+    statistics,
+    hourStats,
+    isOffline,
+    offlineMismatches,
     isLoading,
-    error
+    error: error && t(error)
   };
 }
\ No newline at end of file
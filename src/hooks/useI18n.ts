@@ -0,0 +1,73 @@
+import { createContext, createElement, Fragment, useContext } from 'react';
+import type { ReactNode } from 'react';
+import { DEFAULT_LOCALE, translate } from '../lib/i18n';
+import type { MessageKey, MessageValues, TextDirection } from '../lib/i18n';
+
+export type RichTagRenderer = (chunk: string) => ReactNode;
+
+export interface I18nContextType {
+  locale: string;
+  direction: TextDirection;
+  // Locale the player picked, or null when following the browser
+  localePreference: string | null;
+  setLocale: (locale: string | null) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  // Like t, but renders `<tag>...</tag>` spans of the message with the given renderers
+  rich: (key: MessageKey, values?: MessageValues, tags?: Record<string, RichTagRenderer>) => ReactNode;
+}
+
+const DEFAULT_TAGS: Record<string, RichTagRenderer> = {
+  strong: chunk => createElement('strong', null, chunk)
+};
+
+/**
+ * Render `<tag>...</tag>` spans of a formatted message
+ * @param text - Formatted message
+ * @param tags - Renderers by tag name (tags without one are rendered as text)
+ * @returns Message with the tagged spans rendered
+ */
+export function renderRichText(text: string, tags: Record<string, RichTagRenderer> = DEFAULT_TAGS): ReactNode {
+  const parts = text.split(/<(\w+)>(.*?)<\/\1>/);
+  if (parts.length === 1) return text;
+
+  // split() interleaves plain text with each match's tag name and content
+  const nodes: ReactNode[] = [];
+  for (let i = 0; i < parts.length; i += 3) {
+    if (parts[i]) nodes.push(parts[i]);
+    if (i + 2 < parts.length) {
+      const render = tags[parts[i + 1]];
+      nodes.push(render ? render(parts[i + 2]) : parts[i + 2]);
+    }
+  }
+  return createElement(Fragment, null, ...nodes);
+}
+
+/**
+ * Create the translation functions of a locale
+ * @param locale - Interface locale
+ * @returns t and rich bound to the locale
+ */
+export function createTranslator(locale: string): Pick<I18nContextType, 't' | 'rich'> {
+  const t = (key: MessageKey, values?: MessageValues) => translate(locale, key, values);
+  return {
+    t,
+    rich: (key, values, tags) => renderRichText(t(key, values), tags)
+  };
+}
+
+// Components rendered without a provider get English
+export const I18nContext = createContext<I18nContextType>({
+  locale: DEFAULT_LOCALE,
+  direction: 'ltr',
+  localePreference: null,
+  setLocale: () => {},
+  ...createTranslator(DEFAULT_LOCALE)
+});
+
+/**
+ * Access the interface locale and translations
+ * @returns Current locale, text direction and translation functions
+ */
+export function useI18n(): I18nContextType {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { Settings } from '../types/game';
+import { DEFAULT_SETTINGS } from '../lib/settings';
+
+export interface SettingsContextType {
+  settings: Settings;
+  updateSettings: (changes: Partial<Settings>) => void;
+  // Whether animations should be left out, from the setting or the system
+  reduceMotion: boolean;
+}
+
+// Components rendered without a provider get the defaults
+export const SettingsContext = createContext<SettingsContextType>({
+  settings: DEFAULT_SETTINGS,
+  updateSettings: () => {},
+  reduceMotion: false
+});
+
+/**
+ * Access the player's settings
+ * @returns Current settings and a function to change them
+ */
+export function useSettings(): SettingsContextType {
+  return useContext(SettingsContext);
+}
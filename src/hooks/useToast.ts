@@ -1,9 +1,9 @@
 import { useState, useCallback } from 'react';
-import type { ToastMessage } from '../components/Toast';
+import type { ToastMessage, ToastAction } from '../components/Toast';
 
 interface UseToastReturn {
   toasts: ToastMessage[];
-  showToast: (message: string, type?: ToastMessage['type'], duration?: number) => void;
+  showToast: (message: string, type?: ToastMessage['type'], duration?: number, action?: ToastAction) => void;
   removeToast: (id: string) => void;
   clearAllToasts: () => void;
 }
@@ -17,7 +17,8 @@ export function useToast(): UseToastReturn {
   const showToast = useCallback((
     message: string, 
     type: ToastMessage['type'] = 'info', 
-    duration: number = 3000
+    duration: number = 3000,
+    action?: ToastAction
   ) => {
     const id = `toast-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -25,7 +26,8 @@ export function useToast(): UseToastReturn {
       id,
       message,
       type,
-      duration
+      duration,
+      action
     };
 
     setToasts(prev => [...prev, newToast]);
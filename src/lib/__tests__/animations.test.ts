@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BOUNCE_DURATION,
+  BOUNCE_STAGGER,
+  FLIP_DURATION,
+  FLIP_STAGGER,
+  getBounceDuration,
+  getRevealDuration,
+  getRevealedFeedback,
+  getTileRevealDelay,
+  getTileRevealEnd,
+  waitFor
+} from '../animations';
+import type { LetterFeedback } from '../../types/game';
+
+describe('animations', () => {
+  it('should stagger the tiles of a revealed row', () => {
+    expect(getTileRevealDelay(0)).toBe(0);
+    expect(getTileRevealDelay(2)).toBe(2 * FLIP_STAGGER);
+    expect(getTileRevealEnd(2)).toBe(2 * FLIP_STAGGER + FLIP_DURATION);
+  });
+
+  it('should end the reveal when the last tile has flipped', () => {
+    expect(getRevealDuration(5)).toBe(4 * FLIP_STAGGER + FLIP_DURATION);
+    expect(getBounceDuration(5)).toBe(4 * BOUNCE_STAGGER + BOUNCE_DURATION);
+  });
+
+  it('should take no time with reduced motion', () => {
+    expect(getTileRevealDelay(3, true)).toBe(0);
+    expect(getTileRevealEnd(3, true)).toBe(0);
+    expect(getRevealDuration(5, true)).toBe(0);
+    expect(getBounceDuration(5, true)).toBe(0);
+  });
+
+  describe('getRevealedFeedback', () => {
+    const first: LetterFeedback[] = [{ letter: 'C', status: 'absent' }, { letter: 'R', status: 'present' }];
+    const second: LetterFeedback[] = [{ letter: 'R', status: 'correct' }, { letter: 'O', status: 'absent' }];
+
+    it('should hide the tiles of the revealed guess that have not flipped yet', () => {
+      expect(getRevealedFeedback([first, second], 2, 1)).toEqual([first, [second[0]]]);
+    });
+
+    it('should keep the feedback of boards the guess did not reach', () => {
+      expect(getRevealedFeedback([first], 2, 0)).toEqual([first]);
+    });
+
+    it('should keep all feedback when nothing is revealed', () => {
+      expect(getRevealedFeedback([first, second], null, 0)).toEqual([first, second]);
+    });
+  });
+
+  it('should resolve right away without an animation', async () => {
+    await expect(waitFor(0)).resolves.toBeUndefined();
+  });
+});
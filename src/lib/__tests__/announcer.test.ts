@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  announce,
+  describeFeedback,
+  describeLatestGuess,
+  describeTimeToNextWord,
+  subscribeToAnnouncements
+} from '../announcer';
+import type { BoardState, GameState, LetterFeedback } from '../../types/game';
+
+function feedbackFor(guess: string, statuses: string): LetterFeedback[] {
+  const status = { c: 'correct', p: 'present', a: 'absent' } as const;
+  return guess.split('').map((letter, index) => ({
+    letter,
+    status: status[statuses[index] as keyof typeof status]
+  }));
+}
+
+function createState(boards: Partial<BoardState>[], guesses: string[], gameStatus: GameState['gameStatus'] = 'playing'): GameState {
+  return {
+    boards: boards.map(board => ({ feedback: [], solvedAt: null, commitment: 'c', ...board })),
+    guesses,
+    currentGuess: '',
+    gameStatus,
+    hourId: '2026101912',
+    timeToNextHour: 0,
+    hintUsed: false,
+    wordLength: 5,
+    hardMode: false,
+    mode: 'hourly'
+  };
+}
+
+describe('announcer', () => {
+  it('should deliver announcements to subscribers until they unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToAnnouncements(listener);
+
+    announce('Not in word list', 'assertive');
+    announce('');
+    unsubscribe();
+    announce('Ignored');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ message: 'Not in word list', politeness: 'assertive' });
+  });
+
+  it('should describe feedback letter by letter', () => {
+    expect(describeFeedback(feedbackFor('RAT', 'cpa'), 'en')).toBe('R correct, A present, T absent');
+  });
+
+  it('should describe the latest guess of a single board', () => {
+    const state = createState([{ feedback: [feedbackFor('CRANE', 'acpaa'), feedbackFor('SLOTH', 'aaaaa')] }], ['CRANE', 'SLOTH']);
+
+    expect(describeLatestGuess(state, 6, 'en')).toBe(
+      'Guess 2 of 6: S absent, L absent, O absent, T absent, H absent.'
+    );
+  });
+
+  it('should leave out boards solved by an earlier guess', () => {
+    const state = createState([
+      { feedback: [feedbackFor('CRANE', 'ccccc')], solvedAt: 1 },
+      { feedback: [feedbackFor('CRANE', 'aaaaa'), feedbackFor('MOIST', 'caaap')] }
+    ], ['CRANE', 'MOIST']);
+
+    expect(describeLatestGuess(state, 7, 'en')).toBe(
+      'Guess 2 of 7. Board 2: M correct, O absent, I absent, S absent, T present.'
+    );
+  });
+
+  it('should add the result of a finished game', () => {
+    const won = createState([{ feedback: [feedbackFor('CRANE', 'ccccc')], solvedAt: 1 }], ['CRANE'], 'won');
+    expect(describeLatestGuess(won, 6, 'en')).toMatch(/Solved in 1 guess!$/);
+
+    const lost = createState([
+      { feedback: [feedbackFor('CRANE', 'aaaaa')], word: 'MOIST' },
+      { feedback: [feedbackFor('CRANE', 'aaaaa')], word: 'PULPY' }
+    ], ['CRANE'], 'lost');
+    expect(describeLatestGuess(lost, 1, 'en')).toMatch(/Game over\. The words were MOIST and PULPY\.$/);
+  });
+
+  it('should describe the time to the next word in whole minutes', () => {
+    expect(describeTimeToNextWord(90_000, 'en')).toBe('Next word in 2 minutes.');
+    expect(describeTimeToNextWord(5_000, 'en')).toBe('Next word in 1 minute.');
+  });
+});
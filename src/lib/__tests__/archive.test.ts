@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getArchiveConfig, getArchiveDayHourIds, loadArchiveStatuses } from '../archive';
+import { DEFAULT_GAME_CONFIG } from '../gameConfig';
+import { HISTORY_VERSION } from '../statistics';
+import type { GameRecord } from '../../types/game';
+
+function makeRecord(hourId: string, outcome: 'won' | 'lost'): GameRecord {
+  return {
+    hourId,
+    guesses: ['CRANE'],
+    outcome,
+    hintUsed: false,
+    completedAt: '2025-09-24T12:00:00Z'
+  };
+}
+
+describe('archive', () => {
+  const now = new Date('2025-09-24T15:30:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getArchiveConfig', () => {
+    it('should keep the word length and select the hour', () => {
+      const config = getArchiveConfig({ ...DEFAULT_GAME_CONFIG, wordLength: 6 }, '2025092310');
+
+      expect(config).toEqual({ wordLength: 6, maxGuesses: 6, mode: 'archive', boardCount: 1, archiveHourId: '2025092310' });
+    });
+  });
+
+  describe('getArchiveDayHourIds', () => {
+    it('should list the 24 hours of today', () => {
+      const hourIds = getArchiveDayHourIds(0, now);
+
+      expect(hourIds).toHaveLength(24);
+      expect(hourIds[0]).toBe('2025092400');
+      expect(hourIds[23]).toBe('2025092423');
+    });
+
+    it('should go back whole days across month boundaries', () => {
+      expect(getArchiveDayHourIds(24, now)[0]).toBe('2025083100');
+    });
+  });
+
+  describe('loadArchiveStatuses', () => {
+    it('should combine live and archive results and mark unavailable hours', () => {
+      vi.mocked(localStorage.getItem).mockImplementation((key: string) => {
+        switch (key) {
+          case 'mintle-history':
+            return JSON.stringify({ version: HISTORY_VERSION, records: [makeRecord('2025092410', 'won')] });
+          case 'mintle-history-archive':
+            return JSON.stringify({ version: HISTORY_VERSION, records: [makeRecord('2025092411', 'lost')] });
+          case 'mintle-progress-archive-2025092412':
+            return JSON.stringify({ hourId: '2025092412', guesses: ['CRANE'], gameStatus: 'playing', lastPlayed: '' });
+          default:
+            return null;
+        }
+      });
+
+      const statuses = loadArchiveStatuses(
+        DEFAULT_GAME_CONFIG,
+        ['2025092410', '2025092411', '2025092412', '2025092413', '2025092415', '2025092416'],
+        now
+      );
+
+      expect(statuses).toEqual({
+        '2025092410': 'won',
+        '2025092411': 'lost',
+        '2025092412': 'in-progress',
+        '2025092413': 'not-attempted',
+        '2025092415': 'unavailable',
+        '2025092416': 'unavailable'
+      });
+    });
+  });
+});
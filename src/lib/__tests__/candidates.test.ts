@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { canExploreCandidates, getPositionFrequencies, narrowCandidates } from '../candidates';
+import { filterCandidates } from '../solver';
+import * as constraints from '../constraints';
+import { evaluateGuess } from '../wordEvaluation';
+import { loadDictionary } from '../dictionary';
+
+describe('candidates', () => {
+  const words = ['fight', 'light', 'might', 'night', 'sight', 'other'];
+
+  it('should keep the explorer to practice games without hard mode', () => {
+    expect(canExploreCandidates('practice', false)).toBe(true);
+    expect(canExploreCandidates('practice', true)).toBe(false);
+    expect(canExploreCandidates('hourly', false)).toBe(false);
+    expect(canExploreCandidates('archive', false)).toBe(false);
+  });
+
+  describe('narrowCandidates', () => {
+    it('should keep the words that fit every row', () => {
+      const feedback = [evaluateGuess('LIGHT', 'SIGHT'), evaluateGuess('MIGHT', 'SIGHT')];
+
+      expect(narrowCandidates(null, words, feedback, 5).candidates).toEqual(['fight', 'night', 'sight']);
+    });
+
+    it('should drop guesses that did not solve the board', () => {
+      const feedback = [evaluateGuess('FIGHT', 'SIGHT'), evaluateGuess('LIGHT', 'SIGHT')];
+      const list = narrowCandidates(null, words, feedback, 5);
+
+      expect(list.candidates).toEqual(['might', 'night', 'sight']);
+      expect(list.candidates).toEqual(filterCandidates(words, feedback, 5, ['fight', 'light']));
+      expect(narrowCandidates(null, words, [evaluateGuess('SIGHT', 'SIGHT')], 5).candidates).toEqual(['sight']);
+    });
+
+    it('should only check the rows added since the last list', () => {
+      const first = evaluateGuess('LIGHT', 'SIGHT');
+      const previous = narrowCandidates(null, words, [first], 5);
+      const derive = vi.spyOn(constraints, 'deriveConstraints');
+
+      const next = narrowCandidates(previous, words, [first, evaluateGuess('FIGHT', 'SIGHT')], 5);
+
+      expect(next.candidates).toEqual(['might', 'night', 'sight']);
+      expect(derive).toHaveBeenCalledTimes(1);
+      derive.mockRestore();
+    });
+
+    it('should start over when the feedback does not extend the last list', () => {
+      const previous = narrowCandidates(null, words, [evaluateGuess('LIGHT', 'SIGHT')], 5);
+
+      expect(narrowCandidates(previous, words, [evaluateGuess('OTHER', 'OTHER')], 5).candidates).toEqual(['other']);
+      expect(narrowCandidates(previous, words.slice(0, 2), [], 5).candidates).toEqual(['fight', 'light']);
+    });
+
+    it('should agree with the solver over the full allowed list', async () => {
+      const allowed = Array.from((await loadDictionary(5, 'v1')).allowed);
+      const feedback = ['CRANE', 'TOILS'].map(guess => evaluateGuess(guess, 'TRACE'));
+
+      let list = narrowCandidates(null, allowed, [], 5);
+      for (let rows = 1; rows <= feedback.length; rows++) {
+        list = narrowCandidates(list, allowed, feedback.slice(0, rows), 5);
+      }
+
+      expect(list.candidates).toEqual(filterCandidates(allowed, feedback, 5, ['crane', 'toils']));
+      expect(list.candidates).toContain('trace');
+    });
+  });
+
+  it('should count the letters at each position', () => {
+    const frequencies = getPositionFrequencies(['fight', 'light', 'sight'], 5);
+
+    expect(frequencies).toHaveLength(5);
+    expect(Object.fromEntries(frequencies[0])).toEqual({ f: 1, l: 1, s: 1 });
+    expect(Object.fromEntries(frequencies[1])).toEqual({ i: 3 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { deriveConstraints, matchesConstraints, validateHardModeGuess } from '../constraints';
+import { evaluateGuess } from '../wordEvaluation';
+
+describe('constraints', () => {
+  describe('deriveConstraints', () => {
+    it('should record fixed, excluded and absent letters', () => {
+      const constraints = deriveConstraints([evaluateGuess('CRANE', 'TRACE')], 5);
+
+      expect(constraints.fixed).toEqual([null, 'r', 'a', null, 'e']);
+      expect(constraints.excludedAt[0].has('c')).toBe(true);
+      expect(constraints.absent.has('n')).toBe(true);
+      expect(constraints.minCounts.get('c')).toBe(1);
+    });
+
+    it('should treat a gray duplicate of a revealed letter as a position exclusion', () => {
+      // LEVEL vs HELLO: the second E is gray because HELLO has only one E
+      const constraints = deriveConstraints([evaluateGuess('LEVEL', 'HELLO')], 5);
+
+      expect(constraints.absent.has('e')).toBe(false);
+      expect(constraints.excludedAt[3].has('e')).toBe(true);
+      expect(constraints.minCounts.get('e')).toBe(1);
+      expect(constraints.minCounts.get('l')).toBe(2);
+    });
+
+    it('should cap a letter shown colored and gray in the same guess', () => {
+      const constraints = deriveConstraints([evaluateGuess('LEVEL', 'HELLO')], 5);
+
+      expect(constraints.maxCounts.get('e')).toBe(1);
+      expect(constraints.maxCounts.get('l')).toBeUndefined();
+    });
+
+    it('should keep the highest minimum count across guesses', () => {
+      const constraints = deriveConstraints([
+        evaluateGuess('EERIE', 'SPEED'),
+        evaluateGuess('CRANE', 'SPEED')
+      ], 5);
+
+      expect(constraints.minCounts.get('e')).toBe(2);
+    });
+  });
+
+  describe('matchesConstraints', () => {
+    it('should accept the secret word for any feedback', () => {
+      const feedback = [evaluateGuess('CRANE', 'TRACE'), evaluateGuess('SLATE', 'TRACE')];
+
+      expect(matchesConstraints('trace', deriveConstraints(feedback, 5))).toBe(true);
+    });
+
+    it('should reject words that break revealed information', () => {
+      const constraints = deriveConstraints([evaluateGuess('CRANE', 'TRACE')], 5);
+
+      expect(matchesConstraints('crane', constraints)).toBe(false); // C in excluded position
+      expect(matchesConstraints('brake', constraints)).toBe(false); // missing C
+      expect(matchesConstraints('grace', constraints)).toBe(true);
+    });
+
+    it('should reject words with more copies of a letter than the feedback allows', () => {
+      // EERIE vs OTHER: one yellow E and two gray ones, so exactly one E
+      const constraints = deriveConstraints([evaluateGuess('EERIE', 'OTHER')], 5);
+
+      expect(matchesConstraints('other', constraints)).toBe(true);
+      expect(matchesConstraints('sheer', constraints)).toBe(false);
+    });
+
+    it('should reject words of the wrong length', () => {
+      expect(matchesConstraints('trace', deriveConstraints([], 6))).toBe(false);
+    });
+  });
+
+  describe('validateHardModeGuess', () => {
+    it('should allow any guess before feedback exists', () => {
+      expect(validateHardModeGuess('CRANE', [])).toBeNull();
+    });
+
+    it('should require green letters to stay in place', () => {
+      const feedback = [evaluateGuess('CRANE', 'TRACE')];
+
+      expect(validateHardModeGuess('BLAST', feedback)).toBe('2nd letter must be R');
+    });
+
+    it('should use ordinal suffixes for each position', () => {
+      expect(validateHardModeGuess('CRANE', [evaluateGuess('SLOTH', 'SHELF')])).toBe('1st letter must be S');
+      expect(validateHardModeGuess('SLATE', [evaluateGuess('CREPT', 'TRACE')])).toBe('2nd letter must be R');
+      expect(validateHardModeGuess('BLAST', [evaluateGuess('STRAP', 'TORCH')])).toBe('3rd letter must be R');
+    });
+
+    it('should require yellow letters to be reused', () => {
+      const feedback = [evaluateGuess('CRANE', 'TRACE')];
+
+      expect(validateHardModeGuess('BRAKE', feedback)).toBe('Guess must contain C');
+      expect(validateHardModeGuess('GRACE', feedback)).toBeNull();
+    });
+
+    it('should require repeated letters as many times as revealed', () => {
+      const feedback = [evaluateGuess('EERIE', 'SPEED')];
+
+      expect(validateHardModeGuess('EMBER', feedback)).toBeNull();
+      expect(validateHardModeGuess('ELBOW', feedback)).toBe('Guess must contain 2 Es');
+    });
+  });
+});
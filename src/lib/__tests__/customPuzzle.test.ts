@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildCustomPuzzleUrl,
+  checkCustomWord,
+  clearCustomPuzzleUrl,
+  createCustomPuzzle,
+  createCustomPuzzleId,
+  decodeCustomPuzzle,
+  getCustomConfig,
+  getCustomGameId,
+  isCustomGameId,
+  parseCustomPuzzleUrl
+} from '../customPuzzle';
+import { encryptWord } from '../encryption';
+import { getDictionaryVersionForHour } from '../dictionary';
+import { createPracticeGameId } from '../practice';
+
+describe('customPuzzle', () => {
+  const base = 'https://example.com/mintle/';
+
+  it('should create puzzle IDs of eight letters and digits', () => {
+    expect(createCustomPuzzleId()).toMatch(/^[0-9a-z]{8}$/);
+    expect(createCustomPuzzleId()).not.toBe(createCustomPuzzleId());
+  });
+
+  it('should draw again for bytes that would bias the puzzle ID', () => {
+    const draws = [[252, 0, 255, 1, 35, 36, 251, 253], [2, 3, 254, 4, 5, 6, 7, 8]];
+    const spy = vi.spyOn(globalThis.crypto, 'getRandomValues')
+      .mockImplementation(array => {
+        (array as Uint8Array).set(draws.shift() ?? []);
+        return array;
+      });
+
+    try {
+      expect(createCustomPuzzleId()).toBe('01z0z234');
+      expect(spy).toHaveBeenCalledTimes(2);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('should tell custom game IDs apart from hour and practice IDs', () => {
+    expect(getCustomGameId('k3x9a2bq')).toBe('custom-k3x9a2bq');
+    expect(isCustomGameId('custom-k3x9a2bq')).toBe(true);
+    expect(isCustomGameId('2025092310')).toBe(false);
+    expect(isCustomGameId(createPracticeGameId())).toBe(false);
+  });
+
+  it('should play a puzzle on one board with the standard guess limit', () => {
+    const puzzle = { id: 'k3x9a2bq', code: 'abc', wordLength: 6, language: 'en' };
+
+    expect(getCustomConfig(puzzle)).toEqual({
+      wordLength: 6,
+      maxGuesses: 6,
+      mode: 'custom',
+      boardCount: 1,
+      customPuzzle: puzzle
+    });
+    expect(getCustomConfig({ ...puzzle, wordLength: 5, language: 'es' }).language).toBe('es');
+  });
+
+  describe('checkCustomWord', () => {
+    it('should accept allowed words in any case', async () => {
+      expect(await checkCustomWord('CRANE')).toBeNull();
+      expect(await checkCustomWord(' crane ')).toBeNull();
+    });
+
+    it('should name the problem with a word that cannot be used', async () => {
+      expect(await checkCustomWord('xqzvj')).toBe('custom.notInWordList');
+      expect(await checkCustomWord('cat')).toBe('custom.unsupportedLength');
+      expect(await checkCustomWord('crane', 'de')).toBe('custom.notInWordList');
+    });
+  });
+
+  describe('createCustomPuzzle and decodeCustomPuzzle', () => {
+    it('should hide the word and recover it with its dictionary', async () => {
+      const puzzle = await createCustomPuzzle('Crane');
+
+      expect(puzzle).toMatchObject({ wordLength: 5, language: 'en' });
+      expect(puzzle.code).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(puzzle.code.toLowerCase()).not.toContain('crane');
+      expect(await decodeCustomPuzzle(puzzle)).toEqual({
+        word: 'crane',
+        dictionaryVersion: getDictionaryVersionForHour(undefined, 'en')
+      });
+    });
+
+    it('should refuse words outside the word list', async () => {
+      await expect(createCustomPuzzle('xqzvj')).rejects.toThrow('custom.notInWordList');
+    });
+
+    it('should reject a code that was altered or moved to another puzzle', async () => {
+      const puzzle = await createCustomPuzzle('crane');
+      const flipped = puzzle.code.slice(0, -2) + (puzzle.code.endsWith('AA') ? 'BB' : 'AA');
+
+      await expect(decodeCustomPuzzle({ ...puzzle, code: flipped })).rejects.toThrow();
+      await expect(decodeCustomPuzzle({ ...puzzle, id: 'zzzzzzzz' })).rejects.toThrow();
+    });
+
+    it('should reject a link whose length does not match the word', async () => {
+      const puzzle = await createCustomPuzzle('crane');
+
+      await expect(decodeCustomPuzzle({ ...puzzle, wordLength: 6 })).rejects.toThrow('does not have 6 letters');
+    });
+
+    it('should reject words and dictionaries that are not installed', async () => {
+      const version = getDictionaryVersionForHour(undefined, 'en');
+      const id = 'k3x9a2bq';
+      const fake = await encryptWord(`${version}:xqzvj`, getCustomGameId(id), { urlSafe: true });
+      const unknown = await encryptWord('v999:crane', getCustomGameId(id), { urlSafe: true });
+
+      await expect(decodeCustomPuzzle({ id, code: fake, wordLength: 5, language: 'en' }))
+        .rejects.toThrow('not in the word list');
+      await expect(decodeCustomPuzzle({ id, code: unknown, wordLength: 5, language: 'en' }))
+        .rejects.toThrow('unknown dictionary');
+    });
+  });
+
+  describe('buildCustomPuzzleUrl and parseCustomPuzzleUrl', () => {
+    const puzzle = { id: 'k3x9a2bq', code: 'Ab-_9z', wordLength: 6, language: 'en' };
+
+    it('should round-trip a puzzle through its link', () => {
+      const url = buildCustomPuzzleUrl(puzzle, base);
+
+      expect(url).toBe('https://example.com/mintle/?puzzle=k3x9a2bq&length=6&code=Ab-_9z');
+      expect(parseCustomPuzzleUrl(url, '/mintle/')).toEqual(puzzle);
+    });
+
+    it('should only add the language for languages other than English', () => {
+      const url = buildCustomPuzzleUrl({ ...puzzle, wordLength: 5, language: 'es' }, base);
+
+      expect(new URL(url).searchParams.get('lang')).toBe('es');
+      expect(parseCustomPuzzleUrl(url, '/mintle/')).toMatchObject({ language: 'es', wordLength: 5 });
+    });
+
+    it('should accept the base path without its trailing slash', () => {
+      expect(parseCustomPuzzleUrl('https://example.com/mintle?puzzle=k3x9a2bq&length=6&code=Ab-_9z', '/mintle/'))
+        .toEqual(puzzle);
+    });
+
+    it('should ignore addresses that are not well-formed puzzle links', () => {
+      expect(parseCustomPuzzleUrl(base, '/mintle/')).toBeNull();
+      expect(parseCustomPuzzleUrl('https://example.com/other/?puzzle=k3x9a2bq&length=6&code=Ab', '/mintle/')).toBeNull();
+      expect(parseCustomPuzzleUrl(`${base}?puzzle=K3X9&length=6&code=Ab`, '/mintle/')).toBeNull();
+      expect(parseCustomPuzzleUrl(`${base}?puzzle=k3x9a2bq&length=6&code=A%2BB`, '/mintle/')).toBeNull();
+      expect(parseCustomPuzzleUrl(`${base}?puzzle=k3x9a2bq&length=12&code=Ab`, '/mintle/')).toBeNull();
+      expect(parseCustomPuzzleUrl(`${base}?puzzle=k3x9a2bq&length=5&code=Ab&lang=xx`, '/mintle/')).toBeNull();
+      expect(parseCustomPuzzleUrl(`${base}?puzzle=k3x9a2bq&length=7&code=Ab&lang=de`, '/mintle/')).toBeNull();
+    });
+  });
+
+  it('should take the puzzle out of the address bar and keep other parameters', () => {
+    window.history.replaceState(null, '', '/mintle/?puzzle=k3x9a2bq&length=5&code=Ab&ref=chat');
+
+    clearCustomPuzzleUrl();
+
+    expect(window.location.pathname).toBe('/mintle/');
+    expect(window.location.search).toBe('?ref=chat');
+  });
+});
@@ -4,8 +4,12 @@ import {
   isValidGuess, 
   isValidSolution, 
   getRandomSolutionWord,
-  getDeterministicSolutionWord 
+  getDeterministicSolutionWord,
+  getDictionaryVersionForHour,
+  getSolutionList,
+  INSTALLED_DICTIONARY_VERSIONS
 } from '../dictionary';
+import v2FiveLetterPack from '../dictionaries/v2/words-5.json';
 
 describe('dictionary', () => {
   beforeEach(async () => {
@@ -19,8 +23,8 @@ describe('dictionary', () => {
       expect(dictionary).toBeDefined();
       expect(dictionary.solutions).toBeInstanceOf(Set);
       expect(dictionary.allowed).toBeInstanceOf(Set);
-      expect(dictionary.version).toBe('v1');
-      expect(dictionary.hash).toBeDefined();
+      expect(dictionary.version).toBe(getDictionaryVersionForHour());
+      expect(dictionary.hash).toMatch(/^[0-9a-f]{64}$/);
     });
 
     it('should return same instance on multiple calls', async () => {
@@ -146,4 +150,128 @@ describe('dictionary', () => {
       expect(word).toBe(word2);
     });
   });
-});
\ No newline at end of file
+
+  describe('other word lengths', () => {
+    it.each([4, 6, 7, 8])('should load a %i-letter dictionary', async (wordLength) => {
+      const dictionary = await loadDictionary(wordLength);
+
+      expect(dictionary.wordLength).toBe(wordLength);
+      expect(dictionary.solutions.size).toBeGreaterThan(0);
+      for (const word of dictionary.allowed) {
+        expect(word.length).toBe(wordLength);
+      }
+      for (const solution of dictionary.solutions) {
+        expect(dictionary.allowed.has(solution)).toBe(true);
+      }
+    });
+
+    it('should keep dictionaries of different lengths separate', async () => {
+      await loadDictionary(6);
+
+      expect(isValidGuess('ABOUT')).toBe(true);
+      expect(isValidGuess('ABOUT', 6)).toBe(false);
+      expect(getDeterministicSolutionWord('2025092323', 6)).toHaveLength(6);
+      expect(getRandomSolutionWord(6)).toHaveLength(6);
+    });
+
+    it('should reject unsupported word lengths', async () => {
+      await expect(loadDictionary(3)).rejects.toThrow('Unsupported word length: 3');
+    });
+  });
+
+  describe('dictionary packs', () => {
+    it('should install every scheduled dictionary version', () => {
+      expect(INSTALLED_DICTIONARY_VERSIONS).toEqual(expect.arrayContaining(['v1', 'v2']));
+      expect(getDictionaryVersionForHour('2025092323')).toBe('v1');
+      expect(getDictionaryVersionForHour('2026110100')).toBe('v2');
+    });
+
+    it.each([4, 5, 6, 7, 8])('should pass the integrity check of every English %i-letter pack', async (wordLength) => {
+      for (const version of ['v1', 'v2']) {
+        const dictionary = await loadDictionary(wordLength, version);
+
+        expect(dictionary.version).toBe(version);
+        expect(dictionary.wordLength).toBe(wordLength);
+      }
+    });
+
+    it('should keep the original solution order in v1', async () => {
+      await loadDictionary(5, 'v1');
+
+      expect(getSolutionList(5, 'v1')).toHaveLength(2000);
+      expect(isValidSolution('naked', 5, 'v1')).toBe(true);
+    });
+
+    it('should drop blocklisted solutions but keep them as valid guesses', async () => {
+      await loadDictionary(5, 'v1');
+      await loadDictionary(5, 'v2');
+
+      expect(isValidSolution('naked', 5, 'v2')).toBe(false);
+      expect(isValidGuess('naked', 5, 'v2')).toBe(true);
+      expect(getSolutionList(5, 'v2')).toEqual(
+        getSolutionList(5, 'v1').filter(word => !v2FiveLetterPack.blocklist.includes(word))
+      );
+    });
+
+    it('should block offensive and obscure solutions at every length', async () => {
+      const blocked: Array<[number, string[]]> = [
+        [4, ['slut', 'wist']],
+        [5, ['squaw', 'didst']],
+        [6, ['midget', 'coyest']],
+        [7, ['jackass', 'tireder']],
+        [8, ['lynching', 'serenest']]
+      ];
+
+      for (const [wordLength, words] of blocked) {
+        await loadDictionary(wordLength, 'v1');
+        await loadDictionary(wordLength, 'v2');
+
+        for (const word of words) {
+          expect(isValidSolution(word, wordLength, 'v1')).toBe(true);
+          expect(isValidSolution(word, wordLength, 'v2')).toBe(false);
+          expect(isValidGuess(word, wordLength, 'v2')).toBe(true);
+        }
+      }
+    });
+
+    it('should keep dictionaries of different versions separate', async () => {
+      const v1 = await loadDictionary(5, 'v1');
+      const v2 = await loadDictionary(5, 'v2');
+
+      expect(v1).not.toBe(v2);
+      expect(v1.hash).not.toBe(v2.hash);
+    });
+
+    it('should reject versions that are not installed', async () => {
+      await expect(loadDictionary(5, 'v0')).rejects.toThrow('Dictionary v0 is not installed');
+    });
+  });
+
+  describe('other languages', () => {
+    it('should use the language pack instead of the seed schedule', () => {
+      expect(getDictionaryVersionForHour('2026110100', 'es')).toBe('es-v1');
+      expect(getDictionaryVersionForHour('2026110100', 'de')).toBe('de-v1');
+    });
+
+    it('should accept guesses without accents for accented Spanish words', async () => {
+      const dictionary = await loadDictionary(5, 'es-v1');
+
+      expect(dictionary.language).toBe('es');
+      expect(isValidSolution('árbol', 5, 'es-v1')).toBe(true);
+      expect(isValidGuess('ARBOL', 5, 'es-v1')).toBe(true);
+      expect(isValidGuess('SEÑAL', 5, 'es-v1')).toBe(true);
+      expect(isValidGuess('SENAL', 5, 'es-v1')).toBe(false);
+    });
+
+    it('should treat German umlauts as letters of their own', async () => {
+      await loadDictionary(5, 'de-v1');
+
+      expect(isValidGuess('BÜHNE', 5, 'de-v1')).toBe(true);
+      expect(isValidGuess('BUHNE', 5, 'de-v1')).toBe(false);
+    });
+
+    it('should only ship the word lengths of the language', async () => {
+      await expect(loadDictionary(6, 'es-v1')).rejects.toThrow('not installed for 6-letter words');
+    });
+  });
+});
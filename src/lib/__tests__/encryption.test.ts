@@ -1,9 +1,18 @@
 import { describe, it, expect } from 'vitest';
-import { 
-  encryptWord, 
-  decryptWord, 
-  generateWordHash, 
-  verifyWordHash 
+import {
+  encryptWord,
+  decryptWord,
+  encryptLegacyWord,
+  generateWordHash,
+  verifyWordHash,
+  generateCommitmentSalt,
+  generateCommitment,
+  verifyCommitment,
+  deriveCommitmentSalt,
+  signPayload,
+  openSignedPayload,
+  CURRENT_CIPHER_VERSION,
+  LEGACY_CIPHER_VERSION
 } from '../encryption';
 
 describe('Encryption', () => {
@@ -11,113 +20,212 @@ describe('Encryption', () => {
   const testHourId = '2025092415';
 
   describe('encryptWord and decryptWord', () => {
-    it('should encrypt and decrypt a word correctly', () => {
-      const encrypted = encryptWord(testWord, testHourId);
-      const decrypted = decryptWord(encrypted, testHourId);
-      
+    it('should encrypt and decrypt a word correctly', async () => {
+      const encrypted = await encryptWord(testWord, testHourId);
+      const decrypted = await decryptWord(encrypted, testHourId);
+
       expect(decrypted.toLowerCase()).toBe(testWord.toLowerCase());
     });
 
-    it('should produce different encrypted values for different hour IDs', () => {
-      const encrypted1 = encryptWord(testWord, '2025092415');
-      const encrypted2 = encryptWord(testWord, '2025092416');
-      
+    it('should produce different encrypted values for different hour IDs', async () => {
+      const encrypted1 = await encryptWord(testWord, '2025092415');
+      const encrypted2 = await encryptWord(testWord, '2025092416');
+
       expect(encrypted1).not.toBe(encrypted2);
     });
 
-    it('should produce the same encrypted value for the same inputs', () => {
-      const encrypted1 = encryptWord(testWord, testHourId);
-      const encrypted2 = encryptWord(testWord, testHourId);
-      
-      expect(encrypted1).toBe(encrypted2);
+    it('should use a fresh IV for every encryption', async () => {
+      const encrypted1 = await encryptWord(testWord, testHourId);
+      const encrypted2 = await encryptWord(testWord, testHourId);
+
+      expect(encrypted1).not.toBe(encrypted2);
+      expect(await decryptWord(encrypted1, testHourId)).toBe(await decryptWord(encrypted2, testHourId));
     });
 
-    it('should handle lowercase input correctly', () => {
-      const encrypted = encryptWord('hello', testHourId);
-      const decrypted = decryptWord(encrypted, testHourId);
-      
+    it('should handle lowercase input correctly', async () => {
+      const encrypted = await encryptWord('hello', testHourId);
+      const decrypted = await decryptWord(encrypted, testHourId);
+
       expect(decrypted).toBe('hello');
     });
 
-    it('should throw error for invalid encrypted data', () => {
-      expect(() => {
-        decryptWord('invalid-base64!', testHourId);
-      }).toThrow();
+    it('should throw error for invalid encrypted data', async () => {
+      await expect(decryptWord('invalid-base64!', testHourId)).rejects.toThrow('Failed to decrypt word');
+    });
+
+    it('should refuse to decrypt with a different hour ID', async () => {
+      const encrypted = await encryptWord(testWord, '2025092415');
+
+      await expect(decryptWord(encrypted, '2025092416')).rejects.toThrow('Failed to decrypt word');
+    });
+
+    it('should detect tampered ciphertext', async () => {
+      const encrypted = await encryptWord(testWord, testHourId);
+      const bytes = atob(encrypted).split('');
+      bytes[bytes.length - 1] = String.fromCharCode(bytes[bytes.length - 1].charCodeAt(0) ^ 1);
+
+      await expect(decryptWord(btoa(bytes.join('')), testHourId)).rejects.toThrow('Failed to decrypt word');
+    });
+
+    it('should encrypt for URLs with the URL-safe alphabet', async () => {
+      const encrypted = await encryptWord('CRANE', 'custom-abc12345', { urlSafe: true });
+
+      expect(encrypted).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(await decryptWord(encrypted, 'custom-abc12345')).toBe('crane');
+    });
+
+    it('should reject unknown cipher versions', async () => {
+      const encrypted = await encryptWord(testWord, testHourId);
+
+      await expect(decryptWord(encrypted, testHourId, 99)).rejects.toThrow('unsupported cipher version 99');
+    });
+  });
+
+  describe('legacy cipher', () => {
+    it('should decrypt legacy Caesar documents', async () => {
+      const legacy = encryptLegacyWord(testWord, testHourId);
+
+      expect(await decryptWord(legacy, testHourId, LEGACY_CIPHER_VERSION)).toBe('hello');
+    });
+
+    it('should not decrypt legacy documents as the current version', async () => {
+      const legacy = encryptLegacyWord(testWord, testHourId);
+
+      await expect(decryptWord(legacy, testHourId, CURRENT_CIPHER_VERSION)).rejects.toThrow();
     });
   });
 
   describe('generateWordHash and verifyWordHash', () => {
-    it('should generate consistent hash for same inputs', () => {
-      const hash1 = generateWordHash(testWord, testHourId);
-      const hash2 = generateWordHash(testWord, testHourId);
-      
+    it('should generate consistent hash for same inputs', async () => {
+      const hash1 = await generateWordHash(testWord, testHourId);
+      const hash2 = await generateWordHash(testWord, testHourId);
+
       expect(hash1).toBe(hash2);
     });
 
-    it('should generate different hashes for different words', () => {
-      const hash1 = generateWordHash('HELLO', testHourId);
-      const hash2 = generateWordHash('WORLD', testHourId);
-      
+    it('should generate a 256-bit hex hash', async () => {
+      const hash = await generateWordHash(testWord, testHourId);
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should generate different hashes for different words', async () => {
+      const hash1 = await generateWordHash('HELLO', testHourId);
+      const hash2 = await generateWordHash('WORLD', testHourId);
+
       expect(hash1).not.toBe(hash2);
     });
 
-    it('should generate different hashes for different hour IDs', () => {
-      const hash1 = generateWordHash(testWord, '2025092415');
-      const hash2 = generateWordHash(testWord, '2025092416');
-      
+    it('should generate different hashes for different hour IDs', async () => {
+      const hash1 = await generateWordHash(testWord, '2025092415');
+      const hash2 = await generateWordHash(testWord, '2025092416');
+
       expect(hash1).not.toBe(hash2);
     });
 
-    it('should verify correct word against hash', () => {
-      const hash = generateWordHash(testWord, testHourId);
-      const isValid = verifyWordHash(testWord, hash, testHourId);
-      
-      expect(isValid).toBe(true);
+    it('should verify correct word against hash', async () => {
+      const hash = await generateWordHash(testWord, testHourId);
+
+      expect(await verifyWordHash(testWord, hash, testHourId)).toBe(true);
+    });
+
+    it('should reject incorrect word against hash', async () => {
+      const hash = await generateWordHash('HELLO', testHourId);
+
+      expect(await verifyWordHash('WORLD', hash, testHourId)).toBe(false);
     });
 
-    it('should reject incorrect word against hash', () => {
-      const hash = generateWordHash('HELLO', testHourId);
-      const isValid = verifyWordHash('WORLD', hash, testHourId);
-      
-      expect(isValid).toBe(false);
+    it('should be case insensitive for verification', async () => {
+      const hash = await generateWordHash('HELLO', testHourId);
+
+      expect(await verifyWordHash('hello', hash, testHourId)).toBe(true);
     });
 
-    it('should be case insensitive for verification', () => {
-      const hash = generateWordHash('HELLO', testHourId);
-      const isValid = verifyWordHash('hello', hash, testHourId);
-      
-      expect(isValid).toBe(true);
+    it('should still verify legacy rolling hashes', async () => {
+      // Legacy hash of "hello" + "2025092415" produced by the pre-migration scheme
+      let legacy = 0;
+      for (const char of 'hello2025092415') {
+        legacy = ((legacy << 5) - legacy) + char.charCodeAt(0);
+        legacy = legacy & legacy;
+      }
+      const legacyHash = Math.abs(legacy).toString(36);
+
+      expect(await verifyWordHash('HELLO', legacyHash, testHourId)).toBe(true);
+      expect(await verifyWordHash('WORLD', legacyHash, testHourId)).toBe(false);
+    });
+  });
+
+  describe('commitments', () => {
+    it('should generate random 128-bit salts', () => {
+      const salt = generateCommitmentSalt();
+
+      expect(salt).toMatch(/^[0-9a-f]{32}$/);
+      expect(generateCommitmentSalt()).not.toBe(salt);
+    });
+
+    it('should verify a revealed word and salt', async () => {
+      const salt = generateCommitmentSalt();
+      const commitment = await generateCommitment('HELLO', testHourId, salt);
+
+      expect(commitment).toMatch(/^[0-9a-f]{64}$/);
+      expect(await verifyCommitment('hello', testHourId, salt, commitment)).toBe(true);
+    });
+
+    it('should reject a different word, salt or puzzle', async () => {
+      const salt = generateCommitmentSalt();
+      const commitment = await generateCommitment('HELLO', testHourId, salt);
+
+      expect(await verifyCommitment('WORLD', testHourId, salt, commitment)).toBe(false);
+      expect(await verifyCommitment('HELLO', testHourId, generateCommitmentSalt(), commitment)).toBe(false);
+      expect(await verifyCommitment('HELLO', '2025092416', salt, commitment)).toBe(false);
+    });
+
+    it('should derive the same salt for a puzzle every time', async () => {
+      const salt = await deriveCommitmentSalt(testHourId);
+
+      expect(salt).toMatch(/^[0-9a-f]{32}$/);
+      expect(await deriveCommitmentSalt(testHourId)).toBe(salt);
+      expect(await deriveCommitmentSalt('2025092416')).not.toBe(salt);
+    });
+  });
+
+  describe('signPayload and openSignedPayload', () => {
+    it('should hand back a signed payload', async () => {
+      const token = await signPayload('{"guesses":["ÑANDÚ"]}');
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]+\.[0-9a-f]{64}$/);
+      expect(await openSignedPayload(token)).toBe('{"guesses":["ÑANDÚ"]}');
+    });
+
+    it('should refuse altered or malformed tokens', async () => {
+      const [, signature] = (await signPayload('{"guesses":[]}')).split('.');
+      const [payload] = (await signPayload('{"guesses":["TRACE"]}')).split('.');
+
+      expect(await openSignedPayload(`${payload}.${signature}`)).toBeNull();
+      expect(await openSignedPayload('not-a-token')).toBeNull();
+      expect(await openSignedPayload(`${payload}.${signature}.extra`)).toBeNull();
     });
   });
 
   describe('Security properties', () => {
-    it('should not reveal the original word in encrypted form', () => {
+    it('should not reveal the original word in encrypted form', async () => {
       const word = 'SECRET';
-      const encrypted = encryptWord(word, testHourId);
-      
+      const encrypted = await encryptWord(word, testHourId);
+
       // Encrypted word should not contain the original word
       expect(encrypted.toLowerCase()).not.toContain(word.toLowerCase());
+      expect(atob(encrypted).toLowerCase()).not.toContain(word.toLowerCase());
     });
 
-    it('should produce non-obvious encrypted values', () => {
-      const words = ['APPLE', 'BREAD', 'CHAIR', 'DANCE', 'EAGLE'];
-      const encrypted = words.map(word => encryptWord(word, testHourId));
-      
-      // None of the encrypted values should be obviously related to original
-      encrypted.forEach((enc, i) => {
-        expect(enc.toLowerCase()).not.toContain(words[i].toLowerCase());
-      });
-    });
+    it('should handle words of every supported length', async () => {
+      const testWords = ['ABCD', 'ZZZZZ', 'MIXEDS', 'LOWERED', 'UPPERCUT'];
+
+      for (const word of testWords) {
+        const encrypted = await encryptWord(word, testHourId);
+        const decrypted = await decryptWord(encrypted, testHourId);
 
-    it('should handle all 5-letter words correctly', () => {
-      const testWords = ['ABCDE', 'ZZZZZ', 'MIXED', 'LOWER', 'UPPER'];
-      
-      testWords.forEach(word => {
-        const encrypted = encryptWord(word, testHourId);
-        const decrypted = decryptWord(encrypted, testHourId);
-        
         expect(decrypted.toUpperCase()).toBe(word.toUpperCase());
-      });
+      }
     });
   });
-});
\ No newline at end of file
+});
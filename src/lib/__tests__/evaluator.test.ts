@@ -0,0 +1,315 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createLocalEvaluator,
+  createRemoteEvaluator,
+  createInProcessTransport,
+  EvaluationError
+} from '../evaluator';
+import type { EvaluationRequest, EvaluationTransport } from '../evaluator';
+import { handleEvaluationRequest, isRevealAllowed, resetEvaluationHandler } from '../evaluationHandler';
+import { loadDictionary } from '../dictionary';
+import { verifyCommitment } from '../encryption';
+
+vi.mock('../wordManager', () => ({
+  getHourlyPuzzle: vi.fn(),
+  getWordDocumentId: (hourId: string, wordLength: number, boardCount = 1, boardIndex = 0) =>
+    `${wordLength === 5 ? hourId : `${hourId}-L${wordLength}`}${boardCount > 1 ? `-B${boardCount}-${boardIndex}` : ''}`
+}));
+
+import { getHourlyPuzzle } from '../wordManager';
+
+const puzzle = { hourId: '2025092415', wordLength: 5, maxGuesses: 6 };
+const resolveTrace = async () => ({ word: 'TRACE', dictionaryVersion: 'v1' });
+
+describe('evaluator', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    resetEvaluationHandler();
+    vi.mocked(getHourlyPuzzle).mockResolvedValue({ word: 'TRACE', dictionaryVersion: 'v1' });
+    await loadDictionary(5, 'v1');
+  });
+
+  describe('isRevealAllowed', () => {
+    it('should only allow reveal after a win or the last guess', () => {
+      expect(isRevealAllowed('trace', [], 6)).toBe(false);
+      expect(isRevealAllowed('trace', ['CRANE'], 6)).toBe(false);
+      expect(isRevealAllowed('trace', ['CRANE', 'TRACE'], 6)).toBe(true);
+      expect(isRevealAllowed('trace', Array(6).fill('CRANE'), 6)).toBe(true);
+    });
+  });
+
+  describe('createLocalEvaluator', () => {
+    it('should evaluate guesses against the resolved word', async () => {
+      const session = await createLocalEvaluator(resolveTrace).startPuzzle(puzzle);
+      const feedback = await session.evaluateGuess('CRANE');
+
+      expect(feedback.map(f => f.status)).toEqual(['present', 'correct', 'correct', 'absent', 'correct']);
+      expect(session.puzzleId).toBe('2025092415');
+      expect(session.commitment).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should refuse to reveal while the game is in progress', async () => {
+      const session = await createLocalEvaluator(resolveTrace).startPuzzle(puzzle);
+
+      await session.evaluateGuess('CRANE');
+      await expect(session.reveal()).rejects.toThrow(EvaluationError);
+      await session.evaluateGuess('TRACE');
+      expect(await session.reveal()).toBe('TRACE');
+    });
+
+    it('should give letter hints from the resolved word', async () => {
+      const session = await createLocalEvaluator(resolveTrace).startPuzzle(puzzle);
+      await session.evaluateGuess('CRANE');
+
+      expect(await session.getLetterHint('letter')).toEqual({ tier: 'letter', letter: 'T' });
+      expect(await session.getLetterHint('position')).toEqual({ tier: 'position', letter: 'T', position: 0 });
+    });
+  });
+
+  describe('createRemoteEvaluator with the in-process handler', () => {
+    it('should start with a commitment and no word', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      expect(session.commitment).toMatch(/^[0-9a-f]{64}$/);
+      expect(JSON.stringify(session)).not.toContain('trace');
+    });
+
+    it('should report the dictionary version the word was picked from', async () => {
+      vi.mocked(getHourlyPuzzle).mockResolvedValue({ word: 'TRACE', dictionaryVersion: 'v2' });
+      await loadDictionary(5, 'v2');
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      expect(session.dictionaryVersion).toBe('v2');
+    });
+
+    it('should fall back to the scheduled dictionary when the service does not report one', async () => {
+      const transport: EvaluationTransport = async (request) => {
+        const response = await handleEvaluationRequest(request);
+        if (response.ok && response.type === 'start') {
+          return { ok: true, type: 'start', puzzleId: response.puzzleId, session: response.session, commitment: response.commitment };
+        }
+        return response;
+      };
+      const session = await createRemoteEvaluator(transport).startPuzzle(puzzle);
+
+      expect(session.dictionaryVersion).toBe('v1');
+    });
+
+    it('should evaluate guesses and reveal a word matching the commitment', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      const feedback = await session.evaluateGuess('TRACE');
+      expect(feedback.every(f => f.status === 'correct')).toBe(true);
+      expect(await session.reveal()).toBe('TRACE');
+    });
+
+    it('should reject guesses that are not in the word list', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      await expect(session.evaluateGuess('ZZZZZ')).rejects.toMatchObject({ code: 'invalid-guess' });
+    });
+
+    it('should refuse to reveal before the game is over', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      await expect(session.reveal()).rejects.toMatchObject({ code: 'game-in-progress' });
+      await session.evaluateGuess('CRANE');
+      await expect(session.reveal()).rejects.toMatchObject({ code: 'game-in-progress' });
+    });
+
+    it('should reveal once every guess of the session is used', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      for (let i = 0; i < 6; i++) {
+        await session.evaluateGuess('CRANE');
+      }
+
+      expect(await session.reveal()).toBe('TRACE');
+      await expect(session.evaluateGuess('TRACE')).rejects.toMatchObject({ code: 'game-over' });
+    });
+
+    it('should keep the guesses of every session apart', async () => {
+      const evaluator = createRemoteEvaluator(createInProcessTransport());
+      const first = await evaluator.startPuzzle(puzzle);
+      const second = await evaluator.startPuzzle(puzzle);
+
+      await first.evaluateGuess('TRACE');
+
+      expect(await first.reveal()).toBe('TRACE');
+      await expect(second.reveal()).rejects.toMatchObject({ code: 'game-in-progress' });
+    });
+
+    it('should give letter hints without revealing the word', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+      await session.evaluateGuess('TRICK');
+
+      expect(await session.getLetterHint('position')).toEqual({ tier: 'position', letter: 'A', position: 2 });
+      expect(JSON.stringify(session)).not.toContain('trace');
+    });
+
+    it('should give the same hint again until new guesses are scored', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      expect(await session.getLetterHint('position')).toEqual({ tier: 'position', letter: 'T', position: 0 });
+      expect(await session.getLetterHint('position')).toEqual({ tier: 'position', letter: 'T', position: 0 });
+    });
+
+    it('should cap the letters a session is given', async () => {
+      const session = await createRemoteEvaluator(createInProcessTransport()).startPuzzle(puzzle);
+
+      expect(await session.getLetterHint('letter')).toEqual({ tier: 'letter', letter: 'T' });
+      await session.evaluateGuess('TIMID');
+      expect(await session.getLetterHint('position')).toEqual({ tier: 'position', letter: 'R', position: 1 });
+      await session.evaluateGuess('TRUMP');
+
+      await expect(session.getLetterHint('position')).rejects.toMatchObject({ code: 'hint-limit' });
+    });
+
+    it('should carry on a session on a fresh handler instance', async () => {
+      const evaluator = createRemoteEvaluator(createInProcessTransport());
+      const session = await evaluator.startPuzzle(puzzle);
+      await session.evaluateGuess('CRANE');
+
+      resetEvaluationHandler();
+      await session.evaluateGuess('TRACE');
+
+      expect(await session.reveal()).toBe('TRACE');
+      expect((await evaluator.startPuzzle(puzzle)).commitment).toBe(session.commitment);
+    });
+
+    it('should resume a saved session with its guesses and letter hints', async () => {
+      const transport = vi.fn(createInProcessTransport());
+      const evaluator = createRemoteEvaluator(transport);
+      const first = await evaluator.startPuzzle(puzzle);
+      await first.getLetterHint('letter');
+      await first.evaluateGuess('TIMID');
+      await first.getLetterHint('position');
+
+      const resumed = await evaluator.startPuzzle({ ...puzzle, savedSession: first.getSavedSession()! });
+      transport.mockClear();
+
+      expect((await resumed.evaluateGuess('TIMID')).map(f => f.status)[0]).toBe('correct');
+      expect(transport).not.toHaveBeenCalled();
+      await resumed.evaluateGuess('TRUMP');
+      await expect(resumed.getLetterHint('position')).rejects.toMatchObject({ code: 'hint-limit' });
+    });
+
+    it('should start over when a saved session does not match the saved guesses', async () => {
+      const evaluator = createRemoteEvaluator(createInProcessTransport());
+      const first = await evaluator.startPuzzle(puzzle);
+      await first.evaluateGuess('CRANE');
+
+      const resumed = await evaluator.startPuzzle({ ...puzzle, savedSession: first.getSavedSession()! });
+      await resumed.evaluateGuess('SLATE');
+      await resumed.evaluateGuess('TRACE');
+
+      expect(await resumed.reveal()).toBe('TRACE');
+    });
+
+    it('should keep the same commitment for every session of a puzzle', async () => {
+      const evaluator = createRemoteEvaluator(createInProcessTransport());
+      const first = await evaluator.startPuzzle(puzzle);
+      const second = await evaluator.startPuzzle(puzzle);
+
+      expect(second.commitment).toBe(first.commitment);
+      expect(getHourlyPuzzle).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a reveal that does not match the commitment', async () => {
+      const transport: EvaluationTransport = async (request) => {
+        const response = await handleEvaluationRequest(request);
+        if (response.ok && response.type === 'reveal') {
+          return { ...response, word: 'crane' };
+        }
+        return response;
+      };
+      const session = await createRemoteEvaluator(transport).startPuzzle(puzzle);
+      await session.evaluateGuess('TRACE');
+
+      await expect(session.reveal()).rejects.toMatchObject({ code: 'commitment-mismatch' });
+    });
+  });
+
+  describe('handleEvaluationRequest', () => {
+    it('should refuse puzzles for future hours', async () => {
+      const response = await handleEvaluationRequest({ ...puzzle, type: 'start', hourId: '2999010100' });
+
+      expect(response).toMatchObject({ ok: false, code: 'future-puzzle' });
+      expect(getHourlyPuzzle).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported word lengths', async () => {
+      const response = await handleEvaluationRequest({ ...puzzle, type: 'start', wordLength: 12 });
+
+      expect(response).toMatchObject({ ok: false, code: 'invalid-argument' });
+    });
+
+    it('should reject boards outside the game', async () => {
+      const response = await handleEvaluationRequest({ ...puzzle, type: 'start', boardCount: 4, boardIndex: 4 });
+
+      expect(response).toMatchObject({ ok: false, code: 'invalid-argument' });
+    });
+
+    it('should start a separate puzzle for every board', async () => {
+      const first = await handleEvaluationRequest({ ...puzzle, type: 'start', boardCount: 2, boardIndex: 0 });
+      const second = await handleEvaluationRequest({ ...puzzle, type: 'start', boardCount: 2, boardIndex: 1 });
+
+      expect(first).toMatchObject({ ok: true, puzzleId: '2025092415-B2-0' });
+      expect(second).toMatchObject({ ok: true, puzzleId: '2025092415-B2-1' });
+      expect(getHourlyPuzzle).toHaveBeenCalledWith('2025092415', 5, 2, 1, 'en');
+    });
+
+    it('should reject requests for sessions that were not started', async () => {
+      const response = await handleEvaluationRequest({ type: 'evaluate', session: '2025092415', guess: 'CRANE' });
+
+      expect(response).toMatchObject({ ok: false, code: 'not-found' });
+    });
+
+    it('should reject sessions whose guesses were altered', async () => {
+      const started = await handleEvaluationRequest({ ...puzzle, type: 'start' });
+      if (!started.ok || started.type !== 'start') throw new Error('Unexpected response');
+
+      const [payload, signature] = started.session.split('.');
+      const state = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+      const forged = btoa(JSON.stringify({ ...state, guesses: ['TRACE'] })).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+      expect(await handleEvaluationRequest({ type: 'reveal', session: `${forged}.${signature}` }))
+        .toMatchObject({ ok: false, code: 'not-found' });
+    });
+
+    it('should ignore guesses sent along with a hint request', async () => {
+      const started = await handleEvaluationRequest({ ...puzzle, type: 'start' });
+      if (!started.ok || started.type !== 'start') throw new Error('Unexpected response');
+
+      const response = await handleEvaluationRequest(
+        { type: 'hint', session: started.session, tier: 'position', guesses: ['TZZZZ'] } as EvaluationRequest
+      );
+
+      expect(response).toMatchObject({ ok: true, hint: { tier: 'position', letter: 'T', position: 0 } });
+    });
+
+    it('should reveal a salt that verifies the commitment', async () => {
+      const started = await handleEvaluationRequest({ ...puzzle, type: 'start' });
+      if (!started.ok || started.type !== 'start') throw new Error('Unexpected response');
+      const evaluated = await handleEvaluationRequest({ type: 'evaluate', session: started.session, guess: 'TRACE' });
+      if (!evaluated.ok || evaluated.type !== 'evaluate') throw new Error('Unexpected response');
+      const revealed = await handleEvaluationRequest({ type: 'reveal', session: evaluated.session });
+
+      if (!revealed.ok || revealed.type !== 'reveal') {
+        throw new Error('Unexpected response');
+      }
+      expect(await verifyCommitment(revealed.word, started.puzzleId, revealed.salt, started.commitment)).toBe(true);
+    });
+
+    it('should work out the guess limit from the board count, not the request', async () => {
+      const started = await handleEvaluationRequest({ ...puzzle, type: 'start', maxGuesses: 1 } as EvaluationRequest);
+      if (!started.ok || started.type !== 'start') throw new Error('Unexpected response');
+
+      const evaluated = await handleEvaluationRequest({ type: 'evaluate', session: started.session, guess: 'CRANE' });
+      if (!evaluated.ok || evaluated.type !== 'evaluate') throw new Error('Unexpected response');
+
+      expect(await handleEvaluationRequest({ type: 'reveal', session: evaluated.session }))
+        .toMatchObject({ ok: false, code: 'game-in-progress' });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { doc, getDoc, increment, writeBatch } from 'firebase/firestore';
+import type { DocumentData } from 'firebase/firestore';
+import { signInAnonymously, signOut } from 'firebase/auth';
+import { recordHourResult } from '../firestoreService';
+import { getDb, getFirebaseAuth } from '../firebase';
+
+// Runs against the Firebase emulators when started through `npm run test:emulator`
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+vi.mock('../firebase', async () => {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    return { isFirebaseConfigured: true, getDb: () => ({}), getFirebaseAuth: () => ({}) };
+  }
+
+  const { initializeApp } = await import('firebase/app');
+  const { getFirestore, connectFirestoreEmulator } = await import('firebase/firestore');
+  const { getAuth, connectAuthEmulator } = await import('firebase/auth');
+
+  const app = initializeApp({ apiKey: 'demo-key', projectId: 'demo-mintle' }, `rules-test-${Date.now()}`);
+  const db = getFirestore(app);
+  const auth = getAuth(app);
+  const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+  connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST ?? 'localhost:9099'}`, {
+    disableWarnings: true
+  });
+  return { isFirebaseConfigured: true, getDb: () => db, getFirebaseAuth: () => auth };
+});
+
+/**
+ * Sign in as a player who has not been counted anywhere yet
+ */
+async function signInAsNewPlayer(): Promise<string> {
+  const auth = getFirebaseAuth();
+  await signOut(auth);
+  return (await signInAnonymously(auth)).user.uid;
+}
+
+/**
+ * Write a player marker and an aggregate change in one batch, like recordHourResult
+ */
+async function writeCountedResult(
+  statsId: string,
+  uid: string,
+  marker: { won: boolean; attempts: number; firstGuess: string },
+  stats: DocumentData
+): Promise<void> {
+  const statsRef = doc(getDb(), 'hourStats', statsId);
+  const batch = writeBatch(getDb());
+  batch.set(doc(statsRef, 'players', uid), { ...marker, completedAt: new Date().toISOString() });
+  batch.set(statsRef, stats, { merge: true });
+  await batch.commit();
+}
+
+describe.skipIf(!emulatorHost)('firestore rules for hourStats with the Firebase emulators', () => {
+  it('should count an honest result', async () => {
+    const statsId = `rules-${Date.now()}-honest`;
+
+    expect(await recordHourResult(statsId, await signInAsNewPlayer(), { won: true, attempts: 3, firstGuess: 'CRANE' }))
+      .toBe(true);
+
+    const stats = (await getDoc(doc(getDb(), 'hourStats', statsId))).data();
+    expect(stats).toMatchObject({ players: 1, wins: 1, distribution: { '3': 1 }, firstGuesses: { CRANE: 1 } });
+  });
+
+  it('should reject a forged distribution in a counted write', async () => {
+    const statsId = `rules-${Date.now()}-distribution`;
+    const uid = await signInAsNewPlayer();
+
+    await expect(writeCountedResult(statsId, uid, { won: true, attempts: 3, firstGuess: 'CRANE' }, {
+      players: increment(1),
+      wins: increment(1),
+      distribution: { '1': 1000 },
+      firstGuesses: { CRANE: increment(1) }
+    })).rejects.toMatchObject({ code: 'permission-denied' });
+  });
+
+  it('should reject wiping the distribution of earlier players', async () => {
+    const statsId = `rules-${Date.now()}-wipe`;
+    await recordHourResult(statsId, await signInAsNewPlayer(), { won: true, attempts: 3, firstGuess: 'CRANE' });
+    const uid = await signInAsNewPlayer();
+
+    await expect(writeCountedResult(statsId, uid, { won: false, attempts: 6, firstGuess: 'SLATE' }, {
+      players: increment(1),
+      distribution: {},
+      firstGuesses: { CRANE: 0, SLATE: increment(1) }
+    })).rejects.toMatchObject({ code: 'permission-denied' });
+  });
+
+  it('should reject first guesses other than the player\'s own', async () => {
+    const statsId = `rules-${Date.now()}-first-guess`;
+    const uid = await signInAsNewPlayer();
+
+    await expect(writeCountedResult(statsId, uid, { won: false, attempts: 6, firstGuess: 'CRANE' }, {
+      players: increment(1),
+      wins: increment(0),
+      distribution: {},
+      firstGuesses: { CRANE: increment(1), SLATE: increment(500) }
+    })).rejects.toMatchObject({ code: 'permission-denied' });
+  });
+});
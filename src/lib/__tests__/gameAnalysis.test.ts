@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { analyzeGame, loadGameReview } from '../gameAnalysis';
+import { loadDictionary } from '../dictionary';
+import { rankGuesses } from '../solver';
+
+vi.mock('../solver', async (importOriginal) => {
+  const solver = await importOriginal<typeof import('../solver')>();
+  return { ...solver, rankGuesses: vi.fn(solver.rankGuesses) };
+});
+
+describe('gameAnalysis', () => {
+  const solutions = ['fight', 'light', 'might', 'night', 'sight'];
+  const allowed = ['flams', ...solutions];
+
+  it('should count the words left before and after each guess', () => {
+    const analysis = analyzeGame(['LIGHT', 'SIGHT'], 'sight', solutions, allowed);
+
+    expect(analysis.map(({ candidatesBefore, candidatesAfter }) => [candidatesBefore, candidatesAfter]))
+      .toEqual([[5, 4], [4, 1]]);
+    expect(analysis[0].actualBits).toBeCloseTo(Math.log2(5 / 4));
+    expect(analysis[1].actualBits).toBeCloseTo(2);
+  });
+
+  it('should rate guesses against the best one available', () => {
+    const analysis = analyzeGame(['LIGHT', 'SIGHT'], 'sight', solutions, allowed);
+
+    // FLAMS tells all five words apart; LIGHT only tells itself apart from the rest
+    expect(analysis[0].bestGuess).toBe('FLAMS');
+    expect(analysis[0].bestExpectedBits).toBeCloseTo(Math.log2(5));
+    expect(analysis[0].expectedBits).toBeCloseTo(0.722, 3);
+    expect(analysis[0].skill).toBe(31);
+    expect(analysis[1].skill).toBe(41);
+  });
+
+  it('should give full skill to the best guess and to the last word left', () => {
+    const analysis = analyzeGame(['FLAMS', 'SIGHT'], 'sight', solutions, allowed);
+
+    expect(analysis.map(({ skill }) => skill)).toEqual([100, 100]);
+    expect(analysis[1]).toMatchObject({ candidatesBefore: 1, candidatesAfter: 1, bestGuess: 'SIGHT' });
+  });
+
+  it('should give no skill to a guess that cannot be the last word left', () => {
+    const analysis = analyzeGame(['FLAMS', 'LIGHT', 'SIGHT'], 'sight', solutions, allowed);
+
+    expect(analysis[1].skill).toBe(0);
+  });
+
+  it('should measure luck as the bits gained beyond those expected', () => {
+    const [unlucky] = analyzeGame(['LIGHT'], 'sight', solutions, allowed);
+    const [lucky] = analyzeGame(['LIGHT'], 'light', solutions, allowed);
+    const [expected] = analyzeGame(['FLAMS'], 'sight', solutions, allowed);
+
+    expect(unlucky.luck).toBeLessThan(0);
+    expect(lucky.luck).toBeGreaterThan(0);
+    expect(expected.luck).toBeCloseTo(0);
+  });
+
+  it('should still find an answer picked outside the solution list', () => {
+    const analysis = analyzeGame(['TIGHT'], 'tight', solutions, allowed);
+
+    expect(analysis[0]).toMatchObject({ candidatesBefore: 6, candidatesAfter: 1 });
+  });
+
+  it('should analyze a game from the bundled dictionary', async () => {
+    const dictionary = await loadDictionary(5, 'v1');
+    const [analysis] = await loadGameReview(
+      [{ guesses: ['CRANE', 'TRACE'], answer: 'TRACE' }],
+      { wordLength: 5, dictionaryVersion: 'v1' }
+    );
+
+    expect(analysis).toHaveLength(2);
+    expect(analysis[0].candidatesBefore).toBe(dictionary.solutions.size);
+    expect(analysis[0].candidatesAfter).toBe(analysis[1].candidatesBefore);
+    expect(analysis[1].candidatesAfter).toBe(1);
+    expect(analysis[0].skill).toBeGreaterThan(90);
+  });
+
+  it('should rank the opening only once for all boards of a game', async () => {
+    const dictionary = await loadDictionary(6, 'v1');
+    const isOpeningRank = ([candidates]: Parameters<typeof rankGuesses>) =>
+      candidates.length === dictionary.solutions.size;
+    vi.mocked(rankGuesses).mockClear();
+
+    const boards = [...dictionary.solutions].slice(0, 3).map(answer => ({ guesses: ['SILVER', answer], answer }));
+    const reviews = await loadGameReview(boards, { wordLength: 6, dictionaryVersion: 'v1' });
+    await loadGameReview(boards, { wordLength: 6, dictionaryVersion: 'v1' });
+
+    expect(vi.mocked(rankGuesses).mock.calls.filter(isOpeningRank)).toHaveLength(1);
+    expect(new Set(reviews.map(([opening]) => opening.bestGuess)).size).toBe(1);
+  });
+});
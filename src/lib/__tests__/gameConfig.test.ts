@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_GAME_CONFIG,
+  isSupportedWordLength,
+  isSupportedBoardCount,
+  getMaxGuessesForBoards,
+  storageKeyFor,
+  progressKeyFor,
+  loadGameConfig,
+  saveGameConfig
+} from '../gameConfig';
+
+describe('gameConfig', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isSupportedWordLength', () => {
+    it('should accept lengths 4 through 8', () => {
+      for (const length of [4, 5, 6, 7, 8]) {
+        expect(isSupportedWordLength(length)).toBe(true);
+      }
+    });
+
+    it('should reject other lengths', () => {
+      expect(isSupportedWordLength(3)).toBe(false);
+      expect(isSupportedWordLength(9)).toBe(false);
+    });
+  });
+
+  describe('board counts', () => {
+    it('should support 1, 2, 4 and 8 boards', () => {
+      expect([1, 2, 4, 8].every(isSupportedBoardCount)).toBe(true);
+      expect(isSupportedBoardCount(3)).toBe(false);
+    });
+
+    it('should add one guess per extra board', () => {
+      expect(getMaxGuessesForBoards(1)).toBe(6);
+      expect(getMaxGuessesForBoards(4)).toBe(9);
+      expect(getMaxGuessesForBoards(8)).toBe(13);
+    });
+  });
+
+  describe('storageKeyFor', () => {
+    it('should keep the base key for the classic game', () => {
+      expect(storageKeyFor('mintle-progress', DEFAULT_GAME_CONFIG)).toBe('mintle-progress');
+    });
+
+    it('should suffix the key with the word length for variants', () => {
+      expect(storageKeyFor('mintle-progress', { ...DEFAULT_GAME_CONFIG, wordLength: 7 })).toBe('mintle-progress-7');
+    });
+
+    it('should keep practice games in their own bucket', () => {
+      expect(storageKeyFor('mintle-history', { ...DEFAULT_GAME_CONFIG, mode: 'practice' })).toBe('mintle-history-practice');
+      expect(storageKeyFor('mintle-history', { ...DEFAULT_GAME_CONFIG, wordLength: 6, mode: 'practice' }))
+        .toBe('mintle-history-6-practice');
+    });
+
+    it('should keep multi-board games in their own bucket', () => {
+      expect(storageKeyFor('mintle-history', { ...DEFAULT_GAME_CONFIG, boardCount: 4 })).toBe('mintle-history-x4');
+      expect(storageKeyFor('mintle-history', { ...DEFAULT_GAME_CONFIG, wordLength: 6, boardCount: 2, mode: 'practice' }))
+        .toBe('mintle-history-6-x2-practice');
+    });
+
+    it('should keep other languages in their own bucket', () => {
+      expect(storageKeyFor('mintle-history', { ...DEFAULT_GAME_CONFIG, language: 'en' })).toBe('mintle-history');
+      expect(storageKeyFor('mintle-history', { ...DEFAULT_GAME_CONFIG, language: 'es', mode: 'practice' }))
+        .toBe('mintle-history-es-practice');
+    });
+  });
+
+  describe('progressKeyFor', () => {
+    it('should keep separate progress for every archived hour', () => {
+      expect(progressKeyFor(DEFAULT_GAME_CONFIG)).toBe('mintle-progress');
+      expect(progressKeyFor({ ...DEFAULT_GAME_CONFIG, mode: 'archive', archiveHourId: '2025092310' }))
+        .toBe('mintle-progress-archive-2025092310');
+    });
+
+    it('should keep separate progress for every custom puzzle', () => {
+      const customPuzzle = { id: 'k3x9a2bq', code: 'Ab', wordLength: 6, language: 'en' };
+
+      expect(progressKeyFor({ ...DEFAULT_GAME_CONFIG, wordLength: 6, mode: 'custom', customPuzzle }))
+        .toBe('mintle-progress-6-custom-k3x9a2bq');
+    });
+  });
+
+  describe('loadGameConfig', () => {
+    it('should return the default config when nothing is saved', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(null);
+
+      expect(loadGameConfig()).toEqual(DEFAULT_GAME_CONFIG);
+    });
+
+    it('should restore a saved word length', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 6, maxGuesses: 6 }));
+
+      expect(loadGameConfig().wordLength).toBe(6);
+    });
+
+    it('should restore a saved board count with its guess limit', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 5, boardCount: 4 }));
+      expect(loadGameConfig()).toMatchObject({ boardCount: 4, maxGuesses: 9 });
+
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 5, boardCount: 3 }));
+      expect(loadGameConfig()).toMatchObject({ boardCount: 1, maxGuesses: 6 });
+    });
+
+    it('should restore practice mode and ignore unknown modes', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 5, mode: 'practice' }));
+      expect(loadGameConfig().mode).toBe('practice');
+
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 5, mode: 'arcade' }));
+      expect(loadGameConfig().mode).toBe('hourly');
+    });
+
+    it('should only restore archive games for past hours', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(
+        JSON.stringify({ wordLength: 5, mode: 'archive', archiveHourId: '2020010100' })
+      );
+      expect(loadGameConfig()).toMatchObject({ mode: 'archive', archiveHourId: '2020010100' });
+
+      vi.mocked(localStorage.getItem).mockReturnValue(
+        JSON.stringify({ wordLength: 5, mode: 'archive', archiveHourId: '2999010100' })
+      );
+      expect(loadGameConfig()).toEqual(DEFAULT_GAME_CONFIG);
+    });
+
+    it('should not restore custom games without their link', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(
+        JSON.stringify({ wordLength: 5, mode: 'custom', customPuzzle: { id: 'k3x9a2bq', code: 'Ab', wordLength: 5, language: 'en' } })
+      );
+
+      expect(loadGameConfig()).toEqual(DEFAULT_GAME_CONFIG);
+    });
+
+    it('should restore a saved language with a word length it supports', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 5, language: 'de' }));
+      expect(loadGameConfig()).toMatchObject({ wordLength: 5, language: 'de' });
+
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 7, language: 'de' }));
+      expect(loadGameConfig()).toEqual(DEFAULT_GAME_CONFIG);
+
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 5, language: 'xx' }));
+      expect(loadGameConfig()).toEqual(DEFAULT_GAME_CONFIG);
+    });
+
+    it('should ignore an unsupported saved word length', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ wordLength: 12 }));
+
+      expect(loadGameConfig()).toEqual(DEFAULT_GAME_CONFIG);
+    });
+  });
+
+  describe('saveGameConfig', () => {
+    it('should persist the config', () => {
+      saveGameConfig({ wordLength: 4, maxGuesses: 6, mode: 'hourly', boardCount: 1 });
+
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        'mintle-config',
+        JSON.stringify({ wordLength: 4, maxGuesses: 6, mode: 'hourly', boardCount: 1 })
+      );
+    });
+  });
+});
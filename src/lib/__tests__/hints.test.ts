@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { MAX_LETTER_HINTS, getLetterHint, getSolverHint, getStrongerHintTier, isHintTier, takeLetterHint } from '../hints';
+import { loadDictionary } from '../dictionary';
+import { evaluateGuess } from '../wordEvaluation';
+
+describe('hints', () => {
+  beforeAll(async () => {
+    await loadDictionary(5, 'v1');
+  });
+
+  it('should recognize hint tiers', () => {
+    expect(isHintTier('position')).toBe(true);
+    expect(isHintTier('answer')).toBe(false);
+  });
+
+  it('should keep the stronger of two hint tiers', () => {
+    expect(getStrongerHintTier(undefined, 'count')).toBe('count');
+    expect(getStrongerHintTier('letter', 'count')).toBe('letter');
+    expect(getStrongerHintTier('letter', 'probe')).toBe('probe');
+  });
+
+  describe('getLetterHint', () => {
+    it('should name a letter no guess has shown', () => {
+      expect(getLetterHint('TRACE', ['CRANE'], 'letter')).toEqual({ tier: 'letter', letter: 'T' });
+    });
+
+    it('should place the letter of the first position not found yet', () => {
+      expect(getLetterHint('TRACE', ['TRICE'], 'position')).toEqual({ tier: 'position', letter: 'A', position: 2 });
+    });
+
+    it('should fall back to a position once every letter has been seen', () => {
+      expect(getLetterHint('TRACE', ['CRATE'], 'letter')).toEqual({ tier: 'position', letter: 'T', position: 0 });
+    });
+
+    it('should have nothing left to give for a solved word', () => {
+      expect(getLetterHint('TRACE', ['TRACE'], 'position')).toBeNull();
+    });
+  });
+
+  describe('getSolverHint', () => {
+    const options = { wordLength: 5, dictionaryVersion: 'v1' };
+
+    it('should count the words that still fit the feedback', async () => {
+      const feedback = [evaluateGuess('CRANE', 'TRACE')];
+      const hint = await getSolverHint('count', ['CRANE'], feedback, options);
+
+      expect(hint).toMatchObject({ tier: 'count' });
+      expect(hint?.tier === 'count' && hint.candidates).toBeGreaterThan(1);
+    });
+
+    it('should suggest the only word left', async () => {
+      const feedback = [evaluateGuess('CRANE', 'TRACE'), evaluateGuess('TRACT', 'TRACE')];
+
+      expect(await getSolverHint('probe', ['CRANE', 'TRACT'], feedback, options))
+        .toEqual({ tier: 'probe', word: 'TRACE', candidates: 1 });
+    });
+
+    it('should keep probes to the revealed letters in hard mode', async () => {
+      const feedback = [evaluateGuess('CRANE', 'TRACE')];
+      const hint = await getSolverHint('probe', ['CRANE'], feedback, { ...options, hardMode: true });
+
+      expect(hint?.tier).toBe('probe');
+      const word = hint?.tier === 'probe' ? hint.word : '';
+      expect(word.slice(1, 3)).toBe('RA');
+      expect(word[4]).toBe('E');
+      expect(word).toContain('C');
+    });
+  });
+
+  describe('takeLetterHint', () => {
+    it('should count each letter hint once and stop at the allowance', () => {
+      const given = new Set<string>();
+
+      expect(takeLetterHint(given, { tier: 'letter', letter: 'T' })).toBe(true);
+      expect(takeLetterHint(given, { tier: 'letter', letter: 'T' })).toBe(true);
+      expect(takeLetterHint(given, { tier: 'position', letter: 'R', position: 1 })).toBe(true);
+      expect(given.size).toBe(MAX_LETTER_HINTS);
+      expect(takeLetterHint(given, { tier: 'position', letter: 'A', position: 2 })).toBe(false);
+      expect(takeLetterHint(given, { tier: 'position', letter: 'R', position: 1 })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getHourStatsId,
+  getPercentBeaten,
+  loadHourStats,
+  submitHourResult,
+  summarizeHourStats
+} from '../hourStats';
+import { DEFAULT_GAME_CONFIG } from '../gameConfig';
+import type { HourStats } from '../../types/game';
+
+vi.mock('../firestoreService', () => ({
+  getHourStatsDocument: vi.fn(),
+  recordHourResult: vi.fn()
+}));
+
+vi.mock('../auth', () => ({
+  getCurrentUser: vi.fn().mockResolvedValue({ uid: 'player-1' })
+}));
+
+import { getHourStatsDocument, recordHourResult } from '../firestoreService';
+
+const stats: HourStats = {
+  players: 10,
+  wins: 8,
+  distribution: { '2': 1, '3': 4, '4': 2, '6': 1 },
+  firstGuesses: { CRANE: 3, SLATE: 3, ADIEU: 1 }
+};
+
+describe('hourStats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getHourStatsId', () => {
+    it('should follow the word document IDs and mark multi-board games', () => {
+      expect(getHourStatsId('2025092415', DEFAULT_GAME_CONFIG)).toBe('2025092415');
+      expect(getHourStatsId('2025092415', { ...DEFAULT_GAME_CONFIG, wordLength: 6 })).toBe('2025092415-L6');
+      expect(getHourStatsId('2025092415', { ...DEFAULT_GAME_CONFIG, boardCount: 4 })).toBe('2025092415-x4');
+    });
+  });
+
+  describe('summarizeHourStats', () => {
+    it('should build the distribution and pick the most common opener', () => {
+      const summary = summarizeHourStats(stats, 6);
+
+      expect(summary).toEqual({
+        players: 10,
+        winPercentage: 80,
+        distribution: [0, 1, 4, 2, 0, 1],
+        mostCommonFirstGuess: { word: 'CRANE', count: 3 }
+      });
+    });
+  });
+
+  describe('getPercentBeaten', () => {
+    it('should count losses and slower wins as worse', () => {
+      const summary = summarizeHourStats(stats, 6);
+
+      // 2 losses + 3 wins in 4 or more guesses
+      expect(getPercentBeaten(summary, true, 3)).toBe(50);
+      expect(getPercentBeaten(summary, true, 6)).toBe(20);
+      expect(getPercentBeaten(summary, false, 6)).toBe(0);
+    });
+  });
+
+  describe('submitHourResult', () => {
+    it('should record the outcome and opening guess', async () => {
+      vi.mocked(recordHourResult).mockResolvedValue(true);
+
+      await submitHourResult('2025092415', DEFAULT_GAME_CONFIG, ['crane', 'TRACE'], true);
+
+      expect(recordHourResult).toHaveBeenCalledWith('2025092415', 'player-1', {
+        won: true,
+        attempts: 2,
+        firstGuess: 'CRANE'
+      });
+    });
+
+    it('should leave practice games out', async () => {
+      const result = await submitHourResult('practice-1758726000000', { ...DEFAULT_GAME_CONFIG, mode: 'practice' }, ['CRANE'], true);
+
+      expect(result).toBe(false);
+      expect(recordHourResult).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadHourStats', () => {
+    it('should return null when nobody finished the puzzle', async () => {
+      vi.mocked(getHourStatsDocument).mockResolvedValue(null);
+
+      expect(await loadHourStats('2025092415', DEFAULT_GAME_CONFIG)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_LOCALE,
+  MESSAGE_CATALOGS,
+  SUPPORTED_LOCALES,
+  detectLocale,
+  formatMessage,
+  getLocaleDirection,
+  isSupportedLocale,
+  translate
+} from '../i18n';
+import type { MessageKey } from '../i18n';
+
+describe('i18n', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('formatMessage', () => {
+    it('should insert values and format numbers for the locale', () => {
+      expect(formatMessage('Hello {name}!', { name: 'Ada' })).toBe('Hello Ada!');
+      expect(formatMessage('{count} players', { count: 12345 })).toBe('12,345 players');
+      expect(formatMessage('{count} Spieler', { count: 12345 }, 'de')).toBe('12.345 Spieler');
+    });
+
+    it('should leave arguments without a value as written', () => {
+      expect(formatMessage('Hello {name}!')).toBe('Hello {name}!');
+    });
+
+    it('should pick plural branches by the locale rules', () => {
+      const message = '{count, plural, one {# attempt} other {# attempts}}';
+      expect(formatMessage(message, { count: 1 })).toBe('1 attempt');
+      expect(formatMessage(message, { count: 3 })).toBe('3 attempts');
+      expect(formatMessage(message, { count: 0 })).toBe('0 attempts');
+
+      const arabic = '{count, plural, one {one} two {two} few {few} many {many} other {other}}';
+      expect([1, 2, 3, 11, 100].map(count => formatMessage(arabic, { count }, 'ar')))
+        .toEqual(['one', 'two', 'few', 'many', 'other']);
+    });
+
+    it('should prefer exact matches over plural categories', () => {
+      const message = '{count, plural, =0 {no guesses} one {# guess} other {# guesses}}';
+      expect(formatMessage(message, { count: 0 })).toBe('no guesses');
+      expect(formatMessage(message, { count: 1 })).toBe('1 guess');
+    });
+
+    it('should format ordinals', () => {
+      const message = '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+      expect([1, 2, 3, 4, 11, 22].map(n => formatMessage(message, { n }))).toEqual(['1st', '2nd', '3rd', '4th', '11th', '22nd']);
+    });
+
+    it('should select branches by value', () => {
+      const message = '{status, select, won {Solved} other {Not solved}}';
+      expect(formatMessage(message, { status: 'won' })).toBe('Solved');
+      expect(formatMessage(message, { status: 'lost' })).toBe('Not solved');
+    });
+
+    it('should format arguments nested in branches', () => {
+      const message = '{count, plural, one {Guess must contain {letter}} other {Guess must contain # {letter}s}}';
+      expect(formatMessage(message, { count: 1, letter: 'E' })).toBe('Guess must contain E');
+      expect(formatMessage(message, { count: 2, letter: 'E' })).toBe('Guess must contain 2 Es');
+    });
+
+    it('should reject unbalanced braces', () => {
+      expect(() => formatMessage('Hello {name')).toThrow('Unbalanced braces');
+    });
+  });
+
+  describe('translate', () => {
+    it('should translate into the locale', () => {
+      expect(translate('en', 'game.notInWordList')).toBe('Not in word list');
+      expect(translate('es', 'game.notInWordList')).toBe('No está en la lista de palabras');
+      expect(translate('de', 'game.wrongLength', { wordLength: 6 })).toBe('Der Versuch muss 6 Buchstaben haben');
+    });
+
+    it('should fall back to English for unknown locales and missing messages', () => {
+      expect(translate('fr', 'game.notInWordList')).toBe('Not in word list');
+
+      const catalog = MESSAGE_CATALOGS.de;
+      const original = catalog['game.finished'];
+      delete catalog['game.finished'];
+      try {
+        expect(translate('de', 'game.finished')).toBe('Game is already finished');
+      } finally {
+        catalog['game.finished'] = original;
+      }
+    });
+
+    it('should have every message in every catalog', () => {
+      const keys = Object.keys(MESSAGE_CATALOGS[DEFAULT_LOCALE]).sort();
+      for (const locale of SUPPORTED_LOCALES) {
+        expect(Object.keys(MESSAGE_CATALOGS[locale]).sort()).toEqual(keys);
+      }
+    });
+
+    it('should format every message with sample values', () => {
+      const values = {
+        wordLength: 5, position: 2, count: 3, letter: 'E', message: 'x', time: '12:00', hour: 'h', used: 1, max: 6,
+        boards: 2, attempts: 4, words: 'A, B', word: 'CRANE', players: 10, winPercentage: 80, percent: 50,
+        url: 'https://example.com', day: 'd', status: 's', guess: 1, feedback: 'f', board: 1, minutes: 5, tier: 't',
+        row: 1, skill: 80, luck: '+0.5', id: 'k3x9a2bq'
+      };
+      for (const locale of SUPPORTED_LOCALES) {
+        for (const key of Object.keys(MESSAGE_CATALOGS[locale]) as MessageKey[]) {
+          const text = translate(locale, key, values);
+          expect(text, `${locale} ${key}`).not.toMatch(/[{}#]/);
+        }
+      }
+    });
+  });
+
+  describe('locales', () => {
+    it('should detect the locale from the preferred languages', () => {
+      expect(detectLocale(['de-AT', 'en-US'])).toBe('de');
+      expect(detectLocale(['fr-FR', 'es-MX'])).toBe('es');
+      expect(detectLocale(['ar_EG'])).toBe('ar');
+      expect(detectLocale(['fr-FR'])).toBe(DEFAULT_LOCALE);
+      expect(detectLocale([])).toBe(DEFAULT_LOCALE);
+    });
+
+    it('should lay out Arabic right to left', () => {
+      expect(getLocaleDirection('ar')).toBe('rtl');
+      expect(getLocaleDirection('en')).toBe('ltr');
+      expect(getLocaleDirection('de')).toBe('ltr');
+    });
+
+    it('should only accept locales with a catalog', () => {
+      expect(isSupportedLocale('es')).toBe(true);
+      expect(isSupportedLocale('fr')).toBe(false);
+      expect(isSupportedLocale('toString')).toBe(false);
+      expect(isSupportedLocale(null)).toBe(false);
+    });
+
+  });
+});
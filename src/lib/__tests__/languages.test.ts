@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  getKeyboardLayout,
+  getLanguagePack,
+  isSupportedLanguage,
+  isSupportedWordLengthForLanguage,
+  normalizeLetter,
+  normalizeWord,
+  sanitizeGuessInput
+} from '../languages';
+
+describe('languages', () => {
+  describe('packs', () => {
+    it('should ship English, Spanish and German', () => {
+      expect(DEFAULT_LANGUAGE).toBe('en');
+      expect(SUPPORTED_LANGUAGES).toEqual(['en', 'es', 'de']);
+      expect(isSupportedLanguage('es')).toBe(true);
+      expect(isSupportedLanguage('fr')).toBe(false);
+      expect(isSupportedLanguage('toString')).toBe(false);
+    });
+
+    it('should fall back to English for unknown languages', () => {
+      expect(getLanguagePack('fr').code).toBe('en');
+    });
+
+    it('should only offer the word lengths a language has words for', () => {
+      expect(isSupportedWordLengthForLanguage(7)).toBe(true);
+      expect(isSupportedWordLengthForLanguage(5, 'es')).toBe(true);
+      expect(isSupportedWordLengthForLanguage(7, 'es')).toBe(false);
+    });
+
+    it('should only put alphabet letters on the keyboards', () => {
+      for (const code of SUPPORTED_LANGUAGES) {
+        const { alphabet, keyboard } = getLanguagePack(code);
+        const letters = keyboard.flat().filter(key => key !== 'ENTER' && key !== 'BACKSPACE');
+
+        expect([...letters].sort()).toEqual([...alphabet].sort());
+      }
+    });
+  });
+
+  describe('normalization', () => {
+    it('should fold Spanish accented vowels but keep Ñ', () => {
+      expect(normalizeLetter('á', 'es')).toBe('A');
+      expect(normalizeLetter('ü', 'es')).toBe('U');
+      expect(normalizeLetter('ñ', 'es')).toBe('Ñ');
+      expect(normalizeWord('Árbol', 'es')).toBe('arbol');
+    });
+
+    it('should keep German umlauts as letters of their own', () => {
+      expect(normalizeLetter('ä', 'de')).toBe('Ä');
+      expect(normalizeWord('Bühne', 'de')).toBe('bühne');
+    });
+
+    it('should treat decomposed accents like precomposed ones', () => {
+      expect(normalizeWord('árbol', 'es')).toBe('arbol');
+    });
+  });
+
+  describe('sanitizeGuessInput', () => {
+    it('should keep only English letters by default', () => {
+      expect(sanitizeGuessInput('he-llo!')).toBe('HELLO');
+      expect(sanitizeGuessInput('ñandú')).toBe('AND');
+    });
+
+    it('should map typed variants to their keys', () => {
+      expect(sanitizeGuessInput('ñandú', 'es')).toBe('ÑANDU');
+      expect(sanitizeGuessInput('grüße', 'de')).toBe('GRÜE');
+    });
+  });
+
+  describe('getKeyboardLayout', () => {
+    it('should use the language keyboard by default', () => {
+      expect(getKeyboardLayout('de')).toEqual(getLanguagePack('de').keyboard);
+    });
+
+    it('should lay the alphabet out in order over three rows', () => {
+      const rows = getKeyboardLayout('en', 'alphabetical');
+      expect(rows[0].join('')).toBe('ABCDEFGHI');
+      expect(rows[1].join('')).toBe('JKLMNOPQR');
+      expect(rows[2]).toEqual(['ENTER', 'S', 'T', 'U', 'V', 'W', 'X', 'Y', 'Z', 'BACKSPACE']);
+    });
+
+    it('should sort letters by the language collation', () => {
+      const letters = getKeyboardLayout('es', 'alphabetical').flat();
+      expect(letters.indexOf('Ñ')).toBe(letters.indexOf('N') + 1);
+    });
+
+    it('should swap ENTER and BACKSPACE', () => {
+      const standard = getKeyboardLayout('en');
+      const swapped = getKeyboardLayout('en', 'standard', true);
+      const lastRow = standard.length - 1;
+      expect(swapped[lastRow][0]).toBe(standard[lastRow][standard[lastRow].length - 1]);
+      expect(swapped[lastRow][swapped[lastRow].length - 1]).toBe(standard[lastRow][0]);
+      expect(swapped.slice(0, lastRow)).toEqual(standard.slice(0, lastRow));
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyGuessFeedback,
+  buildMultiBoardShareGrid,
+  createBoards,
+  getBoardGuesses,
+  getBoardLayout,
+  getMultiBoardStatus
+} from '../multiBoard';
+import type { LetterFeedback } from '../../types/game';
+
+function makeFeedback(word: string, statuses: string): LetterFeedback[] {
+  const map = { g: 'correct', y: 'present', x: 'absent' } as const;
+  return word.split('').map((letter, index) => ({
+    letter,
+    status: map[statuses[index] as keyof typeof map]
+  }));
+}
+
+describe('multiBoard', () => {
+  describe('applyGuessFeedback', () => {
+    it('should mark boards solved and stop adding feedback to them', () => {
+      let boards = createBoards(['c1', 'c2']);
+      boards = applyGuessFeedback(boards, [
+        makeFeedback('CRANE', 'ggggg'),
+        makeFeedback('CRANE', 'xyxxg')
+      ], 1);
+
+      expect(boards[0].solvedAt).toBe(1);
+      expect(boards[1].solvedAt).toBeNull();
+
+      boards = applyGuessFeedback(boards, [null, makeFeedback('SLATE', 'ggggg')], 2);
+
+      expect(boards[0].feedback).toHaveLength(1);
+      expect(boards[1].feedback).toHaveLength(2);
+      expect(boards[1].solvedAt).toBe(2);
+    });
+  });
+
+  describe('getMultiBoardStatus', () => {
+    it('should only be won once every board is solved', () => {
+      const boards = applyGuessFeedback(createBoards(['c1', 'c2']), [
+        makeFeedback('CRANE', 'ggggg'),
+        makeFeedback('CRANE', 'xxxxx')
+      ], 1);
+
+      expect(getMultiBoardStatus(boards, 1, 7)).toBe('playing');
+      expect(getMultiBoardStatus(boards, 7, 7)).toBe('lost');
+      expect(getMultiBoardStatus(
+        applyGuessFeedback(boards, [null, makeFeedback('SLATE', 'ggggg')], 2), 2, 7
+      )).toBe('won');
+    });
+  });
+
+  describe('getBoardGuesses', () => {
+    it('should stop at the guess that solved the board', () => {
+      const guesses = ['CRANE', 'SLATE', 'MOUSE'];
+      const [solved, open] = applyGuessFeedback(createBoards(['c1', 'c2']), [
+        makeFeedback('CRANE', 'ggggg'),
+        makeFeedback('CRANE', 'xxxxx')
+      ], 1);
+
+      expect(getBoardGuesses(solved, guesses)).toEqual(['CRANE']);
+      expect(getBoardGuesses(open, guesses)).toEqual(guesses);
+    });
+  });
+
+  describe('getBoardLayout', () => {
+    it('should arrange boards in a grid', () => {
+      expect(getBoardLayout(1)).toEqual({ columns: 1, rows: 1 });
+      expect(getBoardLayout(2)).toEqual({ columns: 2, rows: 1 });
+      expect(getBoardLayout(4)).toEqual({ columns: 2, rows: 2 });
+      expect(getBoardLayout(8)).toEqual({ columns: 4, rows: 2 });
+    });
+  });
+
+  describe('buildMultiBoardShareGrid', () => {
+    it('should pair boards with their scores and pad solved boards', () => {
+      let boards = createBoards(['c1', 'c2', 'c3']);
+      boards = applyGuessFeedback(boards, [
+        makeFeedback('AB', 'gg'),
+        makeFeedback('AB', 'yx'),
+        makeFeedback('AB', 'xx')
+      ], 1);
+      boards = applyGuessFeedback(boards, [null, makeFeedback('BA', 'gg'), makeFeedback('BA', 'xy')], 2);
+
+      expect(buildMultiBoardShareGrid(boards, 2)).toBe([
+        '1️⃣ 2️⃣',
+        '🟩🟩 🟨⬜',
+        '⬛⬛ 🟩🟩',
+        '',
+        '🟥',
+        '⬜⬜',
+        '⬜🟨'
+      ].join('\n'));
+    });
+
+    it('should use the squares of the palette', () => {
+      const boards = applyGuessFeedback(createBoards(['c1', 'c2']), [
+        makeFeedback('AB', 'gy'),
+        makeFeedback('AB', 'xg')
+      ], 1);
+
+      expect(buildMultiBoardShareGrid(boards, 2, 'high-contrast')).toBe('🟥 🟥\n🟧🟦 ⬜🟧');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { COLOR_PALETTES, getFeedbackEmoji, getPaletteProperties, isColorPalette } from '../palettes';
+
+describe('palettes', () => {
+  it('should recognize palette names', () => {
+    expect(isColorPalette('deuteranopia')).toBe(true);
+    expect(isColorPalette('neon')).toBe(false);
+    expect(isColorPalette(undefined)).toBe(false);
+  });
+
+  it('should leave the default colors to the stylesheets', () => {
+    expect(getPaletteProperties('default')).toEqual({});
+  });
+
+  it('should give every other palette its own correct and present colors', () => {
+    const colors = COLOR_PALETTES
+      .filter(palette => palette !== 'default')
+      .map(palette => getPaletteProperties(palette));
+
+    for (const properties of colors) {
+      expect(properties['--tile-correct']).toMatch(/^#[0-9a-f]{6}$/);
+      expect(properties['--tile-present']).toMatch(/^#[0-9a-f]{6}$/);
+    }
+    expect(new Set(colors.map(properties => properties['--tile-correct'])).size).toBe(colors.length);
+  });
+
+  it('should share squares matching the palette', () => {
+    expect(['correct', 'present', 'absent'].map(status => getFeedbackEmoji(status as 'correct')))
+      .toEqual(['🟩', '🟨', '⬜']);
+    expect(getFeedbackEmoji('correct', 'high-contrast')).toBe('🟧');
+    expect(getFeedbackEmoji('present', 'deuteranopia')).toBe('🟦');
+    expect(getFeedbackEmoji('absent', 'dark')).toBe('⬛');
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  MAX_SYNCED_RECORDS,
+  isSameProgress,
+  isSameRecords,
+  isSyncedProgress,
+  mergeGameProgress,
+  mergeGameRecords,
+  mergeIntoUserDocument,
+  syncGameData
+} from '../progressSync';
+import { HISTORY_VERSION } from '../statistics';
+import type { GameProgress, GameRecord } from '../../types/game';
+
+// Runs against the Firebase emulators when started through `npm run test:emulator`
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+vi.mock('../firebase', async () => {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    return { isFirebaseConfigured: true, getDb: () => ({}), getFirebaseAuth: () => ({}) };
+  }
+
+  const { initializeApp } = await import('firebase/app');
+  const { getFirestore, connectFirestoreEmulator } = await import('firebase/firestore');
+  const { getAuth, connectAuthEmulator } = await import('firebase/auth');
+
+  const app = initializeApp({ apiKey: 'demo-key', projectId: 'demo-mintle' }, `sync-test-${Date.now()}`);
+  const db = getFirestore(app);
+  const auth = getAuth(app);
+  const [host, port] = process.env.FIRESTORE_EMULATOR_HOST.split(':');
+  connectFirestoreEmulator(db, host, Number(port));
+  connectAuthEmulator(auth, `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST ?? 'localhost:9099'}`, {
+    disableWarnings: true
+  });
+  return { isFirebaseConfigured: true, getDb: () => db, getFirebaseAuth: () => auth };
+});
+
+function makeProgress(overrides: Partial<GameProgress> = {}): GameProgress {
+  return {
+    hourId: '2025092415',
+    guesses: ['CRANE'],
+    gameStatus: 'playing',
+    lastPlayed: '2025-09-24T15:10:00Z',
+    hintUsed: false,
+    ...overrides
+  };
+}
+
+function makeRecord(hourId: string, completedAt: string, outcome: 'won' | 'lost' = 'won'): GameRecord {
+  return { hourId, guesses: ['CRANE'], outcome, hintUsed: false, completedAt };
+}
+
+/**
+ * Back the mocked localStorage with a map so several syncs can share state
+ */
+function useMemoryStorage(): Map<string, string> {
+  const store = new Map<string, string>();
+  vi.mocked(localStorage.getItem).mockImplementation(key => store.get(key) ?? null);
+  vi.mocked(localStorage.setItem).mockImplementation((key, value) => {
+    store.set(key, value);
+  });
+  return store;
+}
+
+describe('progressSync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('mergeGameProgress', () => {
+    it('should use whichever side has progress', () => {
+      const progress = makeProgress();
+
+      expect(mergeGameProgress(progress, null)).toBe(progress);
+      expect(mergeGameProgress(null, progress)).toBe(progress);
+      expect(mergeGameProgress(null, null)).toBeNull();
+    });
+
+    it('should keep this device\'s copy when both sides played the same guesses', () => {
+      const local = makeProgress({ hardMode: true, lastPlayed: '2025-09-24T15:10:00Z' });
+      const remote = makeProgress({ lastPlayed: '2025-09-24T15:20:00Z' });
+
+      expect(mergeGameProgress(local, remote)).toMatchObject({ hardMode: true, lastPlayed: '2025-09-24T15:20:00Z' });
+    });
+
+    it('should keep the longer guess list when one extends the other', () => {
+      const local = makeProgress({ guesses: ['CRANE'], lastPlayed: '2025-09-24T15:20:00Z' });
+      const remote = makeProgress({ guesses: ['CRANE', 'SLATE'], lastPlayed: '2025-09-24T15:10:00Z' });
+
+      expect(mergeGameProgress(local, remote)).toMatchObject({
+        guesses: ['CRANE', 'SLATE'],
+        lastPlayed: '2025-09-24T15:20:00Z'
+      });
+      expect(mergeGameProgress(remote, local)?.guesses).toEqual(['CRANE', 'SLATE']);
+    });
+
+    it('should prefer a finished game and the latest finished game', () => {
+      const playing = makeProgress({ guesses: ['CRANE', 'SLATE', 'MOUSE'], lastPlayed: '2025-09-24T15:30:00Z' });
+      const won = makeProgress({ guesses: ['CRANE', 'TRACE'], gameStatus: 'won', lastPlayed: '2025-09-24T15:20:00Z' });
+      const lost = makeProgress({ guesses: Array(6).fill('CRANE'), gameStatus: 'lost', lastPlayed: '2025-09-24T15:25:00Z' });
+
+      expect(mergeGameProgress(playing, won)?.gameStatus).toBe('won');
+      expect(mergeGameProgress(won, lost)?.gameStatus).toBe('lost');
+    });
+
+    it('should keep the latest game when guesses diverged', () => {
+      const local = makeProgress({ guesses: ['CRANE', 'SLATE'], lastPlayed: '2025-09-24T15:10:00Z' });
+      const remote = makeProgress({ guesses: ['CRANE', 'MOUSE'], lastPlayed: '2025-09-24T15:12:00Z' });
+
+      expect(mergeGameProgress(local, remote)?.guesses).toEqual(['CRANE', 'MOUSE']);
+    });
+
+    it('should keep a hint used on either device', () => {
+      const local = makeProgress({ hintUsed: true });
+      const remote = makeProgress({ guesses: ['CRANE', 'SLATE'] });
+
+      expect(mergeGameProgress(local, remote)?.hintUsed).toBe(true);
+    });
+
+    it('should keep the strongest hint taken on either device', () => {
+      const local = makeProgress({ hintUsed: true, hintTier: 'position' });
+      const remote = makeProgress({ hintUsed: true, hintTier: 'count', guesses: ['CRANE', 'SLATE'] });
+
+      expect(mergeGameProgress(local, remote)?.hintTier).toBe('position');
+    });
+
+    it('should keep the most recent puzzle when the hours differ', () => {
+      const local = makeProgress({ hourId: '2025092414', lastPlayed: '2025-09-24T14:50:00Z' });
+      const remote = makeProgress({ hourId: '2025092415', lastPlayed: '2025-09-24T15:05:00Z' });
+
+      expect(mergeGameProgress(local, remote)?.hourId).toBe('2025092415');
+    });
+  });
+
+  describe('mergeGameRecords', () => {
+    it('should combine records and keep the latest one per hour', () => {
+      const local = [makeRecord('2025092410', '2025-09-24T10:30:00Z')];
+      const remote = [
+        makeRecord('2025092409', '2025-09-24T09:30:00Z'),
+        makeRecord('2025092410', '2025-09-24T10:40:00Z', 'lost')
+      ];
+
+      const merged = mergeGameRecords(local, remote);
+
+      expect(merged.map(record => record.hourId)).toEqual(['2025092409', '2025092410']);
+      expect(merged[1].outcome).toBe('lost');
+    });
+  });
+
+  describe('isSameProgress and isSameRecords', () => {
+    it('should compare progress by its fields, not by key order', () => {
+      const progress = makeProgress({ guesses: ['CRANE', 'SLATE'], hintTier: 'letter' });
+      const reordered = JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(progress).reverse())));
+
+      expect(isSameProgress(progress, reordered)).toBe(true);
+      expect(isSameProgress(progress, { ...reordered, lastPlayed: '2025-09-24T16:00:00Z' })).toBe(true);
+      expect(isSameProgress(progress, { ...progress, guesses: ['CRANE'] })).toBe(false);
+      expect(isSameProgress(progress, { ...progress, gameStatus: 'won' })).toBe(false);
+      expect(isSameProgress(progress, { ...progress, hardMode: true })).toBe(false);
+      expect(isSameProgress(progress, null)).toBe(false);
+    });
+
+    it('should compare records whatever their order', () => {
+      const first = makeRecord('2025092410', '2025-09-24T10:30:00Z');
+      const second = makeRecord('2025092411', '2025-09-24T11:30:00Z', 'lost');
+
+      expect(isSameRecords([first, second], [{ ...second }, { ...first }])).toBe(true);
+      expect(isSameRecords([first, second], [first])).toBe(false);
+      expect(isSameRecords([first, second], [first, { ...second, completedAt: '2025-09-24T12:00:00Z' }])).toBe(false);
+    });
+  });
+
+  describe('isSyncedProgress', () => {
+    it('should sync hourly games and unfinished archive games only', () => {
+      expect(isSyncedProgress('mintle-progress', makeProgress({ gameStatus: 'won' }))).toBe(true);
+      expect(isSyncedProgress('mintle-progress-archive-2025092415', makeProgress())).toBe(true);
+      expect(isSyncedProgress('mintle-progress-archive-2025092415', makeProgress({ gameStatus: 'lost' }))).toBe(false);
+      expect(isSyncedProgress('mintle-progress-practice', makeProgress({ hourId: 'practice-1758726000000' }))).toBe(false);
+      expect(isSyncedProgress('mintle-progress-custom-k3x9a2bq', makeProgress({ hourId: 'custom-k3x9a2bq' }))).toBe(false);
+    });
+  });
+
+  describe('mergeIntoUserDocument', () => {
+    it('should merge this device into the stored document without touching other variants', () => {
+      const store = useMemoryStorage();
+      store.set('mintle-progress', JSON.stringify(makeProgress({ guesses: ['CRANE', 'SLATE'] })));
+      store.set('mintle-history', JSON.stringify({
+        version: HISTORY_VERSION,
+        records: [makeRecord('2025092410', '2025-09-24T10:30:00Z')]
+      }));
+
+      const document = mergeIntoUserDocument({
+        progress: {
+          'mintle-progress': makeProgress(),
+          'mintle-progress-6': makeProgress({ guesses: ['SILVER'] })
+        },
+        history: {},
+        updatedAt: '2025-09-24T15:00:00Z'
+      }, 'mintle-progress', 'mintle-history', new Date('2025-09-24T15:30:00Z'));
+
+      expect(document.progress['mintle-progress'].guesses).toEqual(['CRANE', 'SLATE']);
+      expect(document.progress['mintle-progress-6'].guesses).toEqual(['SILVER']);
+      expect(document.history['mintle-history'].records).toHaveLength(1);
+      expect(document.updatedAt).toBe('2025-09-24T15:30:00.000Z');
+    });
+
+    it('should keep practice, custom and finished archive games out of the document', () => {
+      const store = useMemoryStorage();
+      store.set('mintle-progress-practice', JSON.stringify(makeProgress({
+        hourId: 'practice-1758726000000',
+        practiceWords: ['crane']
+      })));
+
+      const document = mergeIntoUserDocument({
+        progress: {
+          'mintle-progress-custom-k3x9a2bq': makeProgress({ hourId: 'custom-k3x9a2bq' }),
+          'mintle-progress-archive-2025092310': makeProgress({ hourId: '2025092310', gameStatus: 'won' }),
+          'mintle-progress-archive-2025092311': makeProgress({ hourId: '2025092311' }),
+          'mintle-progress': makeProgress({ gameStatus: 'lost' })
+        },
+        history: {},
+        updatedAt: '2025-09-24T15:00:00Z'
+      }, 'mintle-progress-practice', 'mintle-history-practice', new Date('2025-09-24T15:30:00Z'));
+
+      expect(Object.keys(document.progress).sort()).toEqual(['mintle-progress', 'mintle-progress-archive-2025092311']);
+    });
+
+    it('should keep only the most recent records of each history', () => {
+      useMemoryStorage();
+      const records = Array.from({ length: MAX_SYNCED_RECORDS + 20 }, (_, index) => {
+        const completedAt = new Date(Date.UTC(2025, 8, 1) + index * 3600000);
+        return makeRecord(`practice-${String(completedAt.getTime()).padStart(13, '0')}`, completedAt.toISOString());
+      });
+
+      const document = mergeIntoUserDocument({
+        progress: {},
+        history: { 'mintle-history-practice': { version: HISTORY_VERSION, records } },
+        updatedAt: '2025-09-24T15:00:00Z'
+      }, 'mintle-progress', 'mintle-history', new Date('2025-09-24T15:30:00Z'));
+
+      expect(document.history['mintle-history-practice'].records).toEqual(records.slice(20));
+      expect(document.history['mintle-history'].records).toEqual([]);
+    });
+  });
+
+  describe.skipIf(!emulatorHost)('syncGameData with the Firebase emulators', () => {
+    it('should continue a game started on another device', async () => {
+      // First device plays two guesses and syncs
+      const phone = useMemoryStorage();
+      phone.set('mintle-progress', JSON.stringify(makeProgress({ guesses: ['CRANE', 'SLATE'] })));
+      expect(await syncGameData('mintle-progress', 'mintle-history')).toBe(false);
+
+      // Second device, signed in as the same player, only has the first guess
+      const laptop = useMemoryStorage();
+      laptop.set('mintle-progress', JSON.stringify(makeProgress()));
+      expect(await syncGameData('mintle-progress', 'mintle-history')).toBe(true);
+
+      expect(JSON.parse(laptop.get('mintle-progress')!).guesses).toEqual(['CRANE', 'SLATE']);
+    });
+
+    it('should let a finished game win over an unfinished one', async () => {
+      const store = useMemoryStorage();
+      store.set('mintle-progress-7', JSON.stringify(
+        makeProgress({ guesses: ['CRANE', 'TRACE'], gameStatus: 'won', lastPlayed: '2025-09-24T15:05:00Z' })
+      ));
+      await syncGameData('mintle-progress-7', 'mintle-history-7');
+
+      store.set('mintle-progress-7', JSON.stringify(
+        makeProgress({ guesses: ['CRANE', 'SLATE', 'MOUSE'], lastPlayed: '2025-09-24T15:20:00Z' })
+      ));
+      await syncGameData('mintle-progress-7', 'mintle-history-7');
+
+      expect(JSON.parse(store.get('mintle-progress-7')!).gameStatus).toBe('won');
+    });
+  });
+});
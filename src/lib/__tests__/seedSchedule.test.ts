@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getPuzzleSeed, getSeedScheduleEntry, SEED_SCHEDULE } from '../seedSchedule';
+import type { SeedScheduleEntry } from '../seedSchedule';
+
+const schedule: SeedScheduleEntry[] = [
+  { version: 1, startHourId: '2025010100', salt: '', scheduler: 'hash', dictionaryVersion: 'v1' },
+  { version: 2, startHourId: '2025100100', salt: 'autumn', scheduler: 'hash', dictionaryVersion: 'v1' }
+];
+
+describe('seedSchedule', () => {
+  it('should use the document ID as seed under the published schedule', () => {
+    expect(SEED_SCHEDULE[0].version).toBe(1);
+    expect(getPuzzleSeed('2025092323-L6', '2025092323')).toBe('2025092323-L6');
+  });
+
+  it('should pick the latest entry that has started', () => {
+    expect(getSeedScheduleEntry('2025093023', schedule).version).toBe(1);
+    expect(getSeedScheduleEntry('2025100100', schedule).version).toBe(2);
+    expect(getSeedScheduleEntry('2026010100', schedule).version).toBe(2);
+  });
+
+  it('should use the first entry for hours before the schedule starts', () => {
+    expect(getSeedScheduleEntry('2024123123', schedule).version).toBe(1);
+  });
+
+  it('should mix the salt into seeds of salted entries', () => {
+    expect(getPuzzleSeed('2025100105', '2025100105', schedule)).toBe('autumn:2025100105');
+    expect(getPuzzleSeed('2025093005', '2025093005', schedule)).toBe('2025093005');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { watchForUpdates } from '../serviceWorker';
+
+type Listener = () => void;
+
+/**
+ * Minimal stand-in for a service worker or registration that records listeners
+ */
+function createTarget<T extends object>(props: T) {
+  const listeners = new Map<string, Listener[]>();
+  return Object.assign(props, {
+    addEventListener: vi.fn((type: string, listener: Listener) => {
+      listeners.set(type, [...(listeners.get(type) ?? []), listener]);
+    }),
+    dispatch(type: string) {
+      listeners.get(type)?.forEach(listener => listener());
+    }
+  });
+}
+
+describe('serviceWorker', () => {
+  let container: ReturnType<typeof createTarget<{ controller: object | null }>>;
+
+  beforeEach(() => {
+    container = createTarget<{ controller: object | null }>({ controller: {} });
+    vi.stubGlobal('navigator', { serviceWorker: container });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const createWorker = () => createTarget({ state: 'installing', postMessage: vi.fn() });
+
+  it('should report a new worker once it has installed', () => {
+    const worker = createWorker();
+    const registration = createTarget({ installing: worker, waiting: null });
+    const onUpdate = vi.fn();
+
+    watchForUpdates(registration as unknown as ServiceWorkerRegistration, onUpdate);
+    registration.dispatch('updatefound');
+    expect(onUpdate).not.toHaveBeenCalled();
+
+    worker.state = 'installed';
+    worker.dispatch('statechange');
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+
+    const activate = onUpdate.mock.calls[0][0];
+    activate();
+    expect(worker.postMessage).toHaveBeenCalledWith({ type: 'SKIP_WAITING' });
+  });
+
+  it('should report a worker left waiting from an earlier visit', () => {
+    const registration = createTarget({ installing: null, waiting: createWorker() });
+    const onUpdate = vi.fn();
+
+    watchForUpdates(registration as unknown as ServiceWorkerRegistration, onUpdate);
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not report the first install as an update', () => {
+    container.controller = null;
+    const worker = createWorker();
+    const registration = createTarget({ installing: worker, waiting: null });
+    const onUpdate = vi.fn();
+
+    watchForUpdates(registration as unknown as ServiceWorkerRegistration, onUpdate);
+    registration.dispatch('updatefound');
+    worker.state = 'installed';
+    worker.dispatch('statechange');
+
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+});
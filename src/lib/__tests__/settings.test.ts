@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_STORAGE_KEY,
+  SETTINGS_VERSION,
+  loadSettings,
+  sanitizeSettings,
+  saveSettings,
+  shouldReduceMotion
+} from '../settings';
+
+function mockStorage(items: Record<string, string>) {
+  vi.mocked(localStorage.getItem).mockImplementation(key => items[key] ?? null);
+}
+
+describe('settings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage({});
+  });
+
+  describe('sanitizeSettings', () => {
+    it('should keep valid values and default the rest', () => {
+      expect(sanitizeSettings({ haptics: false, keyboardLayout: 'alphabetical', locale: 'de' })).toEqual({
+        ...DEFAULT_SETTINGS,
+        haptics: false,
+        keyboardLayout: 'alphabetical',
+        locale: 'de'
+      });
+    });
+
+    it('should drop invalid values', () => {
+      expect(sanitizeSettings({ hardMode: 'yes', palette: 'neon', keyboardLayout: 'dvorak', locale: 'fr', unknown: 1 })).toEqual(DEFAULT_SETTINGS);
+    });
+  });
+
+  describe('loadSettings', () => {
+    it('should use the defaults when nothing is stored', () => {
+      expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should load stored settings', () => {
+      mockStorage({
+        [SETTINGS_STORAGE_KEY]: JSON.stringify({ version: SETTINGS_VERSION, settings: { palette: 'dark', showKeyboard: false } })
+      });
+
+      expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, palette: 'dark', showKeyboard: false });
+    });
+
+    it('should migrate the preferences stored before settings existed', () => {
+      mockStorage({ 'mintle-hard-mode': 'true', 'mintle-locale': 'es' });
+
+      expect(loadSettings()).toEqual({ ...DEFAULT_SETTINGS, hardMode: true, locale: 'es' });
+    });
+
+    it('should turn the high contrast switch of version 1 into a palette', () => {
+      mockStorage({
+        [SETTINGS_STORAGE_KEY]: JSON.stringify({ version: 1, settings: { highContrast: true, haptics: false } })
+      });
+
+      const settings = loadSettings();
+      expect(settings).toEqual({ ...DEFAULT_SETTINGS, palette: 'high-contrast', haptics: false });
+      expect(settings).not.toHaveProperty('highContrast');
+    });
+
+    it('should start over with settings of a newer version', () => {
+      mockStorage({
+        [SETTINGS_STORAGE_KEY]: JSON.stringify({ version: SETTINGS_VERSION + 1, settings: { hardMode: true } })
+      });
+
+      expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should fall back to the defaults for unreadable settings', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockStorage({ [SETTINGS_STORAGE_KEY]: '{not json' });
+
+      expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('saveSettings', () => {
+    it('should store the settings with their version and remove the legacy keys', () => {
+      saveSettings({ ...DEFAULT_SETTINGS, hardMode: true });
+
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        SETTINGS_STORAGE_KEY,
+        JSON.stringify({ version: SETTINGS_VERSION, settings: { ...DEFAULT_SETTINGS, hardMode: true } })
+      );
+      expect(localStorage.removeItem).toHaveBeenCalledWith('mintle-hard-mode');
+      expect(localStorage.removeItem).toHaveBeenCalledWith('mintle-locale');
+    });
+  });
+
+  describe('shouldReduceMotion', () => {
+    const originalMatchMedia = window.matchMedia;
+
+    afterEach(() => {
+      window.matchMedia = originalMatchMedia;
+    });
+
+    it('should follow the setting', () => {
+      expect(shouldReduceMotion({ ...DEFAULT_SETTINGS, reducedMotion: true })).toBe(true);
+    });
+
+    it('should follow the system preference', () => {
+      window.matchMedia = vi.fn().mockReturnValue({ matches: true });
+      expect(shouldReduceMotion(DEFAULT_SETTINGS)).toBe(true);
+
+      window.matchMedia = vi.fn().mockReturnValue({ matches: false });
+      expect(shouldReduceMotion(DEFAULT_SETTINGS)).toBe(false);
+    });
+  });
+});
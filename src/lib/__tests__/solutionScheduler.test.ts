@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  findHourForSolution,
+  getCyclePosition,
+  getPermutation,
+  getScheduledSolution
+} from '../solutionScheduler';
+import type { SchedulerOptions } from '../solutionScheduler';
+import { addHoursToHourId } from '../timeUtils';
+
+const EPOCH = '2026110100';
+const solutions = Array.from({ length: 2000 }, (_, index) => `word${index}`);
+const options: SchedulerOptions = { epochHourId: EPOCH, seed: 'L5x1' };
+
+/**
+ * Scheduled words of consecutive hours starting at the epoch
+ */
+function scheduleHours(count: number, schedulerOptions: SchedulerOptions = options): string[] {
+  return Array.from({ length: count }, (_, hour) =>
+    getScheduledSolution(solutions, addHoursToHourId(EPOCH, hour), schedulerOptions)
+  );
+}
+
+describe('solutionScheduler', () => {
+  describe('getPermutation', () => {
+    it('should contain every index exactly once', () => {
+      const permutation = getPermutation(2000, 'seed');
+
+      expect([...permutation].sort((a, b) => a - b)).toEqual(Array.from({ length: 2000 }, (_, i) => i));
+    });
+
+    it('should be deterministic for a seed', () => {
+      expect(getPermutation(50, 'seed')).toEqual(getPermutation(50, 'seed'));
+      expect(getPermutation(50, 'seed')).not.toEqual(getPermutation(50, 'other'));
+    });
+
+    it('should place items uniformly across seeds', () => {
+      const size = 10;
+      const seeds = 5000;
+      const counts = new Array(size).fill(0);
+      for (let seed = 0; seed < seeds; seed++) {
+        counts[getPermutation(size, `uniformity-${seed}`).indexOf(0)]++;
+      }
+
+      // Each position should hold item 0 about seeds / size times
+      for (const count of counts) {
+        expect(count).toBeGreaterThan((seeds / size) * 0.85);
+        expect(count).toBeLessThan((seeds / size) * 1.15);
+      }
+    });
+  });
+
+  describe('createSeededRandom', () => {
+    it('should produce evenly spread values in [0, 1)', () => {
+      const random = createSeededRandom('spread');
+      const buckets = new Array(10).fill(0);
+      for (let i = 0; i < 10000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+        buckets[Math.floor(value * 10)]++;
+      }
+
+      for (const count of buckets) {
+        expect(count).toBeGreaterThan(900);
+        expect(count).toBeLessThan(1100);
+      }
+    });
+  });
+
+  describe('getScheduledSolution', () => {
+    it('should not repeat a word within a full cycle', () => {
+      const words = scheduleHours(solutions.length);
+
+      expect(new Set(words).size).toBe(solutions.length);
+    });
+
+    it('should use every word equally often over whole cycles', () => {
+      const counts = new Map<string, number>();
+      for (const word of scheduleHours(solutions.length * 3)) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+
+      expect(counts.size).toBe(solutions.length);
+      expect([...counts.values()].every(count => count === 3)).toBe(true);
+    });
+
+    it('should shuffle each cycle differently', () => {
+      const words = scheduleHours(solutions.length * 2);
+
+      expect(words.slice(solutions.length)).not.toEqual(words.slice(0, solutions.length));
+    });
+
+    it('should give the boards of an hour consecutive words', () => {
+      const boardOptions = { ...options, seed: 'L5x4', boardCount: 4 };
+      const hours = solutions.length / 4;
+      const words: string[] = [];
+      for (let hour = 0; hour < hours; hour++) {
+        for (let board = 0; board < 4; board++) {
+          words.push(getScheduledSolution(solutions, addHoursToHourId(EPOCH, hour), boardOptions, board));
+        }
+      }
+
+      expect(new Set(words).size).toBe(solutions.length);
+    });
+
+    it('should not start a cycle with the word that ended the previous one', () => {
+      const words = solutions.slice(0, 10);
+      const seeds = Array.from({ length: 50 }, (_, index) => `boundary-${index}`);
+      const collides = (seed: string) => getPermutation(10, `${seed}:1`)[0] === getPermutation(10, `${seed}:0`)[9];
+
+      // Some of these seeds would repeat the word without the swap
+      expect(seeds.some(collides)).toBe(true);
+      for (const seed of seeds) {
+        const scheduled = Array.from({ length: 30 }, (_, hour) =>
+          getScheduledSolution(words, addHoursToHourId(EPOCH, hour), { ...options, seed })
+        );
+
+        expect(scheduled[10]).not.toBe(scheduled[9]);
+        expect(scheduled[20]).not.toBe(scheduled[19]);
+        expect(new Set(scheduled.slice(10, 20)).size).toBe(10);
+      }
+    });
+
+    it('should keep the boards of an hour apart when it straddles two cycles', () => {
+      const words = solutions.slice(0, 22);
+      for (let index = 0; index < 50; index++) {
+        const boardOptions = { ...options, seed: `straddle-${index}`, boardCount: 4 };
+        const hours = Array.from({ length: 11 }, (_, hour) =>
+          [0, 1, 2, 3].map(board => getScheduledSolution(words, addHoursToHourId(EPOCH, hour), boardOptions, board))
+        );
+
+        // Hour 5 holds the last two slots of cycle 0 and the first two of cycle 1
+        expect(hours.every(boards => new Set(boards).size === 4)).toBe(true);
+        expect(new Set(hours.flat().slice(22, 44)).size).toBe(22);
+      }
+    });
+
+    it('should refuse hours before the epoch', () => {
+      expect(() => getScheduledSolution(solutions, '2026103123', options)).toThrow('before the scheduler epoch');
+    });
+  });
+
+  describe('getCyclePosition', () => {
+    it('should count hours from the epoch', () => {
+      expect(getCyclePosition(EPOCH, 2000, options)).toEqual({ cycle: 0, position: 0, cycleLength: 2000 });
+      expect(getCyclePosition(addHoursToHourId(EPOCH, 2001), 2000, options))
+        .toEqual({ cycle: 1, position: 1, cycleLength: 2000 });
+    });
+
+    it('should count each board of a multi-board game', () => {
+      const boardOptions = { ...options, boardCount: 4 };
+
+      expect(getCyclePosition(addHoursToHourId(EPOCH, 3), 2000, boardOptions, 2).position).toBe(14);
+    });
+  });
+
+  describe('findHourForSolution', () => {
+    it('should find the hour that used a word', () => {
+      const hourId = addHoursToHourId(EPOCH, 123);
+      const word = getScheduledSolution(solutions, hourId, options);
+
+      expect(findHourForSolution(solutions, word, hourId, options)).toEqual({ hourId, boardIndex: 0 });
+      expect(findHourForSolution(solutions, word.toUpperCase(), addHoursToHourId(hourId, 10), options))
+        .toEqual({ hourId, boardIndex: 0 });
+    });
+
+    it('should return null for a word not used yet', () => {
+      const word = getScheduledSolution(solutions, addHoursToHourId(EPOCH, 10), options);
+
+      expect(findHourForSolution(solutions, word, addHoursToHourId(EPOCH, 9), options)).toBeNull();
+      expect(findHourForSolution(solutions, 'unknown', EPOCH, options)).toBeNull();
+      expect(findHourForSolution(solutions, word, '2026103123', options)).toBeNull();
+    });
+
+    it('should look back into the previous cycle', () => {
+      const earlyHour = addHoursToHourId(EPOCH, 1990);
+      const word = getScheduledSolution(solutions, earlyHour, options);
+      const secondCycleHour = addHoursToHourId(EPOCH, solutions.length + 5);
+      const position = getCyclePosition(earlyHour, solutions.length, options).position;
+      const usedAgain = getPermutation(solutions.length, `${options.seed}:1`).indexOf(solutions.indexOf(word));
+
+      // Only meaningful while the word has not come round again in the second cycle
+      expect(usedAgain).toBeGreaterThan(5);
+      expect(position).toBe(1990);
+      expect(findHourForSolution(solutions, word, secondCycleHour, options)).toEqual({ hourId: earlyHour, boardIndex: 0 });
+    });
+
+    it('should report the board that used a word', () => {
+      const boardOptions = { ...options, seed: 'L5x2', boardCount: 2 };
+      const hourId = addHoursToHourId(EPOCH, 40);
+      const word = getScheduledSolution(solutions, hourId, boardOptions, 1);
+
+      expect(findHourForSolution(solutions, word, hourId, boardOptions)).toEqual({ hourId, boardIndex: 1 });
+    });
+  });
+});
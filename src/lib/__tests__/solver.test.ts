@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { filterCandidates, getFeedbackPattern, getGuessEntropy, rankGuesses } from '../solver';
+import { evaluateGuess } from '../wordEvaluation';
+
+const STATUS_DIGITS = { absent: 0, present: 1, correct: 2 };
+
+describe('solver', () => {
+  describe('getFeedbackPattern', () => {
+    it('should score guesses like evaluateGuess, duplicate letters included', () => {
+      const pairs = [['crane', 'trace'], ['level', 'hello'], ['eerie', 'other'], ['speed', 'abide'], ['trace', 'trace']];
+
+      for (const [guess, answer] of pairs) {
+        const expected = evaluateGuess(guess, answer)
+          .reduce((pattern, { status }) => pattern * 3 + STATUS_DIGITS[status], 0);
+        expect(getFeedbackPattern(guess, answer), `${guess} ${answer}`).toBe(expected);
+      }
+    });
+  });
+
+  describe('filterCandidates', () => {
+    const words = ['other', 'sheer', 'tiger', 'ouzel', 'eerie'];
+
+    it('should keep the words consistent with every guess', () => {
+      expect(filterCandidates(words, [evaluateGuess('EERIE', 'OTHER')], 5, ['eerie'])).toEqual(['other']);
+    });
+
+    it('should leave out words already guessed', () => {
+      expect(filterCandidates(words, [], 5, ['tiger'])).not.toContain('tiger');
+    });
+  });
+
+  describe('rankGuesses', () => {
+    it('should measure how evenly a guess splits the remaining words', () => {
+      expect(getGuessEntropy('bbbbb', ['aaaab', 'aaaac'])).toBe(1);
+      expect(getGuessEntropy('zzzzz', ['aaaab', 'aaaac'])).toBe(0);
+    });
+
+    it('should rank the guess that tells the remaining words apart first', () => {
+      const candidates = ['fight', 'light', 'might', 'night', 'sight'];
+      const [best] = rankGuesses(candidates, ['flams', 'light', 'fight'], 1);
+
+      // FLAMS tells four of the five words apart; any candidate only one
+      expect(best).toMatchObject({ word: 'flams', isCandidate: false });
+    });
+
+    it('should prefer a guess that could be the answer when the split is as good', () => {
+      const ranked = rankGuesses(['aaaab', 'aaaac'], ['bbbbb'], 3);
+
+      expect(ranked.map(guess => guess.word)).toEqual(['aaaab', 'aaaac', 'bbbbb']);
+    });
+
+    it('should return nothing without candidates', () => {
+      expect(rankGuesses([], ['crane'])).toEqual([]);
+    });
+  });
+});
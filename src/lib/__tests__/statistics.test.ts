@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  computeStatistics,
+  loadGameHistory,
+  recordGameResult,
+  HISTORY_STORAGE_KEY,
+  HISTORY_VERSION
+} from '../statistics';
+import { createPracticeGameId } from '../practice';
+import { getCustomGameId } from '../customPuzzle';
+import type { GameRecord } from '../../types/game';
+
+function makeRecord(hourId: string, outcome: 'won' | 'lost', guessCount: number): GameRecord {
+  return {
+    hourId,
+    guesses: Array(guessCount).fill('CRANE'),
+    outcome,
+    hintUsed: false,
+    completedAt: '2025-09-23T23:30:00Z'
+  };
+}
+
+describe('statistics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('computeStatistics', () => {
+    const now = new Date('2025-09-24T01:30:00Z');
+
+    it('should return zeroed statistics for empty history', () => {
+      const stats = computeStatistics([], 6, now);
+
+      expect(stats).toEqual({
+        gamesPlayed: 0,
+        gamesWon: 0,
+        winPercentage: 0,
+        currentStreak: 0,
+        maxStreak: 0,
+        guessDistribution: [0, 0, 0, 0, 0, 0],
+        hintTiers: { count: 0, letter: 0, position: 0, probe: 0 }
+      });
+    });
+
+    it('should count games by the strongest hint taken', () => {
+      const stats = computeStatistics([
+        { ...makeRecord('2025092322', 'won', 3), hintUsed: true, hintTier: 'letter' },
+        { ...makeRecord('2025092323', 'won', 4), hintUsed: true, hintTier: 'count' },
+        // Games from before hint tiers were hinted with a suggested word
+        { ...makeRecord('2025092400', 'lost', 6), hintUsed: true },
+        makeRecord('2025092401', 'won', 5)
+      ], 6, now);
+
+      expect(stats.hintTiers).toEqual({ count: 1, letter: 1, position: 0, probe: 1 });
+    });
+
+    it('should count games, wins and guess distribution', () => {
+      const stats = computeStatistics([
+        makeRecord('2025092322', 'won', 3),
+        makeRecord('2025092323', 'lost', 6),
+        makeRecord('2025092400', 'won', 3),
+        makeRecord('2025092401', 'won', 5)
+      ], 6, now);
+
+      expect(stats.gamesPlayed).toBe(4);
+      expect(stats.gamesWon).toBe(3);
+      expect(stats.winPercentage).toBe(75);
+      expect(stats.guessDistribution).toEqual([0, 0, 2, 0, 1, 0]);
+    });
+
+    it('should track current and max streak across consecutive hours', () => {
+      const stats = computeStatistics([
+        makeRecord('2025092318', 'won', 2),
+        makeRecord('2025092319', 'won', 2),
+        makeRecord('2025092320', 'won', 2),
+        makeRecord('2025092321', 'lost', 6),
+        makeRecord('2025092400', 'won', 4),
+        makeRecord('2025092401', 'won', 4)
+      ], 6, now);
+
+      expect(stats.maxStreak).toBe(3);
+      expect(stats.currentStreak).toBe(2);
+    });
+
+    it('should break a streak when an hour is skipped', () => {
+      const stats = computeStatistics([
+        makeRecord('2025092321', 'won', 2),
+        makeRecord('2025092323', 'won', 2),
+        makeRecord('2025092400', 'won', 2)
+      ], 6, now);
+
+      expect(stats.maxStreak).toBe(2);
+      expect(stats.currentStreak).toBe(2);
+    });
+
+    it('should keep the current streak alive through the previous hour only', () => {
+      const records = [makeRecord('2025092400', 'won', 2)];
+
+      expect(computeStatistics(records, 6, new Date('2025-09-24T01:10:00Z')).currentStreak).toBe(1);
+      expect(computeStatistics(records, 6, new Date('2025-09-24T02:10:00Z')).currentStreak).toBe(0);
+    });
+
+    it('should not depend on record order', () => {
+      const stats = computeStatistics([
+        makeRecord('2025092401', 'won', 1),
+        makeRecord('2025092400', 'won', 1)
+      ], 6, now);
+
+      expect(stats.currentStreak).toBe(2);
+    });
+
+    it('should chain practice games in play order regardless of time', () => {
+      const records = [
+        makeRecord(createPracticeGameId(new Date('2025-09-20T10:00:00Z')), 'won', 3),
+        makeRecord(createPracticeGameId(new Date('2025-09-20T10:05:00Z')), 'lost', 6),
+        makeRecord(createPracticeGameId(new Date('2025-09-21T08:00:00Z')), 'won', 4),
+        makeRecord(createPracticeGameId(new Date('2025-09-22T20:00:00Z')), 'won', 2)
+      ];
+      const stats = computeStatistics(records, 6, now);
+
+      expect(stats.maxStreak).toBe(2);
+      expect(stats.currentStreak).toBe(2);
+    });
+
+    it('should count every custom puzzle as a streak of its own', () => {
+      const records = [
+        makeRecord(getCustomGameId('k3x9a2bq'), 'won', 3),
+        makeRecord(getCustomGameId('p7m2c8xd'), 'won', 4)
+      ];
+      const stats = computeStatistics(records, 6, now);
+
+      expect(stats.maxStreak).toBe(1);
+      expect(stats.currentStreak).toBe(1);
+    });
+  });
+
+  describe('loadGameHistory', () => {
+    it('should return empty history when nothing is stored', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(null);
+
+      expect(loadGameHistory()).toEqual({ version: HISTORY_VERSION, records: [] });
+    });
+
+    it('should discard history with an unsupported version', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(
+        JSON.stringify({ version: 999, records: [makeRecord('2025092323', 'won', 3)] })
+      );
+
+      expect(loadGameHistory().records).toEqual([]);
+    });
+
+    it('should drop malformed records', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(
+        JSON.stringify({
+          version: HISTORY_VERSION,
+          records: [makeRecord('2025092323', 'won', 3), { hourId: 42 }]
+        })
+      );
+
+      expect(loadGameHistory().records).toHaveLength(1);
+    });
+
+    it('should recover from corrupt JSON', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue('{not json');
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(loadGameHistory().records).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('recordGameResult', () => {
+    it('should append a record and persist it', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(
+        JSON.stringify({ version: HISTORY_VERSION, records: [makeRecord('2025092322', 'won', 3)] })
+      );
+
+      const history = recordGameResult(makeRecord('2025092323', 'lost', 6));
+
+      expect(history.records.map(r => r.hourId)).toEqual(['2025092322', '2025092323']);
+      expect(localStorage.setItem).toHaveBeenCalledWith(HISTORY_STORAGE_KEY, JSON.stringify(history));
+    });
+
+    it('should replace an existing record for the same hour', () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(
+        JSON.stringify({ version: HISTORY_VERSION, records: [makeRecord('2025092323', 'lost', 6)] })
+      );
+
+      const history = recordGameResult(makeRecord('2025092323', 'won', 4));
+
+      expect(history.records).toHaveLength(1);
+      expect(history.records[0].outcome).toBe('won');
+    });
+  });
+});
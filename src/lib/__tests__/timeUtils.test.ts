@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { hourIdUtc, millisecondsToNextHour, formatTimeRemaining, isSameUtcHour } from '../timeUtils';
+import {
+  hourIdUtc,
+  millisecondsToNextHour,
+  formatTimeRemaining,
+  isSameUtcHour,
+  hourIdToDate,
+  addHoursToHourId,
+  hoursBetweenHourIds,
+  isPastHourId,
+  formatHourId
+} from '../timeUtils';
 
 describe('timeUtils', () => {
   describe('hourIdUtc', () => {
@@ -84,4 +94,59 @@ describe('timeUtils', () => {
       expect(isSameUtcHour(date1, date2)).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('hourIdToDate', () => {
+    it('should parse hour ID to the start of that UTC hour', () => {
+      expect(hourIdToDate('2025092323').toISOString()).toBe('2025-09-23T23:00:00.000Z');
+    });
+
+    it('should round-trip with hourIdUtc', () => {
+      const hourId = '2024022912';
+      expect(hourIdUtc(hourIdToDate(hourId))).toBe(hourId);
+    });
+
+    it('should throw on malformed hour IDs', () => {
+      expect(() => hourIdToDate('2025-09-23')).toThrow('Invalid hour ID');
+    });
+  });
+
+  describe('addHoursToHourId', () => {
+    it('should move forward and backward across day boundaries', () => {
+      expect(addHoursToHourId('2025092323', 1)).toBe('2025092400');
+      expect(addHoursToHourId('2025092400', -1)).toBe('2025092323');
+    });
+
+    it('should handle year boundaries', () => {
+      expect(addHoursToHourId('2024123123', 1)).toBe('2025010100');
+    });
+  });
+
+  describe('hoursBetweenHourIds', () => {
+    it('should count hours between two hour IDs', () => {
+      expect(hoursBetweenHourIds('2025092322', '2025092401')).toBe(3);
+      expect(hoursBetweenHourIds('2025092401', '2025092322')).toBe(-3);
+      expect(hoursBetweenHourIds('2025092322', '2025092322')).toBe(0);
+    });
+  });
+
+  describe('isPastHourId', () => {
+    const now = new Date('2025-09-24T15:30:00Z');
+
+    it('should accept hours that have ended', () => {
+      expect(isPastHourId('2025092414', now)).toBe(true);
+      expect(isPastHourId('2024010100', now)).toBe(true);
+    });
+
+    it('should refuse the current hour, future hours and malformed IDs', () => {
+      expect(isPastHourId('2025092415', now)).toBe(false);
+      expect(isPastHourId('2025092416', now)).toBe(false);
+      expect(isPastHourId('20250924', now)).toBe(false);
+    });
+  });
+
+  describe('formatHourId', () => {
+    it('should format an hour ID as a UTC label', () => {
+      expect(formatHourId('2025092415')).toBe('Sep 24, 15:00 UTC');
+    });
+  });
+});
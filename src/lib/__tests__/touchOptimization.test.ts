@@ -7,6 +7,7 @@ import {
   getOptimalSpacing,
   getOptimalFontSize,
   triggerHapticFeedback,
+  setHapticFeedbackEnabled,
   preventIOSZoom,
   addTouchOptimizedListeners,
   createTouchOptimizedClasses,
@@ -229,6 +230,16 @@ describe('touchOptimization', () => {
       expect(mockNavigator.vibrate).toHaveBeenCalledWith([30]);
     });
 
+    it('does not vibrate while haptic feedback is turned off', () => {
+      setHapticFeedbackEnabled(false);
+      try {
+        triggerHapticFeedback('medium');
+        expect(mockNavigator.vibrate).not.toHaveBeenCalled();
+      } finally {
+        setHapticFeedbackEnabled(true);
+      }
+    });
+
     it('does not call vibrate when not supported', () => {
       delete (mockNavigator as any).vibrate;
       triggerHapticFeedback('light');
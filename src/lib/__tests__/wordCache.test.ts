@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { cacheWordDocument, getCachedWordDocument, pruneWordCache, WORD_CACHE_PREFIX } from '../wordCache';
+import { hourIdUtc } from '../timeUtils';
+import type { WordDocument } from '../../types/game';
+
+const wordDoc: WordDocument = {
+  word: 'ZW5jcnlwdGVk',
+  createdAt: '2025-09-23T23:00:00Z',
+  source: 'client',
+  dictionaryVersion: 'v1',
+  cipherVersion: 2
+};
+
+describe('wordCache', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      get length() {
+        return storage.size;
+      },
+      key: (index: number) => [...storage.keys()][index] ?? null,
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    return () => vi.unstubAllGlobals();
+  });
+
+  it('should keep the first copy of a word document', async () => {
+    await cacheWordDocument('2025092323', wordDoc);
+    await cacheWordDocument('2025092323', { ...wordDoc, word: 'b3RoZXI=' });
+
+    expect(await getCachedWordDocument('2025092323')).toEqual(wordDoc);
+    expect(storage.has(`${WORD_CACHE_PREFIX}2025092323`)).toBe(true);
+  });
+
+  it('should never keep the word of an hour that has not started', async () => {
+    const current = hourIdUtc();
+    const next = hourIdUtc(new Date(Date.now() + 60 * 60 * 1000));
+
+    await cacheWordDocument(current, wordDoc);
+    await cacheWordDocument(next, wordDoc);
+    await cacheWordDocument(`${next}-L6`, wordDoc);
+
+    expect(await getCachedWordDocument(current)).toEqual(wordDoc);
+    expect([...storage.keys()]).toEqual([`${WORD_CACHE_PREFIX}${current}`]);
+  });
+
+  it('should drop words of hours before the cutoff', async () => {
+    for (const id of ['2025092221', '2025092221-L6', '2025092222', '2025092323']) {
+      await cacheWordDocument(id, wordDoc);
+    }
+
+    expect(await pruneWordCache('2025092222')).toBe(2);
+    expect(await getCachedWordDocument('2025092221-L6')).toBeNull();
+    expect(await getCachedWordDocument('2025092222')).toEqual(wordDoc);
+    expect(await getCachedWordDocument('2025092323')).toEqual(wordDoc);
+  });
+});
@@ -4,6 +4,19 @@ import type { LetterFeedback } from '../../types/game';
 
 describe('wordEvaluation', () => {
   describe('evaluateGuess', () => {
+    it('should match accented letters to their base letter in Spanish', () => {
+      const result = evaluateGuess('ARBOL', 'árbol', 'es');
+      expect(result.every(f => f.status === 'correct')).toBe(true);
+      expect(result[0].letter).toBe('A');
+      expect(isCorrectGuess('ARBOL', 'árbol', 'es')).toBe(true);
+    });
+
+    it('should keep Ñ and umlauts distinct from their base letter', () => {
+      expect(evaluateGuess('SENAL', 'señal', 'es')[2].status).toBe('absent');
+      expect(evaluateGuess('BUHNE', 'bühne', 'de')[1].status).toBe('absent');
+      expect(evaluateGuess('BÜHNE', 'bühne', 'de').every(f => f.status === 'correct')).toBe(true);
+    });
+
     it('should handle exact match', () => {
       const result = evaluateGuess('HELLO', 'HELLO');
       expect(result).toEqual([
@@ -82,9 +95,19 @@ describe('wordEvaluation', () => {
     });
 
     it('should throw error for invalid word lengths', () => {
-      expect(() => evaluateGuess('HI', 'HELLO')).toThrow('Both guess and secret must be exactly 5 letters');
-      expect(() => evaluateGuess('HELLO', 'HI')).toThrow('Both guess and secret must be exactly 5 letters');
-      expect(() => evaluateGuess('HELLOO', 'HELLO')).toThrow('Both guess and secret must be exactly 5 letters');
+      expect(() => evaluateGuess('HI', 'HELLO')).toThrow('Guess and secret must be non-empty and the same length');
+      expect(() => evaluateGuess('HELLO', 'HI')).toThrow('Guess and secret must be non-empty and the same length');
+      expect(() => evaluateGuess('HELLOO', 'HELLO')).toThrow('Guess and secret must be non-empty and the same length');
+      expect(() => evaluateGuess('', '')).toThrow('Guess and secret must be non-empty and the same length');
+    });
+
+    it('should evaluate words of other lengths', () => {
+      const fourLetter = evaluateGuess('TEAM', 'MEAT');
+      expect(fourLetter.map(f => f.status)).toEqual(['present', 'correct', 'correct', 'present']);
+
+      const eightLetter = evaluateGuess('ABSOLUTE', 'ABSOLUTE');
+      expect(eightLetter).toHaveLength(8);
+      expect(eightLetter.every(f => f.status === 'correct')).toBe(true);
     });
 
     it('should handle tricky duplicate case - LLAMA vs ALLEY', () => {
@@ -1,11 +1,22 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { getOrCreateHourlyWord, getCurrentHourWord, getWordForDate, validateWordDocument } from '../wordManager';
-import type { WordDocument } from '../../types/game';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getOrCreateHourlyWord,
+  getHourlyPuzzle,
+  getCurrentHourWord,
+  getWordForDate,
+  validateWordDocument,
+  getWordDocumentId,
+  verifyOfflineWords
+} from '../wordManager';
+import { isOfflineMode, loadPendingWords, setOfflineMode } from '../offlineWords';
+import { encryptWord, encryptLegacyWord, verifyWordHash } from '../encryption';
+import type { Dictionary, WordDocument } from '../../types/game';
 
 // Mock the dependencies
 vi.mock('../firestoreService', () => ({
   getWordDocument: vi.fn(),
   createWordDocument: vi.fn(),
+  testConnection: vi.fn(),
   FirestoreServiceError: class extends Error {
     public code: string;
     constructor(message: string, code: string) {
@@ -17,15 +28,19 @@ vi.mock('../firestoreService', () => ({
 
 vi.mock('../dictionary', () => ({
   getDeterministicSolutionWord: vi.fn(),
+  getDictionaryVersionForHour: (hourId: string) => (hourId >= '2026110100' ? 'v2' : 'v1'),
+  getSolutionList: vi.fn(),
+  isInstalledDictionaryVersion: (version: string) => ['v1', 'v2'].includes(version),
   loadDictionary: vi.fn()
 }));
 
-vi.mock('../timeUtils', () => ({
+vi.mock('../timeUtils', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../timeUtils')>(),
   hourIdUtc: vi.fn()
 }));
 
-import { getWordDocument, createWordDocument, FirestoreServiceError } from '../firestoreService';
-import { getDeterministicSolutionWord, loadDictionary } from '../dictionary';
+import { getWordDocument, createWordDocument, testConnection, FirestoreServiceError } from '../firestoreService';
+import { getDeterministicSolutionWord, getSolutionList, loadDictionary } from '../dictionary';
 import { hourIdUtc } from '../timeUtils';
 
 describe('wordManager', () => {
@@ -36,10 +51,11 @@ describe('wordManager', () => {
   describe('getOrCreateHourlyWord', () => {
     it('should return existing word if document exists', async () => {
       const mockDoc: WordDocument = {
-        word: 'hello',
+        word: await encryptWord('hello', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
-        dictionaryVersion: 'v1'
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
       };
 
       vi.mocked(getWordDocument).mockResolvedValue(mockDoc);
@@ -51,6 +67,19 @@ describe('wordManager', () => {
       expect(createWordDocument).not.toHaveBeenCalled();
     });
 
+    it('should read legacy documents without a cipher version', async () => {
+      vi.mocked(getWordDocument).mockResolvedValue({
+        word: encryptLegacyWord('hello', '2025092323'),
+        createdAt: '2025-09-23T23:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v1'
+      });
+
+      const result = await getOrCreateHourlyWord('2025092323');
+
+      expect(result).toBe('HELLO');
+    });
+
     it('should create new word if document does not exist', async () => {
       vi.mocked(getWordDocument).mockResolvedValueOnce(null);
       vi.mocked(loadDictionary).mockResolvedValue({} as any);
@@ -61,21 +90,77 @@ describe('wordManager', () => {
       
       expect(result).toBe('WORLD');
       expect(loadDictionary).toHaveBeenCalled();
-      expect(getDeterministicSolutionWord).toHaveBeenCalledWith('2025092323');
+      expect(getDeterministicSolutionWord).toHaveBeenCalledWith('2025092323', 5, 'v1');
       expect(createWordDocument).toHaveBeenCalledWith('2025092323', {
-        word: 'world',
+        word: expect.any(String),
         createdAt: expect.any(String),
         source: 'client',
-        dictionaryVersion: 'v1'
+        dictionaryVersion: 'v1',
+        hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        cipherVersion: 2,
+        seedVersion: 1
+      });
+
+      const created = vi.mocked(createWordDocument).mock.calls[0][1];
+      expect(created.word).not.toContain('world');
+      expect(await verifyWordHash('WORLD', created.hash!, '2025092323')).toBe(true);
+    });
+
+    it('should pick words from the permutation schedule once it starts', async () => {
+      vi.mocked(getWordDocument).mockResolvedValue(null);
+      vi.mocked(loadDictionary).mockResolvedValue({} as Dictionary);
+      vi.mocked(getSolutionList).mockReturnValue(['apple', 'bread', 'crane']);
+      vi.mocked(createWordDocument).mockResolvedValue(true);
+
+      const words = [];
+      for (const hourId of ['2026110100', '2026110101', '2026110102']) {
+        words.push(await getOrCreateHourlyWord(hourId));
+      }
+
+      expect([...words].sort()).toEqual(['APPLE', 'BREAD', 'CRANE']);
+      expect(getDeterministicSolutionWord).not.toHaveBeenCalled();
+      expect(vi.mocked(createWordDocument).mock.calls[0][1].seedVersion).toBe(2);
+      expect(vi.mocked(createWordDocument).mock.calls[0][1].dictionaryVersion).toBe('v2');
+    });
+
+    it('should resolve stored words with the dictionary version they were created with', async () => {
+      vi.mocked(getWordDocument).mockResolvedValue({
+        word: await encryptWord('hello', '2026110100'),
+        createdAt: '2026-11-01T00:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
+      });
+
+      const puzzle = await getHourlyPuzzle('2026110100');
+
+      expect(puzzle).toEqual({ word: 'HELLO', dictionaryVersion: 'v1' });
+      expect(loadDictionary).toHaveBeenCalledWith(5, 'v1');
+      expect(createWordDocument).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the scheduled dictionary for versions that are not installed', async () => {
+      vi.mocked(getWordDocument).mockResolvedValue({
+        word: await encryptWord('hello', '2026110100'),
+        createdAt: '2026-11-01T00:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v9',
+        cipherVersion: 2
       });
+
+      const puzzle = await getHourlyPuzzle('2026110100');
+
+      expect(puzzle).toEqual({ word: 'HELLO', dictionaryVersion: 'v2' });
+      expect(loadDictionary).toHaveBeenCalledWith(5, 'v2');
     });
 
     it('should handle race condition when document already exists', async () => {
       const existingDoc: WordDocument = {
-        word: 'peace',
+        word: await encryptWord('peace', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
-        dictionaryVersion: 'v1'
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
       };
 
       vi.mocked(getWordDocument)
@@ -107,7 +192,7 @@ describe('wordManager', () => {
 
     it('should handle creation failure with fallback read', async () => {
       const fallbackDoc: WordDocument = {
-        word: 'found',
+        word: encryptLegacyWord('found', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
         dictionaryVersion: 'v1'
@@ -127,14 +212,117 @@ describe('wordManager', () => {
     });
   });
 
+  describe('offline mode', () => {
+    beforeEach(() => {
+      const storage = new Map<string, string>();
+      vi.mocked(localStorage.getItem).mockImplementation(key => storage.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => storage.set(key, value));
+      vi.mocked(localStorage.removeItem).mockImplementation(key => storage.delete(key));
+      vi.mocked(loadDictionary).mockResolvedValue({} as Dictionary);
+      vi.mocked(getDeterministicSolutionWord).mockReturnValue('WORLD');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      setOfflineMode(false);
+    });
+
+    const goOffline = () => {
+      vi.mocked(getWordDocument).mockRejectedValueOnce(
+        new FirestoreServiceError('Operation failed after 4 attempts', 'max-retries-exceeded')
+      );
+    };
+
+    it('should compute the word locally when the store is unreachable', async () => {
+      goOffline();
+
+      const result = await getOrCreateHourlyWord('2025092323');
+
+      expect(result).toBe('WORLD');
+      expect(isOfflineMode()).toBe(true);
+      expect(Object.keys(loadPendingWords())).toEqual(['2025092323']);
+      expect(createWordDocument).not.toHaveBeenCalled();
+    });
+
+    it('should use the cached shared word while offline', async () => {
+      vi.mocked(getWordDocument).mockResolvedValueOnce({
+        word: await encryptWord('peace', '2025092323'),
+        createdAt: '2025-09-23T23:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
+      });
+      await getOrCreateHourlyWord('2025092323');
+      setOfflineMode(true);
+
+      const result = await getOrCreateHourlyWord('2025092323');
+
+      expect(result).toBe('PEACE');
+      expect(loadPendingWords()).toEqual({});
+    });
+
+    it('should skip the store while offline', async () => {
+      goOffline();
+      await getOrCreateHourlyWord('2025092323');
+
+      await getOrCreateHourlyWord('2025092323', 6);
+
+      expect(getWordDocument).toHaveBeenCalledTimes(1);
+      expect(Object.keys(loadPendingWords())).toEqual(['2025092323', '2025092323-L6']);
+    });
+
+    it('should stay offline while the store is unreachable', async () => {
+      goOffline();
+      await getOrCreateHourlyWord('2025092323');
+      vi.mocked(testConnection).mockResolvedValue(false);
+
+      expect(await verifyOfflineWords()).toEqual([]);
+      expect(isOfflineMode()).toBe(true);
+    });
+
+    it('should store the offline word after reconnecting', async () => {
+      goOffline();
+      await getOrCreateHourlyWord('2025092323');
+      vi.mocked(testConnection).mockResolvedValue(true);
+      vi.mocked(getWordDocument).mockResolvedValue(null);
+      vi.mocked(createWordDocument).mockResolvedValue(true);
+
+      const results = await verifyOfflineWords();
+
+      expect(results).toEqual([{ documentId: '2025092323', matches: true }]);
+      expect(createWordDocument).toHaveBeenCalledWith('2025092323', expect.objectContaining({ seedVersion: 1 }));
+      expect(isOfflineMode()).toBe(false);
+      expect(loadPendingWords()).toEqual({});
+    });
+
+    it('should report a stored word that differs from the offline one', async () => {
+      goOffline();
+      await getOrCreateHourlyWord('2025092323');
+      vi.mocked(testConnection).mockResolvedValue(true);
+      vi.mocked(getWordDocument).mockResolvedValue({
+        word: await encryptWord('peace', '2025092323'),
+        createdAt: '2025-09-23T23:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
+      });
+
+      const results = await verifyOfflineWords();
+
+      expect(results).toEqual([{ documentId: '2025092323', matches: false }]);
+      expect(createWordDocument).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getCurrentHourWord', () => {
     it('should get word for current hour', async () => {
       vi.mocked(hourIdUtc).mockReturnValue('2025092323');
       vi.mocked(getWordDocument).mockResolvedValue({
-        word: 'current',
+        word: await encryptWord('current', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
-        dictionaryVersion: 'v1'
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
       });
 
       const result = await getCurrentHourWord();
@@ -150,10 +338,11 @@ describe('wordManager', () => {
       
       vi.mocked(hourIdUtc).mockReturnValue('2025092323');
       vi.mocked(getWordDocument).mockResolvedValue({
-        word: 'dated',
+        word: await encryptWord('dated', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
-        dictionaryVersion: 'v1'
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
       });
 
       const result = await getWordForDate(testDate);
@@ -161,23 +350,67 @@ describe('wordManager', () => {
       expect(result).toBe('DATED');
       expect(hourIdUtc).toHaveBeenCalledWith(testDate);
     });
+
+    it('should refuse future hours', async () => {
+      const futureDate = new Date('2025-09-24T05:00:00Z');
+      vi.mocked(hourIdUtc).mockImplementation((date?: Date) => (date ? '2025092405' : '2025092323'));
+
+      await expect(getWordForDate(futureDate)).rejects.toThrow('not available yet');
+      expect(getWordDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWordDocumentId', () => {
+    it('should use the bare hour ID for 5-letter words', () => {
+      expect(getWordDocumentId('2025092323')).toBe('2025092323');
+      expect(getWordDocumentId('2025092323', 5)).toBe('2025092323');
+    });
+
+    it('should suffix the hour ID for other word lengths', () => {
+      expect(getWordDocumentId('2025092323', 6)).toBe('2025092323-L6');
+      expect(getWordDocumentId('2025092323', 8)).toBe('2025092323-L8');
+    });
+
+    it('should give every board of a multi-board game its own document', () => {
+      expect(getWordDocumentId('2025092323', 5, 1, 0)).toBe('2025092323');
+      expect(getWordDocumentId('2025092323', 5, 4, 2)).toBe('2025092323-B4-2');
+    });
+
+    it('should give every language other than English its own document', () => {
+      expect(getWordDocumentId('2025092323', 5, 1, 0, 'en')).toBe('2025092323');
+      expect(getWordDocumentId('2025092323', 5, 1, 0, 'es')).toBe('2025092323-es');
+      expect(getWordDocumentId('2025092323', 5, 2, 1, 'de')).toBe('2025092323-de-B2-1');
+      expect(getWordDocumentId('2025092323', 6, 2, 1)).toBe('2025092323-L6-B2-1');
+    });
   });
 
   describe('validateWordDocument', () => {
-    it('should validate correct word document', () => {
+    it('should validate correct word document', async () => {
       const validDoc: WordDocument = {
-        word: 'hello',
+        word: await encryptWord('hello', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
-        dictionaryVersion: 'v1'
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
       };
 
       expect(validateWordDocument(validDoc)).toBe(true);
     });
 
+    it('should validate legacy word document', () => {
+      const legacyDoc: WordDocument = {
+        word: encryptLegacyWord('hello', '2025092323'),
+        createdAt: '2025-09-23T23:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v1'
+      };
+
+      expect(validateWordDocument(legacyDoc)).toBe(true);
+    });
+
     it('should reject document with invalid word length', () => {
       const invalidDoc: WordDocument = {
-        word: 'hi',
+        word: encryptLegacyWord('hi', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
         dictionaryVersion: 'v1'
@@ -186,9 +419,21 @@ describe('wordManager', () => {
       expect(validateWordDocument(invalidDoc)).toBe(false);
     });
 
+    it('should reject a truncated ciphertext', () => {
+      const invalidDoc: WordDocument = {
+        word: btoa('short'),
+        createdAt: '2025-09-23T23:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v1',
+        cipherVersion: 2
+      };
+
+      expect(validateWordDocument(invalidDoc)).toBe(false);
+    });
+
     it('should reject document with non-alphabetic characters', () => {
       const invalidDoc: WordDocument = {
-        word: 'hel1o',
+        word: encryptLegacyWord('hel1o', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client',
         dictionaryVersion: 'v1'
@@ -197,9 +442,21 @@ describe('wordManager', () => {
       expect(validateWordDocument(invalidDoc)).toBe(false);
     });
 
+    it('should reject unknown cipher versions', async () => {
+      const invalidDoc: WordDocument = {
+        word: await encryptWord('hello', '2025092323'),
+        createdAt: '2025-09-23T23:00:00Z',
+        source: 'client',
+        dictionaryVersion: 'v1',
+        cipherVersion: 7
+      };
+
+      expect(validateWordDocument(invalidDoc)).toBe(false);
+    });
+
     it('should reject document with missing fields', () => {
       const invalidDoc = {
-        word: 'hello',
+        word: encryptLegacyWord('hello', '2025092323'),
         createdAt: '2025-09-23T23:00:00Z',
         source: 'client'
         // missing dictionaryVersion
@@ -210,7 +467,7 @@ describe('wordManager', () => {
 
     it('should reject document with invalid date', () => {
       const invalidDoc: WordDocument = {
-        word: 'hello',
+        word: encryptLegacyWord('hello', '2025092323'),
         createdAt: 'invalid-date',
         source: 'client',
         dictionaryVersion: 'v1'
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createFirestoreWordStore,
+  createLocalWordStore,
+  createMemoryWordStore,
+  getWordStore,
+  resolveWordStoreKind,
+  setWordStore
+} from '../wordStore';
+import type { WordStore } from '../wordStore';
+import type { WordDocument } from '../../types/game';
+
+vi.mock('../firestoreService', () => ({
+  getWordDocument: vi.fn(),
+  createWordDocument: vi.fn(),
+  wordDocumentExists: vi.fn(),
+  listWordDocuments: vi.fn(),
+  FirestoreServiceError: class extends Error {
+    public code: string;
+    constructor(message: string, code: string) {
+      super(message);
+      this.code = code;
+    }
+  }
+}));
+
+import { createWordDocument, FirestoreServiceError } from '../firestoreService';
+
+function makeDoc(word: string): WordDocument {
+  return {
+    word,
+    createdAt: '2025-09-24T15:00:00Z',
+    source: 'client',
+    dictionaryVersion: 'v1',
+    cipherVersion: 2
+  };
+}
+
+/**
+ * Replace localStorage with a working in-memory Storage
+ */
+function stubStorage(): void {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    get length() {
+      return store.size;
+    },
+    key: (index: number) => [...store.keys()][index] ?? null,
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key),
+    clear: () => store.clear()
+  });
+}
+
+describe('wordStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stubStorage();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setWordStore(null);
+  });
+
+  const implementations: Array<[string, () => WordStore]> = [
+    ['memory', createMemoryWordStore],
+    ['local', () => createLocalWordStore()]
+  ];
+
+  describe.each(implementations)('%s store', (_, createStore) => {
+    it('should only keep the first document written for an ID', async () => {
+      const store = createStore();
+
+      const results = await Promise.all([
+        store.createIfAbsent('2025092415', makeDoc('first')),
+        store.createIfAbsent('2025092415', makeDoc('second'))
+      ]);
+
+      expect(results).toEqual([true, false]);
+      expect((await store.get('2025092415'))?.word).toBe('first');
+      expect(await store.exists('2025092415')).toBe(true);
+      expect(await store.exists('2025092416')).toBe(false);
+      expect(await store.get('2025092416')).toBeNull();
+    });
+
+    it('should list documents in an ID range', async () => {
+      const store = createStore();
+      for (const id of ['2025092413', '2025092414', '2025092414-L6', '2025092416']) {
+        await store.createIfAbsent(id, makeDoc(id));
+      }
+
+      const listed = await store.listRange('2025092414', '2025092415');
+
+      expect(listed.map(entry => entry.id)).toEqual(['2025092414', '2025092414-L6']);
+    });
+  });
+
+  describe('firestore store', () => {
+    it('should report a lost creation race as not created', async () => {
+      vi.mocked(createWordDocument).mockRejectedValue(
+        new FirestoreServiceError('Document already exists', 'already-exists')
+      );
+
+      expect(await createFirestoreWordStore().createIfAbsent('2025092415', makeDoc('word'))).toBe(false);
+    });
+
+    it('should pass other errors on', async () => {
+      vi.mocked(createWordDocument).mockRejectedValue(
+        new FirestoreServiceError('Permission denied', 'permission-denied')
+      );
+
+      await expect(createFirestoreWordStore().createIfAbsent('2025092415', makeDoc('word')))
+        .rejects.toThrow('Permission denied');
+    });
+  });
+
+  describe('resolveWordStoreKind', () => {
+    it('should use the configured backend', () => {
+      expect(resolveWordStoreKind('memory', true)).toBe('memory');
+      expect(resolveWordStoreKind('local', true)).toBe('local');
+    });
+
+    it('should default to Firestore only when Firebase is configured', () => {
+      expect(resolveWordStoreKind(undefined, true)).toBe('firestore');
+      expect(resolveWordStoreKind(undefined, false)).toBe('local');
+    });
+
+    it('should fall back to localStorage when Firestore is requested without Firebase', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(resolveWordStoreKind('firestore', false)).toBe('local');
+    });
+  });
+
+  describe('setWordStore', () => {
+    it('should replace the shared store', () => {
+      const store = createMemoryWordStore();
+      setWordStore(store);
+
+      expect(getWordStore()).toBe(store);
+    });
+  });
+});
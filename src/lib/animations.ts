@@ -0,0 +1,88 @@
+import type { LetterFeedback } from '../types/game';
+
+/**
+ * Board animation timings
+ * The stylesheets read the same values through the CSS custom properties set
+ * on each board, so the timers that sequence the game and the animations
+ * the player sees cannot drift apart.
+ */
+
+// Time one tile takes to flip over and show its color
+export const FLIP_DURATION = 500;
+// Time between the start of one tile's flip and the next
+export const FLIP_STAGGER = 250;
+// Time a row shakes when a guess is rejected
+export const SHAKE_DURATION = 600;
+// Time one tile of a solved row takes to bounce
+export const BOUNCE_DURATION = 800;
+// Time between the start of one tile's bounce and the next
+export const BOUNCE_STAGGER = 100;
+
+/**
+ * Delay before a tile of a revealed row starts to flip
+ * @param index - Position of the tile in the row
+ * @param reduceMotion - Whether animations are turned off
+ * @returns Delay in milliseconds
+ */
+export function getTileRevealDelay(index: number, reduceMotion = false): number {
+  return reduceMotion ? 0 : index * FLIP_STAGGER;
+}
+
+/**
+ * Time from the start of a reveal until a tile has flipped over
+ * @param index - Position of the tile in the row
+ * @param reduceMotion - Whether animations are turned off
+ * @returns Time in milliseconds
+ */
+export function getTileRevealEnd(index: number, reduceMotion = false): number {
+  return reduceMotion ? 0 : getTileRevealDelay(index) + FLIP_DURATION;
+}
+
+/**
+ * Time the whole row takes to reveal, until its last tile has flipped
+ * @param wordLength - Tiles in the row
+ * @param reduceMotion - Whether animations are turned off
+ * @returns Time in milliseconds
+ */
+export function getRevealDuration(wordLength: number, reduceMotion = false): number {
+  return getTileRevealEnd(wordLength - 1, reduceMotion);
+}
+
+/**
+ * Time a solved row takes to bounce, until its last tile has landed
+ * @param wordLength - Tiles in the row
+ * @param reduceMotion - Whether animations are turned off
+ * @returns Time in milliseconds
+ */
+export function getBounceDuration(wordLength: number, reduceMotion = false): number {
+  return reduceMotion ? 0 : (wordLength - 1) * BOUNCE_STAGGER + BOUNCE_DURATION;
+}
+
+/**
+ * Hide the feedback of tiles that have not flipped yet
+ * The keyboard colors a key only once the tile that revealed it has turned over.
+ * @param feedback - Feedback for each guess on a board
+ * @param revealingGuess - Number of the guess being revealed, or null
+ * @param revealedTiles - Tiles of that guess that have flipped
+ * @returns Feedback the player has seen so far
+ */
+export function getRevealedFeedback(
+  feedback: LetterFeedback[][],
+  revealingGuess: number | null,
+  revealedTiles: number
+): LetterFeedback[][] {
+  if (revealingGuess === null || feedback.length !== revealingGuess) {
+    return feedback;
+  }
+  return [...feedback.slice(0, -1), feedback[feedback.length - 1].slice(0, revealedTiles)];
+}
+
+/**
+ * Wait for an animation to finish
+ * @param milliseconds - Length of the animation
+ * @returns Promise that resolves once it is over, right away without one
+ */
+export function waitFor(milliseconds: number): Promise<void> {
+  if (milliseconds <= 0) return Promise.resolve();
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
@@ -0,0 +1,113 @@
+import type { GameState, LetterFeedback } from '../types/game';
+import { translate } from './i18n';
+
+/**
+ * Screen reader announcements
+ * Anything that changes without the player moving focus (guess feedback,
+ * errors, the end of the game) is announced through the live regions of
+ * LiveAnnouncer. Polite announcements wait for the screen reader to finish
+ * speaking; assertive ones interrupt it and are kept for errors.
+ */
+
+export type AnnouncementPoliteness = 'polite' | 'assertive';
+
+export interface Announcement {
+  message: string;
+  politeness: AnnouncementPoliteness;
+}
+
+type AnnouncementListener = (announcement: Announcement) => void;
+
+const listeners = new Set<AnnouncementListener>();
+
+/**
+ * Announce a message to screen readers
+ * @param message - Text to read out
+ * @param politeness - Whether to wait for the current speech or interrupt it
+ */
+export function announce(message: string, politeness: AnnouncementPoliteness = 'polite'): void {
+  if (!message) return;
+  for (const listener of listeners) {
+    listener({ message, politeness });
+  }
+}
+
+/**
+ * Listen for announcements
+ * @param listener - Called with every announcement
+ * @returns Function that stops listening
+ */
+export function subscribeToAnnouncements(listener: AnnouncementListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Describe the feedback of one guess, e.g. "R correct, A present, T absent"
+ * @param feedback - Feedback for each letter
+ * @param locale - Interface locale
+ * @returns Letter by letter description
+ */
+export function describeFeedback(feedback: LetterFeedback[], locale: string): string {
+  const letters = feedback.map(({ letter, status }) => translate(locale, 'a11y.letterStatus', { letter, status }));
+  return new Intl.ListFormat(locale, { style: 'short', type: 'unit' }).format(letters);
+}
+
+/**
+ * Describe the latest guess of a game, and its result if the game is over
+ * Boards solved by an earlier guess are left out
+ * @param state - Game state after the guess
+ * @param maxGuesses - Guesses allowed in the game
+ * @param locale - Interface locale
+ * @returns Text to announce
+ */
+export function describeLatestGuess(state: GameState, maxGuesses: number, locale: string): string {
+  const guess = state.guesses.length;
+  const parts: string[] = [];
+
+  if (state.boards.length === 1) {
+    const feedback = state.boards[0].feedback[guess - 1] ?? [];
+    parts.push(translate(locale, 'a11y.guess', { guess, max: maxGuesses, feedback: describeFeedback(feedback, locale) }));
+  } else {
+    parts.push(translate(locale, 'a11y.guessBoards', { guess, max: maxGuesses }));
+    state.boards.forEach((board, index) => {
+      if (board.feedback.length === guess) {
+        parts.push(translate(locale, 'a11y.board', { board: index + 1, feedback: describeFeedback(board.feedback[guess - 1], locale) }));
+      }
+    });
+  }
+
+  if (state.gameStatus !== 'playing') {
+    parts.push(describeGameResult(state, locale));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Describe how a finished game ended
+ * @param state - Final game state
+ * @param locale - Interface locale
+ * @returns "Solved in 4 guesses!" or the answers of a lost game
+ */
+export function describeGameResult(state: GameState, locale: string): string {
+  if (state.gameStatus === 'won') {
+    return translate(locale, 'a11y.won', { attempts: state.guesses.length });
+  }
+  const words = state.boards.map(board => board.word ?? '').filter(Boolean);
+  return translate(locale, 'a11y.lost', {
+    count: words.length,
+    words: new Intl.ListFormat(locale, { type: 'conjunction' }).format(words)
+  });
+}
+
+/**
+ * Describe the time until the next hourly word
+ * @param milliseconds - Time until the next hour
+ * @param locale - Interface locale
+ * @returns Text with the time in whole minutes, rounded up
+ */
+export function describeTimeToNextWord(milliseconds: number, locale: string): string {
+  return translate(locale, 'a11y.nextWord', { minutes: Math.max(1, Math.ceil(milliseconds / 60000)) });
+}
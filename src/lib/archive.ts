@@ -0,0 +1,95 @@
+import type { GameConfig, GameProgress, GameRecord } from '../types/game';
+import { HISTORY_STORAGE_KEY, loadGameHistory } from './statistics';
+import { progressKeyFor, storageKeyFor } from './gameConfig';
+import { addHoursToHourId, hourIdUtc, isPastHourId } from './timeUtils';
+
+/**
+ * Archive of past hourly puzzles
+ * Any hour before the current one can be replayed with its own saved
+ * progress; the current and future hours are never offered.
+ */
+
+export const ARCHIVE_DAYS = 30;
+
+export type ArchiveHourStatus = 'won' | 'lost' | 'in-progress' | 'not-attempted' | 'unavailable';
+
+/**
+ * Build the configuration for replaying an archived hour
+ * @param config - Current game configuration (word length is kept)
+ * @param hourId - Past hour ID to replay
+ * @returns Archive game configuration
+ */
+export function getArchiveConfig(config: GameConfig, hourId: string): GameConfig {
+  return { ...config, mode: 'archive', archiveHourId: hourId };
+}
+
+/**
+ * List the hour IDs of one UTC day in the archive
+ * @param dayOffset - Days before today (0 = today)
+ * @param now - Date object (defaults to current time)
+ * @returns The 24 hour IDs of that day, oldest first
+ */
+export function getArchiveDayHourIds(dayOffset: number, now: Date = new Date()): string[] {
+  const startOfToday = `${hourIdUtc(now).slice(0, 8)}00`;
+  const startOfDay = addHoursToHourId(startOfToday, -24 * dayOffset);
+
+  return Array.from({ length: 24 }, (_, hour) => addHoursToHourId(startOfDay, hour));
+}
+
+/**
+ * Load the saved progress of an archived hour
+ * @param config - Current game configuration
+ * @param hourId - Archived hour ID
+ * @returns Saved progress, or null if the hour was never started
+ */
+function loadArchiveProgress(config: GameConfig, hourId: string): GameProgress | null {
+  try {
+    const saved = localStorage.getItem(progressKeyFor(getArchiveConfig(config, hourId)));
+    return saved ? JSON.parse(saved) as GameProgress : null;
+  } catch (error) {
+    console.error('Failed to load archive progress:', error);
+    return null;
+  }
+}
+
+/**
+ * Work out how the player did on each hour
+ * Results from archive replays and from playing the hour live both count
+ * @param config - Current game configuration (word length selects the buckets)
+ * @param hourIds - Hour IDs to report on
+ * @param now - Date object (defaults to current time)
+ * @returns Status for each hour ID
+ */
+export function loadArchiveStatuses(
+  config: GameConfig,
+  hourIds: string[],
+  now: Date = new Date()
+): Record<string, ArchiveHourStatus> {
+  const records = new Map<string, GameRecord>();
+  const buckets: GameConfig[] = [
+    { ...config, mode: 'hourly' },
+    { ...config, mode: 'archive' }
+  ];
+  for (const bucket of buckets) {
+    for (const record of loadGameHistory(storageKeyFor(HISTORY_STORAGE_KEY, bucket)).records) {
+      records.set(record.hourId, record);
+    }
+  }
+
+  const statuses: Record<string, ArchiveHourStatus> = {};
+  for (const hourId of hourIds) {
+    const record = records.get(hourId);
+
+    if (!isPastHourId(hourId, now)) {
+      statuses[hourId] = 'unavailable';
+    } else if (record) {
+      statuses[hourId] = record.outcome;
+    } else if ((loadArchiveProgress(config, hourId)?.guesses.length ?? 0) > 0) {
+      statuses[hourId] = 'in-progress';
+    } else {
+      statuses[hourId] = 'not-attempted';
+    }
+  }
+
+  return statuses;
+}
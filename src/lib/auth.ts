@@ -0,0 +1,49 @@
+import { signInAnonymously, linkWithCredential } from 'firebase/auth';
+import type { AuthCredential, User } from 'firebase/auth';
+import { getFirebaseAuth } from './firebase';
+
+/**
+ * Player identity
+ * Players are signed in anonymously so their progress can be synced between
+ * devices. An anonymous account can later be upgraded to a permanent one
+ * without losing its user ID or synced data.
+ */
+
+let userPromise: Promise<User> | null = null;
+
+/**
+ * Get the signed-in player, signing in anonymously on first use
+ * A failed sign-in is retried on the next call
+ * @returns Promise resolving to the current Firebase user
+ */
+export function getCurrentUser(): Promise<User> {
+  if (!userPromise) {
+    userPromise = (async () => {
+      const auth = getFirebaseAuth();
+      // Wait for a persisted session to be restored before creating a new one
+      await auth.authStateReady();
+      if (auth.currentUser) {
+        return auth.currentUser;
+      }
+      const credential = await signInAnonymously(auth);
+      return credential.user;
+    })();
+
+    userPromise.catch(() => {
+      userPromise = null;
+    });
+  }
+
+  return userPromise;
+}
+
+/**
+ * Upgrade the anonymous account by linking a permanent sign-in method
+ * @param credential - Credential of the provider to link (e.g. Google or email)
+ * @returns Promise resolving to the upgraded user, which keeps the same user ID
+ */
+export async function upgradeAnonymousUser(credential: AuthCredential): Promise<User> {
+  const user = await getCurrentUser();
+  const result = await linkWithCredential(user, credential);
+  return result.user;
+}
@@ -0,0 +1,92 @@
+import type { GameMode, LetterFeedback } from '../types/game';
+import { deriveConstraints, matchesConstraints } from './constraints';
+
+/**
+ * Remaining-candidates explorer
+ * Lists the words that still fit a board's feedback while it is played. Each
+ * guess only ever adds a row of feedback, and a word fits all rows exactly
+ * when it fits each row on its own, so a new guess only has to be checked
+ * against the words that were left before it. That keeps the explorer quick
+ * even over the full allowed list. A guess that did not solve the board is
+ * not the answer, so it is dropped as well, as the solver does.
+ */
+
+export interface CandidateList {
+  // Normalized words the candidates were narrowed down from
+  words: string[];
+  // Feedback rows already applied
+  feedback: LetterFeedback[][];
+  // Words that fit every row, in the order of the word list
+  candidates: string[];
+}
+
+/**
+ * Check whether a game may show the words that are left
+ * Games with global results count as competitive, and hard mode is about
+ * working the words out unaided, so the explorer is kept to practice games.
+ * @param mode - Game mode
+ * @param hardMode - Whether the game is played in hard mode
+ * @returns True if the explorer may be shown
+ */
+export function canExploreCandidates(mode: GameMode, hardMode: boolean): boolean {
+  return mode === 'practice' && !hardMode;
+}
+
+/**
+ * Get the word a feedback row was given for
+ * @param row - Feedback for one guess
+ * @returns Lowercase guess
+ */
+function getRowGuess(row: LetterFeedback[]): string {
+  return row.map(tile => tile.letter).join('').toLowerCase();
+}
+
+/**
+ * Narrow the candidates down to the words that fit the feedback
+ * @param previous - Candidates worked out before, or null
+ * @param words - Normalized words to pick candidates from
+ * @param feedback - Feedback for each guess on the board
+ * @param wordLength - Word length of the game
+ * @returns Candidates for the feedback; only new rows are checked when the
+ *   feedback extends the previous one over the same words
+ */
+export function narrowCandidates(
+  previous: CandidateList | null,
+  words: string[],
+  feedback: LetterFeedback[][],
+  wordLength: number
+): CandidateList {
+  const extendsPrevious = previous !== null
+    && previous.words === words
+    && previous.feedback.length <= feedback.length
+    && previous.feedback.every((row, index) => feedback[index] === row);
+
+  let candidates = extendsPrevious ? previous.candidates : words;
+  for (const row of feedback.slice(extendsPrevious ? previous.feedback.length : 0)) {
+    const constraints = deriveConstraints([row], wordLength);
+    // Only a guess that was all correct can still be the answer
+    const missed = row.every(tile => tile.status === 'correct') ? null : getRowGuess(row);
+    candidates = candidates.filter(word => word !== missed && matchesConstraints(word, constraints));
+  }
+
+  return { words, feedback, candidates };
+}
+
+/**
+ * Count how often each letter appears at each position of the candidates
+ * @param candidates - Words that could be the answer
+ * @param wordLength - Word length of the game
+ * @returns One map per position from letter to the number of candidates with it there
+ */
+export function getPositionFrequencies(candidates: string[], wordLength: number): Map<string, number>[] {
+  const frequencies = Array.from({ length: wordLength }, () => new Map<string, number>());
+  for (const word of candidates) {
+    Array.from(word).forEach((letter, position) => {
+      const counts = frequencies[position];
+      if (counts) {
+        counts.set(letter, (counts.get(letter) || 0) + 1);
+      }
+    });
+  }
+  return frequencies;
+}
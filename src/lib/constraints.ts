@@ -0,0 +1,141 @@
+import type { LetterFeedback } from '../types/game';
+import { DEFAULT_LOCALE, translate } from './i18n';
+
+/**
+ * Constraint engine derived from guess feedback
+ * Shared by hard mode validation and hint suggestions so both agree on
+ * what the revealed letters allow
+ */
+
+export interface GuessConstraints {
+  wordLength: number;
+  // Letter fixed at each position by a green tile, or null if unknown
+  fixed: (string | null)[];
+  // Letters known not to be at each position (yellow or extra gray tiles)
+  excludedAt: Set<string>[];
+  // Minimum number of times each letter must appear
+  minCounts: Map<string, number>;
+  // Exact number of times a letter appears, known once a guess shows it
+  // colored and gray together (one E colored and one gray: exactly one E)
+  maxCounts: Map<string, number>;
+  // Letters known to be absent from the word entirely
+  absent: Set<string>;
+}
+
+/**
+ * Derive constraints from all feedback so far
+ * @param feedback - Array of feedback arrays for each guess
+ * @param wordLength - Word length of the active game
+ * @returns Constraints every consistent word must satisfy
+ */
+export function deriveConstraints(feedback: LetterFeedback[][], wordLength: number): GuessConstraints {
+  const constraints: GuessConstraints = {
+    wordLength,
+    fixed: new Array(wordLength).fill(null),
+    excludedAt: Array.from({ length: wordLength }, () => new Set<string>()),
+    minCounts: new Map(),
+    maxCounts: new Map(),
+    absent: new Set()
+  };
+
+  for (const row of feedback) {
+    // Count revealed occurrences per letter within this guess
+    const revealed = new Map<string, number>();
+    for (const { letter, status } of row) {
+      if (status !== 'absent') {
+        const lower = letter.toLowerCase();
+        revealed.set(lower, (revealed.get(lower) || 0) + 1);
+      }
+    }
+
+    for (let i = 0; i < row.length && i < wordLength; i++) {
+      const letter = row[i].letter.toLowerCase();
+      const status = row[i].status;
+
+      if (status === 'correct') {
+        constraints.fixed[i] = letter;
+      } else if (status === 'present') {
+        constraints.excludedAt[i].add(letter);
+      } else if (revealed.has(letter)) {
+        // Gray duplicate of a revealed letter: only this position is ruled out
+        constraints.excludedAt[i].add(letter);
+      } else {
+        constraints.absent.add(letter);
+      }
+    }
+
+    for (const [letter, count] of revealed) {
+      constraints.minCounts.set(letter, Math.max(constraints.minCounts.get(letter) || 0, count));
+      if (row.some(tile => tile.status === 'absent' && tile.letter.toLowerCase() === letter)) {
+        constraints.maxCounts.set(letter, count);
+      }
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Check whether a word is consistent with the constraints
+ * @param word - Candidate word
+ * @param constraints - Constraints from deriveConstraints
+ * @returns True if the word could still be the answer
+ */
+export function matchesConstraints(word: string, constraints: GuessConstraints): boolean {
+  const lower = word.toLowerCase();
+  if (lower.length !== constraints.wordLength) return false;
+
+  const counts = new Map<string, number>();
+  for (let i = 0; i < lower.length; i++) {
+    const letter = lower[i];
+    const fixed = constraints.fixed[i];
+
+    if (fixed && letter !== fixed) return false;
+    if (constraints.excludedAt[i].has(letter)) return false;
+    if (constraints.absent.has(letter)) return false;
+
+    counts.set(letter, (counts.get(letter) || 0) + 1);
+  }
+
+  for (const [letter, minCount] of constraints.minCounts) {
+    if ((counts.get(letter) || 0) < minCount) return false;
+  }
+  for (const [letter, maxCount] of constraints.maxCounts) {
+    if ((counts.get(letter) || 0) > maxCount) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate a guess against hard mode rules
+ * Green letters must stay in place and yellow letters must be reused
+ * @param guess - The guess word
+ * @param feedback - Array of feedback arrays for previous guesses
+ * @param locale - Interface locale of the message (defaults to English)
+ * @returns Error message describing the first broken rule, or null if valid
+ */
+export function validateHardModeGuess(
+  guess: string,
+  feedback: LetterFeedback[][],
+  locale: string = DEFAULT_LOCALE
+): string | null {
+  const constraints = deriveConstraints(feedback, guess.length);
+  const lower = guess.toLowerCase();
+
+  for (let i = 0; i < constraints.fixed.length; i++) {
+    const fixed = constraints.fixed[i];
+    if (fixed && lower[i] !== fixed) {
+      return translate(locale, 'game.hardModeFixedLetter', { position: i + 1, letter: fixed.toUpperCase() });
+    }
+  }
+
+  for (const [letter, minCount] of constraints.minCounts) {
+    const count = lower.split('').filter(ch => ch === letter).length;
+    if (count < minCount) {
+      return translate(locale, 'game.hardModeMissingLetter', { count: minCount, letter: letter.toUpperCase() });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,226 @@
+import type { CustomPuzzle, GameConfig } from '../types/game';
+import { encryptWord, decryptWord } from './encryption';
+import { getDictionaryVersionForHour, isInstalledDictionaryVersion, isValidGuess, loadDictionary } from './dictionary';
+import { DEFAULT_MAX_GUESSES } from './gameConfig';
+import { DEFAULT_LANGUAGE, isSupportedLanguage, isSupportedWordLengthForLanguage, normalizeWord } from './languages';
+import { hourIdUtc } from './timeUtils';
+import type { MessageKey } from './i18n';
+
+/**
+ * Custom puzzles
+ * A player picks any allowed word and gets a link for a friend. The link
+ * carries a random puzzle ID and the word encrypted for that ID (along with
+ * the dictionary pack it was checked against), so the answer is not readable
+ * from the URL. Links are plain query strings on the app's base path, which
+ * static hosting serves without any routing setup:
+ *
+ *   /mintle/?puzzle=k3x9a2bq&length=5&code=…&lang=es
+ *
+ * Custom games are played locally like practice games, with their own
+ * progress per puzzle, and never count towards global results.
+ */
+
+const CUSTOM_ID_PREFIX = 'custom-';
+const PUZZLE_ID_LENGTH = 8;
+const PUZZLE_ID_RADIX = 36;
+// Largest multiple of the radix a byte can hold; higher bytes would favour the first characters
+const UNBIASED_BYTE_LIMIT = 256 - (256 % PUZZLE_ID_RADIX);
+const PUZZLE_ID_PATTERN = /^[0-9a-z]{8}$/;
+const CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Query parameters of a puzzle link
+const PUZZLE_PARAMS = {
+  id: 'puzzle',
+  code: 'code',
+  wordLength: 'length',
+  language: 'lang'
+} as const;
+
+/**
+ * Create a random ID for a new puzzle
+ * @returns Eight lowercase letters and digits
+ */
+export function createCustomPuzzleId(): string {
+  let id = '';
+  while (id.length < PUZZLE_ID_LENGTH) {
+    for (const byte of globalThis.crypto.getRandomValues(new Uint8Array(PUZZLE_ID_LENGTH))) {
+      if (byte < UNBIASED_BYTE_LIMIT && id.length < PUZZLE_ID_LENGTH) {
+        id += (byte % PUZZLE_ID_RADIX).toString(PUZZLE_ID_RADIX);
+      }
+    }
+  }
+  return id;
+}
+
+/**
+ * Get the ID a custom game is saved and recorded under, in place of an hour ID
+ * @param puzzleId - Puzzle ID from the link
+ * @returns ID like "custom-k3x9a2bq"
+ */
+export function getCustomGameId(puzzleId: string): string {
+  return `${CUSTOM_ID_PREFIX}${puzzleId}`;
+}
+
+/**
+ * Check whether an ID belongs to a custom game
+ * @param id - Hour ID or game ID
+ * @returns True if the ID was created by getCustomGameId
+ */
+export function isCustomGameId(id: string): boolean {
+  return id.startsWith(CUSTOM_ID_PREFIX);
+}
+
+/**
+ * Build the configuration for playing a custom puzzle
+ * @param puzzle - Puzzle from a link
+ * @returns Single-board custom game configuration
+ */
+export function getCustomConfig(puzzle: CustomPuzzle): GameConfig {
+  return {
+    wordLength: puzzle.wordLength,
+    maxGuesses: DEFAULT_MAX_GUESSES,
+    mode: 'custom',
+    boardCount: 1,
+    customPuzzle: puzzle,
+    // Only set for other languages, like saved configs
+    ...(puzzle.language !== DEFAULT_LANGUAGE && { language: puzzle.language })
+  };
+}
+
+/**
+ * Check a word a player wants to make a puzzle of
+ * @param word - Word typed by the player
+ * @param language - Language of the puzzle
+ * @param version - Dictionary pack to check against (defaults to the current one)
+ * @returns Message key of the problem, or null if the word can be used
+ */
+export async function checkCustomWord(
+  word: string,
+  language: string = DEFAULT_LANGUAGE,
+  version: string = getDictionaryVersionForHour(hourIdUtc(), language)
+): Promise<MessageKey | null> {
+  const normalized = normalizeWord(word.trim(), language);
+  const wordLength = Array.from(normalized).length;
+
+  if (!isSupportedWordLengthForLanguage(wordLength, language)) {
+    return 'custom.unsupportedLength';
+  }
+  await loadDictionary(wordLength, version);
+  return isValidGuess(normalized, wordLength, version) ? null : 'custom.notInWordList';
+}
+
+/**
+ * Make a puzzle of a word
+ * @param word - Allowed word to guess
+ * @param language - Language of the puzzle
+ * @param version - Dictionary pack the word was checked against (defaults to the current one)
+ * @returns Promise resolving to the puzzle
+ * @throws Error if the word is not in the dictionary
+ */
+export async function createCustomPuzzle(
+  word: string,
+  language: string = DEFAULT_LANGUAGE,
+  version: string = getDictionaryVersionForHour(hourIdUtc(), language)
+): Promise<CustomPuzzle> {
+  const problem = await checkCustomWord(word, language, version);
+  if (problem) {
+    throw new Error(`"${word}" cannot be used for a puzzle: ${problem}`);
+  }
+
+  const normalized = normalizeWord(word.trim(), language);
+  const id = createCustomPuzzleId();
+  return {
+    id,
+    code: await encryptWord(`${version}:${normalized}`, getCustomGameId(id), { urlSafe: true }),
+    wordLength: Array.from(normalized).length,
+    language
+  };
+}
+
+/**
+ * Recover the word of a puzzle and check it is still playable
+ * @param puzzle - Puzzle from a link
+ * @returns Promise resolving to the word and the dictionary pack to play it with
+ * @throws Error if the link was altered or the word is not in its dictionary
+ */
+export async function decodeCustomPuzzle(
+  puzzle: CustomPuzzle
+): Promise<{ word: string; dictionaryVersion: string }> {
+  const plaintext = await decryptWord(puzzle.code, getCustomGameId(puzzle.id));
+  const separator = plaintext.indexOf(':');
+  const dictionaryVersion = plaintext.slice(0, separator);
+  const word = plaintext.slice(separator + 1);
+
+  if (separator === -1 || !isInstalledDictionaryVersion(dictionaryVersion)) {
+    throw new Error(`Puzzle ${puzzle.id} uses an unknown dictionary`);
+  }
+  if (Array.from(word).length !== puzzle.wordLength) {
+    throw new Error(`Puzzle ${puzzle.id} does not have ${puzzle.wordLength} letters`);
+  }
+  await loadDictionary(puzzle.wordLength, dictionaryVersion);
+  if (!isValidGuess(word, puzzle.wordLength, dictionaryVersion)) {
+    throw new Error(`Puzzle ${puzzle.id} is not in the word list`);
+  }
+
+  return { word, dictionaryVersion };
+}
+
+/**
+ * Build the link to a puzzle
+ * @param puzzle - Puzzle to link to
+ * @param base - Address of the app (defaults to this site's base path)
+ * @returns Absolute URL that opens the puzzle
+ */
+export function buildCustomPuzzleUrl(
+  puzzle: CustomPuzzle,
+  base: string = new URL(import.meta.env.BASE_URL, window.location.origin).href
+): string {
+  const url = new URL(base);
+  url.searchParams.set(PUZZLE_PARAMS.id, puzzle.id);
+  url.searchParams.set(PUZZLE_PARAMS.wordLength, String(puzzle.wordLength));
+  if (puzzle.language !== DEFAULT_LANGUAGE) {
+    url.searchParams.set(PUZZLE_PARAMS.language, puzzle.language);
+  }
+  url.searchParams.set(PUZZLE_PARAMS.code, puzzle.code);
+  return url.href;
+}
+
+/**
+ * Read a puzzle from a link
+ * @param href - Address the app was opened at
+ * @param basePath - Path the app is served under (defaults to Vite's base)
+ * @returns The puzzle, or null if the address is not a well-formed puzzle link
+ */
+export function parseCustomPuzzleUrl(href: string, basePath: string = import.meta.env.BASE_URL): CustomPuzzle | null {
+  const url = new URL(href);
+  if (!url.pathname.startsWith(basePath) && `${url.pathname}/` !== basePath) {
+    return null;
+  }
+
+  const id = url.searchParams.get(PUZZLE_PARAMS.id);
+  const code = url.searchParams.get(PUZZLE_PARAMS.code);
+  const wordLength = Number(url.searchParams.get(PUZZLE_PARAMS.wordLength));
+  const language = url.searchParams.get(PUZZLE_PARAMS.language) ?? DEFAULT_LANGUAGE;
+
+  if (!id || !PUZZLE_ID_PATTERN.test(id) || !code || !CODE_PATTERN.test(code)) {
+    return null;
+  }
+  if (!isSupportedLanguage(language) || !isSupportedWordLengthForLanguage(wordLength, language)) {
+    return null;
+  }
+  return { id, code, wordLength, language };
+}
+
+/**
+ * Take a puzzle out of the address bar once the player moves on from it
+ * The page is not reloaded and no history entry is added.
+ */
+export function clearCustomPuzzleUrl(): void {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(PUZZLE_PARAMS.id)) return;
+
+  for (const param of Object.values(PUZZLE_PARAMS)) {
+    url.searchParams.delete(param);
+  }
+  window.history.replaceState(window.history.state, '', url.href);
+}
@@ -1,121 +1,279 @@
-import type { Dictionary } from '../types/game';
-import wordsData from './words.json';
+import type { Dictionary, DictionaryPack } from '../types/game';
+import { DEFAULT_WORD_LENGTH, isSupportedWordLength } from './gameConfig';
+import { getSeedScheduleEntry } from './seedSchedule';
+import { DEFAULT_LANGUAGE, getLanguagePack, normalizeWord } from './languages';
+import { hourIdUtc } from './timeUtils';
 
-// Extract words from JSON file and convert to uppercase
-const ALL_WORDS = wordsData.words.map((word: string) => word.toUpperCase());
+/**
+ * Versioned dictionary packs
+ * A pack holds the solution and allowed-guess lists of one word length.
+ * Packs never change once shipped: curation goes into a new version, and
+ * every stored word records the version that produced it, so old puzzles
+ * keep resolving against the exact lists they were created with.
+ *
+ * A pack may extend an earlier version. Its lists are appended to the base
+ * pack's, and blocklisted (offensive or obscure) words are dropped from the
+ * solutions but stay valid guesses. The content hash covers the resolved
+ * lists and is checked on load.
+ *
+ * Packs of other languages name their language; their guesses are looked up
+ * with the language's letter rules (see languages.ts).
+ */
+
+export const DICTIONARY_PACK_FORMAT = 1;
+
+type PackLoader = () => Promise<DictionaryPack>;
+
+// Packs are split into their own chunks and only fetched when a game needs them
+const PACK_LOADERS: Record<string, Record<number, PackLoader>> = {
+  v1: {
+    4: () => import('./dictionaries/v1/words-4.json').then(module => module.default),
+    5: () => import('./dictionaries/v1/words-5.json').then(module => module.default),
+    6: () => import('./dictionaries/v1/words-6.json').then(module => module.default),
+    7: () => import('./dictionaries/v1/words-7.json').then(module => module.default),
+    8: () => import('./dictionaries/v1/words-8.json').then(module => module.default)
+  },
+  v2: {
+    4: () => import('./dictionaries/v2/words-4.json').then(module => module.default),
+    5: () => import('./dictionaries/v2/words-5.json').then(module => module.default),
+    6: () => import('./dictionaries/v2/words-6.json').then(module => module.default),
+    7: () => import('./dictionaries/v2/words-7.json').then(module => module.default),
+    8: () => import('./dictionaries/v2/words-8.json').then(module => module.default)
+  },
+  'es-v1': {
+    5: () => import('./dictionaries/es-v1/words-5.json').then(module => module.default)
+  },
+  'de-v1': {
+    5: () => import('./dictionaries/de-v1/words-5.json').then(module => module.default)
+  }
+};
+
+export const INSTALLED_DICTIONARY_VERSIONS = Object.keys(PACK_LOADERS);
+
+interface ResolvedPack {
+  solutions: string[];
+  allowed: string[];
+}
 
-// Use first 2000 words as solutions (most common words)
-const SOLUTION_WORDS = ALL_WORDS.slice(0, 2000);
+// Keyed by "<version>:<wordLength>"
+const dictionaryInstances = new Map<string, Dictionary>();
+
+/**
+ * Get the dictionary version new words are picked from at an hour
+ * @param hourId - Hour ID in YYYYMMDDHH format (defaults to the current hour)
+ * @param language - Language code (defaults to English)
+ * @returns The language's dictionary version, or that of the seed schedule entry in effect for English
+ */
+export function getDictionaryVersionForHour(
+  hourId: string = hourIdUtc(),
+  language: string = DEFAULT_LANGUAGE
+): string {
+  return getLanguagePack(language).dictionaryVersion ?? getSeedScheduleEntry(hourId).dictionaryVersion;
+}
+
+/**
+ * Check whether a dictionary version is installed
+ * @param version - Dictionary version
+ * @returns True if packs of that version ship with the app
+ */
+export function isInstalledDictionaryVersion(version: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PACK_LOADERS, version);
+}
+
+/**
+ * Remove repeated words, keeping the first occurrence
+ * @param words - Words in order
+ * @returns Words without duplicates
+ */
+function unique(words: string[]): string[] {
+  return [...new Set(words)];
+}
+
+/**
+ * Work out a pack's final lists, following the versions it extends
+ * @param pack - Dictionary pack
+ * @returns Promise resolving to the solution and allowed-guess lists
+ */
+async function resolvePack(pack: DictionaryPack): Promise<ResolvedPack> {
+  const base = pack.extends
+    ? await resolvePack(await loadPack(pack.extends, pack.wordLength))
+    : { solutions: [], allowed: [] };
+
+  const blocked = new Set(pack.blocklist);
+  const candidates = unique([...base.solutions, ...pack.solutions]);
+  const solutions = candidates.filter(word => !blocked.has(word));
+  const solutionSet = new Set(solutions);
+
+  return {
+    solutions,
+    // Blocked words are no longer answers but remain valid guesses
+    allowed: unique([...base.allowed, ...pack.allowed, ...candidates.filter(word => blocked.has(word))])
+      .filter(word => !solutionSet.has(word))
+  };
+}
+
+/**
+ * Load a raw pack file
+ * @param version - Dictionary version
+ * @param wordLength - Word length
+ * @returns Promise resolving to the pack
+ * @throws Error if the version or word length is not installed, or the file is invalid
+ */
+async function loadPack(version: string, wordLength: number): Promise<DictionaryPack> {
+  const loader = isInstalledDictionaryVersion(version) ? PACK_LOADERS[version][wordLength] : undefined;
+  if (!loader) {
+    throw new Error(`Dictionary ${version} is not installed for ${wordLength}-letter words`);
+  }
 
-// Use all words as allowed guesses
-const ALLOWED_WORDS = ALL_WORDS;
+  const pack = await loader();
+  if (pack.format !== DICTIONARY_PACK_FORMAT || pack.version !== version || pack.wordLength !== wordLength) {
+    throw new Error(`Invalid dictionary pack ${version} for ${wordLength}-letter words`);
+  }
+  return pack;
+}
 
-let dictionaryInstance: Dictionary | null = null;
+/**
+ * Compute the content hash of resolved pack lists
+ * @param version - Dictionary version
+ * @param wordLength - Word length
+ * @param resolved - Resolved solution and allowed-guess lists
+ * @returns Promise resolving to the SHA-256 hex digest
+ */
+export async function hashDictionaryContent(
+  version: string,
+  wordLength: number,
+  resolved: ResolvedPack
+): Promise<string> {
+  const content = JSON.stringify({ version, wordLength, solutions: resolved.solutions, allowed: resolved.allowed });
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
 
 /**
- * Load and initialize the dictionary
+ * Load and initialize the dictionary for a word length
+ * @param wordLength - Word length (defaults to 5)
+ * @param version - Dictionary version (defaults to the one in effect this hour)
  * @returns Promise resolving to Dictionary instance
+ * @throws Error if the pack is missing or its content hash does not match
  */
-export async function loadDictionary(): Promise<Dictionary> {
-  if (dictionaryInstance) {
-    return dictionaryInstance;
+export async function loadDictionary(
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  version: string = getDictionaryVersionForHour()
+): Promise<Dictionary> {
+  const key = `${version}:${wordLength}`;
+  const existing = dictionaryInstances.get(key);
+  if (existing) {
+    return existing;
   }
 
-  // Create sets for fast lookup
-  const solutions = new Set(SOLUTION_WORDS.map(word => word.toLowerCase()));
-  const allowed = new Set(ALLOWED_WORDS.map(word => word.toLowerCase()));
+  if (!isSupportedWordLength(wordLength)) {
+    throw new Error(`Unsupported word length: ${wordLength}`);
+  }
 
-  // Generate a simple hash for integrity checking
-  const hash = await generateDictionaryHash(ALLOWED_WORDS);
+  const pack = await loadPack(version, wordLength);
+  const resolved = await resolvePack(pack);
 
-  dictionaryInstance = {
-    solutions,
-    allowed,
-    version: 'v1',
-    hash
+  // Refuse packs whose lists differ from what was published
+  const hash = await hashDictionaryContent(version, wordLength, resolved);
+  if (hash !== pack.hash) {
+    throw new Error(`Dictionary ${version} for ${wordLength}-letter words failed its integrity check`);
+  }
+
+  const language = pack.language ?? DEFAULT_LANGUAGE;
+  const dictionary: Dictionary = {
+    solutions: new Set(resolved.solutions),
+    allowed: new Set([...resolved.solutions, ...resolved.allowed].map(word => normalizeWord(word, language))),
+    version,
+    hash,
+    wordLength,
+    language
   };
+  dictionaryInstances.set(key, dictionary);
 
-  return dictionaryInstance;
+  return dictionary;
+}
+
+/**
+ * Get an already loaded dictionary
+ * @param wordLength - Word length of the dictionary
+ * @param version - Dictionary version (defaults to the one in effect this hour)
+ * @returns Loaded Dictionary instance
+ */
+function getLoadedDictionary(wordLength: number, version: string = getDictionaryVersionForHour()): Dictionary {
+  const dictionary = dictionaryInstances.get(`${version}:${wordLength}`);
+  if (!dictionary) {
+    throw new Error('Dictionary not loaded. Call loadDictionary() first.');
+  }
+  return dictionary;
 }
 
 /**
  * Check if a word is valid for guessing
  * @param word - Word to validate
+ * @param wordLength - Word length of the active game (defaults to 5)
+ * @param version - Dictionary version of the puzzle (defaults to the one in effect this hour)
  * @returns True if word is in allowed list
  */
-export function isValidGuess(word: string): boolean {
-  if (!dictionaryInstance) {
-    throw new Error('Dictionary not loaded. Call loadDictionary() first.');
-  }
-  
-  return dictionaryInstance.allowed.has(word.toLowerCase());
+export function isValidGuess(word: string, wordLength: number = DEFAULT_WORD_LENGTH, version?: string): boolean {
+  const dictionary = getLoadedDictionary(wordLength, version);
+  return dictionary.allowed.has(normalizeWord(word, dictionary.language));
 }
 
 /**
  * Check if a word is a valid solution word
  * @param word - Word to check
+ * @param wordLength - Word length of the active game (defaults to 5)
+ * @param version - Dictionary version of the puzzle (defaults to the one in effect this hour)
  * @returns True if word is in solutions list
  */
-export function isValidSolution(word: string): boolean {
-  if (!dictionaryInstance) {
-    throw new Error('Dictionary not loaded. Call loadDictionary() first.');
-  }
-  
-  return dictionaryInstance.solutions.has(word.toLowerCase());
+export function isValidSolution(word: string, wordLength: number = DEFAULT_WORD_LENGTH, version?: string): boolean {
+  return getLoadedDictionary(wordLength, version).solutions.has(word.toLowerCase());
 }
 
 /**
  * Get a random solution word
+ * @param wordLength - Word length (defaults to 5)
+ * @param version - Dictionary version (defaults to the one in effect this hour)
  * @returns Random word from solutions list
  */
-export function getRandomSolutionWord(): string {
-  if (!dictionaryInstance) {
-    throw new Error('Dictionary not loaded. Call loadDictionary() first.');
-  }
-  
-  const solutionsArray = Array.from(dictionaryInstance.solutions);
+export function getRandomSolutionWord(wordLength: number = DEFAULT_WORD_LENGTH, version?: string): string {
+  const solutionsArray = Array.from(getLoadedDictionary(wordLength, version).solutions);
   const randomIndex = Math.floor(Math.random() * solutionsArray.length);
   return solutionsArray[randomIndex].toUpperCase();
 }
 
+/**
+ * Get the solution list in dictionary order
+ * @param wordLength - Word length (defaults to 5)
+ * @param version - Dictionary version (defaults to the one in effect this hour)
+ * @returns Lowercase solution words
+ */
+export function getSolutionList(wordLength: number = DEFAULT_WORD_LENGTH, version?: string): string[] {
+  return Array.from(getLoadedDictionary(wordLength, version).solutions);
+}
+
 /**
  * Get a deterministic solution word based on seed
  * @param seed - Seed for deterministic selection
+ * @param wordLength - Word length (defaults to 5)
+ * @param version - Dictionary version (defaults to the one in effect this hour)
  * @returns Word selected based on seed
  */
-export function getDeterministicSolutionWord(seed: string): string {
-  if (!dictionaryInstance) {
-    throw new Error('Dictionary not loaded. Call loadDictionary() first.');
-  }
-  
-  const solutionsArray = Array.from(dictionaryInstance.solutions);
+export function getDeterministicSolutionWord(
+  seed: string,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  version?: string
+): string {
+  const solutionsArray = Array.from(getLoadedDictionary(wordLength, version).solutions);
   const hash = simpleStringHash(seed);
   const index = Math.abs(hash) % solutionsArray.length;
   return solutionsArray[index].toUpperCase();
 }
 
 /**
- * Generate a simple hash for dictionary integrity
- * @param words - Array of words to hash
- * @returns Promise resolving to hash string
- */
-async function generateDictionaryHash(words: string[]): Promise<string> {
-  const concatenated = words.sort().join('');
-  const encoder = new TextEncoder();
-  const data = encoder.encode(concatenated);
-  
-  if (crypto.subtle) {
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  } else {
-    // Fallback for environments without crypto.subtle
-    return simpleStringHash(concatenated).toString(16);
-  }
-}
-
-/**
- * Simple string hash function for fallback
+ * Simple 32-bit rolling string hash
  * @param str - String to hash
  * @returns Hash number
  */
@@ -127,4 +285,4 @@ function simpleStringHash(str: string): number {
     hash = hash & hash; // Convert to 32-bit integer
   }
   return hash;
-}
\ No newline at end of file
+}
@@ -1,15 +1,128 @@
 /**
- * Simple encryption utilities for protecting words in Firebase
- * Uses a combination of Caesar cipher and Base64 encoding with hour-based key
+ * Encryption utilities for protecting words in Firebase and in puzzle links
+ * Current scheme (cipher version 2): AES-GCM with a per-hour key derived via
+ * HKDF-SHA256 from the build-time VITE_WORD_SECRET, plus an HMAC-SHA256
+ * commitment hash. The legacy Caesar + Base64 scheme (cipher version 1) is
+ * kept read-only so documents created before the migration still decrypt.
  */
 
+export const LEGACY_CIPHER_VERSION = 1;
+export const CURRENT_CIPHER_VERSION = 2;
+
+const DEV_WORD_SECRET = 'mintle-development-secret';
+const KEY_INFO = 'mintle-word-v2';
+const HASH_PREFIX = 'mintle-commit-v2';
+const SALT_PREFIX = 'mintle-salt-v1';
+const SIGNED_PREFIX = 'mintle-signed-v1';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+let warnedAboutDevSecret = false;
+
 /**
- * Generate an encryption key based on hour ID
+ * Get the build-time secret used for key derivation
+ * Falls back to a development secret so local builds work without setup
+ * @returns Secret string
+ */
+function getWordSecret(): string {
+  const secret = import.meta.env.VITE_WORD_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (import.meta.env.PROD && !warnedAboutDevSecret) {
+    console.warn('VITE_WORD_SECRET is not set; falling back to the development secret');
+    warnedAboutDevSecret = true;
+  }
+  return DEV_WORD_SECRET;
+}
+
+/**
+ * Get the Web Crypto SubtleCrypto implementation
+ * @returns SubtleCrypto instance
+ */
+function getSubtle(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('Web Crypto is not available in this environment');
+  }
+  return globalThis.crypto.subtle;
+}
+
+/**
+ * Encode bytes as Base64
+ * @param bytes - Bytes to encode
+ * @returns Base64 string
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Turn Base64 into its URL-safe form, without padding
+ * @param base64 - Base64 string
+ * @returns Base64url string
+ */
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode Base64 into bytes
+ * The URL-safe alphabet is accepted as well, with or without padding
+ * @param base64 - Base64 or Base64url string
+ * @returns Decoded bytes
+ */
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const standard = base64.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(standard.padEnd(Math.ceil(standard.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Derive the AES-GCM key for an hour
+ * @param hourId - Hour ID (or word document ID) used as HKDF salt
+ * @returns Promise resolving to a non-extractable AES key
+ */
+async function deriveHourKey(hourId: string): Promise<CryptoKey> {
+  const subtle = getSubtle();
+  const encoder = new TextEncoder();
+
+  const baseKey = await subtle.importKey(
+    'raw',
+    encoder.encode(getWordSecret()),
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+
+  return subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: encoder.encode(hourId),
+      info: encoder.encode(KEY_INFO)
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Generate the legacy encryption key based on hour ID
  * @param hourId - Hour ID in YYYYMMDDHH format
  * @returns Encryption key (0-25)
  */
-function generateEncryptionKey(hourId: string): number {
-  // Use the hour ID to generate a consistent key for that hour
+function generateLegacyKey(hourId: string): number {
   let sum = 0;
   for (let i = 0; i < hourId.length; i++) {
     sum += hourId.charCodeAt(i);
@@ -18,10 +131,10 @@ function generateEncryptionKey(hourId: string): number {
 }
 
 /**
- * Caesar cipher encryption
- * @param text - Text to encrypt
+ * Caesar cipher used by the legacy scheme
+ * @param text - Text to shift
  * @param shift - Shift amount (0-25)
- * @returns Encrypted text
+ * @returns Shifted text
  */
 function caesarCipher(text: string, shift: number): string {
   return text
@@ -39,75 +152,242 @@ function caesarCipher(text: string, shift: number): string {
 }
 
 /**
- * Caesar cipher decryption
- * @param text - Text to decrypt
- * @param shift - Shift amount (0-25)
- * @returns Decrypted text
+ * Encrypt a word with the legacy Caesar + Base64 scheme
+ * Only kept to produce fixtures for migration tests; new documents use encryptWord
+ * @param word - Plain text word
+ * @param hourId - Hour ID for key generation
+ * @returns Legacy encrypted word
  */
-function caesarDecipher(text: string, shift: number): string {
-  return caesarCipher(text, 26 - shift);
+export function encryptLegacyWord(word: string, hourId: string): string {
+  return btoa(caesarCipher(word.toLowerCase(), generateLegacyKey(hourId)));
 }
 
 /**
- * Encrypt a word for storage in Firebase
- * @param word - Plain text word
+ * Decrypt a word stored with the legacy Caesar + Base64 scheme
+ * @param encryptedWord - Legacy encrypted word
  * @param hourId - Hour ID for key generation
- * @returns Encrypted word
+ * @returns Decrypted plain text word
  */
-export function encryptWord(word: string, hourId: string): string {
-  const key = generateEncryptionKey(hourId);
-  const encrypted = caesarCipher(word.toLowerCase(), key);
-  
-  // Add Base64 encoding for additional obfuscation
-  return btoa(encrypted);
+function decryptLegacyWord(encryptedWord: string, hourId: string): string {
+  const decoded = atob(encryptedWord);
+  return caesarCipher(decoded, 26 - generateLegacyKey(hourId));
 }
 
 /**
- * Decrypt a word from Firebase storage
- * @param encryptedWord - Encrypted word from Firebase
- * @param hourId - Hour ID for key generation
- * @returns Decrypted plain text word
+ * Encrypt a word for storage in Firebase or for a puzzle link
+ * Output is Base64 of a random 12-byte IV followed by the AES-GCM ciphertext;
+ * the hour ID is bound as additional data so ciphertexts cannot be moved between hours
+ * @param word - Plain text word
+ * @param hourId - Hour ID (or puzzle ID) for key derivation
+ * @param options - urlSafe: use the Base64url alphabet without padding, for URLs
+ * @returns Promise resolving to the encrypted word
+ */
+export async function encryptWord(
+  word: string,
+  hourId: string,
+  options: { urlSafe?: boolean } = {}
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await deriveHourKey(hourId);
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const ciphertext = await getSubtle().encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(hourId) },
+    key,
+    encoder.encode(word.toLowerCase())
+  );
+
+  const payload = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  payload.set(iv, 0);
+  payload.set(new Uint8Array(ciphertext), IV_LENGTH);
+  const encoded = bytesToBase64(payload);
+  return options.urlSafe ? toBase64Url(encoded) : encoded;
+}
+
+/**
+ * Decrypt a word from Firebase storage or a puzzle link
+ * @param encryptedWord - Encrypted word from Firebase, or its URL-safe form
+ * @param hourId - Hour ID for key derivation
+ * @param cipherVersion - Scheme the word was encrypted with (defaults to current)
+ * @returns Promise resolving to the decrypted plain text word
  */
-export function decryptWord(encryptedWord: string, hourId: string): string {
+export async function decryptWord(
+  encryptedWord: string,
+  hourId: string,
+  cipherVersion: number = CURRENT_CIPHER_VERSION
+): Promise<string> {
   try {
-    // Decode from Base64
-    const decoded = atob(encryptedWord);
-    
-    // Decrypt using Caesar cipher
-    const key = generateEncryptionKey(hourId);
-    return caesarDecipher(decoded, key);
+    if (cipherVersion === LEGACY_CIPHER_VERSION) {
+      return decryptLegacyWord(encryptedWord, hourId);
+    }
+
+    if (cipherVersion !== CURRENT_CIPHER_VERSION) {
+      throw new Error(`unsupported cipher version ${cipherVersion}`);
+    }
+
+    const payload = base64ToBytes(encryptedWord);
+    if (payload.length <= IV_LENGTH + TAG_LENGTH) {
+      throw new Error('ciphertext too short');
+    }
+
+    const key = await deriveHourKey(hourId);
+    const plaintext = await getSubtle().decrypt(
+      {
+        name: 'AES-GCM',
+        iv: payload.slice(0, IV_LENGTH),
+        additionalData: new TextEncoder().encode(hourId)
+      },
+      key,
+      payload.slice(IV_LENGTH)
+    );
+
+    return new TextDecoder().decode(plaintext);
   } catch (error) {
     throw new Error(`Failed to decrypt word: ${error}`);
   }
 }
 
 /**
- * Generate a hash of the word for verification without revealing the word
+ * Legacy 32-bit rolling hash, used only to verify pre-migration documents
  * @param word - Plain text word
  * @param hourId - Hour ID for salt
  * @returns Hash string
  */
-export function generateWordHash(word: string, hourId: string): string {
-  // Simple hash function for verification
+function generateLegacyWordHash(word: string, hourId: string): string {
   let hash = 0;
   const input = word.toLowerCase() + hourId;
-  
+
   for (let i = 0; i < input.length; i++) {
     const char = input.charCodeAt(i);
     hash = ((hash << 5) - hash) + char;
     hash = hash & hash; // Convert to 32-bit integer
   }
-  
+
   return Math.abs(hash).toString(36);
 }
 
+/**
+ * Sign a message with HMAC-SHA256 keyed with the word secret
+ * @param message - Message to sign, starting with a prefix naming its purpose
+ * @returns Promise resolving to a 64-character hex signature
+ */
+async function signWithWordSecret(message: string): Promise<string> {
+  const subtle = getSubtle();
+  const encoder = new TextEncoder();
+
+  const key = await subtle.importKey(
+    'raw',
+    encoder.encode(getWordSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generate a commitment hash of the word for verification without revealing it
+ * HMAC-SHA256 keyed with the word secret, so the hash cannot be brute-forced
+ * against the public solution list without the secret
+ * @param word - Plain text word
+ * @param hourId - Hour ID for salt
+ * @returns Promise resolving to a 64-character hex hash
+ */
+export async function generateWordHash(word: string, hourId: string): Promise<string> {
+  return signWithWordSecret(`${HASH_PREFIX}:${hourId}:${word.toLowerCase()}`);
+}
+
 /**
  * Verify a word against its hash without decrypting
+ * Accepts both commitment hashes and legacy rolling hashes
  * @param word - Plain text word to verify
  * @param hash - Stored hash
  * @param hourId - Hour ID for salt
- * @returns True if word matches hash
+ * @returns Promise resolving to true if word matches hash
+ */
+export async function verifyWordHash(word: string, hash: string, hourId: string): Promise<boolean> {
+  if (/^[0-9a-f]{64}$/.test(hash)) {
+    return (await generateWordHash(word, hourId)) === hash;
+  }
+  return generateLegacyWordHash(word, hourId) === hash;
+}
+
+/**
+ * Generate a random salt for an answer commitment
+ * @returns 32-character hex salt
  */
-export function verifyWordHash(word: string, hash: string, hourId: string): boolean {
-  return generateWordHash(word, hourId) === hash;
-}
\ No newline at end of file
+export function generateCommitmentSalt(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Derive the commitment salt of a puzzle from the word secret
+ * Every evaluator instance derives the same salt, so none has to remember it
+ * @param puzzleId - Puzzle (word document) ID
+ * @returns Promise resolving to a 32-character hex salt
+ */
+export async function deriveCommitmentSalt(puzzleId: string): Promise<string> {
+  return (await signWithWordSecret(`${SALT_PREFIX}:${puzzleId}`)).slice(0, 32);
+}
+
+/**
+ * Sign a payload so it can be handed out and trusted when it comes back
+ * @param payload - Text to sign
+ * @returns Promise resolving to a URL-safe token of the payload and its signature
+ */
+export async function signPayload(payload: string): Promise<string> {
+  const encoded = toBase64Url(bytesToBase64(new TextEncoder().encode(payload)));
+  return `${encoded}.${await signWithWordSecret(`${SIGNED_PREFIX}:${encoded}`)}`;
+}
+
+/**
+ * Read a payload signed by signPayload
+ * @param token - Token from signPayload
+ * @returns Promise resolving to the payload, or null if the token is malformed or was altered
+ */
+export async function openSignedPayload(token: string): Promise<string | null> {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0 || !/^[A-Za-z0-9_-]+$/.test(encoded)) return null;
+  if ((await signWithWordSecret(`${SIGNED_PREFIX}:${encoded}`)) !== signature) return null;
+  return new TextDecoder().decode(base64ToBytes(encoded));
+}
+
+/**
+ * Generate a salted SHA-256 commitment to a puzzle's answer
+ * The client holds only this value until the answer is revealed, then checks
+ * that the revealed word and salt reproduce it
+ * @param word - Plain text word
+ * @param puzzleId - Puzzle the word belongs to
+ * @param salt - Salt kept by the evaluator until reveal
+ * @returns Promise resolving to a 64-character hex commitment
+ */
+export async function generateCommitment(word: string, puzzleId: string, salt: string): Promise<string> {
+  const data = new TextEncoder().encode(`${salt}:${puzzleId}:${word.toLowerCase()}`);
+  const digest = await getSubtle().digest('SHA-256', data);
+
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Verify a revealed word against its commitment
+ * @param word - Revealed word
+ * @param puzzleId - Puzzle the word belongs to
+ * @param salt - Revealed salt
+ * @param commitment - Commitment received at the start of the game
+ * @returns Promise resolving to true if the reveal matches the commitment
+ */
+export async function verifyCommitment(
+  word: string,
+  puzzleId: string,
+  salt: string,
+  commitment: string
+): Promise<boolean> {
+  return (await generateCommitment(word, puzzleId, salt)) === commitment;
+}
@@ -0,0 +1,283 @@
+import type { EvaluationRequest, EvaluationResponse, ScoredGuess } from './evaluator';
+import { evaluateGuess, isCorrectGuess } from './wordEvaluation';
+import { isValidGuess } from './dictionary';
+import { deriveCommitmentSalt, generateCommitment, openSignedPayload, signPayload } from './encryption';
+import { getHourlyPuzzle, getWordDocumentId } from './wordManager';
+import { getMaxGuessesForBoards, isSupportedBoardCount } from './gameConfig';
+import { DEFAULT_LANGUAGE, isSupportedLanguage, isSupportedWordLengthForLanguage } from './languages';
+import { hourIdUtc } from './timeUtils';
+import { getLetterHint, takeLetterHint } from './hints';
+
+/**
+ * Evaluation service handler
+ * Written as a plain request/response function so it can be deployed as an
+ * HTTPS Cloud Function; the app also calls it in-process as a local mock
+ * server when no evaluator URL is configured.
+ * The handler keeps nothing it cannot rebuild: commitment salts are derived
+ * from the word secret, and each player's session travels with the client as
+ * a signed token, so any instance can pick up any request.
+ */
+
+// Oldest puzzles are dropped from the cache beyond this, so an instance's memory stays bounded
+const MAX_CACHED_PUZZLES = 500;
+
+interface ActivePuzzle {
+  word: string;
+  salt: string;
+  commitment: string;
+  dictionaryVersion: string;
+  language: string;
+}
+
+// Which puzzle a session plays
+interface PuzzleKey {
+  hourId: string;
+  wordLength: number;
+  boardCount: number;
+  boardIndex: number;
+  language: string;
+}
+
+// One player's game on a puzzle, carried in the signed session token
+interface SessionState extends PuzzleKey {
+  // Guesses this handler has checked against the word list and scored, in order;
+  // reveals and letter hints only trust these
+  guesses: string[];
+  // Letter hints given so far, capped per session
+  lettersGiven: string[];
+}
+
+// Puzzles keyed by puzzle ID; only a cache, since every entry can be rebuilt
+const activePuzzles = new Map<string, Promise<ActivePuzzle>>();
+
+/**
+ * Check whether a guess list ends the game, which is when the answer may be revealed
+ * @param word - The secret word
+ * @param guesses - Guesses made so far
+ * @param maxGuesses - Number of guesses allowed
+ * @param language - Language code of the puzzle (defaults to English)
+ * @returns True if the last guess is correct or all guesses are used
+ */
+export function isRevealAllowed(
+  word: string,
+  guesses: string[],
+  maxGuesses: number,
+  language: string = DEFAULT_LANGUAGE
+): boolean {
+  if (guesses.length === 0) return false;
+  if (isCorrectGuess(guesses[guesses.length - 1], word, language)) return true;
+  return guesses.length >= maxGuesses;
+}
+
+/**
+ * Build a failed response
+ * @param code - Machine-readable error code
+ * @param error - Human-readable message
+ * @returns Error response
+ */
+function failure(code: string, error: string): EvaluationResponse {
+  return { ok: false, code, error };
+}
+
+/**
+ * Resolve the word for a puzzle along with its salt and commitment
+ * @param puzzle - Puzzle to resolve
+ * @returns Promise resolving to the active puzzle
+ */
+function getActivePuzzle(puzzle: PuzzleKey): Promise<ActivePuzzle> {
+  const { hourId, wordLength, boardCount, boardIndex, language } = puzzle;
+  const puzzleId = getWordDocumentId(hourId, wordLength, boardCount, boardIndex, language);
+  let active = activePuzzles.get(puzzleId);
+
+  if (!active) {
+    active = (async () => {
+      const hourly = await getHourlyPuzzle(hourId, wordLength, boardCount, boardIndex, language);
+      const word = hourly.word.toLowerCase();
+      const salt = await deriveCommitmentSalt(puzzleId);
+      const commitment = await generateCommitment(word, puzzleId, salt);
+      return { word, salt, commitment, dictionaryVersion: hourly.dictionaryVersion, language };
+    })();
+
+    activePuzzles.set(puzzleId, active);
+    // Forget failed lookups so the next request can retry
+    active.catch(() => activePuzzles.delete(puzzleId));
+
+    if (activePuzzles.size > MAX_CACHED_PUZZLES) {
+      const [oldest] = activePuzzles.keys();
+      activePuzzles.delete(oldest);
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Sign a session so the client can hand it back with its next request
+ * @param state - Session state
+ * @returns Promise resolving to the session token
+ */
+function createSessionToken(state: SessionState): Promise<string> {
+  return signPayload(JSON.stringify(state));
+}
+
+/**
+ * Read back a session token handed out by this handler
+ * @param token - Session token from an earlier response
+ * @returns Promise resolving to the session state, or null if the token is not a valid one
+ */
+async function readSessionToken(token: unknown): Promise<SessionState | null> {
+  if (typeof token !== 'string') return null;
+
+  const payload = await openSignedPayload(token);
+  if (!payload) return null;
+
+  const state = JSON.parse(payload) as SessionState;
+  return Array.isArray(state.guesses) && Array.isArray(state.lettersGiven) ? state : null;
+}
+
+/**
+ * Look up a session and its puzzle
+ * @param token - Session token from an earlier response
+ * @returns Promise resolving to the session and puzzle, or null if the token is not valid
+ */
+async function getSession(token: unknown): Promise<{ session: SessionState; puzzle: ActivePuzzle } | null> {
+  const session = await readSessionToken(token);
+  return session ? { session, puzzle: await getActivePuzzle(session) } : null;
+}
+
+/**
+ * Handle a single evaluation request
+ * The word never leaves this function until a reveal request shows the game is over
+ * @param request - Parsed request body
+ * @returns Promise resolving to the response body
+ */
+export async function handleEvaluationRequest(request: EvaluationRequest): Promise<EvaluationResponse> {
+  try {
+    switch (request.type) {
+      case 'start': {
+        const { hourId, wordLength, boardCount = 1, boardIndex = 0, language = DEFAULT_LANGUAGE } = request;
+
+        if (!/^\d{10}$/.test(hourId)) {
+          return failure('invalid-argument', `Invalid hour ID: ${hourId}`);
+        }
+        if (hourId > hourIdUtc()) {
+          return failure('future-puzzle', 'Puzzles for future hours are not available yet');
+        }
+        if (!isSupportedLanguage(language)) {
+          return failure('invalid-argument', `Unsupported language: ${language}`);
+        }
+        if (!isSupportedWordLengthForLanguage(wordLength, language)) {
+          return failure('invalid-argument', `Unsupported word length: ${wordLength}`);
+        }
+        if (!isSupportedBoardCount(boardCount) || !Number.isInteger(boardIndex) || boardIndex < 0 || boardIndex >= boardCount) {
+          return failure('invalid-argument', `Invalid board ${boardIndex} of ${boardCount}`);
+        }
+
+        const puzzleId = getWordDocumentId(hourId, wordLength, boardCount, boardIndex, language);
+        const puzzle = await getActivePuzzle({ hourId, wordLength, boardCount, boardIndex, language });
+
+        // A session saved by an earlier visit carries on with its guesses and hints
+        const saved = await readSessionToken(request.session);
+        const resumed = saved && getWordDocumentId(
+          saved.hourId, saved.wordLength, saved.boardCount, saved.boardIndex, saved.language
+        ) === puzzleId;
+        const session: SessionState = resumed
+          ? saved
+          : { hourId, wordLength, boardCount, boardIndex, language, guesses: [], lettersGiven: [] };
+        const scored: ScoredGuess[] = session.guesses.map(guess => ({
+          guess,
+          feedback: evaluateGuess(guess, puzzle.word, language)
+        }));
+
+        return {
+          ok: true,
+          type: 'start',
+          puzzleId,
+          session: await createSessionToken(session),
+          commitment: puzzle.commitment,
+          dictionaryVersion: puzzle.dictionaryVersion,
+          scored
+        };
+      }
+
+      case 'evaluate': {
+        const active = await getSession(request.session);
+        if (!active) {
+          return failure('not-found', 'Puzzle has not been started');
+        }
+
+        const { session, puzzle: { word, dictionaryVersion, language } } = active;
+        if (isRevealAllowed(word, session.guesses, getMaxGuessesForBoards(session.boardCount), language)) {
+          return failure('game-over', 'The game is already over');
+        }
+        if (typeof request.guess !== 'string' || request.guess.length !== word.length) {
+          return failure('invalid-argument', `Guess must be ${word.length} letters`);
+        }
+        // Guesses are checked against the pack the word was picked from
+        if (!isValidGuess(request.guess, word.length, dictionaryVersion)) {
+          return failure('invalid-guess', 'Not in word list');
+        }
+
+        return {
+          ok: true,
+          type: 'evaluate',
+          feedback: evaluateGuess(request.guess, word, language),
+          session: await createSessionToken({ ...session, guesses: [...session.guesses, request.guess] })
+        };
+      }
+
+      case 'reveal': {
+        const active = await getSession(request.session);
+        if (!active) {
+          return failure('not-found', 'Puzzle has not been started');
+        }
+
+        // Only guesses scored in this session count, so made-up guess lists cannot end the game
+        const { session, puzzle: { word, salt, language } } = active;
+        if (!isRevealAllowed(word, session.guesses, getMaxGuessesForBoards(session.boardCount), language)) {
+          return failure('game-in-progress', 'Answer can only be revealed once the game is over');
+        }
+
+        return { ok: true, type: 'reveal', word, salt };
+      }
+
+      case 'hint': {
+        const active = await getSession(request.session);
+        if (!active) {
+          return failure('not-found', 'Puzzle has not been started');
+        }
+
+        const { session, puzzle: { word, language } } = active;
+        if (request.tier !== 'letter' && request.tier !== 'position') {
+          return failure('invalid-argument', `Unknown hint tier: ${request.tier}`);
+        }
+
+        // Hints follow the guesses scored in this session, so made-up guesses cannot walk through the word
+        const hint = getLetterHint(word, session.guesses, request.tier, language);
+        const lettersGiven = new Set(session.lettersGiven);
+        if (hint && !takeLetterHint(lettersGiven, hint)) {
+          return failure('hint-limit', 'No letter hints are left for this puzzle');
+        }
+        return {
+          ok: true,
+          type: 'hint',
+          hint,
+          session: await createSessionToken({ ...session, lettersGiven: [...lettersGiven] })
+        };
+      }
+
+      default:
+        return failure('invalid-argument', 'Unknown request type');
+    }
+  } catch (error) {
+    return failure('internal', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Forget all cached puzzles, as a fresh instance would
+ * Used by tests to start from a clean handler
+ */
+export function resetEvaluationHandler(): void {
+  activePuzzles.clear();
+}
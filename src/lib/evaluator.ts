@@ -0,0 +1,301 @@
+import type { Hint, LetterFeedback } from '../types/game';
+import { evaluateGuess } from './wordEvaluation';
+import { generateCommitment, generateCommitmentSalt, verifyCommitment } from './encryption';
+import { getDictionaryVersionForHour } from './dictionary';
+import { getHourlyPuzzle, getWordDocumentId } from './wordManager';
+import type { HourlyPuzzle } from './wordManager';
+import { handleEvaluationRequest, isRevealAllowed } from './evaluationHandler';
+import { getLetterHint, takeLetterHint } from './hints';
+
+/**
+ * Pluggable guess evaluation with commit-reveal
+ * A puzzle session starts with only a salted commitment to the answer. Each
+ * guess is scored by the evaluator, and the answer (plus salt) is revealed
+ * only once the game is won or lost, then checked against the commitment.
+ * Letter hints come from the evaluator too, since only it knows the word.
+ * The service keeps no sessions of its own: each response carries a signed
+ * session holding the scored guesses and hints, which the client sends back
+ * with its next request and saves so a reload carries on where it stopped.
+ */
+
+export interface PuzzleDescriptor {
+  hourId: string;
+  wordLength: number;
+  maxGuesses: number;
+  // Board position in a multi-board game (defaults to a single board)
+  boardCount?: number;
+  boardIndex?: number;
+  // Language of the words (defaults to English)
+  language?: string;
+  // Session saved from an earlier visit to the puzzle, to carry on with its guesses and hints
+  savedSession?: string;
+}
+
+export interface ScoredGuess {
+  guess: string;
+  feedback: LetterFeedback[];
+}
+
+export interface PuzzleSession {
+  puzzleId: string;
+  commitment: string;
+  // Dictionary pack guesses are validated against
+  dictionaryVersion: string;
+  evaluateGuess: (guess: string) => Promise<LetterFeedback[]>;
+  // Only succeeds once the guesses scored by this session have ended the game
+  reveal: () => Promise<string>;
+  // Based on the guesses scored by this session; resolves to null once they show every letter in place
+  getLetterHint: (tier: 'letter' | 'position') => Promise<Hint | null>;
+  // Session to save with the game's progress (null for evaluators that keep their own)
+  getSavedSession: () => string | null;
+}
+
+export interface GuessEvaluator {
+  startPuzzle: (puzzle: PuzzleDescriptor) => Promise<PuzzleSession>;
+}
+
+export type EvaluationRequest =
+  | {
+      type: 'start';
+      hourId: string;
+      wordLength: number;
+      boardCount?: number;
+      boardIndex?: number;
+      language?: string;
+      session?: string;
+    }
+  | { type: 'evaluate'; session: string; guess: string }
+  | { type: 'reveal'; session: string }
+  | { type: 'hint'; session: string; tier: 'letter' | 'position' };
+
+export type EvaluationResponse =
+  | {
+      ok: true;
+      type: 'start';
+      puzzleId: string;
+      session: string;
+      commitment: string;
+      dictionaryVersion?: string;
+      // Guesses already scored in a resumed session
+      scored?: ScoredGuess[];
+    }
+  | { ok: true; type: 'evaluate'; feedback: LetterFeedback[]; session: string }
+  | { ok: true; type: 'reveal'; word: string; salt: string }
+  | { ok: true; type: 'hint'; hint: Hint | null; session: string }
+  | { ok: false; code: string; error: string };
+
+type EvaluationSuccess = Extract<EvaluationResponse, { ok: true }>;
+
+export type EvaluationTransport = (request: EvaluationRequest) => Promise<EvaluationResponse>;
+
+/**
+ * Custom error class for evaluator operations
+ */
+export class EvaluationError extends Error {
+  public code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'EvaluationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Create an evaluator that holds the word in memory
+ * Intended for tests and offline play where hiding the answer is not a concern
+ * @param resolvePuzzle - Resolves the secret word and its dictionary version (defaults to the hourly puzzle)
+ * @returns Guess evaluator
+ */
+export function createLocalEvaluator(
+  resolvePuzzle: (puzzle: PuzzleDescriptor) => Promise<HourlyPuzzle> =
+    (puzzle) => getHourlyPuzzle(puzzle.hourId, puzzle.wordLength, puzzle.boardCount, puzzle.boardIndex, puzzle.language)
+): GuessEvaluator {
+  return {
+    async startPuzzle(puzzle) {
+      const puzzleId = getWordDocumentId(
+        puzzle.hourId,
+        puzzle.wordLength,
+        puzzle.boardCount,
+        puzzle.boardIndex,
+        puzzle.language
+      );
+      const { word, dictionaryVersion } = await resolvePuzzle(puzzle);
+      const salt = generateCommitmentSalt();
+      const commitment = await generateCommitment(word, puzzleId, salt);
+      const guesses: string[] = [];
+      const lettersGiven = new Set<string>();
+
+      return {
+        puzzleId,
+        commitment,
+        dictionaryVersion,
+        evaluateGuess: async (guess) => {
+          guesses.push(guess);
+          return evaluateGuess(guess, word, puzzle.language);
+        },
+        reveal: async () => {
+          if (!isRevealAllowed(word, guesses, puzzle.maxGuesses, puzzle.language)) {
+            throw new EvaluationError('Answer can only be revealed once the game is over', 'game-in-progress');
+          }
+          return word.toUpperCase();
+        },
+        getLetterHint: async (tier) => {
+          const hint = getLetterHint(word, guesses, tier, puzzle.language);
+          if (hint && !takeLetterHint(lettersGiven, hint)) {
+            throw new EvaluationError('No letter hints are left for this puzzle', 'hint-limit');
+          }
+          return hint;
+        },
+        getSavedSession: () => null
+      };
+    }
+  };
+}
+
+/**
+ * Collect the sessions a game should save to be resumed later
+ * @param sessions - Puzzle session of each board
+ * @returns Saved session of each board, or undefined if the evaluator keeps none
+ */
+export function getSavedSessions(sessions: PuzzleSession[]): string[] | undefined {
+  const saved = sessions.map(session => session.getSavedSession());
+  return saved.length > 0 && saved.every(session => session !== null) ? saved as string[] : undefined;
+}
+
+/**
+ * Unwrap a transport response, throwing on failure or an unexpected type
+ * @param response - Response from the transport
+ * @param type - Expected response type
+ * @returns Successful response of the expected type
+ */
+function expectResponse<T extends EvaluationSuccess['type']>(
+  response: EvaluationResponse,
+  type: T
+): Extract<EvaluationSuccess, { type: T }> {
+  if (!response.ok) {
+    throw new EvaluationError(response.error, response.code);
+  }
+  if (response.type !== type) {
+    throw new EvaluationError(`Unexpected ${response.type} response`, 'invalid-response');
+  }
+  return response as Extract<EvaluationSuccess, { type: T }>;
+}
+
+/**
+ * Create an evaluator that talks to an evaluation service and never holds the word
+ * until the service reveals it
+ * @param transport - Sends requests to the evaluation service
+ * @returns Guess evaluator
+ */
+export function createRemoteEvaluator(transport: EvaluationTransport): GuessEvaluator {
+  return {
+    async startPuzzle(puzzle) {
+      // The service works out the guess limit from the board count itself
+      const { hourId, wordLength, boardCount, boardIndex, language } = puzzle;
+      const start = async (session?: string) => expectResponse(
+        await transport({ type: 'start', hourId, wordLength, boardCount, boardIndex, language, session }),
+        'start'
+      );
+      const started = await start(puzzle.savedSession);
+      const { puzzleId, commitment } = started;
+      // Services that predate dictionary packs use the pack scheduled for the hour
+      const dictionaryVersion = started.dictionaryVersion ?? getDictionaryVersionForHour(puzzle.hourId, puzzle.language);
+
+      let session = started.session;
+      // Guesses of a resumed session are scored already, so replaying them needs no requests
+      let replay = started.scored ?? [];
+      const played: string[] = [];
+
+      const send = async (guess: string) => {
+        const response = expectResponse(await transport({ type: 'evaluate', session, guess }), 'evaluate');
+        session = response.session;
+        return response.feedback;
+      };
+
+      return {
+        puzzleId,
+        commitment,
+        dictionaryVersion,
+        evaluateGuess: async (guess) => {
+          const [next, ...rest] = replay;
+          replay = rest;
+          if (next?.guess === guess) {
+            played.push(guess);
+            return next.feedback;
+          }
+          if (next) {
+            // The saved session disagrees with the saved game; start over and score the game again
+            replay = [];
+            session = (await start()).session;
+            for (const earlier of played) {
+              await send(earlier);
+            }
+          }
+
+          const feedback = await send(guess);
+          played.push(guess);
+          return feedback;
+        },
+        reveal: async () => {
+          const response = await transport({ type: 'reveal', session });
+          const { word, salt } = expectResponse(response, 'reveal');
+
+          if (!(await verifyCommitment(word, puzzleId, salt, commitment))) {
+            throw new EvaluationError('Revealed word does not match commitment', 'commitment-mismatch');
+          }
+          return word.toUpperCase();
+        },
+        getLetterHint: async (tier) => {
+          const response = expectResponse(await transport({ type: 'hint', session, tier }), 'hint');
+          session = response.session;
+          return response.hint;
+        },
+        getSavedSession: () => session
+      };
+    }
+  };
+}
+
+/**
+ * Transport that calls the bundled handler in-process
+ * Requests and responses are JSON round-tripped so nothing is shared by reference
+ * @returns Evaluation transport
+ */
+export function createInProcessTransport(): EvaluationTransport {
+  return async (request) => {
+    const response = await handleEvaluationRequest(JSON.parse(JSON.stringify(request)));
+    return JSON.parse(JSON.stringify(response));
+  };
+}
+
+/**
+ * Transport that POSTs requests to a deployed evaluation function
+ * @param url - Endpoint URL
+ * @returns Evaluation transport
+ */
+export function createHttpTransport(url: string): EvaluationTransport {
+  return async (request) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+
+    if (!response.ok && response.status >= 500) {
+      return { ok: false, code: 'unavailable', error: `Evaluation service returned ${response.status}` };
+    }
+    return response.json();
+  };
+}
+
+/**
+ * Create the evaluator used by the app
+ * Uses the deployed function when VITE_EVALUATOR_URL is set, otherwise the
+ * bundled handler acting as a local mock server
+ * @returns Guess evaluator
+ */
+export function createDefaultEvaluator(): GuessEvaluator {
+  const url = import.meta.env.VITE_EVALUATOR_URL;
+  return createRemoteEvaluator(url ? createHttpTransport(url) : createInProcessTransport());
+}
@@ -1,5 +1,9 @@
 import { initializeApp } from 'firebase/app';
+import type { FirebaseApp } from 'firebase/app';
 import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import type { Auth } from 'firebase/auth';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -10,23 +14,57 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID
 };
 
-// Validate required config
-const requiredFields = ['apiKey', 'authDomain', 'projectId', 'appId'];
-for (const field of requiredFields) {
-  if (!firebaseConfig[field as keyof typeof firebaseConfig]) {
-    throw new Error(`Missing required Firebase config: ${field}`);
-  }
-}
+const requiredFields = ['apiKey', 'authDomain', 'projectId', 'appId'] as const;
+
+// The game runs without Firebase (see wordStore.ts); Firebase features check this first
+export const isFirebaseConfigured = requiredFields.every(field => !!firebaseConfig[field]);
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
+const useEmulators = import.meta.env.VITE_USE_FIRESTORE_EMULATOR === 'true';
 
-// Initialize Firestore
-export const db = getFirestore(app);
+let app: FirebaseApp | null = null;
+let db: Firestore | null = null;
+let auth: Auth | null = null;
 
-// Connect to emulator in development if specified
-if (import.meta.env.VITE_USE_FIRESTORE_EMULATOR === 'true' && !('_delegate' in db)) {
-  connectFirestoreEmulator(db, 'localhost', 8080);
+/**
+ * Get the Firebase app, initializing it on first use
+ * @returns Firebase app
+ * @throws Error if the Firebase configuration is incomplete
+ */
+export function getFirebaseApp(): FirebaseApp {
+  if (!app) {
+    const missing = requiredFields.find(field => !firebaseConfig[field]);
+    if (missing) {
+      throw new Error(`Missing required Firebase config: ${missing}`);
+    }
+    app = initializeApp(firebaseConfig);
+  }
+  return app;
 }
 
-export default app;
\ No newline at end of file
+/**
+ * Get Firestore, connecting to the emulator in development if specified
+ * @returns Firestore instance
+ */
+export function getDb(): Firestore {
+  if (!db) {
+    db = getFirestore(getFirebaseApp());
+    if (useEmulators) {
+      connectFirestoreEmulator(db, 'localhost', 8080);
+    }
+  }
+  return db;
+}
+
+/**
+ * Get Auth (players are signed in anonymously to sync progress)
+ * @returns Auth instance
+ */
+export function getFirebaseAuth(): Auth {
+  if (!auth) {
+    auth = getAuth(getFirebaseApp());
+    if (useEmulators) {
+      connectAuthEmulator(auth, 'http://localhost:9099', { disableWarnings: true });
+    }
+  }
+  return auth;
+}
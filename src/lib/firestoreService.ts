@@ -2,12 +2,20 @@ import {
   doc, 
   getDoc, 
   setDoc, 
-  collection, 
-  addDoc,
+  runTransaction,
+  writeBatch,
+  collection,
+  query,
+  where,
+  documentId,
+  getDocs,
+  increment,
   FirestoreError 
 } from 'firebase/firestore';
-import { db } from './firebase';
-import type { WordDocument, GameProgress } from '../types/game';
+import { getDb } from './firebase';
+import { DEFAULT_LOCALE, translate } from './i18n';
+import type { MessageKey } from './i18n';
+import type { WordDocument, UserDocument, HourStats } from '../types/game';
 
 /**
  * Custom error class for Firestore operations
@@ -107,7 +115,7 @@ async function withRetry<T>(
 export async function getWordDocument(hourId: string): Promise<WordDocument | null> {
   return withRetry(async () => {
     try {
-      const docRef = doc(db, 'words', hourId);
+      const docRef = doc(getDb(), 'words', hourId);
       const docSnap = await getDoc(docRef);
       
       if (docSnap.exists()) {
@@ -117,7 +125,9 @@ export async function getWordDocument(hourId: string): Promise<WordDocument | nu
           createdAt: data.createdAt,
           source: data.source,
           dictionaryVersion: data.dictionaryVersion,
-          hash: data.hash
+          hash: data.hash,
+          cipherVersion: data.cipherVersion,
+          seedVersion: data.seedVersion
         } as WordDocument;
       }
       
@@ -147,7 +157,7 @@ export async function createWordDocument(
 ): Promise<boolean> {
   return withRetry(async () => {
     try {
-      const docRef = doc(db, 'words', hourId);
+      const docRef = doc(getDb(), 'words', hourId);
       
       // Use setDoc with merge: false to ensure we only create, not update
       await setDoc(docRef, wordDoc, { merge: false });
@@ -169,6 +179,37 @@ export async function createWordDocument(
   });
 }
 
+/**
+ * List word documents with IDs in a range
+ * @param startId - First document ID (inclusive)
+ * @param endId - Last document ID (inclusive)
+ * @returns Promise resolving to the documents sorted by ID
+ */
+export async function listWordDocuments(
+  startId: string,
+  endId: string
+): Promise<Array<{ id: string; doc: WordDocument }>> {
+  return withRetry(async () => {
+    try {
+      const snapshot = await getDocs(query(
+        collection(getDb(), 'words'),
+        where(documentId(), '>=', startId),
+        where(documentId(), '<=', endId)
+      ));
+      return snapshot.docs.map(docSnap => ({ id: docSnap.id, doc: docSnap.data() as WordDocument }));
+    } catch (error) {
+      if (error instanceof FirestoreError) {
+        throw error;
+      }
+      throw new FirestoreServiceError(
+        `Failed to list word documents: ${error}`,
+        'list-documents-failed',
+        error as Error
+      );
+    }
+  });
+}
+
 /**
  * Check if a word document exists
  * @param hourId - Hour ID in YYYYMMDDHH format
@@ -177,7 +218,7 @@ export async function createWordDocument(
 export async function wordDocumentExists(hourId: string): Promise<boolean> {
   return withRetry(async () => {
     try {
-      const docRef = doc(db, 'words', hourId);
+      const docRef = doc(getDb(), 'words', hourId);
       const docSnap = await getDoc(docRef);
       return docSnap.exists();
     } catch (error) {
@@ -194,26 +235,122 @@ export async function wordDocumentExists(hourId: string): Promise<boolean> {
 }
 
 /**
- * Save game progress (optional analytics)
- * @param gameProgress - Game progress data
- * @returns Promise resolving to document ID
+ * Read and update a player's synced progress in one transaction
+ * The update runs again if the document changes concurrently, so it must
+ * only derive its result from the document it is given
+ * @param uid - Firebase user ID
+ * @param update - Produces the new document from the stored one (null if none yet)
+ * @returns Promise resolving to the written document
  */
-export async function saveGameProgress(gameProgress: GameProgress): Promise<string> {
+export async function updateUserDocument(
+  uid: string,
+  update: (current: UserDocument | null) => UserDocument
+): Promise<UserDocument> {
   return withRetry(async () => {
     try {
-      const collectionRef = collection(db, 'guesses');
-      const docRef = await addDoc(collectionRef, {
-        ...gameProgress,
-        createdAt: new Date().toISOString()
+      const docRef = doc(getDb(), 'users', uid);
+      return await runTransaction(getDb(), async (transaction) => {
+        const docSnap = await transaction.get(docRef);
+        const next = update(docSnap.exists() ? docSnap.data() as UserDocument : null);
+        // Firestore rejects undefined fields, which optional progress fields may contain
+        transaction.set(docRef, JSON.parse(JSON.stringify(next)));
+        return next;
       });
-      return docRef.id;
     } catch (error) {
       if (error instanceof FirestoreError) {
         throw error;
       }
       throw new FirestoreServiceError(
-        `Failed to save game progress: ${error}`,
-        'save-progress-failed',
+        `Failed to update user document: ${error}`,
+        'update-user-failed',
+        error as Error
+      );
+    }
+  });
+}
+
+/**
+ * Get the aggregated results of a puzzle
+ * @param statsId - Hour stats document ID
+ * @returns Promise resolving to the aggregate or null if nobody finished it yet
+ */
+export async function getHourStatsDocument(statsId: string): Promise<HourStats | null> {
+  return withRetry(async () => {
+    try {
+      const docSnap = await getDoc(doc(getDb(), 'hourStats', statsId));
+      if (!docSnap.exists()) {
+        return null;
+      }
+
+      const data = docSnap.data();
+      return {
+        players: data.players ?? 0,
+        wins: data.wins ?? 0,
+        distribution: data.distribution ?? {},
+        firstGuesses: data.firstGuesses ?? {},
+        updatedAt: data.updatedAt
+      };
+    } catch (error) {
+      if (error instanceof FirestoreError) {
+        throw error;
+      }
+      throw new FirestoreServiceError(
+        `Failed to get hour stats: ${error}`,
+        'get-hour-stats-failed',
+        error as Error
+      );
+    }
+  });
+}
+
+/**
+ * Add a finished game to a puzzle's aggregate
+ * A marker document per player is created in the same batch; security rules
+ * only accept the increments together with a new marker, so each player is
+ * counted once per puzzle
+ * @param statsId - Hour stats document ID
+ * @param uid - Firebase user ID of the player
+ * @param result - Outcome, guesses used and opening guess
+ * @returns Promise resolving to true if counted, false if the player was already counted
+ */
+export async function recordHourResult(
+  statsId: string,
+  uid: string,
+  result: { won: boolean; attempts: number; firstGuess: string }
+): Promise<boolean> {
+  return withRetry(async () => {
+    try {
+      const statsRef = doc(getDb(), 'hourStats', statsId);
+      const batch = writeBatch(getDb());
+
+      // The rules check the aggregate update against this marker
+      batch.set(doc(statsRef, 'players', uid), {
+        won: result.won,
+        attempts: result.attempts,
+        firstGuess: result.firstGuess,
+        completedAt: new Date().toISOString()
+      });
+      batch.set(statsRef, {
+        players: increment(1),
+        wins: increment(result.won ? 1 : 0),
+        distribution: result.won ? { [result.attempts]: increment(1) } : {},
+        firstGuesses: { [result.firstGuess]: increment(1) },
+        updatedAt: new Date().toISOString()
+      }, { merge: true });
+
+      await batch.commit();
+      return true;
+    } catch (error) {
+      if (error instanceof FirestoreError) {
+        if (error.code === 'permission-denied') {
+          // The player's marker already exists
+          return false;
+        }
+        throw error;
+      }
+      throw new FirestoreServiceError(
+        `Failed to record hour result: ${error}`,
+        'record-hour-result-failed',
         error as Error
       );
     }
@@ -222,54 +359,49 @@ export async function saveGameProgress(gameProgress: GameProgress): Promise<stri
 
 /**
  * Test Firestore connection
+ * Reads skip the retry logic so an unreachable backend is detected quickly
  * @returns Promise resolving to boolean indicating connection success
  */
 export async function testConnection(): Promise<boolean> {
   try {
     // Try to read a non-existent document to test connection
-    const testDocRef = doc(db, 'test', 'connection');
+    const testDocRef = doc(getDb(), 'test', 'connection');
     await getDoc(testDocRef);
     return true;
   } catch (error) {
+    // A refused read still means the backend answered
+    if (error instanceof FirestoreError && error.code === 'permission-denied') {
+      return true;
+    }
     console.error('Firestore connection test failed:', error);
     return false;
   }
 }
 
+// Messages of the error codes users can run into
+const FIRESTORE_ERROR_MESSAGES: Partial<Record<FirestoreError['code'], MessageKey>> = {
+  'permission-denied': 'firestore.permissionDenied',
+  'unavailable': 'firestore.unavailable',
+  'deadline-exceeded': 'firestore.deadlineExceeded',
+  'resource-exhausted': 'firestore.resourceExhausted',
+  'unauthenticated': 'firestore.unauthenticated',
+  'not-found': 'firestore.notFound',
+  'already-exists': 'firestore.alreadyExists',
+  'failed-precondition': 'firestore.failedPrecondition',
+  'aborted': 'firestore.aborted',
+  'out-of-range': 'firestore.outOfRange',
+  'unimplemented': 'firestore.unimplemented',
+  'internal': 'firestore.internal',
+  'data-loss': 'firestore.dataLoss'
+};
+
 /**
  * Get Firestore error message in user-friendly format
  * @param error - Firestore error
+ * @param locale - Interface locale (defaults to English)
  * @returns User-friendly error message
  */
-export function getFirestoreErrorMessage(error: FirestoreError): string {
-  switch (error.code) {
-    case 'permission-denied':
-      return 'Access denied. Please check your permissions.';
-    case 'unavailable':
-      return 'Service temporarily unavailable. Please try again.';
-    case 'deadline-exceeded':
-      return 'Request timed out. Please try again.';
-    case 'resource-exhausted':
-      return 'Service is busy. Please try again later.';
-    case 'unauthenticated':
-      return 'Authentication required.';
-    case 'not-found':
-      return 'Requested data not found.';
-    case 'already-exists':
-      return 'Data already exists.';
-    case 'failed-precondition':
-      return 'Operation not allowed in current state.';
-    case 'aborted':
-      return 'Operation was aborted. Please try again.';
-    case 'out-of-range':
-      return 'Invalid request parameters.';
-    case 'unimplemented':
-      return 'Feature not implemented.';
-    case 'internal':
-      return 'Internal server error. Please try again.';
-    case 'data-loss':
-      return 'Data corruption detected.';
-    default:
-      return `An error occurred: ${error.message}`;
-  }
+export function getFirestoreErrorMessage(error: FirestoreError, locale: string = DEFAULT_LOCALE): string {
+  const key = FIRESTORE_ERROR_MESSAGES[error.code];
+  return key ? translate(locale, key) : translate(locale, 'firestore.unknown', { message: error.message });
 }
\ No newline at end of file
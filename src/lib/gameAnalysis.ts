@@ -0,0 +1,178 @@
+import type { LetterFeedback } from '../types/game';
+import { loadDictionary } from './dictionary';
+import { evaluateGuess } from './wordEvaluation';
+import { filterCandidates, getGuessEntropy, rankGuesses } from './solver';
+import type { RankedGuess } from './solver';
+import { DEFAULT_LANGUAGE, normalizeWord } from './languages';
+
+/**
+ * Post-game analysis
+ * Replays a finished game against its answer and rates every guess the way
+ * the solver would have played it. Skill compares the information a guess
+ * was expected to give with the best guess available at that point; luck is
+ * how much more (or less) the feedback actually narrowed the words down than
+ * expected. Everything comes from the bundled dictionary, so a review also
+ * works offline.
+ * Ranking every guess is slow on full word lists, so the best opening is
+ * ranked once per dictionary and the review gives the main thread back
+ * between guesses.
+ */
+
+export interface GuessAnalysis {
+  guess: string;
+  // Solutions consistent with the feedback before and after the guess
+  candidatesBefore: number;
+  candidatesAfter: number;
+  // Information the guess was expected to give, in bits
+  expectedBits: number;
+  // Information the feedback actually gave, in bits
+  actualBits: number;
+  // Guess the solver would have played, and what it was expected to give
+  bestGuess: string;
+  bestExpectedBits: number;
+  // 0 to 100; 100 means no guess was expected to give more
+  skill: number;
+  // Bits gained beyond what was expected; negative when unlucky
+  luck: number;
+}
+
+export interface BoardReview {
+  // Guesses played on the board, up to the one that solved it
+  guesses: string[];
+  answer: string;
+}
+
+export interface GameAnalysisOptions {
+  wordLength: number;
+  // Dictionary pack of the puzzle
+  dictionaryVersion: string;
+  language?: string;
+}
+
+// Best opening guess for each dictionary, keyed by language, word length and pack
+const openingRanks = new Map<string, RankedGuess>();
+
+/**
+ * Rate a guess against the best one available
+ * @param expectedBits - Expected information of the guess
+ * @param bestExpectedBits - Expected information of the best guess
+ * @param isCandidate - Whether the guess could have been the answer
+ * @returns Skill from 0 to 100
+ */
+function getSkill(expectedBits: number, bestExpectedBits: number, isCandidate: boolean): number {
+  // With one word left only guessing it is right
+  if (bestExpectedBits === 0) return isCandidate ? 100 : 0;
+  return Math.round(Math.min(1, expectedBits / bestExpectedBits) * 100);
+}
+
+/**
+ * Analyze the guesses of a finished game one at a time
+ * @param guesses - Guesses in the order they were played
+ * @param answer - The answer of the game
+ * @param solutions - Normalized solution words
+ * @param allowed - Normalized words that may be guessed
+ * @param language - Language code of the game
+ * @param getOpening - Best guess against all solutions, used instead of ranking them again
+ * @returns Generator of one analysis per guess
+ */
+function* analyzeGuesses(
+  guesses: string[],
+  answer: string,
+  solutions: string[],
+  allowed: string[],
+  language: string,
+  getOpening?: () => RankedGuess
+): Generator<GuessAnalysis> {
+  const target = normalizeWord(answer, language);
+  // Answers picked outside the solution list still have to be found
+  const words = solutions.includes(target) ? solutions : [...solutions, target];
+  const feedback: LetterFeedback[][] = [];
+  let candidates = words;
+
+  for (const played of guesses) {
+    const guess = normalizeWord(played, language);
+    const best = getOpening && candidates === solutions ? getOpening() : rankGuesses(candidates, allowed, 1)[0];
+    const expectedBits = getGuessEntropy(guess, candidates);
+
+    feedback.push(evaluateGuess(guess, target, language));
+    const remaining = filterCandidates(words, feedback, target.length);
+    const actualBits = Math.log2(candidates.length / Math.max(1, remaining.length));
+
+    yield {
+      guess: guess.toUpperCase(),
+      candidatesBefore: candidates.length,
+      candidatesAfter: remaining.length,
+      expectedBits,
+      actualBits,
+      bestGuess: best.word.toUpperCase(),
+      bestExpectedBits: best.entropy,
+      skill: getSkill(expectedBits, best.entropy, candidates.includes(guess)),
+      luck: actualBits - expectedBits
+    };
+    candidates = remaining;
+  }
+}
+
+/**
+ * Analyze every guess of a finished game
+ * @param guesses - Guesses in the order they were played
+ * @param answer - The answer of the game
+ * @param solutions - Normalized solution words
+ * @param allowed - Normalized words that may be guessed
+ * @param language - Language code of the game (defaults to English)
+ * @returns One analysis per guess
+ */
+export function analyzeGame(
+  guesses: string[],
+  answer: string,
+  solutions: string[],
+  allowed: string[],
+  language: string = DEFAULT_LANGUAGE
+): GuessAnalysis[] {
+  return Array.from(analyzeGuesses(guesses, answer, solutions, allowed, language));
+}
+
+/**
+ * Let the browser handle input and paint before the next piece of work
+ * @returns Promise resolving on a later task
+ */
+function nextTask(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Load the dictionary of a game and analyze the guesses on each of its boards
+ * @param boards - Guesses and answer of every board
+ * @param options - Word length, dictionary pack and language of the game
+ * @returns Promise resolving to one analysis per guess for every board
+ */
+export async function loadGameReview(
+  boards: BoardReview[],
+  options: GameAnalysisOptions
+): Promise<GuessAnalysis[][]> {
+  const { wordLength, dictionaryVersion, language = DEFAULT_LANGUAGE } = options;
+  const dictionary = await loadDictionary(wordLength, dictionaryVersion);
+  const solutions = Array.from(dictionary.solutions, word => normalizeWord(word, language));
+  const allowed = Array.from(dictionary.allowed);
+
+  const openingKey = `${language}:${wordLength}:${dictionaryVersion}`;
+  const getOpening = (): RankedGuess => {
+    let opening = openingRanks.get(openingKey);
+    if (!opening) {
+      [opening] = rankGuesses(solutions, allowed, 1);
+      openingRanks.set(openingKey, opening);
+    }
+    return opening;
+  };
+
+  const reviews: GuessAnalysis[][] = [];
+  for (const { guesses, answer } of boards) {
+    const analyses: GuessAnalysis[] = [];
+    for (const analysis of analyzeGuesses(guesses, answer, solutions, allowed, language, getOpening)) {
+      analyses.push(analysis);
+      await nextTask();
+    }
+    reviews.push(analyses);
+  }
+  return reviews;
+}
@@ -0,0 +1,156 @@
+import type { GameConfig, GameMode } from '../types/game';
+import { isPastHourId } from './timeUtils';
+import { DEFAULT_LANGUAGE, isSupportedLanguage, isSupportedWordLengthForLanguage } from './languages';
+
+/**
+ * Game configuration: language, word length, guess limit, board count and mode for the active variant
+ * The classic single-board 5-letter English hourly game keeps the original storage keys and hour IDs
+ * so existing progress and Firestore documents stay valid
+ */
+
+export const SUPPORTED_WORD_LENGTHS = [4, 5, 6, 7, 8] as const;
+export const SUPPORTED_BOARD_COUNTS = [1, 2, 4, 8] as const;
+export const DEFAULT_WORD_LENGTH = 5;
+export const DEFAULT_MAX_GUESSES = 6;
+
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  wordLength: DEFAULT_WORD_LENGTH,
+  maxGuesses: DEFAULT_MAX_GUESSES,
+  mode: 'hourly',
+  boardCount: 1
+};
+
+export const PROGRESS_STORAGE_KEY = 'mintle-progress';
+const CONFIG_STORAGE_KEY = 'mintle-config';
+
+/**
+ * Check if a word length has a dictionary and can be played
+ * @param length - Word length to check
+ * @returns True if length is supported
+ */
+export function isSupportedWordLength(length: number): boolean {
+  return (SUPPORTED_WORD_LENGTHS as readonly number[]).includes(length);
+}
+
+/**
+ * Check if a number of simultaneous boards can be played
+ * @param count - Board count to check
+ * @returns True if count is supported
+ */
+export function isSupportedBoardCount(count: number): boolean {
+  return (SUPPORTED_BOARD_COUNTS as readonly number[]).includes(count);
+}
+
+/**
+ * Get the guess limit for a number of simultaneous boards
+ * Each extra board adds one guess: 6 for one board, 7 for two, 9 for four, 13 for eight
+ * @param boardCount - Number of boards
+ * @returns Number of guesses allowed
+ */
+export function getMaxGuessesForBoards(boardCount: number): number {
+  return DEFAULT_MAX_GUESSES + boardCount - 1;
+}
+
+/**
+ * Check if a value names a game mode
+ * @param mode - Value to check
+ * @returns True if mode is 'hourly', 'practice', 'archive' or 'custom'
+ */
+export function isGameMode(mode: unknown): mode is GameMode {
+  return mode === 'hourly' || mode === 'practice' || mode === 'archive' || mode === 'custom';
+}
+
+/**
+ * Build a storage key scoped to the configured variant
+ * @param baseKey - Storage key used by the classic game
+ * @param config - Game configuration
+ * @returns Base key for the classic game, suffixed with the language, word length, board count and non-hourly mode otherwise
+ */
+export function storageKeyFor(baseKey: string, config: GameConfig): string {
+  let key = baseKey;
+  if (config.language && config.language !== DEFAULT_LANGUAGE) {
+    key = `${key}-${config.language}`;
+  }
+  if (config.wordLength !== DEFAULT_WORD_LENGTH) {
+    key = `${key}-${config.wordLength}`;
+  }
+  if (config.boardCount > 1) {
+    key = `${key}-x${config.boardCount}`;
+  }
+  if (config.mode !== 'hourly') {
+    key = `${key}-${config.mode}`;
+  }
+  return key;
+}
+
+/**
+ * Build the in-progress game storage key for the configured variant
+ * Archive games keep separate progress for every replayed hour, custom games for every puzzle
+ * @param config - Game configuration
+ * @returns Progress storage key
+ */
+export function progressKeyFor(config: GameConfig): string {
+  const key = storageKeyFor(PROGRESS_STORAGE_KEY, config);
+  if (config.mode === 'archive' && config.archiveHourId) {
+    return `${key}-${config.archiveHourId}`;
+  }
+  if (config.mode === 'custom' && config.customPuzzle) {
+    return `${key}-${config.customPuzzle.id}`;
+  }
+  return key;
+}
+
+/**
+ * Load the saved game configuration
+ * @returns Saved configuration, or the default if none or invalid
+ */
+export function loadGameConfig(): GameConfig {
+  try {
+    const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<GameConfig>;
+      const language = isSupportedLanguage(parsed.language) ? parsed.language : DEFAULT_LANGUAGE;
+      if (typeof parsed.wordLength === 'number' && isSupportedWordLengthForLanguage(parsed.wordLength, language)) {
+        const boardCount = typeof parsed.boardCount === 'number' && isSupportedBoardCount(parsed.boardCount)
+          ? parsed.boardCount
+          : DEFAULT_GAME_CONFIG.boardCount;
+        const base: GameConfig = {
+          ...DEFAULT_GAME_CONFIG,
+          wordLength: parsed.wordLength,
+          boardCount,
+          maxGuesses: getMaxGuessesForBoards(boardCount),
+          // Only set for other languages so English configs stay as they were
+          ...(language !== DEFAULT_LANGUAGE && { language })
+        };
+
+        // Archive games are only restored while their hour is still in the past
+        if (parsed.mode === 'archive' && typeof parsed.archiveHourId === 'string' && isPastHourId(parsed.archiveHourId)) {
+          return { ...base, mode: 'archive', archiveHourId: parsed.archiveHourId };
+        }
+
+        // Custom games are only opened from their link
+        return {
+          ...base,
+          mode: isGameMode(parsed.mode) && parsed.mode !== 'archive' && parsed.mode !== 'custom'
+            ? parsed.mode
+            : DEFAULT_GAME_CONFIG.mode
+        };
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load game config:', error);
+  }
+  return DEFAULT_GAME_CONFIG;
+}
+
+/**
+ * Save the game configuration
+ * @param config - Game configuration to persist
+ */
+export function saveGameConfig(config: GameConfig): void {
+  try {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Failed to save game config:', error);
+  }
+}
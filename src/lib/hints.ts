@@ -0,0 +1,152 @@
+import type { Hint, HintTier, LetterFeedback } from '../types/game';
+import { loadDictionary } from './dictionary';
+import { validateHardModeGuess } from './constraints';
+import { filterCandidates, rankGuesses } from './solver';
+import { evaluateGuess } from './wordEvaluation';
+import { DEFAULT_LANGUAGE, normalizeWord } from './languages';
+import type { MessageKey } from './i18n';
+
+/**
+ * Tiered hints
+ * Counting the remaining words and suggesting the best probe only need the
+ * feedback, so the solver works them out on the device. Letters of the word
+ * can only come from whoever holds the answer, so the evaluator answers
+ * those through getLetterHint.
+ */
+
+// Hints only whoever holds the answer can give
+export type LetterHint = Extract<Hint, { tier: 'letter' | 'position' }>;
+
+// Letters of a word one board can be given by letter and position hints
+export const MAX_LETTER_HINTS = 2;
+
+// From the weakest hint to the strongest
+export const HINT_TIERS: HintTier[] = ['count', 'letter', 'position', 'probe'];
+
+export const HINT_TIER_LABELS: Record<HintTier, MessageKey> = {
+  count: 'hint.tier.count',
+  letter: 'hint.tier.letter',
+  position: 'hint.tier.position',
+  probe: 'hint.tier.probe'
+};
+
+export interface SolverHintOptions {
+  wordLength: number;
+  // Dictionary pack of the puzzle
+  dictionaryVersion: string;
+  language?: string;
+  // Probes must then keep to the revealed letters, like any other guess
+  hardMode?: boolean;
+}
+
+/**
+ * Check whether a value is a hint tier
+ * @param value - Value read from storage
+ * @returns True for a known hint tier
+ */
+export function isHintTier(value: unknown): value is HintTier {
+  return HINT_TIERS.includes(value as HintTier);
+}
+
+/**
+ * Pick the stronger of two hint tiers, the one a game is marked with
+ * @param current - Strongest tier taken so far, if any
+ * @param next - Tier just taken
+ * @returns The stronger tier
+ */
+export function getStrongerHintTier(current: HintTier | undefined, next: HintTier): HintTier {
+  if (!current) return next;
+  return HINT_TIERS.indexOf(next) > HINT_TIERS.indexOf(current) ? next : current;
+}
+
+/**
+ * Work out a hint that only needs the feedback so far
+ * @param tier - Count of the remaining words, or the best probe to guess next
+ * @param guesses - Guesses so far
+ * @param feedback - Feedback for each guess on the board
+ * @param options - Word length, dictionary pack, language and hard mode of the game
+ * @returns Promise resolving to the hint, or null if no word fits the feedback
+ */
+export async function getSolverHint(
+  tier: 'count' | 'probe',
+  guesses: string[],
+  feedback: LetterFeedback[][],
+  options: SolverHintOptions
+): Promise<Hint | null> {
+  const { wordLength, dictionaryVersion, language = DEFAULT_LANGUAGE, hardMode = false } = options;
+  const dictionary = await loadDictionary(wordLength, dictionaryVersion);
+  const solutions = Array.from(dictionary.solutions, word => normalizeWord(word, language));
+  const candidates = filterCandidates(
+    solutions,
+    feedback,
+    wordLength,
+    guesses.map(guess => normalizeWord(guess, language))
+  );
+
+  if (candidates.length === 0) return null;
+  if (tier === 'count') {
+    return { tier, candidates: candidates.length };
+  }
+
+  const probes = Array.from(dictionary.allowed)
+    .filter(word => !hardMode || validateHardModeGuess(word, feedback) === null);
+  const [best] = rankGuesses(candidates, probes, 1);
+  return { tier, word: best.word.toUpperCase(), candidates: candidates.length };
+}
+
+/**
+ * Pick a letter of the answer the guesses have not shown yet
+ * Letter hints name a letter missing from every guess; position hints place
+ * the letter of the first position no guess has found. A letter hint falls
+ * back to a position once every letter of the word has been seen
+ * @param word - The answer
+ * @param guesses - Guesses so far
+ * @param tier - Letter or position hint
+ * @param language - Language code of the puzzle (defaults to English)
+ * @returns The hint, or null if the guesses already show the whole word
+ */
+export function getLetterHint(
+  word: string,
+  guesses: string[],
+  tier: 'letter' | 'position',
+  language: string = DEFAULT_LANGUAGE
+): LetterHint | null {
+  const answer = normalizeWord(word, language);
+  const letters = Array.from(answer);
+  const foundPositions = new Set<number>();
+  const seenLetters = new Set<string>();
+
+  for (const guess of guesses) {
+    evaluateGuess(guess, answer, language).forEach(({ letter, status }, position) => {
+      if (status === 'correct') foundPositions.add(position);
+      if (status !== 'absent') seenLetters.add(normalizeWord(letter, language));
+    });
+  }
+
+  if (tier === 'letter') {
+    const letter = letters.find(candidate => !seenLetters.has(candidate));
+    if (letter) {
+      return { tier, letter: letter.toUpperCase() };
+    }
+  }
+
+  const position = letters.findIndex((_, index) => !foundPositions.has(index));
+  if (position === -1) return null;
+  return { tier: 'position', letter: letters[position].toUpperCase(), position };
+}
+
+/**
+ * Count a letter hint against a board's allowance
+ * Asking again before new guesses gives the same hint, which is only counted once
+ * @param given - Keys of the letter hints already given on the board; updated in place
+ * @param hint - Letter or position hint about to be given
+ * @returns True if the hint may be given
+ */
+export function takeLetterHint(given: Set<string>, hint: LetterHint): boolean {
+  const key = hint.tier === 'position' ? `position:${hint.position}` : `letter:${hint.letter}`;
+  if (given.has(key)) return true;
+  if (given.size >= MAX_LETTER_HINTS) return false;
+
+  given.add(key);
+  return true;
+}
@@ -0,0 +1,122 @@
+import type { GameConfig, HourStats } from '../types/game';
+import { getHourStatsDocument, recordHourResult } from './firestoreService';
+import { getWordDocumentId } from './wordManager';
+import { getCurrentUser } from './auth';
+import { isFirebaseConfigured } from './firebase';
+
+/**
+ * Global results per puzzle ("how everyone did")
+ * Every finished hourly or archive game is added once per player to an
+ * aggregate document; practice and custom games have no shared puzzle and
+ * are left out.
+ */
+
+export interface HourStatsSummary {
+  players: number;
+  winPercentage: number;
+  // Wins per guesses-to-solve; index 0 holds wins in one guess
+  distribution: number[];
+  mostCommonFirstGuess: { word: string; count: number } | null;
+}
+
+/**
+ * Get the aggregate document ID of a puzzle
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param config - Game configuration (language, word length and board count select the variant)
+ * @returns Document ID like "2025092323", "2025092323-es", "2025092323-L6" or "2025092323-x4"
+ */
+export function getHourStatsId(hourId: string, config: GameConfig): string {
+  const puzzleId = getWordDocumentId(hourId, config.wordLength, 1, 0, config.language);
+  return config.boardCount > 1 ? `${puzzleId}-x${config.boardCount}` : puzzleId;
+}
+
+/**
+ * Check whether a game variant has global results
+ * @param config - Game configuration
+ * @returns True for hourly and archive games when Firebase is configured
+ */
+export function hasHourStats(config: GameConfig): boolean {
+  return isFirebaseConfigured && (config.mode === 'hourly' || config.mode === 'archive');
+}
+
+/**
+ * Turn a stored aggregate into what the result panel shows
+ * @param stats - Aggregate document
+ * @param maxGuesses - Number of guesses allowed (length of the distribution)
+ * @returns Summary with win percentage, distribution and most common opening
+ */
+export function summarizeHourStats(stats: HourStats, maxGuesses: number): HourStatsSummary {
+  const distribution = Array.from(
+    { length: maxGuesses },
+    (_, index) => stats.distribution[String(index + 1)] ?? 0
+  );
+
+  let mostCommonFirstGuess: HourStatsSummary['mostCommonFirstGuess'] = null;
+  for (const [word, count] of Object.entries(stats.firstGuesses)) {
+    // Ties go to the alphabetically first word so every player sees the same one
+    if (!mostCommonFirstGuess || count > mostCommonFirstGuess.count ||
+        (count === mostCommonFirstGuess.count && word < mostCommonFirstGuess.word)) {
+      mostCommonFirstGuess = { word, count };
+    }
+  }
+
+  return {
+    players: stats.players,
+    winPercentage: stats.players > 0 ? Math.round((stats.wins / stats.players) * 100) : 0,
+    distribution,
+    mostCommonFirstGuess
+  };
+}
+
+/**
+ * Work out the share of players who did worse than a result
+ * Losses count as worse than any win; a loss beats nobody
+ * @param summary - Puzzle summary
+ * @param won - Whether the player won
+ * @param attempts - Guesses the player used
+ * @returns Percentage of players with a worse result
+ */
+export function getPercentBeaten(summary: HourStatsSummary, won: boolean, attempts: number): number {
+  if (!won || summary.players === 0) return 0;
+
+  const wins = summary.distribution.reduce((total, count) => total + count, 0);
+  const slowerWins = summary.distribution.slice(attempts).reduce((total, count) => total + count, 0);
+  return Math.round(((summary.players - wins + slowerWins) / summary.players) * 100);
+}
+
+/**
+ * Add the player's finished game to the puzzle's global results
+ * @param hourId - Hour ID of the puzzle
+ * @param config - Game configuration
+ * @param guesses - Guesses of the finished game
+ * @param won - Whether the game was won
+ * @returns Promise resolving to true if counted, false if already counted
+ */
+export async function submitHourResult(
+  hourId: string,
+  config: GameConfig,
+  guesses: string[],
+  won: boolean
+): Promise<boolean> {
+  if (!hasHourStats(config) || guesses.length === 0) return false;
+
+  const user = await getCurrentUser();
+  return recordHourResult(getHourStatsId(hourId, config), user.uid, {
+    won,
+    attempts: guesses.length,
+    firstGuess: guesses[0].toUpperCase()
+  });
+}
+
+/**
+ * Load the global results of a puzzle
+ * @param hourId - Hour ID of the puzzle
+ * @param config - Game configuration
+ * @returns Promise resolving to the summary, or null if there are no results
+ */
+export async function loadHourStats(hourId: string, config: GameConfig): Promise<HourStatsSummary | null> {
+  if (!hasHourStats(config)) return null;
+
+  const stats = await getHourStatsDocument(getHourStatsId(hourId, config));
+  return stats ? summarizeHourStats(stats, config.maxGuesses) : null;
+}
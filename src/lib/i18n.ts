@@ -0,0 +1,207 @@
+import en from './locales/en.json';
+import es from './locales/es.json';
+import de from './locales/de.json';
+import ar from './locales/ar.json';
+
+/**
+ * Interface translations
+ * Every user-facing string lives in a message catalog per locale, with
+ * English as the source catalog that other locales fall back to. Messages
+ * use a subset of ICU MessageFormat:
+ * - `{name}` inserts a value (numbers are formatted for the locale)
+ * - `{count, plural, one {# guess} other {# guesses}}` picks a branch by the
+ *   locale's plural rules; `=N` matches an exact number and `#` is the number
+ * - `{position, selectordinal, one {#st} other {#th}}` does the same for ordinals
+ * - `{value, select, a {...} other {...}}` picks a branch by value
+ *
+ * The interface locale is independent of the game language: it follows the
+ * browser unless the player picks one in the settings.
+ */
+
+export type MessageKey = keyof typeof en;
+export type MessageValues = Record<string, string | number>;
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+export type TextDirection = 'ltr' | 'rtl';
+
+export const DEFAULT_LOCALE = 'en';
+
+export const MESSAGE_CATALOGS: Record<string, MessageCatalog> = { en, es, de, ar };
+
+export const SUPPORTED_LOCALES = Object.keys(MESSAGE_CATALOGS);
+
+// Names of the locales in their own language, for the locale picker
+export const LOCALE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+  ar: 'العربية'
+};
+
+const RTL_LOCALES = new Set(['ar']);
+
+/**
+ * Check whether a value is a supported interface locale
+ * @param value - Value to check
+ * @returns True if a message catalog exists for the locale
+ */
+export function isSupportedLocale(value: unknown): value is string {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MESSAGE_CATALOGS, value);
+}
+
+/**
+ * Get the text direction of a locale
+ * @param locale - Interface locale
+ * @returns 'rtl' for right-to-left scripts, otherwise 'ltr'
+ */
+export function getLocaleDirection(locale: string): TextDirection {
+  return RTL_LOCALES.has(locale) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Pick the interface locale from the browser's preferred languages
+ * @param preferred - Language tags in order of preference (defaults to the browser's)
+ * @returns First supported locale by primary language, or English
+ */
+export function detectLocale(preferred: readonly string[] = getBrowserLanguages()): string {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split(/[-_]/)[0];
+    if (isSupportedLocale(language)) {
+      return language;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Get the browser's preferred languages
+ * @returns Language tags in order of preference
+ */
+function getBrowserLanguages(): readonly string[] {
+  if (typeof navigator === 'undefined') return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language].filter(Boolean);
+}
+
+/**
+ * Translate a message
+ * @param locale - Interface locale
+ * @param key - Message key
+ * @param values - Values for the message's arguments
+ * @returns Formatted message, from the English catalog if the locale lacks it
+ */
+export function translate(locale: string, key: MessageKey, values?: MessageValues): string {
+  const catalog = MESSAGE_CATALOGS[locale] ?? en;
+  const template = catalog[key];
+  if (template === undefined) {
+    return formatMessage(en[key] ?? key, values, DEFAULT_LOCALE);
+  }
+  return formatMessage(template, values, locale);
+}
+
+/**
+ * Format an ICU-style message
+ * @param template - Message template
+ * @param values - Values for the message's arguments
+ * @param locale - Locale for plural rules and numbers (defaults to English)
+ * @returns Formatted message; arguments without a value are left as written
+ */
+export function formatMessage(template: string, values: MessageValues = {}, locale: string = DEFAULT_LOCALE): string {
+  return formatPattern(template, values, locale, null);
+}
+
+/**
+ * Format a pattern, replacing `#` with the number of the enclosing plural
+ * @param pattern - Message pattern
+ * @param values - Argument values
+ * @param locale - Locale
+ * @param pound - Formatted number of the enclosing plural, or null outside one
+ * @returns Formatted text
+ */
+function formatPattern(pattern: string, values: MessageValues, locale: string, pound: string | null): string {
+  let result = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === '{') {
+      const end = findClosingBrace(pattern, i);
+      result += formatArgument(pattern.slice(i + 1, end), values, locale, pound);
+      i = end + 1;
+    } else {
+      result += char === '#' && pound !== null ? pound : char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the brace closing the one at a position
+ * @param pattern - Message pattern
+ * @param start - Index of an opening brace
+ * @returns Index of its closing brace
+ * @throws Error if the braces are unbalanced
+ */
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') depth++;
+    if (pattern[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in message: ${pattern}`);
+}
+
+/**
+ * Format one `{...}` argument
+ * @param argument - Text between the braces
+ * @param values - Argument values
+ * @param locale - Locale
+ * @param pound - Formatted number of the enclosing plural, or null outside one
+ * @returns Formatted argument
+ */
+function formatArgument(argument: string, values: MessageValues, locale: string, pound: string | null): string {
+  const [name, type, ...rest] = argument.split(',');
+  const key = name.trim();
+  const value = values[key];
+
+  if (type === undefined) {
+    if (value === undefined) return `{${key}}`;
+    return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+  }
+
+  const branches = parseBranches(rest.join(','));
+  const kind = type.trim();
+  if (kind === 'select') {
+    const branch = branches.get(String(value)) ?? branches.get('other') ?? '';
+    return formatPattern(branch, values, locale, pound);
+  }
+
+  if (kind === 'plural' || kind === 'selectordinal') {
+    const count = Number(value);
+    const category = new Intl.PluralRules(locale, { type: kind === 'plural' ? 'cardinal' : 'ordinal' }).select(count);
+    const branch = branches.get(`=${count}`) ?? branches.get(category) ?? branches.get('other') ?? '';
+    return formatPattern(branch, values, locale, new Intl.NumberFormat(locale).format(count));
+  }
+
+  throw new Error(`Unsupported message argument type: ${kind}`);
+}
+
+/**
+ * Parse the `selector {message}` branches of a plural or select argument
+ * @param text - Branch list
+ * @returns Branch messages by selector
+ */
+function parseBranches(text: string): Map<string, string> {
+  const branches = new Map<string, string>();
+  let i = 0;
+
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open === -1) break;
+    const end = findClosingBrace(text, open);
+    branches.set(text.slice(i, open).trim(), text.slice(open + 1, end));
+    i = end + 1;
+  }
+
+  return branches;
+}
@@ -0,0 +1,151 @@
+import type { KeyboardLayoutPreference, LanguagePack } from '../types/game';
+
+/**
+ * Language packs
+ * A pack bundles what a language needs to be played: the letters that can
+ * be typed, which letters count as the same letter when comparing (Spanish
+ * accented vowels match their base vowel, German umlauts are letters of
+ * their own), the on-screen keyboard and the dictionary of its words.
+ * English keeps the original document IDs, storage keys and dictionaries.
+ */
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const ENGLISH_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const LANGUAGE_PACKS: Record<string, LanguagePack> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    alphabet: ENGLISH_ALPHABET,
+    letterVariants: {},
+    keyboard: [
+      ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
+      ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L'],
+      ['ENTER', 'Z', 'X', 'C', 'V', 'B', 'N', 'M', 'BACKSPACE']
+    ],
+    wordLengths: [4, 5, 6, 7, 8]
+  },
+  es: {
+    code: 'es',
+    name: 'Español',
+    alphabet: 'ABCDEFGHIJKLMNÑOPQRSTUVWXYZ',
+    letterVariants: { 'Á': 'A', 'É': 'E', 'Í': 'I', 'Ó': 'O', 'Ú': 'U', 'Ü': 'U' },
+    keyboard: [
+      ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
+      ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'Ñ'],
+      ['ENTER', 'Z', 'X', 'C', 'V', 'B', 'N', 'M', 'BACKSPACE']
+    ],
+    wordLengths: [5],
+    dictionaryVersion: 'es-v1'
+  },
+  de: {
+    code: 'de',
+    name: 'Deutsch',
+    alphabet: `${ENGLISH_ALPHABET}ÄÖÜ`,
+    letterVariants: {},
+    keyboard: [
+      ['Q', 'W', 'E', 'R', 'T', 'Z', 'U', 'I', 'O', 'P', 'Ü'],
+      ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'Ö', 'Ä'],
+      ['ENTER', 'Y', 'X', 'C', 'V', 'B', 'N', 'M', 'BACKSPACE']
+    ],
+    wordLengths: [5],
+    dictionaryVersion: 'de-v1'
+  }
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGE_PACKS);
+
+/**
+ * Check if a language has a pack and can be played
+ * @param language - Language code to check
+ * @returns True if language is supported
+ */
+export function isSupportedLanguage(language: unknown): language is string {
+  return typeof language === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGE_PACKS, language);
+}
+
+/**
+ * Get the pack of a language
+ * @param language - Language code (defaults to English)
+ * @returns Language pack; English for unknown codes
+ */
+export function getLanguagePack(language: string = DEFAULT_LANGUAGE): LanguagePack {
+  return isSupportedLanguage(language) ? LANGUAGE_PACKS[language] : LANGUAGE_PACKS[DEFAULT_LANGUAGE];
+}
+
+/**
+ * Check if a word length can be played in a language
+ * @param wordLength - Word length to check
+ * @param language - Language code (defaults to English)
+ * @returns True if the language has words of that length
+ */
+export function isSupportedWordLengthForLanguage(wordLength: number, language: string = DEFAULT_LANGUAGE): boolean {
+  return getLanguagePack(language).wordLengths.includes(wordLength);
+}
+
+/**
+ * Normalize a single letter for comparison
+ * @param letter - Letter in any case
+ * @param language - Language code (defaults to English)
+ * @returns Uppercase letter with variants replaced by their alphabet letter
+ */
+export function normalizeLetter(letter: string, language: string = DEFAULT_LANGUAGE): string {
+  const upper = letter.normalize('NFC').toUpperCase();
+  return getLanguagePack(language).letterVariants[upper] ?? upper;
+}
+
+/**
+ * Normalize a word for comparison and dictionary lookups
+ * @param word - Word in any case
+ * @param language - Language code (defaults to English)
+ * @returns Lowercase word with letter variants replaced
+ */
+export function normalizeWord(word: string, language: string = DEFAULT_LANGUAGE): string {
+  return Array.from(word.normalize('NFC'), letter => normalizeLetter(letter, language)).join('').toLowerCase();
+}
+
+/**
+ * Turn typed text into guess letters
+ * Letter variants are replaced and anything outside the alphabet is dropped
+ * @param input - Typed or pasted text
+ * @param language - Language code (defaults to English)
+ * @returns Uppercase guess containing only alphabet letters
+ */
+export function sanitizeGuessInput(input: string, language: string = DEFAULT_LANGUAGE): string {
+  const { alphabet } = getLanguagePack(language);
+  return Array.from(input.normalize('NFC'), letter => normalizeLetter(letter, language))
+    // Some letters uppercase to two (ß → SS); those are not alphabet letters
+    .filter(letter => letter.length === 1 && alphabet.includes(letter))
+    .join('');
+}
+
+/**
+ * Get the rows of the on-screen keyboard
+ * @param language - Language code (defaults to English)
+ * @param layout - The language's own layout, or its alphabet in order (defaults to the language's)
+ * @param swapActionKeys - Put BACKSPACE where ENTER is and the other way round
+ * @returns Rows of keys; ENTER and BACKSPACE are action keys
+ */
+export function getKeyboardLayout(
+  language: string = DEFAULT_LANGUAGE,
+  layout: KeyboardLayoutPreference = 'standard',
+  swapActionKeys: boolean = false
+): string[][] {
+  const pack = getLanguagePack(language);
+  let rows = pack.keyboard;
+
+  if (layout === 'alphabetical') {
+    // Three rows in the language's collation order (Ä after A), action keys around the last one
+    const letters = Array.from(pack.alphabet).sort((a, b) => a.localeCompare(b, pack.code));
+    const rowLength = Math.ceil(letters.length / 3);
+    rows = [
+      letters.slice(0, rowLength),
+      letters.slice(rowLength, rowLength * 2),
+      ['ENTER', ...letters.slice(rowLength * 2), 'BACKSPACE']
+    ];
+  }
+
+  if (!swapActionKeys) return rows;
+  return rows.map(row => row.map(key => key === 'ENTER' ? 'BACKSPACE' : key === 'BACKSPACE' ? 'ENTER' : key));
+}
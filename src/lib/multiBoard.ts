@@ -0,0 +1,130 @@
+import type { BoardState, ColorPalette, LetterFeedback } from '../types/game';
+import { getFeedbackEmoji } from './palettes';
+
+/**
+ * Multi-board game helpers
+ * Every guess is played on all unsolved boards at once. A board stops
+ * collecting feedback once solved, and the game is won when every board is.
+ */
+
+/**
+ * Create unsolved boards for a new game
+ * @param commitments - Answer commitment for each board
+ * @returns One empty board per commitment
+ */
+export function createBoards(commitments: string[]): BoardState[] {
+  return commitments.map(commitment => ({ feedback: [], solvedAt: null, commitment }));
+}
+
+/**
+ * Check whether a feedback row solves its board
+ * @param feedback - Feedback for one guess
+ * @returns True if every letter is correct
+ */
+export function isSolvingFeedback(feedback: LetterFeedback[]): boolean {
+  return feedback.length > 0 && feedback.every(letter => letter.status === 'correct');
+}
+
+/**
+ * Apply a guess's feedback to every board
+ * @param boards - Boards before the guess
+ * @param feedback - Feedback per board, or null for boards that were already solved
+ * @param guessCount - Number of guesses including this one
+ * @returns Updated boards
+ */
+export function applyGuessFeedback(
+  boards: BoardState[],
+  feedback: (LetterFeedback[] | null)[],
+  guessCount: number
+): BoardState[] {
+  return boards.map((board, index) => {
+    const row = feedback[index];
+    if (board.solvedAt !== null || !row) {
+      return board;
+    }
+
+    return {
+      ...board,
+      feedback: [...board.feedback, row],
+      solvedAt: isSolvingFeedback(row) ? guessCount : null
+    };
+  });
+}
+
+/**
+ * Work out the game status from the boards
+ * @param boards - Current boards
+ * @param guessCount - Number of guesses made
+ * @param maxGuesses - Number of guesses allowed
+ * @returns 'won' when all boards are solved, 'lost' when guesses run out, otherwise 'playing'
+ */
+export function getMultiBoardStatus(
+  boards: BoardState[],
+  guessCount: number,
+  maxGuesses: number
+): 'playing' | 'won' | 'lost' {
+  if (boards.every(board => board.solvedAt !== null)) return 'won';
+  if (guessCount >= maxGuesses) return 'lost';
+  return 'playing';
+}
+
+/**
+ * Get the guesses that count towards a board, used to reveal its answer
+ * @param board - Board state
+ * @param guesses - All guesses of the game
+ * @returns Guesses up to and including the one that solved the board
+ */
+export function getBoardGuesses(board: BoardState, guesses: string[]): string[] {
+  return board.solvedAt !== null ? guesses.slice(0, board.solvedAt) : guesses;
+}
+
+/**
+ * Arrange boards in a grid that stays readable on screen
+ * @param boardCount - Number of boards
+ * @returns Number of board columns and rows
+ */
+export function getBoardLayout(boardCount: number): { columns: number; rows: number } {
+  const columns = Math.min(boardCount, boardCount > 4 ? 4 : 2);
+  return { columns, rows: Math.ceil(boardCount / columns) };
+}
+
+const DIGIT_EMOJI = ['0️⃣', '1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣', '🔟'];
+
+/**
+ * Format how many guesses a board took, e.g. "4️⃣" or "🟥" if unsolved
+ * @param board - Board state
+ * @returns Emoji score
+ */
+function formatBoardScore(board: BoardState): string {
+  if (board.solvedAt === null) return '🟥';
+  return DIGIT_EMOJI[board.solvedAt] ?? String(board.solvedAt);
+}
+
+/**
+ * Build the combined share grid for a multi-board game
+ * Boards are laid out two per row; each pair starts with the boards' scores,
+ * and rows after a board was solved are padded with black squares
+ * @param boards - Final boards
+ * @param wordLength - Word length
+ * @param palette - Palette whose squares are used (defaults to green and yellow)
+ * @returns Share grid text
+ */
+export function buildMultiBoardShareGrid(boards: BoardState[], wordLength: number, palette: ColorPalette = 'default'): string {
+  const blankRow = '⬛'.repeat(wordLength);
+  const sections: string[] = [];
+
+  for (let i = 0; i < boards.length; i += 2) {
+    const pair = boards.slice(i, i + 2);
+    const rowCount = Math.max(...pair.map(board => board.feedback.length));
+    const lines = [pair.map(formatBoardScore).join(' ')];
+
+    for (let row = 0; row < rowCount; row++) {
+      lines.push(pair
+        .map(board => board.feedback[row]?.map(letter => getFeedbackEmoji(letter.status, palette)).join('') ?? blankRow)
+        .join(' '));
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
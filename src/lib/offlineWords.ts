@@ -0,0 +1,111 @@
+import type { WordDocument } from '../types/game';
+import { FirestoreServiceError, testConnection } from './firestoreService';
+import type { WordStoreKind } from './wordStore';
+
+/**
+ * Offline state of the word store
+ * When the store cannot be reached, hourly words are computed locally from
+ * the seed schedule. The documents built for them are kept as pending until
+ * the store is reachable again, then checked against the stored words.
+ */
+
+export const PENDING_WORDS_STORAGE_KEY = 'mintle-offline-words';
+
+// Error codes meaning the store could not be reached, as opposed to refusing a request
+const UNAVAILABLE_CODES = new Set(['unavailable', 'deadline-exceeded', 'max-retries-exceeded']);
+
+let offline = false;
+
+/**
+ * Check whether words are currently computed locally
+ * @returns True while the word store is considered unreachable
+ */
+export function isOfflineMode(): boolean {
+  return offline;
+}
+
+/**
+ * Switch offline mode on or off
+ * @param enabled - Whether the word store is unreachable
+ */
+export function setOfflineMode(enabled: boolean): void {
+  offline = enabled;
+}
+
+/**
+ * Check whether an error means the word store could not be reached
+ * @param error - Error thrown by a word store
+ * @returns True for network failures and exhausted retries
+ */
+export function isStoreUnavailableError(error: unknown): boolean {
+  if (error instanceof FirestoreServiceError) {
+    return UNAVAILABLE_CODES.has(error.code);
+  }
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Check whether the word store can be reached
+ * Only Firestore can be unreachable; local backends always answer
+ * @param kind - Backend of the word store
+ * @returns Promise resolving to true if the store is reachable
+ */
+export async function checkWordStoreConnection(kind: WordStoreKind): Promise<boolean> {
+  if (kind !== 'firestore') return true;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+  return testConnection();
+}
+
+/**
+ * Load the word documents created while offline
+ * @returns Pending documents keyed by document ID
+ */
+export function loadPendingWords(): Record<string, WordDocument> {
+  try {
+    const saved = localStorage.getItem(PENDING_WORDS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) as Record<string, WordDocument> : {};
+  } catch (error) {
+    console.error('Failed to load offline words:', error);
+    return {};
+  }
+}
+
+/**
+ * Persist the pending word documents
+ * @param pending - Pending documents keyed by document ID
+ */
+function savePendingWords(pending: Record<string, WordDocument>): void {
+  try {
+    if (Object.keys(pending).length === 0) {
+      localStorage.removeItem(PENDING_WORDS_STORAGE_KEY);
+    } else {
+      localStorage.setItem(PENDING_WORDS_STORAGE_KEY, JSON.stringify(pending));
+    }
+  } catch (error) {
+    console.error('Failed to save offline words:', error);
+  }
+}
+
+/**
+ * Remember a word document created while offline (the first one per ID is kept)
+ * @param documentId - Word document ID
+ * @param wordDoc - Document built from the locally computed word
+ */
+export function addPendingWord(documentId: string, wordDoc: WordDocument): void {
+  const pending = loadPendingWords();
+  if (!pending[documentId]) {
+    savePendingWords({ ...pending, [documentId]: wordDoc });
+  }
+}
+
+/**
+ * Forget a pending word document once it has been checked
+ * @param documentId - Word document ID
+ */
+export function removePendingWord(documentId: string): void {
+  const pending = loadPendingWords();
+  if (pending[documentId]) {
+    delete pending[documentId];
+    savePendingWords(pending);
+  }
+}
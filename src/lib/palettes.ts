@@ -0,0 +1,96 @@
+import type { ColorPalette, LetterFeedback } from '../types/game';
+
+/**
+ * Color palettes
+ * Tile and key colors are CSS custom properties set by ResponsiveContainer,
+ * with the default colors as fallbacks in the component styles. The default
+ * palette sets none, so it follows the system's light or dark mode. Each
+ * palette also has the emoji squares used for its share grid.
+ */
+
+type PaletteColor =
+  | 'tile-correct'
+  | 'tile-present'
+  | 'tile-absent'
+  | 'tile-empty'
+  | 'tile-empty-border'
+  | 'tile-pending-border'
+  | 'tile-text'
+  | 'key-unused'
+  | 'key-text';
+
+interface PaletteDefinition {
+  colors: Partial<Record<PaletteColor, string>>;
+  emoji: Record<LetterFeedback['status'], string>;
+}
+
+export const COLOR_PALETTES: readonly ColorPalette[] = ['default', 'high-contrast', 'deuteranopia', 'dark'];
+
+const PALETTES: Record<ColorPalette, PaletteDefinition> = {
+  'default': {
+    colors: {},
+    emoji: { correct: '🟩', present: '🟨', absent: '⬜' }
+  },
+  'high-contrast': {
+    colors: {
+      'tile-correct': '#f5793a',
+      'tile-present': '#85c0f9'
+    },
+    emoji: { correct: '🟧', present: '🟦', absent: '⬜' }
+  },
+  // Vermillion and sky blue stay apart for red-green color blindness
+  'deuteranopia': {
+    colors: {
+      'tile-correct': '#d55e00',
+      'tile-present': '#56b4e9'
+    },
+    emoji: { correct: '🟧', present: '🟦', absent: '⬜' }
+  },
+  // Dark mode colors whatever the system's setting
+  'dark': {
+    colors: {
+      'tile-correct': '#538d4e',
+      'tile-present': '#b59f3b',
+      'tile-absent': '#3a3a3c',
+      'tile-empty': '#121213',
+      'tile-empty-border': '#3a3a3c',
+      'tile-pending-border': '#565758',
+      'tile-text': '#ffffff',
+      'key-unused': '#818384',
+      'key-text': '#ffffff'
+    },
+    emoji: { correct: '🟩', present: '🟨', absent: '⬛' }
+  }
+};
+
+/**
+ * Check whether a value is a known palette
+ * @param value - Value to check
+ * @returns True if the value names a palette
+ */
+export function isColorPalette(value: unknown): value is ColorPalette {
+  return COLOR_PALETTES.includes(value as ColorPalette);
+}
+
+/**
+ * Get the CSS custom properties of a palette
+ * @param palette - Palette name
+ * @returns Custom property values by property name, e.g. `--tile-correct`
+ */
+export function getPaletteProperties(palette: ColorPalette): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [name, value] of Object.entries(PALETTES[palette].colors)) {
+    properties[`--${name}`] = value;
+  }
+  return properties;
+}
+
+/**
+ * Get the share grid square for a letter's feedback
+ * @param status - Letter status
+ * @param palette - Palette the player sees (defaults to green and yellow)
+ * @returns Emoji square in the palette's colors
+ */
+export function getFeedbackEmoji(status: LetterFeedback['status'], palette: ColorPalette = 'default'): string {
+  return PALETTES[palette].emoji[status];
+}
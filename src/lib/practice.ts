@@ -0,0 +1,26 @@
+/**
+ * Practice mode helpers
+ * Practice games use a random local word instead of the hourly Firestore word.
+ * Their IDs take the place of hour IDs in progress and history records and
+ * sort in the order the games were started.
+ */
+
+const PRACTICE_ID_PREFIX = 'practice-';
+
+/**
+ * Create an ID for a new practice game
+ * @param now - Date object (defaults to current time)
+ * @returns ID like "practice-1758726000000"
+ */
+export function createPracticeGameId(now: Date = new Date()): string {
+  return `${PRACTICE_ID_PREFIX}${String(now.getTime()).padStart(13, '0')}`;
+}
+
+/**
+ * Check whether an ID belongs to a practice game
+ * @param id - Hour ID or practice game ID
+ * @returns True if the ID was created by createPracticeGameId
+ */
+export function isPracticeGameId(id: string): boolean {
+  return id.startsWith(PRACTICE_ID_PREFIX);
+}
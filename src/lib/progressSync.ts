@@ -0,0 +1,266 @@
+import type { GameHistory, GameProgress, GameRecord, HintTier, UserDocument } from '../types/game';
+import { HISTORY_VERSION, loadGameHistory, saveGameHistory } from './statistics';
+import { updateUserDocument } from './firestoreService';
+import { getCurrentUser } from './auth';
+import { isFirebaseConfigured } from './firebase';
+import { getStrongerHintTier, isHintTier } from './hints';
+import { isPracticeGameId } from './practice';
+import { isCustomGameId } from './customPuzzle';
+
+/**
+ * Cross-device progress sync
+ * localStorage stays the source the game plays from; each sync merges it with
+ * the player's Firestore document and writes the result to both sides.
+ * Conflicts are resolved without asking the player:
+ * - progress on the same puzzle keeps the longer guess list when one extends the other
+ * - a finished game beats an unfinished one, and the latest finished game wins
+ * - history records are combined, keeping the latest record for each hour
+ * Everything lives in one users document, so only what another device needs
+ * is kept there: practice, custom and finished archive games stay local, and
+ * each history keeps its most recent records.
+ */
+
+// Most recent history records kept in the user document for each variant
+export const MAX_SYNCED_RECORDS = 100;
+
+/**
+ * Check whether one guess list starts with another
+ * @param prefix - Shorter guess list
+ * @param guesses - Longer guess list
+ * @returns True if guesses begins with every guess of prefix
+ */
+function isGuessPrefix(prefix: string[], guesses: string[]): boolean {
+  return prefix.length <= guesses.length && prefix.every((guess, index) => guess === guesses[index]);
+}
+
+/**
+ * Pick the more recently played of two progress entries
+ * @param a - First progress
+ * @param b - Second progress
+ * @returns The entry with the later lastPlayed timestamp (a on ties)
+ */
+function latestPlayed(a: GameProgress, b: GameProgress): GameProgress {
+  return b.lastPlayed > a.lastPlayed ? b : a;
+}
+
+/**
+ * Merge two saved games of the same storage slot
+ * @param local - Progress stored on this device
+ * @param remote - Progress stored in Firestore
+ * @returns Merged progress, or null if neither side has any
+ */
+export function mergeGameProgress(
+  local: GameProgress | null,
+  remote: GameProgress | null
+): GameProgress | null {
+  if (!local || !remote) return local ?? remote;
+
+  // Different puzzles in the same slot: the one played last is current
+  if (local.hourId !== remote.hourId) {
+    return latestPlayed(local, remote);
+  }
+
+  const localFinished = local.gameStatus !== 'playing';
+  const remoteFinished = remote.gameStatus !== 'playing';
+
+  let merged: GameProgress;
+  if (localFinished && remoteFinished) {
+    merged = latestPlayed(local, remote);
+  } else if (localFinished || remoteFinished) {
+    merged = localFinished ? local : remote;
+  } else if (isGuessPrefix(remote.guesses, local.guesses)) {
+    // Also covers equal guess lists, which keep this device's copy
+    merged = local;
+  } else if (isGuessPrefix(local.guesses, remote.guesses)) {
+    merged = remote;
+  } else {
+    // Guesses diverged on two devices; keep the game touched last
+    merged = latestPlayed(local, remote);
+  }
+
+  return {
+    ...merged,
+    hintUsed: !!(local.hintUsed || remote.hintUsed),
+    hintTier: [local.hintTier, remote.hintTier]
+      .filter(isHintTier)
+      .reduce<HintTier | undefined>(getStrongerHintTier, undefined),
+    lastPlayed: latestPlayed(local, remote).lastPlayed
+  };
+}
+
+/**
+ * Check whether two saved games would load as the same game
+ * Compared field by field, since stored copies may list their keys in any order
+ * @param a - First progress
+ * @param b - Second progress
+ * @returns True if the puzzle, guesses, status, hints and hard mode all match
+ */
+export function isSameProgress(a: GameProgress | null, b: GameProgress | null): boolean {
+  if (!a || !b) return a === b;
+  return a.hourId === b.hourId &&
+    a.gameStatus === b.gameStatus &&
+    a.guesses.length === b.guesses.length && isGuessPrefix(a.guesses, b.guesses) &&
+    !!a.hintUsed === !!b.hintUsed &&
+    a.hintTier === b.hintTier &&
+    !!a.hardMode === !!b.hardMode &&
+    (a.practiceWords ?? []).join() === (b.practiceWords ?? []).join();
+}
+
+/**
+ * Check whether two lists hold the same finished games, in any order
+ * @param a - First records
+ * @param b - Second records
+ * @returns True if every hour has a record completed at the same time with the same outcome in both
+ */
+export function isSameRecords(a: GameRecord[], b: GameRecord[]): boolean {
+  if (a.length !== b.length) return false;
+
+  const byHour = new Map(a.map(record => [record.hourId, record]));
+  return b.every(record => {
+    const other = byHour.get(record.hourId);
+    return !!other && other.completedAt === record.completedAt && other.outcome === record.outcome;
+  });
+}
+
+/**
+ * Merge two lists of finished games
+ * @param local - Records stored on this device
+ * @param remote - Records stored in Firestore
+ * @returns One record per hour ID, the latest completed one, sorted by hour ID
+ */
+export function mergeGameRecords(local: GameRecord[], remote: GameRecord[]): GameRecord[] {
+  const byHour = new Map<string, GameRecord>();
+
+  for (const record of [...remote, ...local]) {
+    const existing = byHour.get(record.hourId);
+    if (!existing || record.completedAt > existing.completedAt) {
+      byHour.set(record.hourId, record);
+    }
+  }
+
+  return [...byHour.values()].sort((a, b) => a.hourId.localeCompare(b.hourId));
+}
+
+/**
+ * Check whether saved progress belongs in the user document
+ * @param progressKey - localStorage key of the progress
+ * @param progress - Saved progress
+ * @returns False for practice and custom games and for finished archive games, which only the history needs
+ */
+export function isSyncedProgress(progressKey: string, progress: GameProgress): boolean {
+  if (isPracticeGameId(progress.hourId) || isCustomGameId(progress.hourId)) return false;
+  return progress.gameStatus === 'playing' || !progressKey.endsWith(`-archive-${progress.hourId}`);
+}
+
+/**
+ * Keep the most recently completed records of a history
+ * @param records - Records sorted by hour ID
+ * @returns At most MAX_SYNCED_RECORDS records, still sorted by hour ID
+ */
+function latestRecords(records: GameRecord[]): GameRecord[] {
+  if (records.length <= MAX_SYNCED_RECORDS) return records;
+
+  const kept = new Set(
+    [...records]
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+      .slice(0, MAX_SYNCED_RECORDS)
+  );
+  return records.filter(record => kept.has(record));
+}
+
+/**
+ * Read the raw saved progress of a storage slot
+ * @param progressKey - localStorage key of the progress
+ * @returns Saved progress, or null if missing or unreadable
+ */
+function readLocalProgress(progressKey: string): GameProgress | null {
+  try {
+    const saved = localStorage.getItem(progressKey);
+    return saved ? JSON.parse(saved) as GameProgress : null;
+  } catch (error) {
+    console.error('Failed to read progress for sync:', error);
+    return null;
+  }
+}
+
+/**
+ * Merge this device's data for one game variant into a user document
+ * Entries left by older versions that should not be synced are dropped on the way
+ * @param current - Stored user document (null if the player has none yet)
+ * @param progressKey - localStorage key of the variant's progress
+ * @param historyKey - localStorage key of the variant's history
+ * @param now - Date object (defaults to current time)
+ * @returns Updated user document
+ */
+export function mergeIntoUserDocument(
+  current: UserDocument | null,
+  progressKey: string,
+  historyKey: string,
+  now: Date = new Date()
+): UserDocument {
+  const progress: Record<string, GameProgress> = {};
+  for (const [key, entry] of Object.entries(current?.progress ?? {})) {
+    if (isSyncedProgress(key, entry)) progress[key] = entry;
+  }
+
+  const mergedProgress = mergeGameProgress(readLocalProgress(progressKey), progress[progressKey] ?? null);
+  if (mergedProgress && isSyncedProgress(progressKey, mergedProgress)) {
+    progress[progressKey] = mergedProgress;
+  } else {
+    delete progress[progressKey];
+  }
+
+  const history: Record<string, GameHistory> = {};
+  for (const [key, entry] of Object.entries(current?.history ?? {})) {
+    history[key] = entry.version === HISTORY_VERSION
+      ? { version: HISTORY_VERSION, records: latestRecords(entry.records) }
+      : entry;
+  }
+
+  const remoteHistory = history[historyKey];
+  const remoteRecords = remoteHistory?.version === HISTORY_VERSION ? remoteHistory.records : [];
+  history[historyKey] = {
+    version: HISTORY_VERSION,
+    records: latestRecords(mergeGameRecords(loadGameHistory(historyKey).records, remoteRecords))
+  };
+
+  return { progress, history, updatedAt: now.toISOString() };
+}
+
+/**
+ * Sync one game variant's progress and history with the player's account
+ * @param progressKey - localStorage key of the variant's progress
+ * @param historyKey - localStorage key of the variant's history
+ * @returns Promise resolving to true if this device's data changed (always false without Firebase)
+ */
+export async function syncGameData(progressKey: string, historyKey: string): Promise<boolean> {
+  if (!isFirebaseConfigured) return false;
+
+  const user = await getCurrentUser();
+  const synced = await updateUserDocument(
+    user.uid,
+    current => mergeIntoUserDocument(current, progressKey, historyKey)
+  );
+
+  // Merge again with local data, which may have moved on while syncing
+  let changed = false;
+
+  const localProgress = readLocalProgress(progressKey);
+  const progress = mergeGameProgress(localProgress, synced.progress[progressKey] ?? null);
+  if (progress && !isSameProgress(progress, localProgress)) {
+    localStorage.setItem(progressKey, JSON.stringify(progress));
+    changed = true;
+  }
+
+  const localHistory = loadGameHistory(historyKey);
+  const history: GameHistory = {
+    version: HISTORY_VERSION,
+    records: mergeGameRecords(localHistory.records, synced.history[historyKey]?.records ?? [])
+  };
+  if (!isSameRecords(history.records, localHistory.records)) {
+    saveGameHistory(history, historyKey);
+    changed = true;
+  }
+
+  return changed;
+}
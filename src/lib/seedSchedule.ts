@@ -0,0 +1,89 @@
+import scheduleData from './seed-schedule.json';
+import type { SchedulerOptions } from './solutionScheduler';
+
+/**
+ * Published seed schedule for hourly words
+ * Words are picked deterministically from the solution list with a seed built
+ * from the puzzle's document ID, so every client can compute the same word
+ * without the word store. Changing how seeds are built must not change past
+ * puzzles: add a new entry starting at a future hour instead of editing one.
+ *
+ * Entries pick words with one of two schedulers:
+ * - `hash`: hash of the seed modulo the solution count (words can repeat)
+ * - `permutation`: seeded shuffle starting at the entry's start hour, so no
+ *   word repeats before the whole list is used (see solutionScheduler.ts)
+ *
+ * Each entry also names the dictionary pack its words come from, so shipping
+ * a new pack takes effect at a scheduled hour.
+ */
+
+export type SolutionSchedulerKind = 'hash' | 'permutation';
+
+export interface SeedScheduleEntry {
+  version: number;
+  // First hour (YYYYMMDDHH) the entry applies to
+  startHourId: string;
+  // Mixed into every seed; empty means the document ID is the seed
+  salt: string;
+  scheduler: SolutionSchedulerKind;
+  // Dictionary pack new words are picked from
+  dictionaryVersion: string;
+}
+
+export const SEED_SCHEDULE: readonly SeedScheduleEntry[] = [...scheduleData.entries as SeedScheduleEntry[]]
+  .sort((a, b) => a.startHourId.localeCompare(b.startHourId));
+
+/**
+ * Get the schedule entry in effect for an hour
+ * Hours before the first entry use the first entry
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param schedule - Seed schedule sorted by start hour (defaults to the published one)
+ * @returns Schedule entry
+ */
+export function getSeedScheduleEntry(
+  hourId: string,
+  schedule: readonly SeedScheduleEntry[] = SEED_SCHEDULE
+): SeedScheduleEntry {
+  let entry = schedule[0];
+  for (const candidate of schedule) {
+    if (candidate.startHourId > hourId) break;
+    entry = candidate;
+  }
+  return entry;
+}
+
+/**
+ * Build the seed that picks a puzzle's word
+ * @param documentId - Word document ID of the puzzle
+ * @param hourId - Hour ID of the puzzle
+ * @param schedule - Seed schedule (defaults to the published one)
+ * @returns Seed for deterministic word selection
+ */
+export function getPuzzleSeed(
+  documentId: string,
+  hourId: string,
+  schedule: readonly SeedScheduleEntry[] = SEED_SCHEDULE
+): string {
+  const { salt } = getSeedScheduleEntry(hourId, schedule);
+  return salt ? `${salt}:${documentId}` : documentId;
+}
+
+/**
+ * Get the permutation scheduler settings of an entry for one game variant
+ * The entry's start hour is the epoch, and each variant shuffles with its own seed
+ * @param entry - Schedule entry
+ * @param wordLength - Word length of the variant
+ * @param boardCount - Board count of the variant
+ * @returns Scheduler options
+ */
+export function getSchedulerOptions(
+  entry: SeedScheduleEntry,
+  wordLength: number,
+  boardCount: number
+): SchedulerOptions {
+  return {
+    epochHourId: entry.startHourId,
+    seed: `${entry.salt}L${wordLength}x${boardCount}`,
+    boardCount
+  };
+}
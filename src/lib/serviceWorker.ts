@@ -0,0 +1,70 @@
+/**
+ * Service worker registration
+ * Production builds register the worker from src/sw.ts. When a new build is
+ * deployed its worker installs in the background and waits; the page is told
+ * so it can offer a reload, which activates the new worker.
+ */
+
+export const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}sw.js`;
+
+/**
+ * Called when a new build is ready; calling activate switches to it and reloads
+ */
+export type ServiceWorkerUpdateHandler = (activate: () => void) => void;
+
+/**
+ * Watch a registration for a new worker that finished installing
+ * @param registration - Service worker registration
+ * @param onUpdate - Called once the new worker is waiting
+ */
+export function watchForUpdates(
+  registration: ServiceWorkerRegistration,
+  onUpdate: ServiceWorkerUpdateHandler
+): void {
+  const notify = (worker: ServiceWorker) => {
+    onUpdate(() => {
+      // Reload once the new worker has taken over so the page runs the new build
+      navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  // A worker may already be waiting from an earlier visit
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    notify(registration.waiting);
+  }
+
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    if (!worker) return;
+
+    worker.addEventListener('statechange', () => {
+      // Without a controller this is the first install, not an update
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+        notify(worker);
+      }
+    });
+  });
+}
+
+/**
+ * Register the service worker in production builds
+ * @param onUpdate - Called when a new build is ready to be activated
+ * @returns Promise resolving to the registration, or null if not registered
+ */
+export async function registerServiceWorker(
+  onUpdate: ServiceWorkerUpdateHandler
+): Promise<ServiceWorkerRegistration | null> {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return null;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    watchForUpdates(registration, onUpdate);
+    return registration;
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+}
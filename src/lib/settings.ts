@@ -0,0 +1,145 @@
+import type { KeyboardLayoutPreference, Settings } from '../types/game';
+import { isSupportedLocale } from './i18n';
+import { isColorPalette } from './palettes';
+
+/**
+ * Player settings
+ * All preferences are stored together under one key with a schema version.
+ * Stored settings of an older version are migrated when loaded, and values
+ * that are missing or invalid fall back to their defaults, so a setting
+ * added later never breaks settings saved before it existed.
+ */
+
+export const SETTINGS_STORAGE_KEY = 'mintle-settings';
+
+export const SETTINGS_VERSION = 2;
+
+export const KEYBOARD_LAYOUTS: readonly KeyboardLayoutPreference[] = ['standard', 'alphabetical'];
+
+export const DEFAULT_SETTINGS: Settings = {
+  hardMode: false,
+  palette: 'default',
+  tilePatterns: false,
+  haptics: true,
+  reducedMotion: false,
+  keyboardLayout: 'standard',
+  showKeyboard: true,
+  swapEnterBackspace: false,
+  showCandidates: false,
+  locale: null
+};
+
+interface StoredSettings {
+  version: number;
+  settings: Record<string, unknown>;
+}
+
+// Preferences stored under their own keys before settings existed
+const LEGACY_HARD_MODE_KEY = 'mintle-hard-mode';
+const LEGACY_LOCALE_KEY = 'mintle-locale';
+
+/**
+ * Keep the valid values of stored settings
+ * @param stored - Stored settings values
+ * @returns Complete settings, with defaults for missing or invalid values
+ */
+export function sanitizeSettings(stored: Record<string, unknown>): Settings {
+  const settings: Settings = { ...DEFAULT_SETTINGS };
+
+  for (const key of ['hardMode', 'tilePatterns', 'haptics', 'reducedMotion', 'showKeyboard', 'swapEnterBackspace', 'showCandidates'] as const) {
+    if (typeof stored[key] === 'boolean') {
+      settings[key] = stored[key];
+    }
+  }
+  if (isColorPalette(stored.palette)) {
+    settings.palette = stored.palette;
+  }
+  if (KEYBOARD_LAYOUTS.includes(stored.keyboardLayout as KeyboardLayoutPreference)) {
+    settings.keyboardLayout = stored.keyboardLayout as KeyboardLayoutPreference;
+  }
+  if (isSupportedLocale(stored.locale)) {
+    settings.locale = stored.locale;
+  }
+
+  return settings;
+}
+
+/**
+ * Read the preferences stored before settings existed
+ * @returns Settings values found under the legacy keys
+ */
+function readLegacySettings(): Record<string, unknown> {
+  const hardMode = localStorage.getItem(LEGACY_HARD_MODE_KEY);
+  return {
+    hardMode: hardMode === null ? undefined : hardMode === 'true',
+    locale: localStorage.getItem(LEGACY_LOCALE_KEY)
+  };
+}
+
+/**
+ * Bring stored settings up to the current schema version
+ * @param stored - Parsed stored settings, or null if none are stored
+ * @returns Settings values in the current schema
+ */
+function migrateSettings(stored: StoredSettings | null): Record<string, unknown> {
+  // Version 0: separate keys per preference
+  const version = stored?.version ?? 0;
+  let settings = stored?.settings ?? readLegacySettings();
+
+  // Version 1: a high contrast switch instead of palettes
+  if (version < 2) {
+    const { highContrast, ...rest } = settings;
+    settings = { ...rest, palette: highContrast === true ? 'high-contrast' : 'default' };
+  }
+
+  return settings;
+}
+
+/**
+ * Load the player's settings
+ * @returns Stored settings, or the defaults
+ */
+export function loadSettings(): Settings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) as StoredSettings : null;
+
+    // Settings of a newer build cannot be read reliably; start over rather than guess
+    if (stored && (typeof stored.version !== 'number' || stored.version > SETTINGS_VERSION)) {
+      return { ...DEFAULT_SETTINGS };
+    }
+
+    return sanitizeSettings(migrateSettings(stored) ?? {});
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * Save the player's settings
+ * Preferences still stored under their legacy keys are removed
+ * @param settings - Settings to save
+ */
+export function saveSettings(settings: Settings): void {
+  try {
+    const stored: StoredSettings = { version: SETTINGS_VERSION, settings: { ...settings } };
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(stored));
+    localStorage.removeItem(LEGACY_HARD_MODE_KEY);
+    localStorage.removeItem(LEGACY_LOCALE_KEY);
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+  }
+}
+
+/**
+ * Check whether animations should be left out
+ * @param settings - Player settings
+ * @returns True if the player or the system asks for reduced motion
+ */
+export function shouldReduceMotion(settings: Settings): boolean {
+  if (settings.reducedMotion) return true;
+  return typeof window !== 'undefined'
+    && typeof window.matchMedia === 'function'
+    && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
@@ -0,0 +1,212 @@
+import { addHoursToHourId, hoursBetweenHourIds } from './timeUtils';
+
+/**
+ * Non-repeating solution scheduler
+ * Every hour from an epoch gets the next word of a seeded shuffle of the
+ * solution list, so no word comes back until the whole list has been used.
+ * Each cycle through the list is shuffled with its own seed. Boards of a
+ * multi-board game take consecutive slots, and every variant (word length
+ * and board count) runs its own sequence. Words that end one cycle are kept
+ * out of the start of the next, so no word comes back within an hour or in
+ * the hour right after.
+ */
+
+export interface SchedulerOptions {
+  // First hour (YYYYMMDDHH) of cycle 0
+  epochHourId: string;
+  // Seed of the variant's shuffles
+  seed: string;
+  boardCount?: number;
+}
+
+export interface CyclePosition {
+  cycle: number;
+  // Zero-based position within the cycle
+  position: number;
+  cycleLength: number;
+}
+
+export interface ScheduledHour {
+  hourId: string;
+  boardIndex: number;
+}
+
+/**
+ * Hash a string to an unsigned 32-bit integer (FNV-1a)
+ * @param str - String to hash
+ * @returns Hash value
+ */
+function hashSeed(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * @param seed - Seed string
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Shuffles are reused for every hour of a cycle
+const permutationCache = new Map<string, number[]>();
+
+/**
+ * Get a seeded permutation of list indices (Fisher-Yates shuffle)
+ * @param length - Number of items
+ * @param seed - Seed string
+ * @returns Indices 0..length-1 in shuffled order
+ */
+export function getPermutation(length: number, seed: string): number[] {
+  const key = `${length}:${seed}`;
+  const cached = permutationCache.get(key);
+  if (cached) return cached;
+
+  const random = createSeededRandom(seed);
+  const permutation = Array.from({ length }, (_, index) => index);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+
+  permutationCache.set(key, permutation);
+  return permutation;
+}
+
+/**
+ * Get the shuffle of one cycle of a variant
+ * The first slots of the cycle never hold a word from the last slots of the
+ * previous one: such a word is swapped with one from the middle of the cycle,
+ * which leaves the cycle's own last slots as shuffled
+ * @param length - Number of solutions
+ * @param options - Scheduler options
+ * @param cycle - Cycle number
+ * @returns Indices 0..length-1 in scheduled order
+ */
+function getCyclePermutation(length: number, options: SchedulerOptions, cycle: number): number[] {
+  const shuffled = getPermutation(length, `${options.seed}:${cycle}`);
+  // An hour spans boardCount slots, so that many slots on each side must differ;
+  // lists too short to swap within the middle are left as shuffled
+  const gap = options.boardCount ?? 1;
+  if (cycle === 0 || length < gap * 4) return shuffled;
+
+  const previousTail = new Set(getPermutation(length, `${options.seed}:${cycle - 1}`).slice(-gap));
+  if (shuffled.slice(0, gap).every(index => !previousTail.has(index))) return shuffled;
+
+  const permutation = [...shuffled];
+  let swapWith = gap;
+  for (let position = 0; position < gap; position++) {
+    if (!previousTail.has(permutation[position])) continue;
+    while (previousTail.has(permutation[swapWith])) swapWith++;
+    [permutation[position], permutation[swapWith]] = [permutation[swapWith], permutation[position]];
+    swapWith++;
+  }
+  return permutation;
+}
+
+/**
+ * Get the sequence slot of a puzzle
+ * @param hourId - Hour ID of the puzzle
+ * @param options - Scheduler options
+ * @param boardIndex - Zero-based board index (defaults to 0)
+ * @returns Slot number counted from the epoch
+ * @throws Error if the hour is before the epoch
+ */
+function getSlot(hourId: string, options: SchedulerOptions, boardIndex: number = 0): number {
+  const hours = hoursBetweenHourIds(options.epochHourId, hourId);
+  if (hours < 0) {
+    throw new Error(`Hour ${hourId} is before the scheduler epoch ${options.epochHourId}`);
+  }
+  return hours * (options.boardCount ?? 1) + boardIndex;
+}
+
+/**
+ * Get where a puzzle is in the solution cycle
+ * @param hourId - Hour ID of the puzzle
+ * @param cycleLength - Number of solutions
+ * @param options - Scheduler options
+ * @param boardIndex - Zero-based board index (defaults to 0)
+ * @returns Cycle number and position within it
+ */
+export function getCyclePosition(
+  hourId: string,
+  cycleLength: number,
+  options: SchedulerOptions,
+  boardIndex: number = 0
+): CyclePosition {
+  const slot = getSlot(hourId, options, boardIndex);
+  return {
+    cycle: Math.floor(slot / cycleLength),
+    position: slot % cycleLength,
+    cycleLength
+  };
+}
+
+/**
+ * Get the solution scheduled for a puzzle
+ * @param solutions - Solution list in dictionary order
+ * @param hourId - Hour ID of the puzzle
+ * @param options - Scheduler options
+ * @param boardIndex - Zero-based board index (defaults to 0)
+ * @returns Scheduled solution word
+ */
+export function getScheduledSolution(
+  solutions: readonly string[],
+  hourId: string,
+  options: SchedulerOptions,
+  boardIndex: number = 0
+): string {
+  const { cycle, position } = getCyclePosition(hourId, solutions.length, options, boardIndex);
+  return solutions[getCyclePermutation(solutions.length, options, cycle)[position]];
+}
+
+/**
+ * Find the latest puzzle that used a word, up to and including an hour
+ * @param solutions - Solution list in dictionary order
+ * @param word - Word to look up (any case)
+ * @param untilHourId - Latest hour to consider
+ * @param options - Scheduler options
+ * @returns Hour and board that used the word, or null if it was not used yet
+ */
+export function findHourForSolution(
+  solutions: readonly string[],
+  word: string,
+  untilHourId: string,
+  options: SchedulerOptions
+): ScheduledHour | null {
+  const wordIndex = solutions.indexOf(word.toLowerCase());
+  const boardCount = options.boardCount ?? 1;
+  if (wordIndex === -1 || hoursBetweenHourIds(options.epochHourId, untilHourId) < 0) {
+    return null;
+  }
+
+  const lastSlot = getSlot(untilHourId, options, boardCount - 1);
+  const currentCycle = Math.floor(lastSlot / solutions.length);
+
+  // The word appears once per cycle; if not yet reached in this cycle, it was in the previous one
+  for (const cycle of [currentCycle, currentCycle - 1]) {
+    if (cycle < 0) break;
+    const position = getCyclePermutation(solutions.length, options, cycle).indexOf(wordIndex);
+    const slot = cycle * solutions.length + position;
+    if (slot <= lastSlot) {
+      return {
+        hourId: addHoursToHourId(options.epochHourId, Math.floor(slot / boardCount)),
+        boardIndex: slot % boardCount
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,125 @@
+import type { LetterFeedback } from '../types/game';
+import { deriveConstraints, matchesConstraints } from './constraints';
+
+/**
+ * Word solver
+ * Narrows the word list down to the words consistent with the feedback so
+ * far, and ranks guesses by expected information gain: the entropy of the
+ * feedback patterns a guess would produce across those words. A guess that
+ * splits the remaining words into many small groups is worth more than one
+ * that leaves most of them together. Words are compared normalized, the way
+ * the dictionary stores them.
+ */
+
+// Guess and answer pairs scored per ranking at most; with more, the entropy is
+// estimated on an evenly spread sample of the remaining words
+export const MAX_PATTERN_EVALUATIONS = 1_000_000;
+
+const ENTROPY_TOLERANCE = 1e-9;
+
+export interface RankedGuess {
+  word: string;
+  // Expected information from the guess, in bits
+  entropy: number;
+  // Whether the guess could be the answer itself
+  isCandidate: boolean;
+}
+
+/**
+ * Encode the feedback a guess would get against an answer as a single number
+ * Each letter is a base-3 digit (0 absent, 1 present, 2 correct), scored with
+ * the same duplicate letter rules as evaluateGuess
+ * @param guess - Normalized guess
+ * @param answer - Normalized answer of the same length
+ * @returns Feedback pattern code
+ */
+export function getFeedbackPattern(guess: string, answer: string): number {
+  const statuses: number[] = new Array(answer.length).fill(0);
+  const remaining = new Map<string, number>();
+
+  for (let i = 0; i < answer.length; i++) {
+    if (guess[i] === answer[i]) {
+      statuses[i] = 2;
+    } else {
+      remaining.set(answer[i], (remaining.get(answer[i]) || 0) + 1);
+    }
+  }
+
+  for (let i = 0; i < answer.length; i++) {
+    const count = statuses[i] === 0 ? remaining.get(guess[i]) : 0;
+    if (count) {
+      statuses[i] = 1;
+      remaining.set(guess[i], count - 1);
+    }
+  }
+
+  return statuses.reduce((pattern, status) => pattern * 3 + status, 0);
+}
+
+/**
+ * Find the words that could still be the answer
+ * @param words - Normalized solution words
+ * @param feedback - Feedback for each guess so far
+ * @param wordLength - Word length of the game
+ * @param guesses - Normalized guesses so far, which are never the answer of an unsolved board
+ * @returns Words consistent with every guess
+ */
+export function filterCandidates(
+  words: string[],
+  feedback: LetterFeedback[][],
+  wordLength: number,
+  guesses: string[] = []
+): string[] {
+  const constraints = deriveConstraints(feedback, wordLength);
+  const guessed = new Set(guesses);
+  return words.filter(word => !guessed.has(word) && matchesConstraints(word, constraints));
+}
+
+/**
+ * Expected information of a guess over the remaining words
+ * @param guess - Normalized guess
+ * @param candidates - Words that could be the answer
+ * @returns Entropy of the guess's feedback patterns, in bits
+ */
+export function getGuessEntropy(guess: string, candidates: string[]): number {
+  const groups = new Map<number, number>();
+  for (const answer of candidates) {
+    const pattern = getFeedbackPattern(guess, answer);
+    groups.set(pattern, (groups.get(pattern) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const size of groups.values()) {
+    const probability = size / candidates.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Rank guesses by how much they are expected to narrow the answer down
+ * Ties go to guesses that could be the answer, then to alphabetical order
+ * @param candidates - Words that could be the answer
+ * @param probes - Words that may be guessed
+ * @param limit - Number of guesses to return (defaults to 5)
+ * @returns Best guesses first
+ */
+export function rankGuesses(candidates: string[], probes: string[], limit: number = 5): RankedGuess[] {
+  if (candidates.length === 0) return [];
+
+  const candidateSet = new Set(candidates);
+  const step = Math.max(1, Math.ceil((candidates.length * probes.length) / MAX_PATTERN_EVALUATIONS));
+  const sample = step > 1 ? candidates.filter((_, index) => index % step === 0) : candidates;
+
+  return Array.from(new Set([...probes, ...candidates]), word => ({
+    word,
+    entropy: getGuessEntropy(word, sample),
+    isCandidate: candidateSet.has(word)
+  }))
+    .sort((a, b) => {
+      // Splits of the same sizes can differ in the last bits of their sums
+      if (Math.abs(b.entropy - a.entropy) > ENTROPY_TOLERANCE) return b.entropy - a.entropy;
+      return Number(b.isCandidate) - Number(a.isCandidate) || a.word.localeCompare(b.word);
+    })
+    .slice(0, limit);
+}
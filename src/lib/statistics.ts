@@ -0,0 +1,190 @@
+import type { GameHistory, GameRecord, GameStatistics, HintTier } from '../types/game';
+import { hourIdUtc, hoursBetweenHourIds } from './timeUtils';
+import { isPracticeGameId } from './practice';
+import { isCustomGameId } from './customPuzzle';
+import { HINT_TIERS, isHintTier } from './hints';
+
+/**
+ * Player statistics built from a history of finished hourly games
+ * History is kept in localStorage under a versioned schema so it survives
+ * the per-hour overwrite of the in-progress game
+ */
+
+export const HISTORY_STORAGE_KEY = 'mintle-history';
+export const HISTORY_VERSION = 1;
+
+/**
+ * Create an empty history store
+ * @returns Empty history at the current schema version
+ */
+function createEmptyHistory(): GameHistory {
+  return {
+    version: HISTORY_VERSION,
+    records: []
+  };
+}
+
+/**
+ * Check that a parsed value looks like a game record
+ * @param value - Parsed JSON value
+ * @returns True if value has the shape of a GameRecord
+ */
+function isGameRecord(value: unknown): value is GameRecord {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+
+  return typeof record.hourId === 'string' &&
+    Array.isArray(record.guesses) &&
+    (record.outcome === 'won' || record.outcome === 'lost') &&
+    typeof record.hintUsed === 'boolean' &&
+    typeof record.completedAt === 'string';
+}
+
+/**
+ * Load game history from localStorage
+ * Unknown schema versions and malformed records are discarded
+ * @param storageKey - Storage key of the stats bucket (defaults to the classic game)
+ * @returns Game history sorted by hour ID
+ */
+export function loadGameHistory(storageKey: string = HISTORY_STORAGE_KEY): GameHistory {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) {
+      return createEmptyHistory();
+    }
+
+    const parsed = JSON.parse(saved) as Partial<GameHistory>;
+    if (parsed.version !== HISTORY_VERSION || !Array.isArray(parsed.records)) {
+      console.warn(`Discarding game history with unsupported version: ${parsed.version}`);
+      return createEmptyHistory();
+    }
+
+    const records = parsed.records
+      .filter(isGameRecord)
+      .sort((a, b) => a.hourId.localeCompare(b.hourId));
+
+    return { version: HISTORY_VERSION, records };
+  } catch (error) {
+    console.error('Failed to load game history:', error);
+    return createEmptyHistory();
+  }
+}
+
+/**
+ * Save game history to localStorage
+ * @param history - Game history to persist
+ * @param storageKey - Storage key of the stats bucket (defaults to the classic game)
+ */
+export function saveGameHistory(history: GameHistory, storageKey: string = HISTORY_STORAGE_KEY): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to save game history:', error);
+  }
+}
+
+/**
+ * Record a finished game, replacing any existing record for the same hour
+ * @param record - Finished game record
+ * @param storageKey - Storage key of the stats bucket (defaults to the classic game)
+ * @returns Updated game history
+ */
+export function recordGameResult(record: GameRecord, storageKey: string = HISTORY_STORAGE_KEY): GameHistory {
+  const history = loadGameHistory(storageKey);
+  const records = history.records
+    .filter(existing => existing.hourId !== record.hourId)
+    .concat(record)
+    .sort((a, b) => a.hourId.localeCompare(b.hourId));
+
+  const updated: GameHistory = { version: HISTORY_VERSION, records };
+  saveGameHistory(updated, storageKey);
+  return updated;
+}
+
+/**
+ * Check whether two games follow each other for streak purposes
+ * Hourly games must be in consecutive hours; practice games chain in play order
+ * and custom puzzles, each made by someone else, stand on their own
+ * @param previousId - Hour, practice or custom game ID of the earlier game
+ * @param nextId - Hour, practice or custom game ID of the later game
+ * @returns True if the games are consecutive
+ */
+function areConsecutiveGames(previousId: string, nextId: string): boolean {
+  if (isCustomGameId(previousId) || isCustomGameId(nextId)) return false;
+  if (isPracticeGameId(previousId) || isPracticeGameId(nextId)) {
+    return isPracticeGameId(previousId) && isPracticeGameId(nextId);
+  }
+  return hoursBetweenHourIds(previousId, nextId) === 1;
+}
+
+/**
+ * Derive aggregate statistics from game records
+ * A streak is a run of won games in consecutive hours; the current streak
+ * is broken once a full hour passes without a win. Practice games have no
+ * clock, so their streaks only break on a loss
+ * @param records - Finished game records
+ * @param maxGuesses - Number of guesses allowed per game
+ * @param now - Date object (defaults to current time)
+ * @returns Aggregate statistics
+ */
+export function computeStatistics(
+  records: GameRecord[],
+  maxGuesses: number,
+  now: Date = new Date()
+): GameStatistics {
+  const sorted = [...records].sort((a, b) => a.hourId.localeCompare(b.hourId));
+  const guessDistribution: number[] = new Array(maxGuesses).fill(0);
+  const hintTiers = Object.fromEntries(HINT_TIERS.map(tier => [tier, 0])) as Record<HintTier, number>;
+
+  let gamesWon = 0;
+  let maxStreak = 0;
+  let runLength = 0;
+  let previousHourId: string | null = null;
+
+  for (const record of sorted) {
+    if (record.hintUsed) {
+      // The only hint before tiers existed suggested a word
+      hintTiers[isHintTier(record.hintTier) ? record.hintTier : 'probe']++;
+    }
+
+    if (record.outcome === 'won') {
+      gamesWon++;
+
+      const bucket = record.guesses.length - 1;
+      if (bucket >= 0 && bucket < maxGuesses) {
+        guessDistribution[bucket]++;
+      }
+
+      const isConsecutive = previousHourId !== null &&
+        areConsecutiveGames(previousHourId, record.hourId);
+      runLength = isConsecutive && runLength > 0 ? runLength + 1 : 1;
+      maxStreak = Math.max(maxStreak, runLength);
+    } else {
+      runLength = 0;
+    }
+    previousHourId = record.hourId;
+  }
+
+  // The run only counts as current if the last game was this hour or the previous one
+  let currentStreak = 0;
+  if (previousHourId !== null && runLength > 0 && (isPracticeGameId(previousHourId) || isCustomGameId(previousHourId))) {
+    currentStreak = runLength;
+  } else if (previousHourId !== null && runLength > 0) {
+    const hoursSinceLastGame = hoursBetweenHourIds(previousHourId, hourIdUtc(now));
+    if (hoursSinceLastGame <= 1) {
+      currentStreak = runLength;
+    }
+  }
+
+  const gamesPlayed = sorted.length;
+
+  return {
+    gamesPlayed,
+    gamesWon,
+    winPercentage: gamesPlayed > 0 ? Math.round((gamesWon / gamesPlayed) * 100) : 0,
+    currentStreak,
+    maxStreak,
+    guessDistribution,
+    hintTiers
+  };
+}
@@ -44,4 +44,65 @@ export function formatTimeRemaining(milliseconds: number): string {
  */
 export function isSameUtcHour(date1: Date, date2: Date): boolean {
   return hourIdUtc(date1) === hourIdUtc(date2);
-}
\ No newline at end of file
+}
+
+/**
+ * Check whether an hour ID is well formed and strictly before the current hour
+ * @param hourId - Hour ID to check
+ * @param now - Date object (defaults to current time)
+ * @returns True if the hour has already ended
+ */
+export function isPastHourId(hourId: string, now: Date = new Date()): boolean {
+  return /^\d{10}$/.test(hourId) && hourId < hourIdUtc(now);
+}
+
+/**
+ * Format an hour ID for display, e.g. "Sep 24, 15:00 UTC"
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param locale - Locale of the date (defaults to US English)
+ * @returns Human readable hour label
+ */
+export function formatHourId(hourId: string, locale: string = 'en-US'): string {
+  const date = hourIdToDate(hourId);
+  const day = date.toLocaleDateString(locale, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return `${day}, ${hourId.slice(8, 10)}:00 UTC`;
+}
+
+/**
+ * Parse a UTC hour ID back into the Date at the start of that hour
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @returns Date at the start of the hour
+ */
+export function hourIdToDate(hourId: string): Date {
+  if (!/^\d{10}$/.test(hourId)) {
+    throw new Error(`Invalid hour ID: ${hourId}`);
+  }
+
+  const year = Number(hourId.slice(0, 4));
+  const month = Number(hourId.slice(4, 6)) - 1;
+  const day = Number(hourId.slice(6, 8));
+  const hour = Number(hourId.slice(8, 10));
+
+  return new Date(Date.UTC(year, month, day, hour));
+}
+
+/**
+ * Shift an hour ID by a number of hours
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param hours - Number of hours to add (negative to go back)
+ * @returns Shifted hour ID
+ */
+export function addHoursToHourId(hourId: string, hours: number): string {
+  const date = hourIdToDate(hourId);
+  return hourIdUtc(new Date(date.getTime() + hours * 60 * 60 * 1000));
+}
+
+/**
+ * Count whole hours between two hour IDs
+ * @param from - Earlier hour ID
+ * @param to - Later hour ID
+ * @returns Number of hours from `from` to `to` (negative if `to` is earlier)
+ */
+export function hoursBetweenHourIds(from: string, to: string): number {
+  return Math.round((hourIdToDate(to).getTime() - hourIdToDate(from).getTime()) / (60 * 60 * 1000));
+}
@@ -118,11 +118,21 @@ export function getOptimalFontSize(deviceType: 'mobile' | 'tablet' | 'desktop',
   return baseSizes[deviceType][elementType];
 }
 
+// Haptic feedback can be turned off in the settings
+let hapticFeedbackEnabled = true;
+
+/**
+ * Turn haptic feedback on or off for the whole app
+ */
+export function setHapticFeedbackEnabled(enabled: boolean): void {
+  hapticFeedbackEnabled = enabled;
+}
+
 /**
- * Apply haptic feedback if supported
+ * Apply haptic feedback if supported and enabled
  */
 export function triggerHapticFeedback(type: 'light' | 'medium' | 'heavy' = 'light'): void {
-  if ('vibrate' in navigator) {
+  if (hapticFeedbackEnabled && 'vibrate' in navigator) {
     const patterns = {
       light: [10],
       medium: [20],
@@ -0,0 +1,56 @@
+import type { WordDocument } from '../types/game';
+import { createLocalWordStore } from './wordStore';
+import { hourIdUtc } from './timeUtils';
+
+/**
+ * Local copies of shared word documents
+ * Words read from Firestore are kept in localStorage, so a player who goes
+ * offline keeps getting the shared word rather than a locally computed one.
+ * Only hours that have started are kept: the key that decrypts the copies
+ * ships with the app, so a cached future word would be readable ahead of time.
+ */
+
+export const WORD_CACHE_PREFIX = 'mintle-word-cache-';
+
+const cache = createLocalWordStore(WORD_CACHE_PREFIX);
+
+/**
+ * Keep a copy of a stored word document
+ * @param documentId - Word document ID
+ * @param wordDoc - Document read from or written to the word store
+ */
+export async function cacheWordDocument(documentId: string, wordDoc: WordDocument): Promise<void> {
+  // Document IDs start with their hour ID
+  if (documentId.slice(0, 10) > hourIdUtc()) return;
+
+  try {
+    // Stored words never change, so an existing copy is already up to date
+    await cache.createIfAbsent(documentId, wordDoc);
+  } catch (error) {
+    console.error('Failed to cache word:', error);
+  }
+}
+
+/**
+ * Get the cached copy of a word document
+ * @param documentId - Word document ID
+ * @returns Promise resolving to the cached document, or null if not cached
+ */
+export function getCachedWordDocument(documentId: string): Promise<WordDocument | null> {
+  return cache.get(documentId);
+}
+
+/**
+ * Remove cached words of hours before a cutoff
+ * @param beforeHourId - First hour ID to keep
+ * @returns Promise resolving to the number of removed documents
+ */
+export async function pruneWordCache(beforeHourId: string): Promise<number> {
+  // Document IDs start with their hour ID, so they sort by hour
+  const expired = await cache.listRange('', beforeHourId);
+  const stale = expired.filter(({ id }) => id < beforeHourId);
+  for (const { id } of stale) {
+    localStorage.removeItem(`${WORD_CACHE_PREFIX}${id}`);
+  }
+  return stale.length;
+}
@@ -1,21 +1,28 @@
 import type { LetterFeedback } from '../types/game';
+import { DEFAULT_LANGUAGE, normalizeWord } from './languages';
 
 /**
  * Evaluate a guess against the secret word and return feedback for each letter
- * Handles duplicate letters correctly using a two-pass algorithm
- * @param guess - The 5-letter guess word
- * @param secret - The 5-letter secret word
+ * Handles duplicate letters correctly using a two-pass algorithm. Letters are
+ * compared with the language's rules, so an accented letter can match its base
+ * @param guess - The guess word
+ * @param secret - The secret word, any supported length
+ * @param language - Language code of the puzzle (defaults to English)
  * @returns Array of feedback for each letter position
  */
-export function evaluateGuess(guess: string, secret: string): LetterFeedback[] {
-  if (guess.length !== 5 || secret.length !== 5) {
-    throw new Error('Both guess and secret must be exactly 5 letters');
+export function evaluateGuess(guess: string, secret: string, language: string = DEFAULT_LANGUAGE): LetterFeedback[] {
+  const guessLower = normalizeWord(guess, language);
+  const secretLower = normalizeWord(secret, language);
+
+  const wordLength = secretLower.length;
+  if (wordLength === 0 || guessLower.length !== wordLength) {
+    throw new Error('Guess and secret must be non-empty and the same length');
   }
 
-  const guessLower = guess.toLowerCase();
-  const secretLower = secret.toLowerCase();
+  // Feedback keeps the letters as typed
+  const guessLetters = Array.from(guess.normalize('NFC'));
   
-  const feedback: LetterFeedback[] = new Array(5);
+  const feedback: LetterFeedback[] = new Array(wordLength);
   const secretLetterCounts = new Map<string, number>();
   
   // Count letters in secret word
@@ -24,13 +31,13 @@ export function evaluateGuess(guess: string, secret: string): LetterFeedback[] {
   }
   
   // First pass: mark exact matches (green)
-  for (let i = 0; i < 5; i++) {
+  for (let i = 0; i < wordLength; i++) {
     const guessLetter = guessLower[i];
     const secretLetter = secretLower[i];
     
     if (guessLetter === secretLetter) {
       feedback[i] = {
-        letter: guess[i],
+        letter: guessLetters[i],
         status: 'correct'
       };
       // Decrease count for this letter
@@ -39,7 +46,7 @@ export function evaluateGuess(guess: string, secret: string): LetterFeedback[] {
   }
   
   // Second pass: mark present letters (yellow) and absent letters (gray)
-  for (let i = 0; i < 5; i++) {
+  for (let i = 0; i < wordLength; i++) {
     if (feedback[i]) continue; // Skip already marked correct letters
     
     const guessLetter = guessLower[i];
@@ -47,14 +54,14 @@ export function evaluateGuess(guess: string, secret: string): LetterFeedback[] {
     
     if (remainingCount > 0) {
       feedback[i] = {
-        letter: guess[i],
+        letter: guessLetters[i],
         status: 'present'
       };
       // Decrease count for this letter
       secretLetterCounts.set(guessLetter, remainingCount - 1);
     } else {
       feedback[i] = {
-        letter: guess[i],
+        letter: guessLetters[i],
         status: 'absent'
       };
     }
@@ -67,10 +74,11 @@ export function evaluateGuess(guess: string, secret: string): LetterFeedback[] {
  * Check if a guess is correct (all letters match)
  * @param guess - The guess word
  * @param secret - The secret word
- * @returns True if guess matches secret exactly
+ * @param language - Language code of the puzzle (defaults to English)
+ * @returns True if guess matches secret under the language's letter rules
  */
-export function isCorrectGuess(guess: string, secret: string): boolean {
-  return guess.toLowerCase() === secret.toLowerCase();
+export function isCorrectGuess(guess: string, secret: string, language: string = DEFAULT_LANGUAGE): boolean {
+  return normalizeWord(guess, language) === normalizeWord(secret, language);
 }
 
 /**
@@ -1,178 +1,405 @@
-import { getWordDocument, createWordDocument, FirestoreServiceError } from './firestoreService';
-import { getDeterministicSolutionWord, loadDictionary } from './dictionary';
+import { getWordStore } from './wordStore';
+import {
+  getDeterministicSolutionWord,
+  getDictionaryVersionForHour,
+  getSolutionList,
+  isInstalledDictionaryVersion,
+  loadDictionary
+} from './dictionary';
 import { hourIdUtc } from './timeUtils';
-import { encryptWord, decryptWord, generateWordHash } from './encryption';
-import type { WordDocument, LetterFeedback } from '../types/game';
-
-
-/**
- * Suggest a valid hint word based on current guesses and feedback
- * @param guesses - Array of guessed words
- * @param feedback - Array of feedback arrays for each guess
- * @returns A word that matches all known constraints, or null if none
- */
-export async function suggestHintWord(
-  guesses: string[],
-  feedback: LetterFeedback[][]
-): Promise<string | null> {
-
-  // Assume solutions are lowercase words
-  const solutions = Array.from((await loadDictionary()).solutions);
-
-  // Build constraints
-  const mustBe: (string | null)[] = [null, null, null, null, null];
-  const mustInclude = new Set<string>();
-  const mustNotInclude = new Set<string>();
-  const cannotBe: Record<number, Set<string>> = { 0: new Set(), 1: new Set(), 2: new Set(), 3: new Set(), 4: new Set() };
-
-  for (let g = 0; g < feedback.length; g++) {
-    for (let i = 0; i < feedback[g].length; i++) {
-      const letter = feedback[g][i].letter.toLowerCase();
-      const status = feedback[g][i].status;
-
-      if (status === "correct") {
-        mustBe[i] = letter;
-      } else if (status === "present") {
-        mustInclude.add(letter);
-        cannotBe[i].add(letter);
-      } else if (status === "absent") {
-        // Only mark absent if not seen as correct/present elsewhere
-        let foundElsewhere = false;
-        for (let j = 0; j < feedback[g].length; j++) {
-          if (j !== i && feedback[g][j].letter.toLowerCase() === letter && feedback[g][j].status !== "absent") {
-            foundElsewhere = true;
-            break;
-          }
-        }
-        if (!foundElsewhere) {
-          mustNotInclude.add(letter);
-        } else {
-          cannotBe[i].add(letter);
-        }
-      }
-    }
+import {
+  encryptWord,
+  decryptWord,
+  generateWordHash,
+  verifyWordHash,
+  CURRENT_CIPHER_VERSION,
+  LEGACY_CIPHER_VERSION
+} from './encryption';
+import { getPuzzleSeed, getSchedulerOptions, getSeedScheduleEntry } from './seedSchedule';
+import { findHourForSolution, getCyclePosition, getScheduledSolution } from './solutionScheduler';
+import type { CyclePosition, ScheduledHour } from './solutionScheduler';
+import {
+  isOfflineMode,
+  setOfflineMode,
+  isStoreUnavailableError,
+  checkWordStoreConnection,
+  loadPendingWords,
+  addPendingWord,
+  removePendingWord
+} from './offlineWords';
+import { cacheWordDocument, getCachedWordDocument, pruneWordCache } from './wordCache';
+import { DEFAULT_WORD_LENGTH } from './gameConfig';
+import { DEFAULT_LANGUAGE } from './languages';
+import type { WordDocument } from '../types/game';
+
+/**
+ * Get the word store document ID for an hour's word
+ * Classic 5-letter English words use the bare hour ID; other languages and
+ * lengths are suffixed, and each board of a multi-board game gets its own document
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param wordLength - Word length (defaults to 5)
+ * @param boardCount - Number of boards in the game (defaults to 1)
+ * @param boardIndex - Zero-based board index (defaults to 0)
+ * @param language - Language code (defaults to English)
+ * @returns Document ID like "2025092323", "2025092323-es", "2025092323-L6" or "2025092323-B4-2"
+ */
+export function getWordDocumentId(
+  hourId: string,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  boardCount: number = 1,
+  boardIndex: number = 0,
+  language: string = DEFAULT_LANGUAGE
+): string {
+  let documentId = hourId;
+  if (language !== DEFAULT_LANGUAGE) {
+    documentId = `${documentId}-${language}`;
+  }
+  if (wordLength !== DEFAULT_WORD_LENGTH) {
+    documentId = `${documentId}-L${wordLength}`;
+  }
+  if (boardCount > 1) {
+    documentId = `${documentId}-B${boardCount}-${boardIndex}`;
   }
+  return documentId;
+}
 
-  // Filter candidate words
-  const validWords = solutions.filter((word) => {
-    // Must match known positions
-    for (let i = 0; i < 5; i++) {
-      if (mustBe[i] && word[i] !== mustBe[i]) return false;
-      if (cannotBe[i].has(word[i])) return false;
-    }
-    // Must include all present letters
-    for (const ch of mustInclude) {
-      if (!word.includes(ch)) return false;
-    }
-    // Must exclude absent letters
-    for (const ch of mustNotInclude) {
-      if (word.includes(ch)) return false;
-    }
-    // Avoid repeating guesses
-    if (guesses.includes(word)) return false;
-    return true;
-  });
-  console.log("Hint candidates:", validWords.length);
+/**
+ * Decrypt the word stored in a word document using the document's cipher version
+ * @param wordDoc - Word document from storage
+ * @param documentId - Document ID the word was encrypted for
+ * @returns Promise resolving to the uppercase word
+ */
+async function decryptWordDocument(wordDoc: WordDocument, documentId: string): Promise<string> {
+  const cipherVersion = wordDoc.cipherVersion ?? LEGACY_CIPHER_VERSION;
+  const decryptedWord = await decryptWord(wordDoc.word, documentId, cipherVersion);
+  return decryptedWord.toUpperCase();
+}
 
-  if (validWords.length === 0) return null;
-  if (validWords.length === 1) return validWords[0];
-  // Pick a random valid word
-  return validWords[Math.floor(Math.random() * validWords.length)];
+export interface HourlyPuzzle {
+  word: string;
+  // Dictionary pack the word was picked from; guesses are checked against it
+  dictionaryVersion: string;
 }
 
+/**
+ * Read the puzzle stored in a word document and load the dictionary it was picked from
+ * Documents from a pack this build does not ship fall back to the pack in effect for the hour
+ * @param wordDoc - Word document from storage
+ * @param documentId - Document ID the word was encrypted for
+ * @param hourId - Hour ID of the puzzle
+ * @param wordLength - Word length
+ * @param language - Language code
+ * @returns Promise resolving to the uppercase word and its dictionary version
+ */
+async function readHourlyPuzzle(
+  wordDoc: WordDocument,
+  documentId: string,
+  hourId: string,
+  wordLength: number,
+  language: string
+): Promise<HourlyPuzzle> {
+  let dictionaryVersion = wordDoc.dictionaryVersion;
+  if (!isInstalledDictionaryVersion(dictionaryVersion)) {
+    console.warn(`Dictionary ${dictionaryVersion} of ${documentId} is not installed`);
+    dictionaryVersion = getDictionaryVersionForHour(hourId, language);
+  }
+
+  await loadDictionary(wordLength, dictionaryVersion);
+  return { word: await decryptWordDocument(wordDoc, documentId), dictionaryVersion };
+}
 
 /**
- * Get or create the hourly word for a given hour ID
- * Handles race conditions when multiple clients try to create the same word
+ * Pick a puzzle's word from the seed schedule
+ * Needs no word store, so every client computes the same word offline
  * @param hourId - Hour ID in YYYYMMDDHH format
- * @returns Promise resolving to the word for that hour
+ * @param wordLength - Word length
+ * @param boardCount - Number of boards in the game
+ * @param boardIndex - Zero-based board index
+ * @param language - Language code
+ * @returns Promise resolving to the uppercase word
  */
-export async function getOrCreateHourlyWord(hourId: string): Promise<string> {
-  try {
-    // First, try to get existing word
-    const existingDoc = await getWordDocument(hourId);
-    if (existingDoc) {
-      // Decrypt the word from storage
-      const decryptedWord = decryptWord(existingDoc.word, hourId);
-      return decryptedWord.toUpperCase();
-    }
+async function pickScheduledWord(
+  hourId: string,
+  wordLength: number,
+  boardCount: number,
+  boardIndex: number,
+  language: string
+): Promise<string> {
+  // Ensure the dictionary in effect for the language is loaded
+  const entry = getSeedScheduleEntry(hourId);
+  const dictionaryVersion = getDictionaryVersionForHour(hourId, language);
+  await loadDictionary(wordLength, dictionaryVersion);
 
-    // Ensure dictionary is loaded
-    await loadDictionary();
+  if (entry.scheduler === 'permutation') {
+    const options = getSchedulerOptions(entry, wordLength, boardCount);
+    const solutions = getSolutionList(wordLength, dictionaryVersion);
+    return getScheduledSolution(solutions, hourId, options, boardIndex).toUpperCase();
+  }
 
-    // Generate word deterministically based on hour ID
-    const word = getDeterministicSolutionWord(hourId);
+  // Generate word deterministically from the scheduled seed
+  const documentId = getWordDocumentId(hourId, wordLength, boardCount, boardIndex, language);
+  return getDeterministicSolutionWord(getPuzzleSeed(documentId, hourId), wordLength, dictionaryVersion);
+}
 
-    // Encrypt the word for storage
-    const encryptedWord = encryptWord(word, hourId);
-    const wordHash = generateWordHash(word, hourId);
+/**
+ * Pick a puzzle's word from the seed schedule and build its word document
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param wordLength - Word length
+ * @param boardCount - Number of boards in the game
+ * @param boardIndex - Zero-based board index
+ * @param language - Language code
+ * @returns Promise resolving to the uppercase word and its encrypted document
+ */
+async function computeScheduledWord(
+  hourId: string,
+  wordLength: number,
+  boardCount: number,
+  boardIndex: number,
+  language: string
+): Promise<{ word: string; wordDoc: WordDocument }> {
+  const documentId = getWordDocumentId(hourId, wordLength, boardCount, boardIndex, language);
+  const word = await pickScheduledWord(hourId, wordLength, boardCount, boardIndex, language);
+  const entry = getSeedScheduleEntry(hourId);
 
-    // Create word document with encrypted word
-    const wordDoc: WordDocument = {
+  // Encrypt the word for storage
+  const encryptedWord = await encryptWord(word, documentId);
+  const wordHash = await generateWordHash(word, documentId);
+
+  return {
+    word,
+    wordDoc: {
       word: encryptedWord,
       createdAt: new Date().toISOString(),
       source: 'client',
-      dictionaryVersion: 'v1',
-      hash: wordHash
-    };
+      dictionaryVersion: getDictionaryVersionForHour(hourId, language),
+      hash: wordHash,
+      cipherVersion: CURRENT_CIPHER_VERSION,
+      seedVersion: entry.version
+    }
+  };
+}
 
-    try {
-      const created = await createWordDocument(hourId, wordDoc);
-      if (created) {
-        return word;
-      }
-    } catch (error) {
-      // If creation failed due to race condition, try to read the existing document
-      if (error instanceof FirestoreServiceError && error.code === 'already-exists') {
-        const existingDoc = await getWordDocument(hourId);
-        if (existingDoc) {
-          const decryptedWord = decryptWord(existingDoc.word, hourId);
-          return decryptedWord.toUpperCase();
-        }
+/**
+ * Compute a word locally while the word store is unreachable
+ * The document is kept as pending so it can be checked after reconnecting
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param wordLength - Word length
+ * @param boardCount - Number of boards in the game
+ * @param boardIndex - Zero-based board index
+ * @param language - Language code
+ * @returns Promise resolving to the uppercase word and its dictionary version
+ */
+async function getOfflineWord(
+  hourId: string,
+  wordLength: number,
+  boardCount: number,
+  boardIndex: number,
+  language: string
+): Promise<HourlyPuzzle> {
+  const documentId = getWordDocumentId(hourId, wordLength, boardCount, boardIndex, language);
+
+  // Words fetched ahead of time are the shared ones and need no check later
+  const cachedDoc = await getCachedWordDocument(documentId);
+  if (cachedDoc) {
+    return readHourlyPuzzle(cachedDoc, documentId, hourId, wordLength, language);
+  }
+
+  const pendingDoc = loadPendingWords()[documentId];
+  if (pendingDoc) {
+    return readHourlyPuzzle(pendingDoc, documentId, hourId, wordLength, language);
+  }
+
+  const { word, wordDoc } = await computeScheduledWord(hourId, wordLength, boardCount, boardIndex, language);
+  addPendingWord(documentId, wordDoc);
+  return { word, dictionaryVersion: wordDoc.dictionaryVersion };
+}
+
+/**
+ * Get or create the hourly puzzle for a given hour ID
+ * The word is returned with the dictionary version recorded in its document,
+ * and that version's dictionary is loaded, so puzzles created before a new
+ * pack shipped keep using the pack they were picked from.
+ * Handles race conditions when multiple clients try to create the same word:
+ * the word store only keeps the first document written for an ID. When the
+ * store cannot be reached the word is computed locally instead
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param wordLength - Word length (defaults to 5)
+ * @param boardCount - Number of boards in the game (defaults to 1)
+ * @param boardIndex - Zero-based board index (defaults to 0)
+ * @param language - Language code (defaults to English)
+ * @returns Promise resolving to the word for that hour and its dictionary version
+ */
+export async function getHourlyPuzzle(
+  hourId: string,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  boardCount: number = 1,
+  boardIndex: number = 0,
+  language: string = DEFAULT_LANGUAGE
+): Promise<HourlyPuzzle> {
+  // Each language, word length and board has its own document, seed and encryption key
+  const documentId = getWordDocumentId(hourId, wordLength, boardCount, boardIndex, language);
+  const store = getWordStore();
+
+  if (isOfflineMode()) {
+    return getOfflineWord(hourId, wordLength, boardCount, boardIndex, language);
+  }
+
+  try {
+    // Shared words are kept locally for when the store becomes unreachable
+    const keepCopy = (wordDoc: WordDocument) => {
+      if (store.kind === 'firestore') {
+        cacheWordDocument(documentId, wordDoc);
       }
-      throw error;
+    };
+
+    // First, try to get existing word
+    const existingDoc = await store.get(documentId);
+    if (existingDoc) {
+      keepCopy(existingDoc);
+      // Decrypt the word from storage
+      return readHourlyPuzzle(existingDoc, documentId, hourId, wordLength, language);
+    }
+
+    const { word, wordDoc } = await computeScheduledWord(hourId, wordLength, boardCount, boardIndex, language);
+
+    const created = await store.createIfAbsent(documentId, wordDoc);
+    if (created) {
+      keepCopy(wordDoc);
+      return { word, dictionaryVersion: wordDoc.dictionaryVersion };
     }
 
-    // If we reach here, creation failed but not due to already-exists
-    // Try one more time to read in case someone else created it
-    const finalDoc = await getWordDocument(hourId);
+    // Another client created the word first; use theirs
+    const finalDoc = await store.get(documentId);
     if (finalDoc) {
-      const decryptedWord = decryptWord(finalDoc.word, hourId);
-      return decryptedWord.toUpperCase();
+      keepCopy(finalDoc);
+      return readHourlyPuzzle(finalDoc, documentId, hourId, wordLength, language);
     }
 
-    throw new Error(`Failed to get or create word for hour ${hourId}`);
+    throw new Error(`Failed to get or create word for hour ${documentId}`);
   } catch (error) {
-    console.error('Error in getOrCreateHourlyWord:', error);
+    if (isStoreUnavailableError(error)) {
+      console.warn('Word store unavailable, computing words offline:', error);
+      setOfflineMode(true);
+      return getOfflineWord(hourId, wordLength, boardCount, boardIndex, language);
+    }
+    console.error('Error in getHourlyPuzzle:', error);
     throw error;
   }
 }
 
+/**
+ * Get or create the hourly word for a given hour ID
+ * @param hourId - Hour ID in YYYYMMDDHH format
+ * @param wordLength - Word length (defaults to 5)
+ * @param boardCount - Number of boards in the game (defaults to 1)
+ * @param boardIndex - Zero-based board index (defaults to 0)
+ * @param language - Language code (defaults to English)
+ * @returns Promise resolving to the word for that hour
+ */
+export async function getOrCreateHourlyWord(
+  hourId: string,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  boardCount: number = 1,
+  boardIndex: number = 0,
+  language: string = DEFAULT_LANGUAGE
+): Promise<string> {
+  return (await getHourlyPuzzle(hourId, wordLength, boardCount, boardIndex, language)).word;
+}
+
+export interface OfflineWordCheck {
+  documentId: string;
+  // False if the stored word differs from the one played offline
+  matches: boolean;
+}
+
+/**
+ * Check the words computed offline against the word store after reconnecting
+ * Words nobody stored yet are written to the store; a stored word that
+ * differs from the local one (e.g. a client on another seed schedule won
+ * the race) is reported as a mismatch
+ * @returns Promise resolving to one result per checked word (empty while still offline)
+ */
+export async function verifyOfflineWords(): Promise<OfflineWordCheck[]> {
+  const pending = loadPendingWords();
+  if (Object.keys(pending).length === 0 && !isOfflineMode()) {
+    return [];
+  }
+
+  const store = getWordStore();
+  if (!(await checkWordStoreConnection(store.kind))) {
+    return [];
+  }
+  setOfflineMode(false);
+
+  const results: OfflineWordCheck[] = [];
+  for (const [documentId, pendingDoc] of Object.entries(pending)) {
+    try {
+      let storedDoc = await store.get(documentId);
+      if (!storedDoc && await store.createIfAbsent(documentId, pendingDoc)) {
+        storedDoc = pendingDoc;
+      }
+      storedDoc = storedDoc ?? await store.get(documentId);
+      if (!storedDoc) continue;
+
+      const localWord = await decryptWordDocument(pendingDoc, documentId);
+      const matches = storedDoc.hash
+        ? await verifyWordHash(localWord, storedDoc.hash, documentId)
+        : await decryptWordDocument(storedDoc, documentId) === localWord;
+
+      if (!matches) {
+        console.warn(`Word played offline for ${documentId} differs from the stored word`);
+      }
+      removePendingWord(documentId);
+      results.push({ documentId, matches });
+    } catch (error) {
+      if (isStoreUnavailableError(error)) {
+        setOfflineMode(true);
+        break;
+      }
+      console.error(`Failed to verify offline word ${documentId}:`, error);
+    }
+  }
+
+  return results;
+}
+
 /**
  * Get the current hour's word
+ * @param wordLength - Word length (defaults to 5)
  * @returns Promise resolving to current hour's word
  */
-export async function getCurrentHourWord(): Promise<string> {
+export async function getCurrentHourWord(wordLength: number = DEFAULT_WORD_LENGTH): Promise<string> {
   const currentHourId = hourIdUtc();
-  return getOrCreateHourlyWord(currentHourId);
+  return getOrCreateHourlyWord(currentHourId, wordLength);
 }
 
 /**
  * Get word for a specific date/time
+ * Future hours are refused so upcoming answers cannot be looked up early
  * @param date - Date object
+ * @param wordLength - Word length (defaults to 5)
  * @returns Promise resolving to word for that hour
  */
-export async function getWordForDate(date: Date): Promise<string> {
+export async function getWordForDate(date: Date, wordLength: number = DEFAULT_WORD_LENGTH): Promise<string> {
   const hourId = hourIdUtc(date);
-  return getOrCreateHourlyWord(hourId);
+  if (hourId > hourIdUtc()) {
+    throw new Error(`Word for hour ${hourId} is not available yet`);
+  }
+  return getOrCreateHourlyWord(hourId, wordLength);
 }
 
 /**
  * Pre-generate words for future hours (optional utility)
  * @param hoursAhead - Number of hours to pre-generate
+ * @param wordLength - Word length (defaults to 5)
+ * @param language - Language code (defaults to English)
  * @returns Promise resolving to array of generated hour IDs
  */
-export async function preGenerateWords(hoursAhead: number = 24): Promise<string[]> {
+export async function preGenerateWords(
+  hoursAhead: number = 24,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  language: string = DEFAULT_LANGUAGE
+): Promise<string[]> {
   const generatedHours: string[] = [];
   const now = new Date();
 
@@ -181,7 +408,7 @@ export async function preGenerateWords(hoursAhead: number = 24): Promise<string[
     const hourId = hourIdUtc(futureDate);
     
     try {
-      await getOrCreateHourlyWord(hourId);
+      await getOrCreateHourlyWord(hourId, wordLength, 1, 0, language);
       generatedHours.push(hourId);
     } catch (error) {
       console.error(`Failed to pre-generate word for hour ${hourId}:`, error);
@@ -191,6 +418,73 @@ export async function preGenerateWords(hoursAhead: number = 24): Promise<string[
   return generatedHours;
 }
 
+/**
+ * Get where a puzzle is in the non-repeating solution cycle
+ * @param hourId - Hour ID of the puzzle
+ * @param wordLength - Word length (defaults to 5)
+ * @param boardCount - Number of boards in the game (defaults to 1)
+ * @param boardIndex - Zero-based board index (defaults to 0)
+ * @returns Promise resolving to the cycle position, or null if the hour is not on the permutation scheduler
+ */
+export async function getPuzzleCyclePosition(
+  hourId: string,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  boardCount: number = 1,
+  boardIndex: number = 0
+): Promise<CyclePosition | null> {
+  const entry = getSeedScheduleEntry(hourId);
+  if (entry.scheduler !== 'permutation') return null;
+
+  await loadDictionary(wordLength, entry.dictionaryVersion);
+  const options = getSchedulerOptions(entry, wordLength, boardCount);
+  return getCyclePosition(hourId, getSolutionList(wordLength, entry.dictionaryVersion).length, options, boardIndex);
+}
+
+/**
+ * Find the latest hour whose puzzle used a word
+ * Only hours on the permutation scheduler entry in effect at untilHourId are searched
+ * @param word - Word to look up
+ * @param wordLength - Word length (defaults to 5)
+ * @param boardCount - Number of boards in the game (defaults to 1)
+ * @param untilHourId - Latest hour to consider (defaults to the current hour)
+ * @returns Promise resolving to the hour and board, or null if the word was not used
+ */
+export async function findHourForWord(
+  word: string,
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  boardCount: number = 1,
+  untilHourId: string = hourIdUtc()
+): Promise<ScheduledHour | null> {
+  const entry = getSeedScheduleEntry(untilHourId);
+  if (entry.scheduler !== 'permutation') return null;
+
+  await loadDictionary(wordLength, entry.dictionaryVersion);
+  const options = getSchedulerOptions(entry, wordLength, boardCount);
+  return findHourForSolution(getSolutionList(wordLength, entry.dictionaryVersion), word, untilHourId, options);
+}
+
+/**
+ * Fetch the current hour's word so it is still available offline
+ * Only useful with Firestore; cached words older than a day are dropped.
+ * Future hours are never fetched, since their copies could be decrypted early
+ * @param wordLength - Word length (defaults to 5)
+ * @param language - Language code (defaults to English)
+ * @returns Promise resolving to the hour IDs whose words were fetched
+ */
+export async function cacheCurrentWord(
+  wordLength: number = DEFAULT_WORD_LENGTH,
+  language: string = DEFAULT_LANGUAGE
+): Promise<string[]> {
+  if (getWordStore().kind !== 'firestore' || isOfflineMode()) {
+    return [];
+  }
+
+  await pruneWordCache(hourIdUtc(new Date(Date.now() - 24 * 60 * 60 * 1000)));
+  const hourId = hourIdUtc();
+  await getOrCreateHourlyWord(hourId, wordLength, 1, 0, language);
+  return [hourId];
+}
+
 /**
  * Validate that a word document is properly formatted
  * @param doc - Word document to validate
@@ -206,6 +500,25 @@ export function validateWordDocument(doc: WordDocument): boolean {
   // Base64 strings should only contain A-Z, a-z, 0-9, +, /, and = for padding
   if (!/^[A-Za-z0-9+/]+=*$/.test(doc.word)) return false;
   
+  // Cipher version is optional for legacy documents but must be known if present
+  if (doc.cipherVersion !== undefined &&
+      doc.cipherVersion !== LEGACY_CIPHER_VERSION &&
+      doc.cipherVersion !== CURRENT_CIPHER_VERSION) {
+    return false;
+  }
+  
+  if (doc.cipherVersion === CURRENT_CIPHER_VERSION) {
+    // Payload carries a 12-byte IV and 16-byte tag; anything shorter is corrupt
+    if (doc.word.length < 40) return false;
+  } else {
+    // Legacy Caesar payloads decode to a lowercase word of a supported length
+    try {
+      if (!/^[a-z]{4,8}$/.test(atob(doc.word))) return false;
+    } catch {
+      return false;
+    }
+  }
+  
   // Validate ISO date format
   try {
     const date = new Date(doc.createdAt);
@@ -0,0 +1,201 @@
+import type { WordDocument } from '../types/game';
+import {
+  getWordDocument,
+  createWordDocument,
+  wordDocumentExists,
+  listWordDocuments,
+  FirestoreServiceError
+} from './firestoreService';
+import { isFirebaseConfigured } from './firebase';
+
+/**
+ * Storage backends for hourly word documents
+ * Firestore shares words between all players; the in-memory and localStorage
+ * stores let the game run offline, in tests and in self-hosted deployments
+ * without a Firebase project. Every store keeps the create-once semantics:
+ * the first document written for an ID wins and is never overwritten.
+ */
+
+export interface WordStore {
+  /** Name of the backend, for logging */
+  readonly kind: WordStoreKind;
+  /** Get a word document, or null if none was created yet */
+  get(documentId: string): Promise<WordDocument | null>;
+  /** Create a word document unless one exists; resolves to false if another writer won */
+  createIfAbsent(documentId: string, wordDoc: WordDocument): Promise<boolean>;
+  /** Check whether a word document exists */
+  exists(documentId: string): Promise<boolean>;
+  /** List word documents with IDs between startId and endId (inclusive), sorted by ID */
+  listRange(startId: string, endId: string): Promise<Array<{ id: string; doc: WordDocument }>>;
+}
+
+export type WordStoreKind = 'firestore' | 'memory' | 'local';
+
+export const LOCAL_WORD_STORE_PREFIX = 'mintle-word-';
+
+/**
+ * Create a word store backed by the Firestore `words` collection
+ * @returns Firestore word store
+ */
+export function createFirestoreWordStore(): WordStore {
+  return {
+    kind: 'firestore',
+    get: documentId => getWordDocument(documentId),
+    async createIfAbsent(documentId, wordDoc) {
+      try {
+        return await createWordDocument(documentId, wordDoc);
+      } catch (error) {
+        if (error instanceof FirestoreServiceError && error.code === 'already-exists') {
+          return false;
+        }
+        throw error;
+      }
+    },
+    exists: documentId => wordDocumentExists(documentId),
+    listRange: (startId, endId) => listWordDocuments(startId, endId)
+  };
+}
+
+/**
+ * Create a word store that keeps documents in memory (lost on reload)
+ * @returns In-memory word store
+ */
+export function createMemoryWordStore(): WordStore {
+  const documents = new Map<string, WordDocument>();
+
+  return {
+    kind: 'memory',
+    async get(documentId) {
+      return documents.get(documentId) ?? null;
+    },
+    async createIfAbsent(documentId, wordDoc) {
+      // Check and write happen in one synchronous step, so concurrent callers cannot both win
+      if (documents.has(documentId)) return false;
+      documents.set(documentId, { ...wordDoc });
+      return true;
+    },
+    async exists(documentId) {
+      return documents.has(documentId);
+    },
+    async listRange(startId, endId) {
+      return [...documents.entries()]
+        .filter(([id]) => id >= startId && id <= endId)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([id, doc]) => ({ id, doc }));
+    }
+  };
+}
+
+/**
+ * Create a word store that persists documents in localStorage
+ * @param prefix - Storage key prefix of word documents
+ * @returns localStorage word store
+ */
+export function createLocalWordStore(prefix: string = LOCAL_WORD_STORE_PREFIX): WordStore {
+  const read = (documentId: string): WordDocument | null => {
+    try {
+      const saved = localStorage.getItem(`${prefix}${documentId}`);
+      return saved ? JSON.parse(saved) as WordDocument : null;
+    } catch (error) {
+      console.error('Failed to read stored word:', error);
+      return null;
+    }
+  };
+
+  return {
+    kind: 'local',
+    async get(documentId) {
+      return read(documentId);
+    },
+    async createIfAbsent(documentId, wordDoc) {
+      if (read(documentId)) return false;
+      localStorage.setItem(`${prefix}${documentId}`, JSON.stringify(wordDoc));
+      return true;
+    },
+    async exists(documentId) {
+      return read(documentId) !== null;
+    },
+    async listRange(startId, endId) {
+      const results: Array<{ id: string; doc: WordDocument }> = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(prefix)) continue;
+
+        const id = key.slice(prefix.length);
+        const doc = id >= startId && id <= endId ? read(id) : null;
+        if (doc) {
+          results.push({ id, doc });
+        }
+      }
+      return results.sort((a, b) => a.id.localeCompare(b.id));
+    }
+  };
+}
+
+/**
+ * Check if a value names a word store backend
+ * @param kind - Value to check
+ * @returns True if kind is a supported backend
+ */
+export function isWordStoreKind(kind: unknown): kind is WordStoreKind {
+  return kind === 'firestore' || kind === 'memory' || kind === 'local';
+}
+
+/**
+ * Pick the backend from configuration
+ * `VITE_WORD_STORE` selects it explicitly; otherwise Firestore is used when
+ * Firebase is configured and localStorage when it is not
+ * @param configured - Configured backend name (defaults to VITE_WORD_STORE)
+ * @param firebaseAvailable - Whether Firebase is configured
+ * @returns Backend to use
+ */
+export function resolveWordStoreKind(
+  configured: unknown = import.meta.env.VITE_WORD_STORE,
+  firebaseAvailable: boolean = isFirebaseConfigured
+): WordStoreKind {
+  if (isWordStoreKind(configured)) {
+    if (configured === 'firestore' && !firebaseAvailable) {
+      console.warn('VITE_WORD_STORE is "firestore" but Firebase is not configured; using localStorage');
+      return 'local';
+    }
+    return configured;
+  }
+  return firebaseAvailable ? 'firestore' : 'local';
+}
+
+/**
+ * Create a word store of the given kind
+ * @param kind - Backend to create
+ * @returns Word store
+ */
+export function createWordStore(kind: WordStoreKind): WordStore {
+  switch (kind) {
+    case 'firestore':
+      return createFirestoreWordStore();
+    case 'memory':
+      return createMemoryWordStore();
+    case 'local':
+      return createLocalWordStore();
+  }
+}
+
+let activeStore: WordStore | null = null;
+
+/**
+ * Get the configured word store
+ * @returns Shared word store instance
+ */
+export function getWordStore(): WordStore {
+  if (!activeStore) {
+    activeStore = createWordStore(resolveWordStoreKind());
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the word store, e.g. with an in-memory store in tests
+ * @param store - Store to use, or null to go back to the configured one
+ */
+export function setWordStore(store: WordStore | null): void {
+  activeStore = store;
+}
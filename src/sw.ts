@@ -0,0 +1,82 @@
+/**
+ * Service worker
+ * Precaches the built bundle (which includes the word lists) so the game
+ * loads without network. The build replaces the manifest placeholder with
+ * the bundle's file list and a version derived from it (see vite.config.ts).
+ * A new build installs next to the old one and waits until the page asks
+ * it to take over.
+ */
+
+declare const self: ServiceWorkerGlobalScope;
+
+interface PrecacheManifest {
+  version: string;
+  urls: string[];
+}
+
+const manifest: PrecacheManifest = JSON.parse('__PRECACHE_MANIFEST__');
+const CACHE_PREFIX = 'mintle-';
+const CACHE_NAME = `${CACHE_PREFIX}${manifest.version}`;
+const INDEX_URL = new URL('index.html', self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache =>
+      cache.addAll(manifest.urls.map(url => new URL(url, self.registration.scope).href))
+    )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop caches of earlier builds
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+/**
+ * Load a page, falling back to the cached app shell when offline
+ * @param request - Navigation request
+ * @returns Response from the network or the cache
+ */
+async function handleNavigation(request: Request): Promise<Response> {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cached = await caches.match(INDEX_URL);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Serve a precached file, going to the network for anything else
+ * @param request - Same-origin GET request
+ * @returns Cached or fetched response
+ */
+async function handleAsset(request: Request): Promise<Response> {
+  const cached = await caches.match(request);
+  return cached ?? fetch(request);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Firestore, Auth and the evaluator are cross-origin and left to the network
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(request));
+});
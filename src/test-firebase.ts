@@ -1,5 +1,5 @@
 // Simple Firebase connection test
-import { db } from './lib/firebase';
+import { getDb } from './lib/firebase';
 import { doc, getDoc } from 'firebase/firestore';
 
 async function testFirebaseConnection() {
@@ -7,7 +7,7 @@ async function testFirebaseConnection() {
     console.log('Testing Firebase connection...');
     
     // Try to read a non-existent document (should not fail)
-    const testDoc = doc(db, 'test', 'connection');
+    const testDoc = doc(getDb(), 'test', 'connection');
     const docSnap = await getDoc(testDoc);
     
     console.log('✅ Firebase connection successful!');
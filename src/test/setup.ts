@@ -4,18 +4,11 @@ import { vi } from 'vitest';
 
 // Mock Firebase
 vi.mock('../lib/firebase', () => ({
-  db: {}
+  isFirebaseConfigured: true,
+  getDb: () => ({}),
+  getFirebaseAuth: () => ({})
 }));
 
-// Mock crypto.subtle for dictionary hashing
-Object.defineProperty(global, 'crypto', {
-  value: {
-    subtle: {
-      digest: vi.fn().mockResolvedValue(new ArrayBuffer(32))
-    }
-  }
-});
-
 // Mock localStorage
 const localStorageMock = {
   getItem: vi.fn(),
@@ -4,6 +4,10 @@ export interface WordDocument {
   source: 'client';
   dictionaryVersion: string;
   hash?: string;
+  // Absent on documents created before cipher versioning (legacy Caesar scheme)
+  cipherVersion?: number;
+  // Seed schedule entry the word was picked with (absent on older documents)
+  seedVersion?: number;
 }
 
 export interface LetterFeedback {
@@ -11,26 +15,211 @@ export interface LetterFeedback {
   status: 'correct' | 'present' | 'absent';
 }
 
+export type GameMode = 'hourly' | 'practice' | 'archive' | 'custom';
+
+// Modes that can be picked directly; archive games are entered by choosing an
+// hour and custom games by opening a puzzle link
+export type SelectableGameMode = Exclude<GameMode, 'archive' | 'custom'>;
+
+// Hints from weakest to strongest: how many words are left, a letter of the
+// word, a letter in its place, and the guess that narrows the words down most
+export type HintTier = 'count' | 'letter' | 'position' | 'probe';
+
+export type Hint =
+  | { tier: 'count'; candidates: number }
+  | { tier: 'letter'; letter: string }
+  // Position counts from 0
+  | { tier: 'position'; letter: string; position: number }
+  | { tier: 'probe'; word: string; candidates: number };
+
+export interface BoardState {
+  // Feedback for each guess made while the board was unsolved
+  feedback: LetterFeedback[][];
+  // Number of guesses it took to solve the board, or null while unsolved
+  solvedAt: number | null;
+  // Commitment to the board's answer received when the puzzle started
+  commitment: string;
+  // Only set once the evaluator reveals the answer at the end of the game
+  word?: string;
+}
+
 export interface GameState {
-  currentWord: string;
   guesses: string[];
   currentGuess: string;
   gameStatus: 'playing' | 'won' | 'lost';
-  feedback: LetterFeedback[][];
+  // One board per secret word; a single board outside multi-board mode
+  boards: BoardState[];
   hourId: string;
   timeToNextHour: number;
+  hintUsed: boolean;
+  // Strongest hint taken this game
+  hintTier?: HintTier;
+  wordLength: number;
+  // Dictionary pack the puzzle was picked from, once it has started
+  dictionaryVersion?: string;
+  hardMode: boolean;
+  mode: GameMode;
+}
+
+export interface GuessResult {
+  success: boolean;
+  // Why the guess was not accepted
+  error?: string;
+  // Game state after an accepted guess
+  state?: GameState;
 }
 
 export interface GameProgress {
+  // Hour ID, or practice game ID for practice games
   hourId: string;
   guesses: string[];
   gameStatus: string;
   lastPlayed: string;
+  hintUsed?: boolean;
+  hintTier?: HintTier;
+  hardMode?: boolean;
+  // Answers of a practice game (one per board), kept locally so it can be resumed
+  practiceWords?: string[];
+  // Signed evaluator session of each board, so a reload keeps its scored guesses and hints
+  evaluatorSessions?: string[];
+}
+
+export interface GameRecord {
+  // Hour ID, or practice game ID for practice games
+  hourId: string;
+  guesses: string[];
+  outcome: 'won' | 'lost';
+  hintUsed: boolean;
+  // Absent on games played before hint tiers, whose only hint suggested a word
+  hintTier?: HintTier;
+  hardMode?: boolean;
+  completedAt: string;
+}
+
+export interface GameHistory {
+  version: number;
+  records: GameRecord[];
+}
+
+// Firestore collection: users, one document per signed-in player
+export interface UserDocument {
+  // Saved progress keyed by its localStorage key
+  progress: Record<string, GameProgress>;
+  // Game history keyed by its stats bucket's localStorage key
+  history: Record<string, GameHistory>;
+  updatedAt: string;
+}
+
+// Firestore collection: hourStats, aggregated results of everyone who played a puzzle
+export interface HourStats {
+  players: number;
+  wins: number;
+  // Number of wins per guesses-to-solve, keyed by guess count
+  distribution: Record<string, number>;
+  // Number of players per opening guess
+  firstGuesses: Record<string, number>;
+  updatedAt?: string;
+}
+
+export interface GameStatistics {
+  gamesPlayed: number;
+  gamesWon: number;
+  winPercentage: number;
+  currentStreak: number;
+  maxStreak: number;
+  guessDistribution: number[];
+  // Games in which each hint tier was the strongest one taken
+  hintTiers: Record<HintTier, number>;
 }
 
 export interface Dictionary {
   solutions: Set<string>;
+  // Normalized with the language's letter rules
   allowed: Set<string>;
   version: string;
   hash: string;
-}
\ No newline at end of file
+  wordLength: number;
+  language: string;
+}
+
+export interface DictionaryPack {
+  format: number;
+  version: string;
+  // Language code of the words (absent on English packs)
+  language?: string;
+  wordLength: number;
+  description: string;
+  // Version whose lists this pack builds on
+  extends?: string;
+  // SHA-256 of the resolved lists
+  hash: string;
+  // Words removed from the solutions; they stay valid guesses
+  blocklist: string[];
+  solutions: string[];
+  allowed: string[];
+}
+
+export interface LanguagePack {
+  // ISO 639-1 code, e.g. "es"
+  code: string;
+  // Name in the language itself
+  name: string;
+  // Uppercase letters that can be typed
+  alphabet: string;
+  // Letters treated as another letter of the alphabet when comparing, e.g. Á → A
+  letterVariants: Record<string, string>;
+  // Rows of on-screen keys; ENTER and BACKSPACE are action keys
+  keyboard: string[][];
+  wordLengths: readonly number[];
+  // Dictionary pack of the language; English follows the seed schedule instead
+  dictionaryVersion?: string;
+}
+
+// Order of the on-screen letter keys: the language's own keyboard or A to Z
+export type KeyboardLayoutPreference = 'standard' | 'alphabetical';
+
+export type ColorPalette = 'default' | 'high-contrast' | 'deuteranopia' | 'dark';
+
+export interface Settings {
+  // Start new games in hard mode
+  hardMode: boolean;
+  // Tile and key colors, and the matching share squares
+  palette: ColorPalette;
+  // Patterns on correct and present tiles, so status is not shown by color alone
+  tilePatterns: boolean;
+  haptics: boolean;
+  // Turn animations off even when the system does not ask for it
+  reducedMotion: boolean;
+  keyboardLayout: KeyboardLayoutPreference;
+  // Show the on-screen keyboard; physical keys work either way
+  showKeyboard: boolean;
+  swapEnterBackspace: boolean;
+  // List the words that still fit while playing, where the game allows it
+  showCandidates: boolean;
+  // Interface locale, or null to follow the browser
+  locale: string | null;
+}
+
+export interface GameConfig {
+  wordLength: number;
+  maxGuesses: number;
+  mode: GameMode;
+  // Number of secret words guessed simultaneously
+  boardCount: number;
+  // Past hour being replayed in archive mode
+  archiveHourId?: string;
+  // Puzzle opened from a link in custom mode
+  customPuzzle?: CustomPuzzle;
+  // Language code of the words (defaults to English)
+  language?: string;
+}
+
+// A puzzle made by a player for a friend, as carried in its link
+export interface CustomPuzzle {
+  // Random ID, also shown in the shared result
+  id: string;
+  // The word and its dictionary pack, encrypted for this puzzle ID
+  code: string;
+  wordLength: number;
+  language: string;
+}
@@ -1,10 +1,46 @@
 /// <reference types="vitest" />
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const SERVICE_WORKER_FILE = 'sw.js'
+
+// Files in public/ are copied as-is and not part of the bundle
+const PUBLIC_PRECACHE_URLS = ['index.html', 'manifest.webmanifest', 'mintle.svg']
+
+/**
+ * Fill the service worker's precache manifest with the bundle's files
+ * The version is a hash of the hashed file names, so every build that
+ * changes the bundle changes sw.js and is picked up as an update
+ */
+function precacheManifest(): Plugin {
+  return {
+    name: 'mintle-precache-manifest',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const urls = [
+        ...PUBLIC_PRECACHE_URLS,
+        ...Object.keys(bundle).filter(fileName => fileName !== SERVICE_WORKER_FILE && fileName !== 'index.html')
+      ].sort()
+
+      let hash = 0
+      for (const char of urls.join('|')) {
+        hash = (hash * 31 + char.charCodeAt(0)) | 0
+      }
+
+      const worker = bundle[SERVICE_WORKER_FILE]
+      if (worker?.type !== 'chunk') {
+        this.error(`${SERVICE_WORKER_FILE} is missing from the bundle`)
+      }
+      const manifest = JSON.stringify({ version: (hash >>> 0).toString(16), urls })
+      worker.code = worker.code.replace(/(["'`])__PRECACHE_MANIFEST__\1/, JSON.stringify(manifest))
+    }
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   base: '/mintle/',
   test: {
     globals: true,
@@ -13,7 +49,13 @@ export default defineConfig({
   },
   build: {
     rollupOptions: {
+      input: {
+        main: 'index.html',
+        sw: 'src/sw.ts'
+      },
       output: {
+        // The service worker needs a stable URL at the root of its scope
+        entryFileNames: chunk => (chunk.name === 'sw' ? SERVICE_WORKER_FILE : 'assets/[name]-[hash].js'),
         manualChunks: (id) => {
           if (id.includes('node_modules')) {
             if (id.includes('react') || id.includes('react-dom')) {